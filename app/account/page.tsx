@@ -0,0 +1,11 @@
+import { AccountSettings } from '@/components/account/account-settings'
+
+export default function AccountPage() {
+  return (
+    <div className="flex flex-col min-h-screen">
+      <section className="container py-10 md:py-16 flex-1">
+        <AccountSettings />
+      </section>
+    </div>
+  )
+}
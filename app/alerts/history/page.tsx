@@ -0,0 +1,11 @@
+import { AlertHistory } from '@/components/alerts/commute-alerts'
+
+export default function AlertHistoryPage() {
+  return (
+    <div className="flex flex-col min-h-screen">
+      <section className="container py-10 md:py-16 flex-1">
+        <AlertHistory />
+      </section>
+    </div>
+  )
+}
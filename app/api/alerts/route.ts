@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_COMMUTES, sanitizeCommute } from '@/lib/commute-alerts';
+import { deleteCommute, loadAlertHistory, loadCommutes, saveCommute } from '@/lib/commute-alerts-store';
+import { getRequestOwnerKey, isServiceSupabaseConfigured } from '@/lib/supabase-server';
+import { getVapidPublicKey, isWebPushConfigured } from '@/lib/web-push';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const notConfigured = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Commute alerts are not configured',
+  }, { status: 503 });
+
+const invalidUser = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Sign in or send a valid userId',
+  }, { status: 400 });
+
+const isConfigured = () => isServiceSupabaseConfigured() && isWebPushConfigured();
+
+// The VAPID public key browsers subscribe with, plus the commutes and recent alerts of the signed-in user or
+// an anonymous browser code
+export async function GET(request: NextRequest) {
+  if (!isConfigured()) return notConfigured();
+
+  try {
+    const userId = await getRequestOwnerKey(request, request.nextUrl.searchParams.get('userId'));
+    if (!userId) return invalidUser();
+
+    const [commutes, history] = await Promise.all([loadCommutes(userId), loadAlertHistory(userId)]);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { publicKey: getVapidPublicKey(), commutes, history },
+    });
+  } catch (error) {
+    console.error('Commute alerts load error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to load commute alerts',
+    }, { status: 500 });
+  }
+}
+
+// Adds or updates a commute and returns them all
+export async function PUT(request: NextRequest) {
+  if (!isConfigured()) return notConfigured();
+
+  try {
+    const body = await request.json();
+    const userId = await getRequestOwnerKey(request, body?.userId);
+    if (!userId) return invalidUser();
+
+    const commute = sanitizeCommute(body?.commute);
+    if (!commute) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: 'A commute needs a saved journey with lines, at least one day and a start and end time',
+      }, { status: 400 });
+    }
+
+    const existing = await loadCommutes(userId);
+    if (existing.length >= MAX_COMMUTES && !existing.some((item) => item.id === commute.id)) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: `You can have up to ${MAX_COMMUTES} commutes`,
+      }, { status: 400 });
+    }
+
+    await saveCommute(userId, commute);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { commutes: await loadCommutes(userId) },
+    });
+  } catch (error) {
+    console.error('Commute save error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to save commute',
+    }, { status: 500 });
+  }
+}
+
+// Removes the commute `id` and returns the rest
+export async function DELETE(request: NextRequest) {
+  if (!isConfigured()) return notConfigured();
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const userId = await getRequestOwnerKey(request, searchParams.get('userId'));
+    if (!userId) return invalidUser();
+
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: 'Commute id is required',
+      }, { status: 400 });
+    }
+
+    await deleteCommute(userId, id);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { commutes: await loadCommutes(userId) },
+    });
+  } catch (error) {
+    console.error('Commute delete error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to delete commute',
+    }, { status: 500 });
+  }
+}
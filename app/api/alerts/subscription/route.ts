@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deletePushSubscription, savePushSubscription } from '@/lib/commute-alerts-store';
+import { getRequestOwnerKey, isServiceSupabaseConfigured } from '@/lib/supabase-server';
+import { isValidPushSubscription, isWebPushConfigured } from '@/lib/web-push';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const notConfigured = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Commute alerts are not configured',
+  }, { status: 503 });
+
+const invalidUser = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Sign in or send a valid userId',
+  }, { status: 400 });
+
+// Registers a browser's push subscription (PushSubscription#toJSON) to receive the owner's commute alerts
+export async function PUT(request: NextRequest) {
+  if (!isServiceSupabaseConfigured() || !isWebPushConfigured()) return notConfigured();
+
+  try {
+    const body = await request.json();
+    const userId = await getRequestOwnerKey(request, body?.userId);
+    if (!userId) return invalidUser();
+
+    if (!isValidPushSubscription(body?.subscription)) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: 'A push subscription with an https endpoint and p256dh and auth keys is required',
+      }, { status: 400 });
+    }
+
+    await savePushSubscription(userId, body.subscription);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { subscribed: true },
+    });
+  } catch (error) {
+    console.error('Push subscription save error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to save push subscription',
+    }, { status: 500 });
+  }
+}
+
+// Stops alerts to one browser, by its subscription endpoint
+export async function DELETE(request: NextRequest) {
+  if (!isServiceSupabaseConfigured() || !isWebPushConfigured()) return notConfigured();
+
+  try {
+    const body = await request.json();
+    const userId = await getRequestOwnerKey(request, body?.userId);
+    if (!userId) return invalidUser();
+
+    if (typeof body?.endpoint !== 'string' || !body.endpoint) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: 'Subscription endpoint is required',
+      }, { status: 400 });
+    }
+
+    await deletePushSubscription(userId, body.endpoint);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { subscribed: false },
+    });
+  } catch (error) {
+    console.error('Push subscription delete error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to delete push subscription',
+    }, { status: 500 });
+  }
+}
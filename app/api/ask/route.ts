@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { askService, isAskError, type AskRequest } from '@/lib/ask-service';
+import { isJourneyPlannerError } from '@/lib/journey-planner';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<AskRequest> & { query?: string } = await request.json();
+    const naturalLanguageQuery = (body.naturalLanguageQuery ?? body.query ?? '').trim();
+
+    if (!naturalLanguageQuery) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: 'Query is required',
+      }, { status: 400 });
+    }
+
+    const data = await askService.ask({ ...body, naturalLanguageQuery });
+
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data,
+    });
+  } catch (error) {
+    if (isJourneyPlannerError(error)) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: error.message,
+        ...(error.data !== undefined ? { data: error.data } : {}),
+      }, { status: error.status });
+    }
+
+    if (isAskError(error)) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: error.message,
+      }, { status: error.status });
+    }
+
+    console.error('Ask error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to answer question',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { tflResponseCache } from '@/lib/response-cache';
+import type { ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Cache hit/miss counters for this server instance; only exposed in development
+export async function GET() {
+  if (!config.features.enableDebugMode) {
+    return NextResponse.json<ApiResponse>({ status: 'error', error: 'Not found' }, { status: 404 });
+  }
+
+  return NextResponse.json<ApiResponse>({
+    status: 'success',
+    data: {
+      enabled: config.cache.enabled,
+      tfl: tflResponseCache.getMetrics(),
+    },
+  });
+}
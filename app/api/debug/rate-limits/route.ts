@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { getRateLimitUsage } from '@/lib/rate-limiter';
+import type { ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Current token-bucket usage for upstream APIs on this server instance; only exposed in development
+export async function GET() {
+  if (!config.features.enableDebugMode) {
+    return NextResponse.json<ApiResponse>({ status: 'error', error: 'Not found' }, { status: 404 });
+  }
+
+  return NextResponse.json<ApiResponse>({
+    status: 'success',
+    data: {
+      limiters: getRateLimitUsage(),
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { journeyPlanner, isJourneyPlannerError, type JourneyPageRequest } from '@/lib/journey-planner';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Earlier or later journeys for a result already on screen. The body carries the result's resolved `search`, so
+// neither the query nor the places are looked at again.
+export async function POST(request: NextRequest) {
+  try {
+    const body: JourneyPageRequest = await request.json();
+    const data = await journeyPlanner.page(body);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data,
+    });
+  } catch (error) {
+    if (isJourneyPlannerError(error)) {
+      return NextResponse.json<ApiResponse>({
+        status: 'error',
+        error: error.message,
+        ...(error.data !== undefined ? { data: error.data } : {}),
+      }, { status: error.status });
+    }
+
+    console.error('Journey paging error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: error instanceof Error ? error.message : 'Failed to load more journeys',
+    }, { status: 500 });
+  }
+}
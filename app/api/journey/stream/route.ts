@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { askService, isAskError, type AskRequest, type AskStreamEvent } from '@/lib/ask-service';
+import { journeyPlanner, isJourneyPlannerError, type JourneyPlanRequest } from '@/lib/journey-planner';
+import { createNdjsonStream, NDJSON_CONTENT_TYPE } from '@/lib/ndjson';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Same request body as POST /api/journey, answered as NDJSON: one line per planning stage, ending with a `done`
+// line (the /api/ask result) or an `error` line. Natural language queries go through the ask service, so the
+// final result may be a station or status answer instead of a journey, and may carry a `conversation` to follow up.
+export async function POST(request: NextRequest) {
+  let body: JourneyPlanRequest & Pick<AskRequest, 'conversation'>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Request body must be JSON',
+    }, { status: 400 });
+  }
+
+  const naturalLanguageQuery = body.naturalLanguageQuery?.trim();
+
+  const stream = createNdjsonStream<AskStreamEvent>(async (send) => {
+    try {
+      const data = naturalLanguageQuery
+        ? await askService.ask({ ...body, naturalLanguageQuery }, { onStage: send })
+        : { type: 'journey_planning' as const, journey: await journeyPlanner.plan(body, { onStage: send }) };
+
+      send({ stage: 'done', data });
+    } catch (error) {
+      if (isJourneyPlannerError(error)) {
+        send({
+          stage: 'error',
+          error: error.message,
+          status: error.status,
+          ...(error.data !== undefined ? { data: error.data } : {}),
+        });
+        return;
+      }
+
+      if (isAskError(error)) {
+        send({ stage: 'error', error: error.message, status: error.status });
+        return;
+      }
+
+      console.error('Journey stream error:', error);
+      send({
+        stage: 'error',
+        error: error instanceof Error ? error.message : 'Failed to plan journey',
+        status: 500,
+      });
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      // Stop proxies from buffering the stream until it ends
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isServiceSupabaseConfigured } from '@/lib/supabase-server';
+import { loadUserProfile, saveUserProfile } from '@/lib/user-profile-store';
+import { sanitizeUserProfile } from '@/lib/user-profile';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const notConfigured = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Accounts are not configured',
+  }, { status: 503 });
+
+const signedOut = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Sign in to use your profile',
+  }, { status: 401 });
+
+// The signed-in user's profile; `profile` is null until one has been saved
+export async function GET(request: NextRequest) {
+  if (!isServiceSupabaseConfigured()) return notConfigured();
+
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return signedOut();
+
+    const profile = await loadUserProfile(user.id);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { profile },
+    });
+  } catch (error) {
+    console.error('Profile load error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to load profile',
+    }, { status: 500 });
+  }
+}
+
+// Saves the profile unless the stored one changed more recently; returns whichever is kept
+export async function PUT(request: NextRequest) {
+  if (!isServiceSupabaseConfigured()) return notConfigured();
+
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return signedOut();
+
+    const body = await request.json();
+    const profile = await saveUserProfile(user.id, sanitizeUserProfile(body?.profile));
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { profile },
+    });
+  } catch (error) {
+    console.error('Profile save error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to save profile',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSavedJourneys, syncSavedJourneys } from '@/lib/saved-journeys-store';
+import { sanitizeSavedJourneys } from '@/lib/saved-journeys';
+import { getRequestOwnerKey, isServiceSupabaseConfigured } from '@/lib/supabase-server';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const notConfigured = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Saved journey sync is not configured',
+  }, { status: 503 });
+
+const invalidUser = () =>
+  NextResponse.json<ApiResponse>({
+    status: 'error',
+    error: 'Sign in or send a valid userId',
+  }, { status: 400 });
+
+// The synced saved journeys for the signed-in user or a sync code
+export async function GET(request: NextRequest) {
+  if (!isServiceSupabaseConfigured()) return notConfigured();
+
+  try {
+    const userId = await getRequestOwnerKey(request, request.nextUrl.searchParams.get('userId'));
+    if (!userId) return invalidUser();
+
+    const journeys = await loadSavedJourneys(userId);
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { journeys },
+    });
+  } catch (error) {
+    console.error('Saved journeys load error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to load saved journeys',
+    }, { status: 500 });
+  }
+}
+
+// Merges this device's saved journeys into the synced copy and returns the merged list
+export async function PUT(request: NextRequest) {
+  if (!isServiceSupabaseConfigured()) return notConfigured();
+
+  try {
+    const body = await request.json();
+    const userId = await getRequestOwnerKey(request, body?.userId);
+    if (!userId) return invalidUser();
+
+    const journeys = await syncSavedJourneys(userId, sanitizeSavedJourneys(body.journeys));
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: { journeys },
+    });
+  } catch (error) {
+    console.error('Saved journeys sync error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to sync saved journeys',
+    }, { status: 500 });
+  }
+}
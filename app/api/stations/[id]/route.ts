@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadStationDetail } from '@/lib/station-lookup';
+import type { ApiResponse, StationDetail } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  context: { params: { id: string } }
+) {
+  const stopPointId = context.params.id;
+
+  if (!stopPointId) {
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Stop point id is required',
+    }, { status: 400 });
+  }
+
+  try {
+    const data = await loadStationDetail(stopPointId);
+
+    return NextResponse.json<ApiResponse<StationDetail>>({ status: 'success', data });
+  } catch (error) {
+    console.error('Station detail API error:', error);
+    const status = (error as { status?: number })?.status === 404 ? 404 : 500;
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: status === 404 ? 'Station not found' : error instanceof Error ? error.message : 'Failed to fetch station',
+    }, { status });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cronAuthError } from '@/lib/cron-auth';
+import { refreshStopCatalogue } from '@/lib/stop-catalogue';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const authError = cronAuthError(request);
+  if (authError) return authError;
+
+  try {
+    const result = await refreshStopCatalogue();
+    return NextResponse.json({ status: 'success', data: result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to refresh stop catalogue';
+    return NextResponse.json({ status: 'error', error: message }, { status: 500 });
+  }
+}
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { tflClient } from '@/lib/tfl-client';
 import { rankStopPoints, sortLinesNaturally } from '@/lib/search-ranking';
+import { catalogueStopToStopPoint, isConfidentMatch, stopCatalogue } from '@/lib/stop-catalogue';
 import type { ApiResponse } from '@/types';
+import type { StopPoint } from '@/types/tfl';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
@@ -20,11 +22,32 @@ export async function GET(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Search for stations
-    const stations = await tflClient.searchStopPoints(query, modes);
+    // Search the local catalogue first. When it has no match, is not loaded or only has typo-tolerant guesses,
+    // ask TfL too and list its results ahead of the guesses.
+    const matches = (await stopCatalogue.ensureLoaded()) ? stopCatalogue.search(query, { modes, limit }) : [];
+    const catalogueStations = matches.map(match => catalogueStopToStopPoint(match.stop));
 
-    // Sort by relevance and limit results
-    const sortedStations = rankStopPoints(stations, query).slice(0, limit);
+    let source: 'catalogue' | 'tfl' | 'mixed' = 'catalogue';
+    let sortedStations = catalogueStations;
+
+    if (!isConfidentMatch(matches[0])) {
+      let tflStations: StopPoint[] = [];
+      try {
+        // Sort by relevance and limit results
+        tflStations = rankStopPoints(await tflClient.searchStopPoints(query, modes), query).slice(0, limit);
+      } catch (error) {
+        // The catalogue's guesses are still an answer
+        if (catalogueStations.length === 0) throw error;
+        console.warn('TfL station search failed, answering from the catalogue:', error);
+      }
+
+      if (tflStations.length > 0) {
+        const seen = new Set(tflStations.map(station => station.naptanId || station.id));
+        const extraGuesses = catalogueStations.filter(station => !seen.has(station.id));
+        source = extraGuesses.length > 0 ? 'mixed' : 'tfl';
+        sortedStations = [...tflStations, ...extraGuesses].slice(0, limit);
+      }
+    }
 
     // Format the results
     const formattedStations = sortedStations.map(station => ({
@@ -47,6 +70,7 @@ export async function GET(request: NextRequest) {
         query,
         results: formattedStations,
         total: formattedStations.length,
+        source,
       },
     });
 
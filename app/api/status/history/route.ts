@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildLineTimelines, DEFAULT_HISTORY_HOURS, MAX_HISTORY_HOURS } from '@/lib/status-history';
+import { loadStatusChanges } from '@/lib/status-history-store';
+import { isServiceSupabaseConfigured } from '@/lib/supabase-server';
+import type { ApiResponse } from '@/types';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Status changes per line over the last `hours` (24 by default), e.g.
+// "Central: Good Service → Severe Delays at 08:14, resolved 09:02". Filter with `lines` and `mode`.
+export async function GET(request: NextRequest) {
+  if (!isServiceSupabaseConfigured()) {
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Status history is not configured',
+    }, { status: 503 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const hoursParam = Number(searchParams.get('hours') ?? DEFAULT_HISTORY_HOURS);
+    const hours = Number.isFinite(hoursParam) && hoursParam > 0
+      ? Math.min(hoursParam, MAX_HISTORY_HOURS)
+      : DEFAULT_HISTORY_HOURS;
+    const modes = searchParams.get('mode')?.split(',').filter(Boolean);
+    const lines = searchParams.get('lines')?.split(',').filter(Boolean).map((line) => line.toLowerCase());
+
+    const now = new Date();
+    const since = new Date(now.getTime() - hours * 60 * 60 * 1000);
+    const changes = await loadStatusChanges(since, lines);
+
+    const modeSet = modes && modes.length > 0 ? new Set(modes) : null;
+    const timelines = buildLineTimelines(modeSet ? changes.filter((change) => modeSet.has(change.modeName)) : changes);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'success',
+      data: {
+        since: since.toISOString(),
+        until: now.toISOString(),
+        lines: timelines,
+      },
+    });
+  } catch (error) {
+    console.error('Status history error:', error);
+
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: 'Failed to load status history',
+    }, { status: 500 });
+  }
+}
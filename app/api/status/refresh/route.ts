@@ -1,16 +1,48 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+import { cronAuthError } from '@/lib/cron-auth';
+import { sendCommuteAlerts, type CommuteAlertRun } from '@/lib/commute-alerts-store';
 import { refreshStatusSnapshot } from '@/lib/service-status-snapshots';
+import { pruneStatusHistory, type StatusHistoryPruneResult } from '@/lib/status-history-store';
+import { isWebPushConfigured } from '@/lib/web-push';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  // Deployments from before CRON_SECRET keep refreshing until they set one
+  const authError = cronAuthError(request, config.cron.secret, { allowWithoutSecret: true });
+  if (authError) return authError;
+
   try {
     const snapshot = await refreshStatusSnapshot({ source: 'autofetch', useAutofetchKeys: true });
-    return NextResponse.json({ status: 'success', data: { validAt: snapshot.valid_at } });
+
+    // Commute alerts ride on the scheduled refresh; a failure there must not fail the refresh itself
+    let alerts: CommuteAlertRun | undefined;
+    if (isWebPushConfigured()) {
+      try {
+        alerts = await sendCommuteAlerts(snapshot);
+      } catch (error) {
+        console.error('Commute alerts error:', error);
+      }
+    }
+
+    // Old snapshots and changes are pruned by refreshes in the first minute of each hour
+    let pruned: StatusHistoryPruneResult | undefined;
+    const validAt = new Date(snapshot.valid_at);
+    if (validAt.getUTCMinutes() === 0) {
+      try {
+        pruned = await pruneStatusHistory(validAt);
+      } catch (error) {
+        console.error('Status history prune error:', error);
+      }
+    }
+
+    return NextResponse.json({
+      status: 'success',
+      data: { validAt: snapshot.valid_at, ...(alerts ? { alerts } : {}), ...(pruned ? { pruned } : {}) },
+    });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to refresh status';
     return NextResponse.json({ status: 'error', error: message }, { status: 500 });
   }
 }
-
-
@@ -1,12 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { tflClient } from '@/lib/tfl-client';
-import { getServiceSupabase } from '@/lib/supabase-server';
-import {
-  getLatestStatusSnapshot,
-  isSnapshotFresh,
-  refreshStatusSnapshot,
-  type StatusSnapshot,
-} from '@/lib/service-status-snapshots';
+import { getCurrentLineStatuses } from '@/lib/service-status-snapshots';
+import { findQueryMatches } from '@/lib/status-matching';
 import { aiClient } from '@/lib/ai-client';
 import type { ApiResponse } from '@/types';
 import type { LineStatus, Prediction } from '@/types/tfl';
@@ -14,101 +9,6 @@ import type { LineStatus, Prediction } from '@/types/tfl';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-const STOP_WORDS = ['status', 'line', 'lines', 'service', 'services', 'tube', 'train', 'bus', 'dlr', 'overground'];
-
-const cleanQuerySegment = (segment: string): string => {
-  let cleaned = segment.toLowerCase();
-
-  STOP_WORDS.forEach((word) => {
-    cleaned = cleaned.replace(new RegExp(`\\b${word}\\b`, 'g'), ' ');
-  });
-
-  cleaned = cleaned.replace(/[^a-z0-9&\s-]/g, ' ');
-  return cleaned.replace(/\s+/g, ' ').trim();
-};
-
-const buildLineKeys = (line: LineStatus) => {
-  const id = line.id.toLowerCase();
-  const name = line.name.toLowerCase();
-  const nameNoLine = name.replace(/ line$/, '');
-  const normalizedId = id.replace(/[^a-z0-9]/g, '');
-  const normalizedName = name.replace(/[^a-z0-9]/g, '');
-  const normalizedNoLine = nameNoLine.replace(/[^a-z0-9]/g, '');
-
-  return {
-    id,
-    name,
-    nameNoLine,
-    normalizedId,
-    normalizedName,
-    normalizedNoLine,
-  };
-};
-
-const evaluateMatch = (line: LineStatus, segment: string) => {
-  const keys = buildLineKeys(line);
-  const base = segment;
-  const noLine = segment.replace(/ line$/, '');
-  const normalized = segment.replace(/[^a-z0-9]/g, '');
-  const normalizedNoLine = noLine.replace(/[^a-z0-9]/g, '');
-
-  const exact =
-    base === keys.name ||
-    base === keys.id ||
-    noLine === keys.name ||
-    noLine === keys.nameNoLine ||
-    normalized === keys.normalizedName ||
-    normalized === keys.normalizedId ||
-    normalizedNoLine === keys.normalizedNoLine;
-
-  const partial =
-    !exact &&
-    (keys.name.includes(base) ||
-      keys.name.includes(noLine) ||
-      keys.id.includes(base) ||
-      keys.normalizedName.includes(normalized) ||
-      keys.normalizedId.includes(normalized));
-
-  return { exact, partial };
-};
-
-const findQueryMatches = (lines: LineStatus[], query: string) => {
-  const normalizedQuery = query.toLowerCase();
-
-  const segments = normalizedQuery
-    .split(/,|&|\/|\band\b/)
-    .map((part) => cleanQuerySegment(part))
-    .filter(Boolean);
-
-  const searchSegments = segments.length > 0 ? segments : [cleanQuerySegment(normalizedQuery)];
-
-  const exactMatches: LineStatus[] = [];
-  const partialMatches: LineStatus[] = [];
-  const seenExact = new Set<string>();
-  const seenPartial = new Set<string>();
-
-  searchSegments.forEach((segment) => {
-    lines.forEach((line) => {
-      if (seenExact.has(line.id)) {
-        return;
-      }
-
-      const { exact, partial } = evaluateMatch(line, segment);
-
-      if (exact && !seenExact.has(line.id)) {
-        exactMatches.push(line);
-        seenExact.add(line.id);
-        seenPartial.delete(line.id);
-      } else if (partial && !seenExact.has(line.id) && !seenPartial.has(line.id)) {
-        partialMatches.push(line);
-        seenPartial.add(line.id);
-      }
-    });
-  });
-
-  return { exactMatches, partialMatches };
-};
-
 const chunkArray = <T,>(items: T[], size: number): T[][] => {
   const chunks: T[][] = [];
 
@@ -126,47 +26,8 @@ export async function GET(request: NextRequest) {
     const lines = searchParams.get('lines')?.split(',').filter(Boolean);
     const query = searchParams.get('q'); // Natural language query
 
-    const supabase = getServiceSupabase();
-    const maxSnapshotAgeMs = 2 * 60 * 1000;
-
-    let snapshot: StatusSnapshot | null = null;
-    try {
-      snapshot = await getLatestStatusSnapshot(supabase);
-    } catch (error) {
-      console.error('Failed to read status snapshot:', error);
-    }
-
-    let allLineStatuses: LineStatus[];
+    const allLineStatuses = await getCurrentLineStatuses();
 
-    if (isSnapshotFresh(snapshot, maxSnapshotAgeMs)) {
-      allLineStatuses = (snapshot as StatusSnapshot).payload;
-    } else {
-      try {
-        await refreshStatusSnapshot({
-          supabaseClient: supabase,
-          source: 'manual-refresh',
-          useAutofetchKeys: true,
-        });
-        snapshot = await getLatestStatusSnapshot(supabase);
-      } catch (error) {
-        console.error('Status snapshot refresh error:', error);
-      }
-
-      if (isSnapshotFresh(snapshot, maxSnapshotAgeMs)) {
-        allLineStatuses = (snapshot as StatusSnapshot).payload;
-      } else {
-        allLineStatuses = await tflClient.getLineStatus();
-        try {
-          await supabase.from('service_status_snapshots').insert({
-            payload: allLineStatuses,
-            source: 'live',
-            valid_at: new Date().toISOString(),
-          });
-        } catch (error) {
-          console.error('Failed to persist live status snapshot:', error);
-        }
-      }
-    }
     const modeSet = modes && modes.length > 0 ? new Set(modes) : null;
     const lineSet = lines && lines.length > 0 ? new Set(lines.map((line) => line.toLowerCase())) : null;
 
@@ -2,14 +2,15 @@
 
 import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
-import { MapPin, Navigation, Clock, ChevronDown, ChevronUp, ExternalLink, Train, Bus as BusIcon, TramFront, Ship, Footprints, Zap, Search, RefreshCw } from 'lucide-react';
+import Link from 'next/link';
+import { MapPin, Navigation, Clock, ChevronDown, ChevronUp, ExternalLink, Info, Search, RefreshCw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { useGeolocation } from '@/hooks/useGeolocation';
-import { getLineColor, getModeColor, getLineShortLabel } from '@/lib/line-colors';
-import { TflBadge } from '@/components/branding/tfl-badge';
 import { Input } from '@/components/ui/input';
 import { ModeFilter } from '@/components/status/mode-filter';
+import { ArrivalsBoard, type GroupedArrivals } from '@/components/stations/arrivals-board';
+import { LineBadge, ModeBadge } from '@/components/stations/station-badges';
 import {
   ALL_MODE_OPTION,
   MODE_KEYS,
@@ -31,30 +32,9 @@ type NearbyStation = {
   lines: Array<{ id: string; name: string }>;
 };
 
-type GroupedArrivals = Array<{
-  key: string;
-  lineName: string;
-  platformName: string;
-  direction?: string;
-  modeName?: string;
-  arrivals: Array<{
-    id: string;
-    destinationName: string;
-    expectedArrival: string;
-    timeToStation: number;
-    currentLocation?: string;
-  }>;
-}>;
-
 const DEFAULT_RADIUS = 3000;
 const PAGE_SIZE = 10;
 
-function formatEta(seconds: number): string {
-  if (seconds < 30) return 'due';
-  const mins = Math.round(seconds / 60);
-  return `${mins} min`;
-}
-
 function googleWalkingUrl(originLat: number, originLon: number, destLat: number, destLon: number): string {
   const base = 'https://www.google.com/maps/dir/?api=1';
   const params = new URLSearchParams({
@@ -423,16 +403,24 @@ export default function NextAvailablePage() {
                             <Clock className="h-4 w-4" />
                             Upcoming services
                           </div>
-                          {gmaps && (
-                            <a
-                              href={gmaps}
-                              target="_blank"
-                              rel="noopener noreferrer"
+                          <div className="flex items-center gap-3">
+                            <Link
+                              href={`/stations/${encodeURIComponent(s.id)}`}
                               className="text-sm inline-flex items-center gap-1 text-blue-600 hover:underline"
                             >
-                              Walk directions <ExternalLink className="h-3.5 w-3.5" />
-                            </a>
-                          )}
+                              Station details <Info className="h-3.5 w-3.5" />
+                            </Link>
+                            {gmaps && (
+                              <a
+                                href={gmaps}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-sm inline-flex items-center gap-1 text-blue-600 hover:underline"
+                              >
+                                Walk directions <ExternalLink className="h-3.5 w-3.5" />
+                              </a>
+                            )}
+                          </div>
                         </div>
 
                         {arrivalsLoading[s.id] && (
@@ -442,32 +430,9 @@ export default function NextAvailablePage() {
                           <div className="text-sm text-destructive">{arrivalsError[s.id]}</div>
                         )}
 
-                        {!arrivalsLoading[s.id] && !arrivalsError[s.id] && (arrivalsByStation[s.id]?.length ? (
-                          <div className="space-y-4">
-                            {arrivalsByStation[s.id].map((g) => {
-                              const color = getLineColor(g.lineName, g.modeName);
-                              return (
-                                <div key={g.key} className="rounded-md border p-3" style={{ borderColor: `${color.background}33` }}>
-                                  <div className="mb-2 flex items-center gap-2 text-sm font-semibold" style={{ color: color.text }}>
-                                    <TflBadge mode={g.modeName} lineIdOrName={g.lineName} size={22} />
-                                    <LineBadge idOrName={g.lineName} name={g.lineName} />
-                                    <span className="text-gray-700 font-normal">— {g.platformName}{g.direction ? ` (${g.direction.toLowerCase()})` : ''}</span>
-                                  </div>
-                                  <ul className="space-y-1.5">
-                                    {g.arrivals.slice(0, 6).map((a) => (
-                                      <li key={a.id} className="flex items-center justify-between text-sm">
-                                        <span className="truncate pr-3 text-gray-800">{a.destinationName}</span>
-                                        <span className="tabular-nums text-gray-900 font-medium">{formatEta(a.timeToStation)}</span>
-                                      </li>
-                                    ))}
-                                  </ul>
-                                </div>
-                              );
-                            })}
-                          </div>
-                        ) : (
-                          <div className="text-sm text-muted-foreground">No upcoming services found.</div>
-                        ))}
+                        {!arrivalsLoading[s.id] && !arrivalsError[s.id] && arrivalsByStation[s.id] && (
+                          <ArrivalsBoard groups={arrivalsByStation[s.id]} />
+                        )}
                       </div>
                     )}
                   </CardContent>
@@ -487,43 +452,3 @@ export default function NextAvailablePage() {
     </div>
   );
 }
-
-function ModeBadge({ mode }: { mode: string }) {
-  const color = getModeColor(mode);
-  const iconClass = "h-3.5 w-3.5";
-  const Icon = (() => {
-    const m = mode.toLowerCase();
-    if (m === 'bus') return BusIcon;
-    if (m === 'tram') return TramFront;
-    if (m === 'river-bus' || m === 'river' || m === 'waterbus') return Ship;
-    if (m === 'cable-car') return Zap;
-    if (m === 'walking') return Footprints;
-    // tube, dlr, overground, others
-    return Train;
-  })();
-  return (
-    <span
-      className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs shadow-sm border"
-      style={{ background: `${color.background}0D`, color: color.background, borderColor: `${color.background}33` }}
-    >
-      <Icon className={iconClass} />
-      {mode}
-    </span>
-  );
-}
-
-function LineBadge({ idOrName, name }: { idOrName: string; name: string }) {
-  const color = getLineColor(idOrName || name);
-  const label = getLineShortLabel(idOrName, name);
-  return (
-    <span
-      className="inline-flex items-center rounded-full px-2 py-0.5 whitespace-nowrap max-w-[140px] truncate"
-      style={{ background: color.background, color: color.text }}
-      title={name}
-    >
-      {label}
-    </span>
-  );
-}
-
-
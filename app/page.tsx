@@ -1,6 +1,7 @@
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { SavedJourneysList } from '@/components/journey/saved-journeys'
 import { ArrowRight, Github, Mic, Route, ShieldCheck, Sparkles, Clock } from 'lucide-react'
 
 export default function HomePage() {
@@ -84,6 +85,11 @@ export default function HomePage() {
         </div>
       </section>
 
+      {/* Saved journeys, once the traveller has starred some */}
+      <div className="container">
+        <SavedJourneysList className="mx-auto mt-12 max-w-4xl" />
+      </div>
+
       {/* Quick Start Tiles */}
       <section className="container py-12 md:py-16">
         <div className="mx-auto max-w-6xl">
@@ -0,0 +1,15 @@
+import { StationDetail } from '@/components/stations/station-detail';
+
+interface StationPageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default function StationPage({ params }: StationPageProps) {
+  return (
+    <div className="container py-8 md:py-12">
+      <StationDetail stationId={decodeURIComponent(params.id)} />
+    </div>
+  );
+}
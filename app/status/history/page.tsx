@@ -0,0 +1,9 @@
+import { StatusHistory } from '@/components/status/status-history';
+
+export default function StatusHistoryPage() {
+  return (
+    <div className="container py-8 md:py-12">
+      <StatusHistory />
+    </div>
+  );
+}
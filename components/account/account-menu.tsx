@@ -0,0 +1,29 @@
+"use client";
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { UserRound } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useUserProfile } from './user-profile-provider';
+
+// Header link to the account page: the signed-in email, or an invitation to sign in
+export function AccountMenu() {
+  const pathname = usePathname();
+  const { user, authStatus } = useUserProfile();
+  const active = pathname.startsWith('/account');
+  const label = authStatus === 'signed-in' ? user?.email || 'Account' : authStatus === 'unavailable' ? 'Preferences' : 'Sign in';
+
+  return (
+    <Link
+      href="/account"
+      className={cn(
+        "flex items-center gap-2 rounded-xl px-3 py-2 text-sm font-medium transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 md:text-base",
+        active ? "bg-blue-50 text-blue-600" : "text-gray-600 hover:bg-gray-50 hover:text-gray-900"
+      )}
+      aria-label={authStatus === 'signed-in' ? `Account for ${label}` : label}
+    >
+      <UserRound className="h-5 w-5" aria-hidden="true" />
+      <span className="hidden max-w-[12rem] truncate lg:inline">{label}</span>
+    </Link>
+  );
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import { useState } from 'react';
+import { Crosshair, Github, Loader2, LogOut, Mail, MapPin, Trash2, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { FareProfileSelect } from '@/components/journey/fare-breakdown';
+import { StationSelector } from '@/components/journey/station-selector';
+import { geolocationService } from '@/lib/geolocation';
+import { modeConfig, type ModeKey } from '@/lib/mode-config';
+import { findNamedPlace, MAX_NAMED_PLACES, removeNamedPlace, upsertNamedPlace } from '@/lib/named-places';
+import { PROFILE_ACCESSIBILITY, PROFILE_MODES } from '@/lib/user-profile';
+import type { AccessibilityOption, JourneyPreferences, NamedPlace, TransportMode } from '@/types';
+import { useUserProfile, type OAuthProvider } from './user-profile-provider';
+
+const MODE_LABELS: Partial<Record<TransportMode, string>> = {
+  'national-rail': 'National Rail',
+  walking: 'Walking',
+};
+
+const ACCESSIBILITY_LABELS: Record<AccessibilityOption, string> = {
+  'step-free-platform': 'Step-free to the platform',
+  'step-free-vehicle': 'Step-free to the train',
+  wheelchair: 'Wheelchair',
+  'audio-announcements': 'Audio announcements',
+  'visual-displays': 'Visual displays',
+};
+
+const WALKING_SPEED_LABELS: Record<NonNullable<JourneyPreferences['walkingSpeed']>, string> = {
+  slow: 'Slow',
+  average: 'Average',
+  fast: 'Fast',
+};
+
+// Offered as one-tap labels until the traveller has used them
+const SUGGESTED_LABELS = ['Home', 'Work', 'Gym'];
+
+const modeLabel = (mode: TransportMode) => MODE_LABELS[mode] || modeConfig[mode as ModeKey]?.label || mode;
+
+const toggle = <T,>(items: T[], item: T): T[] =>
+  items.includes(item) ? items.filter((existing) => existing !== item) : [...items, item];
+
+function SignInCard() {
+  const { user, authStatus, signInWithEmail, signInWithProvider, signOut } = useUserProfile();
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const failed = (error: unknown) =>
+    toast({
+      title: 'Could not sign in',
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: 'destructive',
+    });
+
+  const sendLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+    setSending(true);
+    try {
+      await signInWithEmail(address);
+      setSentTo(address);
+    } catch (error) {
+      failed(error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const continueWith = (provider: OAuthProvider) => signInWithProvider(provider).catch(failed);
+
+  if (authStatus === 'unavailable') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><UserRound className="h-5 w-5" aria-hidden="true" /> Account</CardTitle>
+          <CardDescription>Accounts are not set up on this server, so your preferences are kept in this browser.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (authStatus === 'signed-in') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><UserRound className="h-5 w-5" aria-hidden="true" /> Account</CardTitle>
+          <CardDescription>
+            Signed in as <span className="font-medium text-foreground">{user?.email || 'you'}</span>. Your preferences and saved journeys follow you to any device you sign in on.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={() => signOut().catch(failed)}>
+            <LogOut className="mr-2 h-4 w-4" aria-hidden="true" />
+            Sign out
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><UserRound className="h-5 w-5" aria-hidden="true" /> Sign in</CardTitle>
+        <CardDescription>Keep your preferences and saved journeys on every device. Without an account they stay in this browser.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sentTo ? (
+          <p className="text-sm" role="status">We sent a sign-in link to <span className="font-medium">{sentTo}</span>. Open it on this device to finish.</p>
+        ) : (
+          <form onSubmit={sendLink} className="flex flex-wrap gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              aria-label="Email address"
+              className="h-11 flex-1 min-w-[14rem]"
+              required
+            />
+            <Button type="submit" className="h-11" disabled={sending || authStatus === 'loading'}>
+              {sending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" /> : <Mail className="mr-2 h-4 w-4" aria-hidden="true" />}
+              Email me a link
+            </Button>
+          </form>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => continueWith('google')} disabled={authStatus === 'loading'}>
+            Continue with Google
+          </Button>
+          <Button variant="outline" onClick={() => continueWith('github')} disabled={authStatus === 'loading'}>
+            <Github className="mr-2 h-4 w-4" aria-hidden="true" />
+            Continue with GitHub
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PreferencesCard() {
+  const { profile, updateProfile } = useUserProfile();
+  const preferences = profile.preferences;
+  const modes = preferences.modes || [];
+  const accessibility = preferences.accessibility || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Journey preferences</CardTitle>
+        <CardDescription>Used for every search unless your request says otherwise.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-semibold">Ways to travel</legend>
+          <div className="flex flex-wrap gap-2">
+            {PROFILE_MODES.map((mode) => {
+              const selected = modes.includes(mode);
+              return (
+                <button
+                  key={mode}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => {
+                    const next = toggle(modes, mode);
+                    if (next.length > 0) updateProfile({ preferences: { ...preferences, modes: next } });
+                  }}
+                  className={
+                    selected
+                      ? 'rounded-full border border-tfl-blue bg-tfl-blue px-3 py-1 text-sm text-white'
+                      : 'rounded-full border px-3 py-1 text-sm text-muted-foreground hover:text-foreground'
+                  }
+                >
+                  {modeLabel(mode)}
+                </button>
+              );
+            })}
+          </div>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-semibold">Accessibility needs</legend>
+          {PROFILE_ACCESSIBILITY.map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={accessibility.includes(option)}
+                onChange={() => updateProfile({ preferences: { ...preferences, accessibility: toggle(accessibility, option) } })}
+              />
+              {ACCESSIBILITY_LABELS[option]}
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="space-y-1 text-sm">
+            <span className="font-semibold">Walking speed</span>
+            <select
+              className="block h-10 w-full rounded-md border border-input bg-background px-2"
+              value={preferences.walkingSpeed || ''}
+              onChange={(e) => updateProfile({
+                preferences: {
+                  ...preferences,
+                  walkingSpeed: (e.target.value || undefined) as JourneyPreferences['walkingSpeed'],
+                },
+              })}
+            >
+              <option value="">TfL default</option>
+              {Object.entries(WALKING_SPEED_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-semibold">Longest walk (minutes)</span>
+            <Input
+              type="number"
+              min={1}
+              max={120}
+              value={preferences.maxWalkingMinutes ?? ''}
+              placeholder="No limit"
+              onChange={(e) => updateProfile({
+                preferences: { ...preferences, maxWalkingMinutes: e.target.value ? Number(e.target.value) : undefined },
+              })}
+            />
+          </label>
+        </div>
+
+        <FareProfileSelect profile={profile.fareProfile} onChange={(fareProfile) => updateProfile({ fareProfile })} />
+      </CardContent>
+    </Card>
+  );
+}
+
+// Labelled places ("home", "work") that queries can name. A place picked from the station list or pinned to where
+// the traveller stands is used as is; a typed address is searched for at planning time.
+function NamedPlacesCard() {
+  const { profile, updateProfile } = useUserProfile();
+  const { toast } = useToast();
+  const [label, setLabel] = useState('');
+  const [name, setName] = useState('');
+  const [pinned, setPinned] = useState<Pick<NamedPlace, 'location' | 'stopPointId'>>({});
+  const [locating, setLocating] = useState(false);
+
+  const places = profile.places;
+  const replacing = label.trim() ? findNamedPlace(places, label) : undefined;
+  const suggestions = SUGGESTED_LABELS.filter((suggestion) => !findNamedPlace(places, suggestion));
+
+  const pinHere = async () => {
+    setLocating(true);
+    try {
+      const position = await geolocationService.getCurrentPosition({ enableHighAccuracy: true });
+      setPinned({ location: `${position.latitude.toFixed(5)},${position.longitude.toFixed(5)}` });
+      if (!name.trim()) setName('Pinned location');
+    } catch (error) {
+      toast({
+        title: 'Could not find your location',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const addPlace = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim() || !name.trim()) return;
+    updateProfile({ places: upsertNamedPlace(places, { label: label.trim(), name: name.trim(), ...pinned }) });
+    setLabel('');
+    setName('');
+    setPinned({});
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><MapPin className="h-5 w-5" aria-hidden="true" /> Your places</CardTitle>
+        <CardDescription>Name places once, then ask for journeys like &quot;home to work&quot; or &quot;to the gym via Bank&quot;.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {places.length > 0 && (
+          <ul className="divide-y rounded-lg border">
+            {places.map((place) => (
+              <li key={place.label} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <span className="min-w-0">
+                  <span className="font-semibold">{place.label}</span>
+                  <span className="block truncate text-muted-foreground">
+                    {place.name}
+                    {place.location ? ' · pinned' : ' · searched when you plan'}
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateProfile({ places: removeNamedPlace(places, place.label) })}
+                  aria-label={`Remove ${place.label}`}
+                >
+                  <Trash2 className="h-4 w-4" aria-hidden="true" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {places.length < MAX_NAMED_PLACES || replacing ? (
+          <form onSubmit={addPlace} className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Label, e.g. Home"
+                aria-label="Place label"
+                className="h-11 w-40"
+                maxLength={40}
+              />
+              {suggestions.map((suggestion) => (
+                <button
+                  key={suggestion}
+                  type="button"
+                  onClick={() => setLabel(suggestion)}
+                  className="rounded-full bg-muted px-3 py-1 text-sm text-muted-foreground hover:text-foreground"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+            <StationSelector
+              value={name}
+              onChange={(value, station) => {
+                setName(value);
+                setPinned(station && typeof station.lat === 'number' && typeof station.lon === 'number'
+                  ? { location: `${station.lat},${station.lon}`, stopPointId: station.naptanId || station.id }
+                  : {});
+              }}
+              placeholder="A station, or type an address"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button type="submit" disabled={!label.trim() || !name.trim()}>
+                {replacing ? `Update ${replacing.label}` : 'Add place'}
+              </Button>
+              <Button type="button" variant="outline" onClick={pinHere} disabled={locating}>
+                {locating
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                  : <Crosshair className="mr-2 h-4 w-4" aria-hidden="true" />}
+                Use where I am now
+              </Button>
+              {pinned.location && <span className="text-xs text-muted-foreground">Pinned to {pinned.location}</span>}
+            </div>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">You can keep up to {MAX_NAMED_PLACES} places. Remove one to add another.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Sign-in and the traveller's profile, on /account
+export function AccountSettings() {
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-6">
+      <SignInCard />
+      <PreferencesCard />
+      <NamedPlacesCard />
+    </div>
+  );
+}
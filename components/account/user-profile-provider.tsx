@@ -0,0 +1,178 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { getAccessToken, getBrowserSupabase } from '@/lib/supabase-browser';
+import { DEFAULT_USER_PROFILE, sanitizeUserProfile, type UserProfile } from '@/lib/user-profile';
+
+const USER_PROFILE_KEY = 'spitro-user-profile';
+// Where the fare profile was kept before it joined the user profile
+const LEGACY_FARE_PROFILE_KEY = 'spitro-fare-profile';
+
+export type AuthStatus = 'unavailable' | 'loading' | 'signed-out' | 'signed-in';
+export type OAuthProvider = 'google' | 'github';
+
+export type ProfilePatch = Partial<Omit<UserProfile, 'updatedAt'>>;
+
+interface UserProfileContextValue {
+  user: User | null;
+  authStatus: AuthStatus;
+  profile: UserProfile;
+  updateProfile: (patch: ProfilePatch) => void;
+  // Both reject with the Supabase error; a magic link resolves once the email is on its way
+  signInWithEmail: (email: string) => Promise<void>;
+  signInWithProvider: (provider: OAuthProvider) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const UserProfileContext = createContext<UserProfileContextValue | null>(null);
+
+const readStoredProfile = (): UserProfile => {
+  try {
+    const stored = window.localStorage.getItem(USER_PROFILE_KEY);
+    if (stored) return sanitizeUserProfile(JSON.parse(stored));
+    const fareProfile = window.localStorage.getItem(LEGACY_FARE_PROFILE_KEY);
+    return sanitizeUserProfile({ ...DEFAULT_USER_PROFILE, fareProfile });
+  } catch {
+    return DEFAULT_USER_PROFILE;
+  }
+};
+
+const writeStoredProfile = (profile: UserProfile) => {
+  try {
+    window.localStorage.setItem(USER_PROFILE_KEY, JSON.stringify(profile));
+  } catch {}
+};
+
+// Sends the profile to the account and returns the copy the server kept
+const pushProfile = async (profile: UserProfile): Promise<UserProfile | null> => {
+  const token = await getAccessToken();
+  if (!token) return null;
+  const response = await fetch('/api/profile', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ profile }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || data?.status !== 'success') {
+    throw new Error(data?.error || 'Failed to save profile');
+  }
+  return sanitizeUserProfile(data.data?.profile);
+};
+
+// Sign-in state and the traveller's profile for the whole app. Signed out the profile stays in this browser;
+// signed in it follows the account, the newer copy winning when the two differ.
+export function UserProfileProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [authStatus, setAuthStatus] = useState<AuthStatus>('loading');
+  const [profile, setProfile] = useState<UserProfile>(DEFAULT_USER_PROFILE);
+  const profileRef = useRef<UserProfile>(DEFAULT_USER_PROFILE);
+
+  const keep = useCallback((next: UserProfile) => {
+    profileRef.current = next;
+    setProfile(next);
+    writeStoredProfile(next);
+  }, []);
+
+  useEffect(() => {
+    keep(readStoredProfile());
+
+    const supabase = getBrowserSupabase();
+    if (!supabase) {
+      setAuthStatus('unavailable');
+      return;
+    }
+
+    supabase.auth.getSession().then(({ data }) => {
+      setUser(data.session?.user ?? null);
+      setAuthStatus(data.session ? 'signed-in' : 'signed-out');
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUser(session?.user ?? null);
+      setAuthStatus(session ? 'signed-in' : 'signed-out');
+    });
+    return () => data.subscription.unsubscribe();
+  }, [keep]);
+
+  // On sign-in, take the account's profile if it is newer, otherwise give it this browser's
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const token = await getAccessToken();
+        const response = await fetch('/api/profile', { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+        const data = await response.json().catch(() => null);
+        if (cancelled || !response.ok || data?.status !== 'success') return;
+
+        const remote = data.data?.profile ? sanitizeUserProfile(data.data.profile) : null;
+        if (remote && remote.updatedAt >= profileRef.current.updatedAt) {
+          keep(remote);
+        } else if (profileRef.current.updatedAt > 0) {
+          const kept = await pushProfile(profileRef.current);
+          if (!cancelled && kept) keep(kept);
+        }
+      } catch (error) {
+        console.error('Profile sync error:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, keep]);
+
+  const updateProfile = useCallback((patch: ProfilePatch) => {
+    const next = sanitizeUserProfile({ ...profileRef.current, ...patch, updatedAt: Date.now() });
+    keep(next);
+    if (userId) {
+      pushProfile(next).catch((error) => console.error('Profile save error:', error));
+    }
+  }, [keep, userId]);
+
+  const signInWithEmail = useCallback(async (email: string) => {
+    const supabase = getBrowserSupabase();
+    if (!supabase) throw new Error('Accounts are not configured');
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/account` },
+    });
+    if (error) throw error;
+  }, []);
+
+  const signInWithProvider = useCallback(async (provider: OAuthProvider) => {
+    const supabase = getBrowserSupabase();
+    if (!supabase) throw new Error('Accounts are not configured');
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: `${window.location.origin}/account` },
+    });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const supabase = getBrowserSupabase();
+    if (!supabase) return;
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  return (
+    <UserProfileContext.Provider
+      value={{ user, authStatus, profile, updateProfile, signInWithEmail, signInWithProvider, signOut }}
+    >
+      {children}
+    </UserProfileContext.Provider>
+  );
+}
+
+export function useUserProfile(): UserProfileContextValue {
+  const context = useContext(UserProfileContext);
+  if (!context) {
+    throw new Error('useUserProfile must be used inside UserProfileProvider');
+  }
+  return context;
+}
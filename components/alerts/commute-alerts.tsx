@@ -0,0 +1,290 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, Bell, BellOff, History, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { useCommuteAlerts, type CommuteAlertsStatus, type PushState } from '@/hooks/useCommuteAlerts';
+import { useSavedJourneys } from '@/hooks/useSavedJourneys';
+import {
+  COMMUTE_DAY_LABELS,
+  DEFAULT_COMMUTE_WINDOW,
+  describeAlert,
+  describeCommuteWindow,
+  MAX_COMMUTES,
+  type CommuteWindow,
+} from '@/lib/commute-alerts';
+import { savedJourneyName } from '@/lib/saved-journeys';
+import { cn } from '@/lib/utils';
+
+// Monday first on screen
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const PUSH_DESCRIPTIONS: Record<PushState, string> = {
+  unsupported: 'This browser cannot receive push notifications. Alerts are still listed in the history.',
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to get alerts here.',
+  off: 'Get a notification on this device when a line on one of your commutes is disrupted.',
+  on: 'This device gets a notification when a line on one of your commutes is disrupted.',
+};
+
+const formatAlertTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/London',
+  });
+
+function AlertsUnavailable({ status }: { status: CommuteAlertsStatus }) {
+  if (status === 'loading') {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status">
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> Loading your commutes…
+      </p>
+    );
+  }
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><BellOff className="h-5 w-5" aria-hidden="true" /> Alerts unavailable</CardTitle>
+        <CardDescription>
+          {status === 'unavailable'
+            ? 'Commute alerts are not set up on this server.'
+            : 'Your commutes could not be loaded. Please try again later.'}
+        </CardDescription>
+      </CardHeader>
+    </Card>
+  );
+}
+
+// Push notifications on this device, the traveller's commutes and a form to add one from a saved journey
+export function CommuteAlertsSettings() {
+  const alerts = useCommuteAlerts();
+  const { journeys } = useSavedJourneys();
+  const { toast } = useToast();
+  const [journeyId, setJourneyId] = useState('');
+  const [commuteWindow, setCommuteWindow] = useState<CommuteWindow>(DEFAULT_COMMUTE_WINDOW);
+
+  if (alerts.status !== 'ready') return <AlertsUnavailable status={alerts.status} />;
+
+  const failed = (title: string) => (error: unknown) =>
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again',
+      variant: 'destructive',
+    });
+
+  const selected = journeys.find((journey) => journey.id === journeyId);
+  const toggleDay = (day: number) =>
+    setCommuteWindow((prev) => ({
+      ...prev,
+      days: prev.days.includes(day) ? prev.days.filter((item) => item !== day) : [...prev.days, day],
+    }));
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    try {
+      const added = await alerts.addCommute(selected, commuteWindow);
+      if (!added) {
+        toast({
+          title: 'No lines to watch',
+          description: 'Plan this journey and save it again so its lines are recorded.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      setJourneyId('');
+    } catch (error) {
+      failed('Could not add the commute')(error);
+    }
+  };
+
+  const canAdd = !!selected && commuteWindow.days.length > 0 && commuteWindow.start !== commuteWindow.end;
+
+  return (
+    <div className="mx-auto w-full max-w-3xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2"><Bell className="h-5 w-5" aria-hidden="true" /> Notifications</CardTitle>
+          <CardDescription>{PUSH_DESCRIPTIONS[alerts.push]}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          {alerts.push === 'off' && (
+            <Button onClick={() => alerts.enablePush().catch(failed('Could not turn on notifications'))} disabled={alerts.busy}>
+              <Bell className="mr-2 h-4 w-4" aria-hidden="true" />
+              Turn on notifications
+            </Button>
+          )}
+          {alerts.push === 'on' && (
+            <Button variant="outline" onClick={() => alerts.disablePush().catch(failed('Could not turn off notifications'))} disabled={alerts.busy}>
+              <BellOff className="mr-2 h-4 w-4" aria-hidden="true" />
+              Turn off on this device
+            </Button>
+          )}
+          <Link href="/alerts/history" className="inline-flex items-center gap-2 text-sm font-medium text-tfl-blue hover:underline">
+            <History className="h-4 w-4" aria-hidden="true" />
+            Alert history
+          </Link>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your commutes</CardTitle>
+          <CardDescription>
+            While a commute is on, you are alerted once when any of its lines drops below Good Service, and again if
+            the status changes. Bus routes are not watched.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {alerts.commutes.length > 0 ? (
+            <ul className="divide-y rounded-lg border">
+              {alerts.commutes.map((commute) => (
+                <li key={commute.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <span className="min-w-0">
+                    <span className="font-semibold">{commute.name}</span>
+                    <span className="block text-muted-foreground">{describeCommuteWindow(commute)}</span>
+                    <span className="block truncate text-xs text-muted-foreground">
+                      {commute.lines.map((line) => line.name).join(', ')}
+                    </span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => alerts.removeCommute(commute.id).catch(failed('Could not remove the commute'))}
+                    disabled={alerts.busy}
+                    aria-label={`Remove ${commute.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No commutes yet.</p>
+          )}
+
+          {journeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Save a journey from the <Link href="/journey" className="text-tfl-blue hover:underline">journey planner</Link> first,
+              then make it a commute here.
+            </p>
+          ) : alerts.commutes.length < MAX_COMMUTES && (
+            <form onSubmit={add} className="space-y-3">
+              <label className="block space-y-1 text-sm">
+                <span className="font-semibold">Saved journey</span>
+                <select
+                  className="block h-10 w-full rounded-md border border-input bg-background px-2"
+                  value={journeyId}
+                  onChange={(e) => setJourneyId(e.target.value)}
+                >
+                  <option value="">Choose a journey</option>
+                  {journeys.map((journey) => (
+                    <option key={journey.id} value={journey.id} disabled={!journey.lines?.length}>
+                      {savedJourneyName(journey)}
+                      {journey.lines?.length ? '' : ' (save it again from the results to record its lines)'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <fieldset className="space-y-1">
+                <legend className="text-sm font-semibold">Days</legend>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_ORDER.map((day) => {
+                    const on = commuteWindow.days.includes(day);
+                    return (
+                      <button
+                        key={day}
+                        type="button"
+                        aria-pressed={on}
+                        onClick={() => toggleDay(day)}
+                        className={cn(
+                          'rounded-full border px-3 py-1 text-sm',
+                          on ? 'border-tfl-blue bg-tfl-blue text-white' : 'text-muted-foreground hover:text-foreground'
+                        )}
+                      >
+                        {COMMUTE_DAY_LABELS[day]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </fieldset>
+
+              <div className="flex flex-wrap items-end gap-3">
+                <label className="space-y-1 text-sm">
+                  <span className="font-semibold">From</span>
+                  <Input
+                    type="time"
+                    value={commuteWindow.start}
+                    onChange={(e) => setCommuteWindow((prev) => ({ ...prev, start: e.target.value }))}
+                    className="h-10 w-32"
+                    required
+                  />
+                </label>
+                <label className="space-y-1 text-sm">
+                  <span className="font-semibold">Until</span>
+                  <Input
+                    type="time"
+                    value={commuteWindow.end}
+                    onChange={(e) => setCommuteWindow((prev) => ({ ...prev, end: e.target.value }))}
+                    className="h-10 w-32"
+                    required
+                  />
+                </label>
+                <Button type="submit" disabled={!canAdd || alerts.busy}>Add commute</Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Alerts sent for the traveller's commutes, newest first
+export function AlertHistory() {
+  const alerts = useCommuteAlerts();
+
+  if (alerts.status !== 'ready') return <AlertsUnavailable status={alerts.status} />;
+
+  return (
+    <Card className="mx-auto w-full max-w-3xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><History className="h-5 w-5" aria-hidden="true" /> Alert history</CardTitle>
+        <CardDescription>
+          Disruption alerts from the last 30 days. <Link href="/alerts" className="text-tfl-blue hover:underline">Manage commutes</Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {alerts.history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No alerts yet. Good service all round.</p>
+        ) : (
+          <ol className="space-y-3">
+            {alerts.history.map((alert) => {
+              const { title } = describeAlert(alert);
+              return (
+                <li key={alert.id} className="flex gap-3 rounded-lg border p-3 text-sm">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0 text-yellow-600" aria-hidden="true" />
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-semibold">{title}</p>
+                    <p className="text-muted-foreground">
+                      {alert.commuteName} · <time dateTime={alert.validAt}>{formatAlertTime(alert.validAt)}</time>
+                    </p>
+                    {alert.reason && <p>{alert.reason}</p>}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import Link from 'next/link';
+import { Accessibility, Activity, ArrowRight, Info, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { TflBadge } from '@/components/branding/tfl-badge';
+import { SeverityTag } from '@/components/status/line-status';
+import { LineBadge, ModeBadge } from '@/components/stations/station-badges';
+import type { StationInfo } from '@/types';
+import type { LineStatusSummary } from '@/lib/status-matching';
+
+// Non-journey answers from /api/ask (station facilities, accessibility, status pointers)
+export type AskAnswerData =
+  | {
+      type: 'station_info' | 'accessibility_info';
+      answer: string;
+      station: StationInfo;
+    }
+  | {
+      type: 'status_query';
+      answer: string;
+      lines: LineStatusSummary[];
+      mode?: string;
+      statusPath: string;
+    };
+
+interface AskAnswerProps {
+  query: string;
+  result: AskAnswerData;
+  onClose: () => void;
+}
+
+export function AskAnswer({ query, result, onClose }: AskAnswerProps) {
+  const Icon = result.type === 'accessibility_info' ? Accessibility : result.type === 'status_query' ? Activity : Info;
+
+  return (
+    <Card className="border-2 border-border shadow-lg">
+      <CardContent className="space-y-5 p-6 md:p-8">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Icon className="mt-1 h-6 w-6 shrink-0 text-tfl-blue" aria-hidden="true" />
+            <div>
+              <p className="text-sm text-muted-foreground">{query}</p>
+              {result.type !== 'status_query' && (
+                <h2 className="text-2xl font-bold tracking-tight">{result.station.name}</h2>
+              )}
+            </div>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Ask something else">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <p className="text-lg leading-relaxed" aria-live="polite">{result.answer}</p>
+
+        {result.type !== 'status_query' ? (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-1.5">
+              {result.station.modes.map((mode) => (
+                <ModeBadge key={mode} mode={mode} />
+              ))}
+            </div>
+            <Link
+              href={`/stations/${encodeURIComponent(result.station.id)}`}
+              className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+            >
+              Station details and live departures <ArrowRight className="h-4 w-4" />
+            </Link>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {result.lines.length > 0 && (
+              <ul className="divide-y rounded-lg border">
+                {result.lines.map((line) => (
+                  <li key={line.id} className="space-y-2 p-4">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-3">
+                        <TflBadge mode={line.modeName} lineIdOrName={line.id} size={28} />
+                        <LineBadge idOrName={line.id} name={line.name} />
+                      </div>
+                      <SeverityTag severity={line.severity} label={line.severityDescription} />
+                    </div>
+                    {line.reason && <p className="text-sm text-muted-foreground">{line.reason}</p>}
+                    {line.affectedSections.length > 0 && (
+                      <p className="text-sm">
+                        <span className="font-medium">Affected: </span>
+                        {line.affectedSections.join(', ')}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Link
+              href={result.statusPath}
+              className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+            >
+              {result.mode ? `All ${result.mode} lines` : 'Open service status'} <ArrowRight className="h-4 w-4" />
+            </Link>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
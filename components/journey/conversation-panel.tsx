@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from 'react';
+import { Loader2, MessageSquare, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { ConversationTurn } from '@/lib/conversation';
+
+interface ConversationPanelProps {
+  turns: ConversationTurn[];
+  // Sends a follow-up ("actually leave at 8") that refines the last answer
+  onFollowUp: (query: string) => void;
+  busy?: boolean;
+}
+
+// The conversation so far, as chat bubbles, with a box for the next follow-up
+export function ConversationPanel({ turns, onFollowUp, busy }: ConversationPanelProps) {
+  const [followUp, setFollowUp] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = followUp.trim();
+    if (!query || busy) return;
+    onFollowUp(query);
+    setFollowUp('');
+  };
+
+  return (
+    <Card className="mb-6 border-2 border-border">
+      <CardContent className="space-y-4 p-4 md:p-6">
+        <h2 className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+          <MessageSquare className="h-4 w-4" aria-hidden="true" />
+          Your conversation
+        </h2>
+
+        <ol className="space-y-3" aria-live="polite">
+          {turns.map((turn, index) => (
+            <li key={index} className="space-y-2">
+              <p className="ml-auto w-fit max-w-[85%] rounded-2xl rounded-br-sm bg-tfl-blue px-4 py-2 text-white">
+                {turn.query}
+              </p>
+              <p className="w-fit max-w-[85%] rounded-2xl rounded-bl-sm bg-muted px-4 py-2">
+                {turn.reply}
+              </p>
+            </li>
+          ))}
+        </ol>
+
+        <form onSubmit={submit} className="flex gap-2">
+          <Input
+            value={followUp}
+            onChange={(e) => setFollowUp(e.target.value)}
+            placeholder="Change something, e.g. “actually leave at 8” or “avoid the Central line”"
+            aria-label="Follow-up"
+            disabled={busy}
+          />
+          <Button type="submit" disabled={busy || !followUp.trim()} aria-label="Send follow-up">
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> : <Send className="h-4 w-4" aria-hidden="true" />}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
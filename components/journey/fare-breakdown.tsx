@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronUp, PiggyBank, Ticket } from 'lucide-react';
+import {
+  estimateCaps,
+  explainFare,
+  FARE_PROFILES,
+  formatPence,
+  isFareProfileId,
+  OFF_PEAK_SHIFT_MINUTES,
+  tripFromJourney,
+  type CapPeriod,
+  type FareProfileId,
+} from '@/lib/fares';
+import { cn } from '@/lib/utils';
+import type { Journey } from '@/types/tfl';
+
+const MODE_LABELS: Record<string, string> = {
+  tube: 'Tube',
+  bus: 'Bus',
+  dlr: 'DLR',
+  overground: 'Overground',
+  'elizabeth-line': 'Elizabeth line',
+  tram: 'Tram',
+  'national-rail': 'National Rail',
+  'river-bus': 'River bus',
+  'cable-car': 'Cable car',
+};
+
+const describeCap = (period: CapPeriod, label: string) =>
+  period.cap === undefined
+    ? `${label}: ${formatPence(period.spent)} (no cap estimate for these zones)`
+    : period.reached
+      ? `${label}: capped at ${formatPence(period.cap)} (${period.capLabel}), ${formatPence(period.spent - period.cap)} saved`
+      : `${label}: ${formatPence(period.spent)} of the ${formatPence(period.cap)} ${period.capLabel} cap`;
+
+const formatCapsDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+interface FareProfileSelectProps {
+  profile: FareProfileId;
+  onChange: (profile: FareProfileId) => void;
+}
+
+// Who the fares are shown for: adult, a railcard or a concession
+export function FareProfileSelect({ profile, onChange }: FareProfileSelectProps) {
+  const selected = FARE_PROFILES.find((option) => option.id === profile);
+  return (
+    <label className="flex flex-wrap items-center gap-2 text-sm">
+      <Ticket className="h-4 w-4 text-tfl-blue" aria-hidden="true" />
+      <span className="font-medium">Fares for</span>
+      <select
+        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        value={profile}
+        onChange={(e) => {
+          if (isFareProfileId(e.target.value)) onChange(e.target.value);
+        }}
+      >
+        {FARE_PROFILES.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {selected && <span className="text-xs text-muted-foreground">{selected.description}</span>}
+    </label>
+  );
+}
+
+// Daily and weekly cap progress for a set of planned trips, e.g. both halves of a round trip
+export function CapProgress({ journeys, profile }: { journeys: Journey[]; profile?: FareProfileId }) {
+  const trips = journeys
+    .map((journey) => tripFromJourney(journey, profile))
+    .filter((trip): trip is NonNullable<typeof trip> => trip !== null);
+  if (trips.length === 0) return null;
+
+  const { days, weeks, capsEffectiveFrom } = estimateCaps(trips);
+  return (
+    <ul className="space-y-1 text-xs text-muted-foreground">
+      {days.map((day) => (
+        <li key={`day-${day.start}`}>{describeCap(day, days.length > 1 ? `Day of ${day.start}` : 'That day')}</li>
+      ))}
+      {weeks.map((week) => (
+        <li key={`week-${week.start}`}>{describeCap(week, `Week from ${week.start}`)}</li>
+      ))}
+      <li>Using the caps in effect from {formatCapsDate(capsEffectiveFrom)}.</li>
+    </ul>
+  );
+}
+
+interface FareBreakdownProps {
+  journey: Journey;
+  profile?: FareProfileId;
+}
+
+// What each part of a journey's pay as you go fare pays for, with peak/off-peak prices and cap progress
+export function FareBreakdown({ journey, profile }: FareBreakdownProps) {
+  const [open, setOpen] = useState(false);
+  const breakdown = explainFare(journey, profile);
+  if (!breakdown) return null;
+
+  const profileLabel = FARE_PROFILES.find((option) => option.id === breakdown.profile)?.label;
+  const invalid = breakdown.components.filter((component) => !component.concessionValid);
+
+  const legs = journey.legs || [];
+  const legLabel = (legIndexes: number[]) => {
+    const first = legs[legIndexes[0]];
+    const last = legs[legIndexes[legIndexes.length - 1]];
+    if (!first || !last) return null;
+    return `${first.departurePoint?.commonName || 'Start'} → ${last.arrivalPoint?.commonName || 'End'}`;
+  };
+
+  return (
+    // Keep clicks inside the breakdown from selecting the journey card
+    <div className="rounded-lg border p-3" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        className="flex w-full items-center justify-between gap-2 text-left text-sm font-medium"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+      >
+        <span className="flex items-center gap-2">
+          <Ticket className="h-4 w-4 text-tfl-blue" aria-hidden="true" />
+          Fare {formatPence(breakdown.totalCost)}{' '}
+          {breakdown.profile === 'adult' ? 'pay as you go' : `with ${profileLabel}`}
+          {breakdown.totalCost !== breakdown.adultCost && (
+            <span className="text-xs font-normal text-muted-foreground line-through">{formatPence(breakdown.adultCost)}</span>
+          )}
+          {breakdown.hopper && (
+            <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-normal">Hopper</span>
+          )}
+        </span>
+        {open ? <ChevronUp className="h-4 w-4" aria-hidden="true" /> : <ChevronDown className="h-4 w-4" aria-hidden="true" />}
+      </button>
+
+      {breakdown.offPeakSaving && (
+        <p className="mt-2 flex items-center gap-2 text-xs text-green-700 dark:text-green-300">
+          <PiggyBank className="h-4 w-4" aria-hidden="true" />
+          Leaving {OFF_PEAK_SHIFT_MINUTES} minutes later would save {formatPence(breakdown.offPeakSaving)}.
+        </p>
+      )}
+
+      {invalid.length > 0 && (
+        <p className="mt-2 flex items-center gap-2 text-xs text-yellow-800 dark:text-yellow-200" role="status">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" aria-hidden="true" />
+          {invalid.map((component) => component.note).join('. ')}. The adult fare is charged for that part.
+        </p>
+      )}
+
+      {open && (
+        <div className="mt-3 space-y-3 text-sm">
+          <ul className="space-y-2">
+            {breakdown.components.map((component, index) => (
+              <li key={index} className="flex flex-wrap items-baseline justify-between gap-2">
+                <span>
+                  <span className="font-medium">
+                    {component.modes.map((mode) => MODE_LABELS[mode] || mode).join(', ') || 'Fare'}
+                    {component.zones && ` · ${component.zones}`}
+                  </span>
+                  {component.legIndexes.length > 0 && (
+                    <span className="block text-xs text-muted-foreground">{legLabel(component.legIndexes)}</span>
+                  )}
+                  {component.note && (
+                    <span className={cn('block text-xs', component.concessionValid ? 'text-muted-foreground' : 'text-yellow-800 dark:text-yellow-200')}>
+                      {component.note}
+                    </span>
+                  )}
+                  {component.detail.isHopperFare && (
+                    <span className="block text-xs text-muted-foreground">
+                      Hopper fare: further bus and tram rides within an hour are free
+                    </span>
+                  )}
+                </span>
+                <span className="text-right">
+                  {formatPence(component.cost)}
+                  {component.cost !== component.detail.cost && (
+                    <span className="block text-xs text-muted-foreground">adult {formatPence(component.detail.cost)}</span>
+                  )}
+                  <span className="block text-xs text-muted-foreground">
+                    {component.detail.peak !== component.detail.offPeak
+                      ? `${component.peak ? 'Peak' : 'Off-peak'} · peak ${formatPence(component.detail.peak)}, off-peak ${formatPence(component.detail.offPeak)}`
+                      : 'Same price all day'}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <CapProgress journeys={[journey]} profile={breakdown.profile} />
+
+          {breakdown.caveats.length > 0 && (
+            <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+              {breakdown.caveats.map((caveat) => (
+                <li key={caveat}>{caveat}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
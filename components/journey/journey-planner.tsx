@@ -9,11 +9,36 @@ import { useGeolocation } from '@/hooks/useGeolocation';
 import { StationSelector } from './station-selector';
 import { LocationPermission } from './location-permission';
 import { JourneyResults } from './journey-results';
+import { AskAnswer, type AskAnswerData } from './ask-answer';
+import { PlacePicker } from './place-picker';
+import { ConversationPanel } from './conversation-panel';
+import { SavedJourneysList } from './saved-journeys';
+import { useSavedJourneys } from '@/hooks/useSavedJourneys';
+import { useUserProfile } from '@/components/account/user-profile-provider';
+import { readNdjson } from '@/lib/ndjson';
+import type { AskResult, AskStreamEvent, AskRequest } from '@/lib/ask-service';
+import type { ConversationSnapshot } from '@/lib/conversation';
+import type {
+  DirectionPlan,
+  JourneyClarification,
+  JourneyDirection,
+  JourneyPlanRequest,
+  JourneyPlanResult,
+  PlannedJourney,
+} from '@/lib/journey-planner';
+import { mergeJourneyPage, type PageDirection } from '@/lib/journey-planner/paging';
+import { savedJourneyName, savedJourneyRequest, type SavableRoute } from '@/lib/saved-journeys';
+import { profileJourneyPreferences } from '@/lib/user-profile';
 import { MapPin, Mic, MicOff, Send, Loader2, ArrowRight } from 'lucide-react';
-import type { UIState, JourneySearchParams, TransportMode } from '@/types';
+import type { UIState, JourneySearchParams, PinnedPlace, SavedJourney } from '@/types';
 
 const MAX_RECENT_HISTORY_ITEMS = 15;
 
+// What a streamed search resolves to, shaped like the JSON routes' responses
+type StreamOutcome =
+  | { ok: true; data: { status: 'success'; data: AskResult } }
+  | { ok: false; data: { status: 'error'; error?: string; data?: unknown } | null };
+
 export function JourneyPlanner() {
   const [uiState, setUiState] = useState<UIState>({
     inputMode: 'natural-language',
@@ -29,7 +54,16 @@ export function JourneyPlanner() {
   const [isRefreshingJourney, setIsRefreshingJourney] = useState(false);
   const [isRefreshingLive, setIsRefreshingLive] = useState(false);
   const [showLocationPermission, setShowLocationPermission] = useState(false);
-  const [journeyResults, setJourneyResults] = useState<any>(null);
+  const [journeyResults, setJourneyResults] = useState<JourneyPlanResult | null>(null);
+  // Journeys are on screen but arrivals and descriptions are still streaming in
+  const [streamingDetails, setStreamingDetails] = useState(false);
+  const [askAnswer, setAskAnswer] = useState<{ query: string; result: AskAnswerData } | null>(null);
+  // The planner stopped to ask which station (or what) was meant; `params` is the search to resume
+  const [clarification, setClarification] = useState<{ params: JourneyPlanRequest; data: JourneyClarification } | null>(null);
+  // Which earlier/later page is being fetched, if any
+  const [loadingMore, setLoadingMore] = useState<{ direction: JourneyDirection; page: PageDirection } | null>(null);
+  // Typed queries and follow-ups so far; the token goes with the next follow-up
+  const [conversation, setConversation] = useState<ConversationSnapshot | null>(null);
   const [hasMounted, setHasMounted] = useState(false);
   const isManualMode = uiState.inputMode === 'manual-selection';
 
@@ -45,6 +79,9 @@ export function JourneyPlanner() {
     'Walking only from Hammersmith to Shepherd\'s Bush',
     'Overground and tube only from Whitechapel to Canada Water',
     'From Holborn to Liverpool Street via Farringdon',
+    'Does Stratford have toilets?',
+    'Is Green Park step-free?',
+    'Is the Northern line running?',
   ];
   const [displayExampleIdx, setDisplayExampleIdx] = useState<number>(0);
   const [exampleFading, setExampleFading] = useState<boolean>(false);
@@ -67,10 +104,15 @@ export function JourneyPlanner() {
   const [recentNlQueries, setRecentNlQueries] = useState<string[]>([]);
   const [recentManualPairs, setRecentManualPairs] = useState<Array<{ from: string; to: string }>>([]);
 
+  const savedJourneys = useSavedJourneys();
+  const userProfile = useUserProfile();
+  // A saved journey to plan once the list has loaded, from the home page's /journey?saved=<id> links
+  const pendingSavedIdRef = useRef<string | null>(null);
+
   const { toast } = useToast();
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const pendingParamsRef = useRef<JourneySearchParams | null>(null);
-  const lastSearchParamsRef = useRef<JourneySearchParams | null>(null);
+  const pendingParamsRef = useRef<JourneyPlanRequest | null>(null);
+  const lastSearchParamsRef = useRef<JourneyPlanRequest | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
@@ -104,22 +146,74 @@ export function JourneyPlanner() {
     isSupported: isLocationSupported 
   } = useGeolocation({ autoRequest: false });
 
+  // Journeys are shown as soon as TfL answers; arrivals and descriptions are merged in as they stream after
+  const updateStreamedJourney = (direction: JourneyDirection, journeyIndex: number, patch: Partial<PlannedJourney>) => {
+    setJourneyResults((prev) => {
+      const target = direction === 'return' ? prev?.returnJourney : prev;
+      if (!prev || !target || !Array.isArray(target.journeys) || !target.journeys[journeyIndex]) return prev;
+      const journeys = target.journeys.map((journey, index) =>
+        index === journeyIndex ? { ...journey, ...patch } : journey
+      );
+      return direction === 'return'
+        ? { ...prev, returnJourney: { ...target, journeys } }
+        : { ...prev, journeys };
+    });
+  };
+
+  // Resolves to the same { ok, data } pair as a JSON route so both are handled alike. Every request carries the
+  // profile's named places, so "home" also resolves in follow-ups and saved journeys.
+  const streamJourney = async (params: JourneyPlanRequest | AskRequest): Promise<StreamOutcome> => {
+    const { places } = userProfile.profile;
+    const response = await fetch('/api/journey/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(places.length > 0 ? { ...params, namedPlaces: places } : params),
+    });
+    if (!response.ok || !response.body) {
+      return { ok: false, data: await response.json().catch(() => null) };
+    }
+
+    let outcome: StreamOutcome = {
+      ok: false,
+      data: { status: 'error', error: 'The journey planner stopped responding' },
+    };
+    await readNdjson<AskStreamEvent>(response.body, (event) => {
+      switch (event.stage) {
+        case 'journeys':
+          setStreamingDetails(true);
+          setJourneyResults(event.plan);
+          break;
+        case 'arrivals':
+          updateStreamedJourney(event.direction, event.journeyIndex, { legs: event.legs });
+          break;
+        case 'description':
+          updateStreamedJourney(event.direction, event.journeyIndex, { accessibleDescription: event.accessibleDescription });
+          break;
+        case 'done':
+          outcome = { ok: true, data: { status: 'success', data: event.data } };
+          break;
+        case 'error':
+          outcome = { ok: false, data: { status: 'error', error: event.error, data: event.data } };
+          break;
+      }
+    });
+    return outcome;
+  };
+
   // Handle form submission
-  const executeJourney = async (params: JourneySearchParams, isRetry = false): Promise<void> => {
+  const executeJourney = async (params: JourneyPlanRequest | AskRequest, isRetry = false): Promise<void> => {
     if (!isRetry) {
       setUiState(prev => ({ ...prev, isLoading: true }));
     }
+    const previousResults = journeyResults;
 
     try {
-      const response = await fetch('/api/journey', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(params),
-      });
-
-      const data = await response.json();
+      // Typed questions can also be about stations or status; the stream answers those like /api/ask
+      const { ok, data } = await streamJourney(params);
 
-      if (!response.ok) {
+      if (!ok) {
+        // Drop journeys streamed by an attempt that went on to fail
+        setJourneyResults(previousResults);
         if (data?.error === 'location_required') {
           setUiState(prev => ({ ...prev, isLoading: false }));
           pendingParamsRef.current = params;
@@ -133,7 +227,7 @@ export function JourneyPlanner() {
 
           if (resolvedLocation) {
             setShowLocationPermission(false);
-            const nextParams: JourneySearchParams = {
+            const nextParams: JourneyPlanRequest = {
               ...params,
               from: params.from || `${resolvedLocation.latitude},${resolvedLocation.longitude}`,
             };
@@ -157,10 +251,27 @@ export function JourneyPlanner() {
           return;
         }
 
-        throw new Error(data.error || 'Failed to plan journey');
+        // Ambiguous station names or an unclear query: ask, then resume from the intent the planner returned
+        const details = data?.data as JourneyClarification | undefined;
+        if (details && Array.isArray(details.places)) {
+          setClarification({ params, data: details });
+          return;
+        }
+
+        throw new Error(data?.error || 'Failed to plan journey');
+      }
+
+      if (data.data?.conversation) {
+        setConversation(data.data.conversation);
+      }
+
+      if (data.data?.type !== 'journey_planning') {
+        setAskAnswer({ query: params.naturalLanguageQuery || '', result: data.data as AskAnswerData });
+        return;
       }
 
-      setJourneyResults(data.data);
+      setAskAnswer(null);
+      setJourneyResults(data.data.journey);
       lastSearchParamsRef.current = params;
       // Persist successful search to history (only on first try)
       if (!isRetry) {
@@ -204,6 +315,7 @@ export function JourneyPlanner() {
         variant: 'destructive',
       });
     } finally {
+      setStreamingDetails(false);
       if (!isRetry) {
         setUiState(prev => ({ ...prev, isLoading: false }));
       }
@@ -236,10 +348,10 @@ export function JourneyPlanner() {
         ? { naturalLanguageQuery }
         : { from: manualFrom, to: manualTo };
 
-    const modes: TransportMode[] = ['tube', 'bus', 'dlr', 'overground', 'walking', 'national-rail'];
+    // The traveller's default modes, walking and accessibility preferences from their profile
     searchParams.preferences = {
       ...searchParams.preferences,
-      modes,
+      ...profileJourneyPreferences(userProfile.profile),
     };
 
     if (isManualMode && !searchParams.from && location) {
@@ -251,6 +363,46 @@ export function JourneyPlanner() {
     await executeJourney(searchParams);
   };
 
+  // Follow-ups keep the starting point of the last search, which may be the traveller's location
+  const handleFollowUp = async (query: string) => {
+    if (!conversation) return;
+    await executeJourney({
+      naturalLanguageQuery: query,
+      ...(lastSearchParamsRef.current?.from ? { from: lastSearchParamsRef.current.from } : {}),
+      conversation: conversation.token,
+    });
+  };
+
+  const resetConversation = () => {
+    setConversation(null);
+    setNaturalLanguageQuery('');
+  };
+
+  // The profile's named places, one tap to fill a manual From or To. The label is sent, so a pinned place is
+  // used as is.
+  const renderProfilePlaces = (fill: (value: string) => void, role: 'from' | 'to') => {
+    const { places } = userProfile.profile;
+    return (
+      <div className="flex flex-wrap gap-2">
+        {hasMounted && places.map(({ label, name }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => fill(label)}
+            className="text-sm px-3 py-1 rounded-full bg-muted hover:bg-muted/80 text-muted-foreground hover:text-foreground transition-all duration-200"
+            aria-label={`${role === 'from' ? 'From' : 'To'} ${label.toLowerCase()}: ${name}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  const conversationPanel = conversation && conversation.turns.length > 0 && (
+    <ConversationPanel turns={conversation.turns} onFollowUp={handleFollowUp} busy={uiState.isLoading || isRefreshingJourney} />
+  );
+
   const handleJourneyRefresh = async () => {
     if (!lastSearchParamsRef.current) {
       return;
@@ -264,6 +416,82 @@ export function JourneyPlanner() {
     }
   };
 
+  const handlePlacePicks = async (pins: PinnedPlace[]) => {
+    if (!clarification) return;
+    const { params, data } = clarification;
+    const samePlace = (a: PinnedPlace, b: PinnedPlace) => a.role === b.role && (a.index ?? 0) === (b.index ?? 0);
+
+    setClarification(null);
+    await executeJourney({
+      ...params,
+      ...(data.intent ? { intent: data.intent } : {}),
+      pinnedPlaces: [...(params.pinnedPlaces || []).filter((item) => !pins.some((pin) => samePlace(item, pin))), ...pins],
+    });
+  };
+
+  // Re-plan the last search with the traveller's pick for one place, keeping earlier picks for the others
+  const handleSwapPlace = async (pin: PinnedPlace) => {
+    const lastParams = lastSearchParamsRef.current;
+    if (!lastParams || isRefreshingJourney) return;
+
+    const samePlace = (item: PinnedPlace) => item.role === pin.role && (item.index ?? 0) === (pin.index ?? 0);
+    setIsRefreshingJourney(true);
+    try {
+      await executeJourney({
+        ...lastParams,
+        pinnedPlaces: [...(lastParams.pinnedPlaces || []).filter((item) => !samePlace(item)), pin],
+      }, true);
+    } finally {
+      setIsRefreshingJourney(false);
+    }
+  };
+
+  // A saved journey planned from its pinned places, as a manual search
+  const handlePlanSaved = async (journey: SavedJourney) => {
+    setUiState(prev => ({ ...prev, inputMode: 'manual-selection' }));
+    setManualFrom(journey.fromName);
+    setManualTo(journey.toName);
+    pendingParamsRef.current = null;
+    await executeJourney({ ...savedJourneyRequest(journey), preferences: profileJourneyPreferences(userProfile.profile) });
+  };
+  // For the effect that plans /journey?saved=<id> once the list loads, which should not re-run on every render
+  const planSavedRef = useRef(handlePlanSaved);
+  planSavedRef.current = handlePlanSaved;
+
+  // Earlier or later journeys from the resolved search of the result on screen, added to it
+  const handleLoadMore = async (direction: JourneyDirection, page: PageDirection) => {
+    const current: DirectionPlan | undefined = direction === 'return' ? journeyResults?.returnJourney : journeyResults ?? undefined;
+    const adjustment = current?.searchCriteria?.timeAdjustments?.[page];
+    if (!current?.search || !adjustment || loadingMore) return;
+
+    setLoadingMore({ direction, page });
+    try {
+      const response = await fetch('/api/journey/page', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ search: current.search, adjustment }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || data?.status !== 'success') {
+        throw new Error(data?.error || 'Failed to load more journeys');
+      }
+
+      setJourneyResults((prev) => {
+        if (!prev) return prev;
+        if (direction === 'outbound') return mergeJourneyPage(prev, data.data, page);
+        return prev.returnJourney ? { ...prev, returnJourney: mergeJourneyPage(prev.returnJourney, data.data, page) } : prev;
+      });
+    } catch (error) {
+      toast({
+        title: `Could not load ${page} journeys`,
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoadingMore(null);
+    }
+  };
+
   const refreshLiveDepartures = async () => {
     if (!journeyResults) return;
     if (isRefreshingLive) return;
@@ -547,7 +775,7 @@ export function JourneyPlanner() {
       }
 
       if (pendingParamsRef.current) {
-        const nextParams: JourneySearchParams = {
+        const nextParams: JourneyPlanRequest = {
           ...pendingParamsRef.current,
           from: pendingParamsRef.current.from || `${resolvedLocation.latitude},${resolvedLocation.longitude}`,
         };
@@ -606,6 +834,20 @@ export function JourneyPlanner() {
     el.style.height = `${el.scrollHeight}px`;
   }, [naturalLanguageQuery]);
 
+  useEffect(() => {
+    const savedId = new URLSearchParams(window.location.search).get('saved');
+    if (savedId) pendingSavedIdRef.current = savedId;
+  }, []);
+
+  useEffect(() => {
+    const savedId = pendingSavedIdRef.current;
+    const journey = savedId ? savedJourneys.journeys.find((item) => item.id === savedId) : undefined;
+    if (!journey) return;
+    pendingSavedIdRef.current = null;
+    window.history.replaceState(null, '', window.location.pathname);
+    void planSavedRef.current(journey);
+  }, [savedJourneys.journeys]);
+
   // Load history on mount
   useEffect(() => {
     try {
@@ -634,24 +876,80 @@ export function JourneyPlanner() {
     };
   }, []);
 
+  if (clarification) {
+    return (
+      <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-2">
+        <PlacePicker
+          query={clarification.params.naturalLanguageQuery}
+          clarification={clarification.data}
+          onConfirm={handlePlacePicks}
+          onCancel={() => setClarification(null)}
+          submitting={uiState.isLoading}
+        />
+      </div>
+    );
+  }
+
+  if (askAnswer) {
+    return (
+      <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-2">
+        {conversationPanel}
+        <AskAnswer
+          query={askAnswer.query}
+          result={askAnswer.result}
+          onClose={() => {
+            setAskAnswer(null);
+            setJourneyResults(null);
+            lastSearchParamsRef.current = null;
+            resetConversation();
+          }}
+        />
+      </div>
+    );
+  }
+
   // Show journey results if available
   if (journeyResults) {
+    const search = journeyResults.search;
+    const savableRoute: SavableRoute | null = search
+      ? {
+          from: { location: search.from.location, name: journeyResults.fromName || search.from.name },
+          to: { location: search.to.location, name: journeyResults.toName || search.to.name },
+          vias: search.vias.map((via, index) => ({ location: via.location, name: journeyResults.viaNames?.[index] || via.name })),
+        }
+      : null;
+    const savedRoute = savableRoute ? savedJourneys.findRoute(savableRoute) : undefined;
+
     return (
       <div className="w-full max-w-4xl mx-auto animate-in fade-in slide-in-from-bottom-2">
+        {conversationPanel}
         <JourneyResults
           journeys={journeyResults.journeys}
           fromName={journeyResults.fromName}
           toName={journeyResults.toName}
+          viaNames={journeyResults.viaNames}
+          avoidance={journeyResults.avoidance}
+          returnJourney={journeyResults.returnJourney}
+          timeAdjustments={journeyResults.searchCriteria?.timeAdjustments}
+          onLoadMore={handleLoadMore}
+          loadingMore={loadingMore}
+          savedName={savedRoute ? savedJourneyName(savedRoute) : undefined}
+          onSaveRoute={savableRoute ? (name, lines) => savedJourneys.save({ ...savableRoute, lines }, name) : undefined}
+          onUnsaveRoute={savedRoute ? () => savedJourneys.remove(savedRoute.id) : undefined}
+          loadingDetails={streamingDetails}
+          trace={journeyResults.trace}
+          onSwapPlace={handleSwapPlace}
+          swappingPlace={isRefreshingJourney}
           onRefreshLive={refreshLiveDepartures}
           refreshingLive={isRefreshingLive}
           onRefreshFull={handleJourneyRefresh}
           refreshingFull={isRefreshingJourney}
           onClose={() => {
             setJourneyResults(null);
-            setNaturalLanguageQuery('');
             setManualFrom('');
             setManualTo('');
             lastSearchParamsRef.current = null;
+            resetConversation();
           }}
           onSelectJourney={(journey) => {
             console.log('Selected journey:', journey);
@@ -807,7 +1105,7 @@ export function JourneyPlanner() {
                   From <span className="text-muted-foreground font-normal text-lg">(optional)</span>
                 </label>
                 <div className="flex items-center justify-between mb-3">
-                  <div></div>
+                  {renderProfilePlaces(setManualFrom, 'from')}
                   {hasMounted && isLocationSupported && !location && (
                     <Button
                       type="button"
@@ -843,6 +1141,7 @@ export function JourneyPlanner() {
                 <label className="text-xl font-semibold text-foreground block mb-4">
                   To
                 </label>
+                <div className="mb-3">{renderProfilePlaces(setManualTo, 'to')}</div>
                 <StationSelector
                   value={manualTo}
                   onChange={setManualTo}
@@ -928,6 +1227,9 @@ export function JourneyPlanner() {
         )}
       </CardContent>
     </Card>
+    {hasMounted && (
+      <SavedJourneysList className="mt-6" onPlan={handlePlanSaved} planning={uiState.isLoading} />
+    )}
     </div>
   );
 }
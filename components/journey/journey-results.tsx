@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import type { LucideIcon } from 'lucide-react';
@@ -17,21 +17,59 @@ import {
   Route,
   RefreshCw,
   ArrowLeftRight,
+  MapPin,
+  Loader2,
+  ChevronUp,
+  ChevronDown,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { getLineColor, getModeColor, getLineShortLabel } from '@/lib/line-colors';
 import { TflBadge } from '@/components/branding/tfl-badge';
+import { ResolutionTracePanel } from './resolution-trace';
+import { CapProgress, FareBreakdown, FareProfileSelect } from './fare-breakdown';
+import { SaveJourneyButton } from './saved-journeys';
+import { estimateCaps, explainFare, FARE_PROFILES, formatPence, tripFromJourney } from '@/lib/fares';
+import { journeyLines } from '@/lib/commute-alerts';
+import { useUserProfile } from '@/components/account/user-profile-provider';
+import type { DirectionPlan, JourneyDirection, PlannedJourney, ResolutionTrace } from '@/lib/journey-planner';
+import { journeyKey, type PageDirection } from '@/lib/journey-planner/paging';
+import type { TimeAdjustments } from '@/types/tfl';
+import type { JourneyLine, PinnedPlace } from '@/types';
 
 interface JourneyResultsProps {
-  journeys: any[];
+  journeys: PlannedJourney[];
   fromName?: string;
   toName?: string;
+  viaNames?: string[];
+  avoidance?: {
+    satisfied: boolean;
+    summary: string;
+    message?: string;
+  };
   onClose?: () => void;
-  onSelectJourney?: (journey: any) => void;
+  onSelectJourney?: (journey: PlannedJourney) => void;
   onRefreshLive?: () => void;
   refreshingLive?: boolean;
   onRefreshFull?: () => void;
   refreshingFull?: boolean;
+  // Live arrivals and accessible descriptions are still on their way
+  loadingDetails?: boolean;
+  trace?: ResolutionTrace;
+  // Re-plan with a different candidate for one of the places in the trace
+  onSwapPlace?: (pin: PinnedPlace) => void;
+  swappingPlace?: boolean;
+  // The way back of a round trip, shown beside the outbound options
+  returnJourney?: DirectionPlan;
+  // TfL's earlier/later search times for the outbound journeys; without them there is nothing to page to
+  timeAdjustments?: TimeAdjustments;
+  // Fetch journeys before or after those shown, for one direction
+  onLoadMore?: (direction: JourneyDirection, page: PageDirection) => void;
+  loadingMore?: { direction: JourneyDirection; page: PageDirection } | null;
+  // Starring the route: the name it is saved under (when saved), and saving or removing it
+  savedName?: string;
+  // Called with the lines of the selected option, which commute alerts watch
+  onSaveRoute?: (name: string, lines: JourneyLine[]) => void;
+  onUnsaveRoute?: () => void;
 }
 
 const modeIcons: Record<string, LucideIcon> = {
@@ -49,14 +87,33 @@ export function JourneyResults({
   journeys,
   fromName,
   toName,
+  viaNames,
+  avoidance,
   onClose,
   onSelectJourney,
   onRefreshLive,
   refreshingLive,
   onRefreshFull,
   refreshingFull,
+  loadingDetails,
+  trace,
+  onSwapPlace,
+  swappingPlace,
+  returnJourney,
+  timeAdjustments,
+  onLoadMore,
+  loadingMore,
+  savedName,
+  onSaveRoute,
+  onUnsaveRoute,
 }: JourneyResultsProps) {
   const [showAll, setShowAll] = useState(false);
+  // Round trips: the options picked for each direction (by journeyKey, as paging shifts positions), which the
+  // fare estimate adds up
+  const [selectedOutbound, setSelectedOutbound] = useState<string | null>(null);
+  const [selectedReturn, setSelectedReturn] = useState<string | null>(null);
+  const { profile, updateProfile } = useUserProfile();
+  const fareProfile = profile.fareProfile;
   // Auto-refresh next departures every 15 seconds
   useEffect(() => {
     if (!onRefreshLive) return;
@@ -467,8 +524,26 @@ export function JourneyResults({
     );
   };
 
-  // Render journey card
-  const renderJourneyCard = (journey: any, index: number) => {
+  const renderWaypointMarker = (waypoint: { name: string; arrivalTime?: string; departureTime?: string }) => (
+    <div
+      className="relative flex flex-wrap items-center gap-2 pl-8 text-sm"
+      role="listitem"
+      aria-label={`Via point ${waypoint.name}`}
+    >
+      <span className="inline-flex items-center gap-1 rounded-full border border-tfl-blue/40 bg-tfl-blue/10 px-3 py-1 font-semibold text-tfl-blue">
+        <MapPin className="h-4 w-4" aria-hidden="true" />
+        Via {waypoint.name}
+      </span>
+      {waypoint.arrivalTime && waypoint.departureTime && (
+        <span className="text-xs text-muted-foreground">
+          Arrive {formatTime(waypoint.arrivalTime)}, continue {formatTime(waypoint.departureTime)}
+        </span>
+      )}
+    </div>
+  );
+
+  // Render journey card; `selection` makes it one of several options to pick from
+  const renderJourneyCard = (journey: PlannedJourney, index: number, selection?: { selected: boolean; onSelect: () => void }) => {
     const departureTime = new Date(journey.startDateTime);
     const arrivalTime = new Date(journey.arrivalDateTime);
     const now = new Date();
@@ -480,8 +555,14 @@ export function JourneyResults({
     return (
       <Card 
         key={index} 
-        className="cursor-pointer hover:shadow-xl transition-all border-2 hover:border-tfl-blue/50"
-        onClick={() => onSelectJourney?.(journey)}
+        className={cn(
+          'cursor-pointer hover:shadow-xl transition-all border-2 hover:border-tfl-blue/50',
+          selection?.selected && 'border-tfl-blue ring-2 ring-tfl-blue'
+        )}
+        onClick={() => {
+          selection?.onSelect();
+          onSelectJourney?.(journey);
+        }}
       >
         <CardHeader className="pb-4">
           <div className="flex items-start justify-between gap-4">
@@ -493,12 +574,15 @@ export function JourneyResults({
                 Duration: <span className="font-semibold">{formatDuration(computeJourneyDurationMinutes(journey))}</span>
                 {journey.fare && (
                   <span className="ml-3 font-semibold text-foreground">
-                    £{(journey.fare.totalCost / 100).toFixed(2)}
+                    {formatPence(explainFare(journey, fareProfile)?.totalCost ?? journey.fare.totalCost)}
                   </span>
                 )}
               </CardDescription>
             </div>
-            <div className="text-right">
+            <div className="flex flex-col items-end gap-2 text-right">
+              {selection?.selected && (
+                <span className="rounded-full bg-tfl-blue px-3 py-1 text-xs font-semibold text-white">Selected</span>
+              )}
               {minutesUntilDeparture > 0 && minutesUntilDeparture < 60 && (
                 <span className="text-base text-orange-600 font-semibold px-3 py-1 bg-orange-50 dark:bg-orange-900/20 rounded-full">
                   Departs in {minutesUntilDeparture} min
@@ -515,13 +599,19 @@ export function JourneyResults({
             role="list"
             aria-label={`Journey steps from ${originName} to ${destinationName}`}
           >
-            {journey.legs.map((leg: any, legIndex: number) =>
-              renderLegSummary(leg, legIndex, journey.legs.length)
-            )}
+            {journey.legs.map((leg, legIndex) => {
+              const waypoint = (journey.waypoints || []).find((item) => item.legIndex === legIndex);
+              return (
+                <Fragment key={`leg-${legIndex}`}>
+                  {waypoint && renderWaypointMarker(waypoint)}
+                  {renderLegSummary(leg, legIndex, journey.legs.length)}
+                </Fragment>
+              );
+            })}
           </div>
 
           {/* Disruptions */}
-          {journey.legs.some((leg: any) => leg.disruptions?.length > 0) && (
+          {journey.legs.some((leg) => (leg.disruptions?.length ?? 0) > 0) && (
             <div className="mt-3 p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded-md">
               <p className="text-sm text-yellow-800 dark:text-yellow-200 flex items-center">
                 <AlertCircle className="h-4 w-4 mr-1" />
@@ -530,6 +620,8 @@ export function JourneyResults({
             </div>
           )}
 
+          <FareBreakdown journey={journey} profile={fareProfile} />
+
           {/* Accessibility info */}
           {journey.accessibleDescription && (
             <div className="mt-4">
@@ -540,11 +632,84 @@ export function JourneyResults({
               {renderAccessibleDescription(journey.accessibleDescription)}
             </div>
           )}
+          {!journey.accessibleDescription && loadingDetails && (
+            <p className="mt-4 flex items-center gap-2 text-sm text-muted-foreground" role="status">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Preparing accessible guidance…
+            </p>
+          )}
         </CardContent>
       </Card>
     );
   };
 
+  const renderAvoidance = (outcome?: JourneyResultsProps['avoidance']) => outcome && (
+    outcome.satisfied ? (
+      <p className="text-sm text-muted-foreground">
+        Avoiding {outcome.summary}
+      </p>
+    ) : (
+      <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-md" role="status">
+        <p className="text-sm text-yellow-800 dark:text-yellow-200 flex items-center">
+          <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" aria-hidden="true" />
+          {outcome.message}
+        </p>
+      </div>
+    )
+  );
+
+  // Pay as you go fares of the two picked options, with the daily cap applied when both fall on the same day
+  const renderRoundTripFare = (outbound: PlannedJourney, back: PlannedJourney) => {
+    const trips = [tripFromJourney(outbound, fareProfile), tripFromJourney(back, fareProfile)];
+    const [outboundTrip, returnTrip] = trips;
+
+    if (!outboundTrip || !returnTrip) {
+      return (
+        <div className="flex flex-wrap items-baseline justify-between gap-2 rounded-lg border-2 border-border p-4" role="status">
+          <span className="font-medium">Round trip fare estimate</span>
+          <span className="text-sm text-muted-foreground">Unavailable</span>
+          <p className="w-full text-xs text-muted-foreground">
+            TfL did not price the {outboundTrip ? 'return' : 'outbound'} journey.
+          </p>
+        </div>
+      );
+    }
+
+    const charged = estimateCaps([outboundTrip, returnTrip]).days.reduce((acc, day) => acc + day.charged, 0);
+    return (
+      <div className="flex flex-wrap items-baseline justify-between gap-2 rounded-lg border-2 border-border p-4" role="status">
+        <span className="font-medium">Round trip fare estimate</span>
+        <span className="text-2xl font-bold">{formatPence(charged)}</span>
+        <p className="w-full text-xs text-muted-foreground">
+          Outbound {formatPence(outboundTrip.cost)} plus return {formatPence(returnTrip.cost)} for the selected options,{' '}
+          {fareProfile === 'adult' ? 'pay as you go' : `with ${FARE_PROFILES.find((option) => option.id === fareProfile)?.label}`}.
+        </p>
+        <div className="w-full">
+          <CapProgress journeys={[outbound, back]} profile={fareProfile} />
+        </div>
+      </div>
+    );
+  };
+
+  const renderPageButton = (direction: JourneyDirection, page: PageDirection, adjustments?: TimeAdjustments) => {
+    if (!onLoadMore || !adjustments?.[page]) return null;
+    const loading = loadingMore?.direction === direction && loadingMore.page === page;
+    const Icon = loading ? Loader2 : page === 'earlier' ? ChevronUp : ChevronDown;
+
+    return (
+      <div className="flex justify-center">
+        <Button variant="outline" onClick={() => onLoadMore(direction, page)} disabled={!!loadingMore}>
+          <Icon className={cn('mr-2 h-4 w-4', loading && 'animate-spin')} aria-hidden="true" />
+          {page === 'earlier' ? 'Earlier journeys' : 'Later journeys'}
+        </Button>
+      </div>
+    );
+  };
+
+  // The picked option for a direction, defaulting to the first
+  const pickJourney = (options: PlannedJourney[], key: string | null): PlannedJourney =>
+    options.find((journey) => journeyKey(journey) === key) ?? options[0];
+
   if (!journeys || journeys.length === 0) {
     return (
       <Card>
@@ -563,16 +728,30 @@ export function JourneyResults({
       {/* Header */}
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
         <div>
-          <h3 className="text-2xl font-bold mb-2">Journey Options</h3>
+          <h3 className="text-2xl font-bold mb-2">{returnJourney ? 'Round Trip Options' : 'Journey Options'}</h3>
           {fromName && toName && (
-            <p className="text-base text-muted-foreground flex items-center gap-2">
+            <p className="text-base text-muted-foreground flex flex-wrap items-center gap-2">
               <span className="font-medium">{fromName}</span>
+              {(viaNames || []).map((viaName, viaIndex) => (
+                <Fragment key={`via-${viaIndex}`}>
+                  <ArrowRight className="h-4 w-4" />
+                  <span>via {viaName}</span>
+                </Fragment>
+              ))}
               <ArrowRight className="h-4 w-4" />
               <span className="font-medium">{toName}</span>
             </p>
           )}
         </div>
-        <div className="flex items-center gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {onSaveRoute && (
+            <SaveJourneyButton
+              savedName={savedName}
+              defaultName={`${fromName || 'Start'} → ${toName || 'Destination'}`}
+              onSave={(name) => onSaveRoute(name, journeyLines(pickJourney(journeys, selectedOutbound)))}
+              onUnsave={() => onUnsaveRoute?.()}
+            />
+          )}
           {onRefreshFull && (
             <Button
               variant="outline"
@@ -593,13 +772,54 @@ export function JourneyResults({
         </div>
       </div>
 
+      {renderAvoidance(avoidance)}
+
+      {journeys.some((journey) => journey.fare) && (
+        <FareProfileSelect profile={fareProfile} onChange={(next) => updateProfile({ fareProfile: next })} />
+      )}
+
+      {trace && <ResolutionTracePanel trace={trace} onSwapPlace={onSwapPlace} swapping={swappingPlace} />}
+
       {/* Journey cards */}
-      <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2">
-        {(showAll ? journeys : journeys.slice(0, 3)).map((journey, index) => renderJourneyCard(journey, index))}
-      </div>
+      {returnJourney ? (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2 animate-in fade-in slide-in-from-bottom-2">
+            <section className="space-y-3" aria-label="Outbound options">
+              <h4 className="text-lg font-semibold">Outbound</h4>
+              {renderPageButton('outbound', 'earlier', timeAdjustments)}
+              {journeys.map((journey, index) => renderJourneyCard(journey, index, {
+                selected: journey === pickJourney(journeys, selectedOutbound),
+                onSelect: () => setSelectedOutbound(journeyKey(journey)),
+              }))}
+              {renderPageButton('outbound', 'later', timeAdjustments)}
+            </section>
+            <section className="space-y-3" aria-label="Return options">
+              <h4 className="text-lg font-semibold">Return</h4>
+              {returnJourney.avoidance && !returnJourney.avoidance.satisfied && renderAvoidance(returnJourney.avoidance)}
+              {renderPageButton('return', 'earlier', returnJourney.searchCriteria?.timeAdjustments)}
+              {returnJourney.journeys.map((journey, index) => renderJourneyCard(journey, index, {
+                selected: journey === pickJourney(returnJourney.journeys, selectedReturn),
+                onSelect: () => setSelectedReturn(journeyKey(journey)),
+              }))}
+              {renderPageButton('return', 'later', returnJourney.searchCriteria?.timeAdjustments)}
+            </section>
+          </div>
+          {renderRoundTripFare(
+            pickJourney(journeys, selectedOutbound),
+            pickJourney(returnJourney.journeys, selectedReturn)
+          )}
+        </>
+      ) : (
+        <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2">
+          {renderPageButton('outbound', 'earlier', timeAdjustments)}
+          {/* Paged-in journeys are always shown, or an earlier page would land out of sight */}
+          {(showAll || onLoadMore ? journeys : journeys.slice(0, 3)).map((journey, index) => renderJourneyCard(journey, index))}
+          {renderPageButton('outbound', 'later', timeAdjustments)}
+        </div>
+      )}
 
       {/* More options */}
-      {journeys.length > 3 && (
+      {!returnJourney && !onLoadMore && journeys.length > 3 && (
         <div className="text-center pt-2">
           <Button
             variant="outline"
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from 'react';
+import { HelpCircle, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { LineBadge, ModeBadge } from '@/components/stations/station-badges';
+import { cn } from '@/lib/utils';
+import type { JourneyClarification, PlaceClarification } from '@/lib/journey-planner';
+import type { PinnedPlace } from '@/types';
+
+const ROLE_PROMPTS: Record<PlaceClarification['role'], string> = {
+  from: 'Where are you starting',
+  to: 'Where are you going',
+  via: 'Which stop are you going via',
+};
+
+const placeKey = (place: Pick<PlaceClarification, 'role' | 'index'>) => `${place.role}-${place.index ?? 0}`;
+
+interface PlacePickerProps {
+  query?: string;
+  clarification: JourneyClarification;
+  // Called with one pin per ambiguous place once the traveller has picked them all
+  onConfirm: (pins: PinnedPlace[]) => void;
+  onCancel: () => void;
+  submitting?: boolean;
+}
+
+// Shown when the planner stops with "Need more information": station choices when a name matched several
+// stations, otherwise the planner's free-text questions
+export function PlacePicker({ query, clarification, onConfirm, onCancel, submitting }: PlacePickerProps) {
+  const [picks, setPicks] = useState<Record<string, PinnedPlace>>({});
+  const { places } = clarification;
+  const complete = places.length > 0 && places.every((place) => picks[placeKey(place)]);
+
+  return (
+    <Card className="border-2 border-border shadow-lg">
+      <CardContent className="space-y-6 p-6 md:p-8">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <HelpCircle className="mt-1 h-6 w-6 shrink-0 text-tfl-blue" aria-hidden="true" />
+            <div>
+              {query && <p className="text-sm text-muted-foreground">{query}</p>}
+              <h2 className="text-2xl font-bold tracking-tight">
+                {places.length > 0 ? 'Which station do you mean?' : 'We need a little more detail'}
+              </h2>
+            </div>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onCancel} aria-label="Edit your search">
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {places.map((place) => {
+          const key = placeKey(place);
+          return (
+            <fieldset key={key} className="space-y-3">
+              <legend className="mb-2 text-base font-medium">
+                {ROLE_PROMPTS[place.role]}? &ldquo;{place.query}&rdquo; matches {place.choices.length} stations.
+              </legend>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {place.choices.map((choice) => {
+                  const selected = picks[key]?.stopPointId === choice.stopPointId;
+                  return (
+                    <button
+                      key={choice.stopPointId}
+                      type="button"
+                      aria-pressed={selected}
+                      onClick={() => setPicks((prev) => ({
+                        ...prev,
+                        [key]: {
+                          role: place.role,
+                          ...(place.index !== undefined ? { index: place.index } : {}),
+                          location: choice.location,
+                          name: choice.name,
+                          stopPointId: choice.stopPointId,
+                        },
+                      }))}
+                      className={cn(
+                        'space-y-2 rounded-lg border p-4 text-left transition-colors hover:bg-muted',
+                        selected && 'border-tfl-blue bg-muted ring-2 ring-tfl-blue'
+                      )}
+                    >
+                      <span className="block font-medium">{choice.name}</span>
+                      <span className="flex flex-wrap gap-1.5 text-xs">
+                        {choice.lines.length > 0
+                          ? choice.lines.map((line) => <LineBadge key={line} idOrName={line} name={line} />)
+                          : choice.modes.map((mode) => <ModeBadge key={mode} mode={mode} />)}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </fieldset>
+          );
+        })}
+
+        {places.length === 0 && clarification.suggestions.length > 0 && (
+          <ul className="list-disc space-y-1 pl-5">
+            {clarification.suggestions.map((suggestion) => (
+              <li key={suggestion}>{suggestion}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <Button variant="outline" onClick={onCancel}>
+            {places.length > 0 ? 'Edit search' : 'Rephrase'}
+          </Button>
+          {places.length > 0 && (
+            <Button
+              onClick={() => onConfirm(places.map((place) => picks[placeKey(place)]))}
+              disabled={!complete || submitting}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+              Plan journey
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Info, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import type { PlaceResolution, ResolutionTrace } from '@/lib/journey-planner';
+import type { NLPJourneyIntent } from '@/lib/schemas/nlp-response';
+import type { PinnedPlace } from '@/types';
+
+const ROLE_LABELS: Record<PlaceResolution['role'], string> = {
+  from: 'From',
+  to: 'To',
+  via: 'Via',
+};
+
+const SOURCE_LABELS: Record<PlaceResolution['source'], string> = {
+  coordinates: 'your location',
+  named: 'your saved place',
+  pinned: 'your choice',
+  tfl: 'best TfL stop match',
+  geocoder: 'best address match',
+};
+
+// The preferences the parser picked up, as short phrases
+const describePreferences = (intent?: NLPJourneyIntent): string[] => {
+  const preferences = intent?.journey?.preferences;
+  if (!preferences) return [];
+
+  const phrases: string[] = [];
+  if (preferences.mode?.length) {
+    phrases.push(`${preferences.modePolicy === 'only' ? 'Only' : 'Prefer'} ${preferences.mode.join(', ')}`);
+  }
+  if (preferences.time?.datetime) {
+    const when = new Date(preferences.time.datetime);
+    const label = Number.isNaN(when.getTime())
+      ? preferences.time.datetime
+      : when.toLocaleString('en-GB', { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+    phrases.push(`${preferences.time.type === 'arrive' ? 'Arrive by' : 'Leave at'} ${label}`);
+  }
+  if (preferences.accessibility?.length) phrases.push(`Needs ${preferences.accessibility.join(', ')}`);
+  if (preferences.avoid?.length) phrases.push(`Avoid ${preferences.avoid.join(', ')}`);
+  if (preferences.journeyPreference) phrases.push(preferences.journeyPreference.replace(/-/g, ' '));
+  if (preferences.walkingSpeed) phrases.push(`${preferences.walkingSpeed} walking`);
+  return phrases;
+};
+
+interface ResolutionTracePanelProps {
+  trace: ResolutionTrace;
+  onSwapPlace?: (pin: PinnedPlace) => void;
+  swapping?: boolean;
+}
+
+export function ResolutionTracePanel({ trace, onSwapPlace, swapping }: ResolutionTracePanelProps) {
+  const [open, setOpen] = useState(false);
+  const finalAttempt = trace.attempts[trace.attempts.length - 1];
+  if (!finalAttempt) return null;
+
+  const failedAttempts = trace.attempts.filter((attempt) => attempt.error);
+  const preferences = describePreferences(finalAttempt.intent);
+
+  return (
+    <Card>
+      <CardHeader className="p-4">
+        <button
+          type="button"
+          className="flex w-full items-center justify-between gap-2 text-left"
+          onClick={() => setOpen((prev) => !prev)}
+          aria-expanded={open}
+        >
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Info className="h-4 w-4" aria-hidden="true" />
+            How we understood your request
+            {failedAttempts.length > 0 && (
+              <span className="text-sm font-normal text-muted-foreground">
+                ({trace.attempts.length} attempts)
+              </span>
+            )}
+          </CardTitle>
+          {open ? <ChevronUp className="h-4 w-4" aria-hidden="true" /> : <ChevronDown className="h-4 w-4" aria-hidden="true" />}
+        </button>
+      </CardHeader>
+
+      {open && (
+        <CardContent className="space-y-4 px-4 pb-4 pt-0 text-sm">
+          {trace.query && (
+            <p>
+              You asked: <span className="italic">&ldquo;{trace.query}&rdquo;</span>
+            </p>
+          )}
+
+          {preferences.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {preferences.map((phrase) => (
+                <span key={phrase} className="rounded-full bg-muted px-2 py-0.5 text-xs">
+                  {phrase}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <ul className="space-y-3">
+            {finalAttempt.places.map((place) => (
+              <li key={`${place.role}-${place.index ?? 0}`} className="rounded-md border p-3">
+                <p>
+                  <span className="font-semibold">{ROLE_LABELS[place.role]}</span>{' '}
+                  &ldquo;{place.query}&rdquo;
+                  {place.searchedAs && <span className="text-muted-foreground"> (searched as &ldquo;{place.searchedAs}&rdquo;)</span>}
+                </p>
+                <p className="mt-1">
+                  Using <span className="font-medium">{place.chosen.name || place.chosen.location}</span>
+                  <span className="text-muted-foreground"> — {SOURCE_LABELS[place.source]}</span>
+                </p>
+
+                {place.candidates.length > 1 && (
+                  <ul className="mt-2 space-y-1">
+                    {place.candidates.map((candidate) => {
+                      const chosen = candidate.location === place.chosen.location;
+                      return (
+                        <li key={candidate.location} className="flex items-center justify-between gap-3">
+                          <span className={cn('truncate', chosen && 'font-medium')}>
+                            {candidate.name}
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {candidate.source === 'geocoder' ? 'address' : 'TfL'} · {Math.round(candidate.score * 100)}%
+                            </span>
+                          </span>
+                          {chosen ? (
+                            <span className="text-xs text-muted-foreground">In use</span>
+                          ) : (
+                            onSwapPlace && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={swapping}
+                                onClick={() => onSwapPlace({
+                                  role: place.role,
+                                  ...(place.index !== undefined ? { index: place.index } : {}),
+                                  location: candidate.location,
+                                  name: candidate.name,
+                                })}
+                              >
+                                {swapping && <Loader2 className="mr-1 h-3 w-3 animate-spin" aria-hidden="true" />}
+                                Use this
+                              </Button>
+                            )
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {failedAttempts.length > 0 && (
+            <div>
+              <p className="font-medium">Earlier attempts</p>
+              <p className="text-muted-foreground">
+                Each failure was sent back to the language model so it could revise its reading of your request.
+              </p>
+              <ol className="mt-1 list-decimal space-y-1 pl-5">
+                {failedAttempts.map((attempt) => (
+                  <li key={attempt.attempt}>{attempt.error}</li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
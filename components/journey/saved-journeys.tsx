@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import {
+  ArrowDown,
+  ArrowRight,
+  ArrowUp,
+  Cloud,
+  CloudOff,
+  Loader2,
+  Pencil,
+  Star,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useSavedJourneys, type SavedJourneySyncStatus } from '@/hooks/useSavedJourneys';
+import { savedJourneyName } from '@/lib/saved-journeys';
+import { cn } from '@/lib/utils';
+import type { SavedJourney } from '@/types';
+
+interface SaveJourneyButtonProps {
+  // Name the route is saved under, if it is saved
+  savedName?: string;
+  defaultName: string;
+  onSave: (name: string) => void;
+  onUnsave: () => void;
+}
+
+// Star for the route on screen: naming it on the way in, unstarring removes it
+export function SaveJourneyButton({ savedName, defaultName, onSave, onUnsave }: SaveJourneyButtonProps) {
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState(defaultName);
+
+  if (savedName !== undefined) {
+    return (
+      <Button variant="outline" size="lg" className="h-12 px-4" onClick={onUnsave} aria-label={`Remove saved journey ${savedName}`}>
+        <Star className="mr-2 h-5 w-5 fill-yellow-400 text-yellow-500" aria-hidden="true" />
+        Saved
+      </Button>
+    );
+  }
+
+  if (!naming) {
+    return (
+      <Button
+        variant="outline"
+        size="lg"
+        className="h-12 px-4"
+        onClick={() => {
+          setName(defaultName);
+          setNaming(true);
+        }}
+      >
+        <Star className="mr-2 h-5 w-5" aria-hidden="true" />
+        Save
+      </Button>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(name);
+        setNaming(false);
+      }}
+    >
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        aria-label="Name for this journey"
+        placeholder="e.g. Home → Office"
+        className="h-12 w-56"
+        maxLength={80}
+        autoFocus
+      />
+      <Button type="submit" size="lg" className="h-12 px-4">Save</Button>
+      <Button type="button" variant="ghost" size="lg" className="h-12 px-3" onClick={() => setNaming(false)}>
+        Cancel
+      </Button>
+    </form>
+  );
+}
+
+const SYNC_STATUS_LABELS: Record<SavedJourneySyncStatus, string> = {
+  off: 'Only on this device',
+  syncing: 'Syncing…',
+  synced: 'Synced',
+  unavailable: 'Sync is not set up on this server',
+  error: 'Could not sync, will retry on the next change',
+};
+
+interface SyncControlsProps {
+  syncCode: string | null;
+  syncStatus: SavedJourneySyncStatus;
+  syncedToAccount: boolean;
+  onEnable: (code?: string) => void;
+  onDisable: () => void;
+}
+
+function SyncControls({ syncCode, syncStatus, syncedToAccount, onEnable, onDisable }: SyncControlsProps) {
+  const [linking, setLinking] = useState(false);
+  const [code, setCode] = useState('');
+
+  if (syncedToAccount) {
+    return (
+      <p className="flex items-center gap-2 border-t pt-4 text-sm text-muted-foreground">
+        <Cloud className="h-4 w-4" aria-hidden="true" />
+        {syncStatus === 'synced' ? 'Synced to your account' : SYNC_STATUS_LABELS[syncStatus]}
+        {syncStatus === 'syncing' && <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 border-t pt-4 text-sm">
+      <p className="flex items-center gap-2 text-muted-foreground">
+        {syncCode ? <Cloud className="h-4 w-4" aria-hidden="true" /> : <CloudOff className="h-4 w-4" aria-hidden="true" />}
+        {SYNC_STATUS_LABELS[syncStatus]}
+        {syncStatus === 'syncing' && <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />}
+      </p>
+      {syncCode ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">Sync code for your other devices:</span>
+          <code className="rounded bg-muted px-2 py-1 text-xs">{syncCode}</code>
+          <Button variant="ghost" size="sm" onClick={onDisable}>Stop syncing</Button>
+        </div>
+      ) : linking ? (
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!code.trim()) return;
+            onEnable(code);
+            setLinking(false);
+          }}
+        >
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Sync code from your other device"
+            aria-label="Sync code"
+            className="h-9 w-80"
+          />
+          <Button type="submit" size="sm">Link</Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setLinking(false)}>Cancel</Button>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => onEnable()}>Sync across devices</Button>
+          <Button variant="ghost" size="sm" onClick={() => setLinking(true)}>I have a sync code</Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SavedJourneysListProps {
+  // Plans the saved journey; without it each entry links to the planner instead
+  onPlan?: (journey: SavedJourney) => void;
+  planning?: boolean;
+  className?: string;
+}
+
+// Favourites and other saved journeys, with one-tap planning, renaming, reordering and sync
+export function SavedJourneysList({ onPlan, planning, className }: SavedJourneysListProps) {
+  const saved = useSavedJourneys();
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  if (saved.journeys.length === 0 && !saved.syncCode && !saved.syncedToAccount) return null;
+
+  const favourites = saved.journeys.filter((journey) => journey.isFavorite);
+
+  const renderJourney = (journey: SavedJourney) => {
+    const name = savedJourneyName(journey);
+    const favouriteIndex = favourites.findIndex((item) => item.id === journey.id);
+    const route = [journey.fromName, ...(journey.viaNames || []), journey.toName].join(' → ');
+
+    return (
+      <li key={journey.id} className="flex flex-wrap items-center gap-2 rounded-lg border p-3">
+        <button
+          type="button"
+          onClick={() => saved.toggleFavorite(journey.id)}
+          aria-label={journey.isFavorite ? `Remove ${name} from favourites` : `Add ${name} to favourites`}
+          aria-pressed={!!journey.isFavorite}
+          className="rounded p-1 hover:bg-muted"
+        >
+          <Star className={cn('h-5 w-5', journey.isFavorite ? 'fill-yellow-400 text-yellow-500' : 'text-muted-foreground')} aria-hidden="true" />
+        </button>
+
+        <div className="min-w-0 flex-1">
+          {renaming?.id === journey.id ? (
+            <form
+              className="flex items-center gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                saved.rename(journey.id, renaming.name);
+                setRenaming(null);
+              }}
+            >
+              <Input
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: journey.id, name: e.target.value })}
+                aria-label={`New name for ${name}`}
+                className="h-9"
+                maxLength={80}
+                autoFocus
+              />
+              <Button type="submit" size="sm">Rename</Button>
+            </form>
+          ) : (
+            <>
+              <p className="truncate font-medium">{name}</p>
+              {name !== route && <p className="truncate text-xs text-muted-foreground">{route}</p>}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          {favouriteIndex >= 0 && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => saved.move(journey.id, -1)}
+                disabled={favouriteIndex === 0}
+                aria-label={`Move ${name} up`}
+              >
+                <ArrowUp className="h-4 w-4" aria-hidden="true" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => saved.move(journey.id, 1)}
+                disabled={favouriteIndex === favourites.length - 1}
+                aria-label={`Move ${name} down`}
+              >
+                <ArrowDown className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            </>
+          )}
+          <Button variant="ghost" size="icon" onClick={() => setRenaming({ id: journey.id, name })} aria-label={`Rename ${name}`}>
+            <Pencil className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={() => saved.remove(journey.id)} aria-label={`Remove ${name}`}>
+            <Trash2 className="h-4 w-4" aria-hidden="true" />
+          </Button>
+          {onPlan ? (
+            <Button size="sm" onClick={() => onPlan(journey)} disabled={planning}>
+              Plan
+              <ArrowRight className="ml-1 h-4 w-4" aria-hidden="true" />
+            </Button>
+          ) : (
+            <Button asChild size="sm">
+              <Link href={`/journey?saved=${encodeURIComponent(journey.id)}`}>
+                Plan
+                <ArrowRight className="ml-1 h-4 w-4" aria-hidden="true" />
+              </Link>
+            </Button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Card className={cn('border-2 border-border', className)}>
+      <CardContent className="space-y-4 p-4 md:p-6">
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <Star className="h-5 w-5 text-yellow-500" aria-hidden="true" />
+          Saved journeys
+        </h2>
+        {saved.journeys.length > 0 ? (
+          <ul className="space-y-2">{saved.journeys.map(renderJourney)}</ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">Star a journey from the results to keep it here.</p>
+        )}
+        <SyncControls
+          syncCode={saved.syncCode}
+          syncStatus={saved.syncStatus}
+          syncedToAccount={saved.syncedToAccount}
+          onEnable={saved.enableSync}
+          onDisable={saved.disableSync}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,6 +18,7 @@ import {
 const navItems = [
   { href: '/', label: 'Home' },
   { href: '/journey', label: 'Journey planner' },
+  { href: '/alerts', label: 'Alerts' },
 ];
 
 export function MainNav() {
@@ -0,0 +1,63 @@
+"use client";
+
+import { getLineColor } from '@/lib/line-colors';
+import { TflBadge } from '@/components/branding/tfl-badge';
+import { LineBadge } from '@/components/stations/station-badges';
+
+// Shape of `data.grouped` from /api/stations/[id]/arrivals
+export type GroupedArrivals = Array<{
+  key: string;
+  lineName: string;
+  platformName: string;
+  direction?: string;
+  modeName?: string;
+  arrivals: Array<{
+    id: string;
+    destinationName: string;
+    expectedArrival: string;
+    timeToStation: number;
+    currentLocation?: string;
+  }>;
+}>;
+
+export function formatEta(seconds: number): string {
+  if (seconds < 30) return 'due';
+  const mins = Math.round(seconds / 60);
+  return `${mins} min`;
+}
+
+interface ArrivalsBoardProps {
+  groups: GroupedArrivals;
+  perGroup?: number;
+}
+
+export function ArrivalsBoard({ groups, perGroup = 6 }: ArrivalsBoardProps) {
+  if (groups.length === 0) {
+    return <div className="text-sm text-muted-foreground">No upcoming services found.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map((g) => {
+        const color = getLineColor(g.lineName, g.modeName);
+        return (
+          <div key={g.key} className="rounded-md border p-3" style={{ borderColor: `${color.background}33` }}>
+            <div className="mb-2 flex items-center gap-2 text-sm font-semibold" style={{ color: color.text }}>
+              <TflBadge mode={g.modeName} lineIdOrName={g.lineName} size={22} />
+              <LineBadge idOrName={g.lineName} name={g.lineName} />
+              <span className="text-gray-700 font-normal">— {g.platformName}{g.direction ? ` (${g.direction.toLowerCase()})` : ''}</span>
+            </div>
+            <ul className="space-y-1.5">
+              {g.arrivals.slice(0, perGroup).map((a) => (
+                <li key={a.id} className="flex items-center justify-between text-sm">
+                  <span className="truncate pr-3 text-gray-800">{a.destinationName}</span>
+                  <span className="tabular-nums text-gray-900 font-medium">{formatEta(a.timeToStation)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
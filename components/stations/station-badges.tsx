@@ -0,0 +1,42 @@
+"use client";
+
+import { Train, Bus as BusIcon, TramFront, Ship, Footprints, Zap } from 'lucide-react';
+import { getLineColor, getModeColor, getLineShortLabel } from '@/lib/line-colors';
+
+export function ModeBadge({ mode }: { mode: string }) {
+  const color = getModeColor(mode);
+  const iconClass = "h-3.5 w-3.5";
+  const Icon = (() => {
+    const m = mode.toLowerCase();
+    if (m === 'bus') return BusIcon;
+    if (m === 'tram') return TramFront;
+    if (m === 'river-bus' || m === 'river' || m === 'waterbus') return Ship;
+    if (m === 'cable-car') return Zap;
+    if (m === 'walking') return Footprints;
+    // tube, dlr, overground, others
+    return Train;
+  })();
+  return (
+    <span
+      className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs shadow-sm border"
+      style={{ background: `${color.background}0D`, color: color.background, borderColor: `${color.background}33` }}
+    >
+      <Icon className={iconClass} />
+      {mode}
+    </span>
+  );
+}
+
+export function LineBadge({ idOrName, name }: { idOrName: string; name: string }) {
+  const color = getLineColor(idOrName || name);
+  const label = getLineShortLabel(idOrName, name);
+  return (
+    <span
+      className="inline-flex items-center rounded-full px-2 py-0.5 whitespace-nowrap max-w-[140px] truncate"
+      style={{ background: color.background, color: color.text }}
+      title={name}
+    >
+      {label}
+    </span>
+  );
+}
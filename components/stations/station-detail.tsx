@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Accessibility,
+  ArrowUpDown,
+  Baby,
+  Banknote,
+  Bike,
+  Car,
+  Clock,
+  MapPin,
+  Phone,
+  RefreshCw,
+  Sofa,
+  Bath,
+  UserRound,
+  Wifi,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { TflBadge } from '@/components/branding/tfl-badge';
+import { SeverityTag } from '@/components/status/line-status';
+import { ArrivalsBoard, type GroupedArrivals } from '@/components/stations/arrivals-board';
+import { LineBadge, ModeBadge } from '@/components/stations/station-badges';
+import type { StationDetail as StationDetailData, StationFacility } from '@/types';
+
+// Arrivals are refreshed on the same cadence as TfL's prediction feed
+const ARRIVALS_REFRESH_MS = 30_000;
+
+const FACILITY_LABELS: Record<StationFacility['type'], { label: string; icon: LucideIcon }> = {
+  lift: { label: 'Lifts', icon: ArrowUpDown },
+  toilet: { label: 'Toilets', icon: Bath },
+  wifi: { label: 'Wi-Fi', icon: Wifi },
+  'baby-changing': { label: 'Baby changing', icon: Baby },
+  'waiting-room': { label: 'Waiting room', icon: Sofa },
+  atm: { label: 'Cash machines', icon: Banknote },
+  payphone: { label: 'Payphones', icon: Phone },
+  'car-park': { label: 'Car park', icon: Car },
+  'bicycle-park': { label: 'Cycle parking', icon: Bike },
+};
+
+const STEP_FREE_LABELS = {
+  full: 'Step-free from street to platform',
+  partial: 'Partially step-free',
+  none: 'No step-free access',
+} as const;
+
+const PLATFORM_GAP_LABELS = {
+  level: 'Level boarding',
+  'small-gap': 'Small gap between platform and train',
+  'large-gap': 'Large step or gap between platform and train',
+} as const;
+
+interface StationDetailProps {
+  stationId: string;
+}
+
+export function StationDetail({ stationId }: StationDetailProps) {
+  const [detail, setDetail] = useState<StationDetailData | null>(null);
+  const [detailError, setDetailError] = useState<string | null>(null);
+  const [arrivals, setArrivals] = useState<GroupedArrivals | null>(null);
+  const [arrivalsError, setArrivalsError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadArrivals = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      const resp = await fetch(`/api/stations/${encodeURIComponent(stationId)}/arrivals?grouped=true`);
+      const json = await resp.json();
+      if (!resp.ok || json.status !== 'success') {
+        throw new Error(json.error || 'Failed to fetch arrivals');
+      }
+      setArrivals(json.data.grouped as GroupedArrivals);
+      setArrivalsError(null);
+    } catch (e) {
+      setArrivalsError((e as Error).message);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [stationId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const resp = await fetch(`/api/stations/${encodeURIComponent(stationId)}`);
+        const json = await resp.json();
+        if (!resp.ok || json.status !== 'success') {
+          throw new Error(json.error || 'Failed to fetch station');
+        }
+        if (!cancelled) setDetail(json.data as StationDetailData);
+      } catch (e) {
+        if (!cancelled) setDetailError((e as Error).message);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId]);
+
+  useEffect(() => {
+    loadArrivals();
+    const interval = setInterval(loadArrivals, ARRIVALS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [loadArrivals]);
+
+  if (detailError) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-destructive">{detailError}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <Card>
+        <CardContent className="p-6">Loading station…</CardContent>
+      </Card>
+    );
+  }
+
+  const { station, lines } = detail;
+  const { accessibility } = station;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h1 className="text-3xl font-bold tracking-tight md:text-4xl">{station.name}</h1>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          {station.zones.length > 0 && <span>Zone {station.zones.join('/')}</span>}
+          {station.modes.map((mode) => (
+            <ModeBadge key={mode} mode={mode} />
+          ))}
+          <a
+            href={`https://www.google.com/maps/search/?api=1&query=${station.coordinates.lat},${station.coordinates.lon}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+          >
+            <MapPin className="h-3.5 w-3.5" /> Map
+          </a>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Clock className="h-5 w-5" />
+                Live departures
+              </CardTitle>
+              <Button variant="outline" size="icon" onClick={loadArrivals} disabled={refreshing} aria-label="Refresh departures">
+                <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {arrivalsError && <div className="text-sm text-destructive">{arrivalsError}</div>}
+              {!arrivalsError && !arrivals && <div className="text-sm text-muted-foreground">Loading arrivals…</div>}
+              {!arrivalsError && arrivals && <ArrivalsBoard groups={arrivals} />}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Lines</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {lines.length > 0 ? (
+                <ul className="divide-y">
+                  {lines.map((line) => (
+                    <li key={line.id} className="flex items-start justify-between gap-3 py-3">
+                      <div className="flex items-start gap-3">
+                        <TflBadge mode={line.modeName} lineIdOrName={line.id} size={28} />
+                        <div>
+                          <LineBadge idOrName={line.id} name={line.name} />
+                          {line.reason && <p className="mt-1 text-sm text-muted-foreground">{line.reason}</p>}
+                        </div>
+                      </div>
+                      {line.statusDescription && line.statusSeverity !== undefined && (
+                        <SeverityTag severity={line.statusSeverity} label={line.statusDescription} />
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="text-sm text-muted-foreground">No lines listed for this station.</div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Accessibility className="h-5 w-5" />
+                Accessibility
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <p className="font-medium">{STEP_FREE_LABELS[accessibility.stepFreeAccess]}</p>
+              {accessibility.note && <p className="text-muted-foreground">{accessibility.note}</p>}
+              <p>{PLATFORM_GAP_LABELS[accessibility.platformToTrain]}</p>
+              {accessibility.inductionLoop && <p>Induction loop</p>}
+              {accessibility.audioAnnouncements && <p>Audio announcements</p>}
+              {accessibility.visualDisplays && <p>Visual displays</p>}
+              {accessibility.accessibleTicketMachines && <p>Accessible ticket machines</p>}
+              <p className="flex items-start gap-2 pt-2">
+                <UserRound className="mt-0.5 h-4 w-4 shrink-0" />
+                <span>
+                  {accessibility.staffAssistance.available ? 'Staff help available' : 'Unstaffed'}
+                  {accessibility.staffAssistance.hours && (
+                    <span className="block text-muted-foreground">{accessibility.staffAssistance.hours}</span>
+                  )}
+                </span>
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Facilities</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {station.facilities.length > 0 ? (
+                <ul className="space-y-2 text-sm">
+                  {station.facilities.map((facility) => {
+                    const { label, icon: Icon } = FACILITY_LABELS[facility.type];
+                    return (
+                      <li key={facility.type} className={`flex items-start gap-2 ${facility.available ? '' : 'text-muted-foreground'}`}>
+                        <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+                        <span>
+                          {label}
+                          {facility.paymentRequired && ' (charge)'}
+                          {!facility.available && ' — not available'}
+                          {facility.note && <span className="block text-muted-foreground">{facility.note}</span>}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <div className="text-sm text-muted-foreground">TfL has no facility information for this station.</div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
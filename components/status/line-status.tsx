@@ -1,12 +1,13 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/components/ui/use-toast';
-import { RefreshCw, Search, Train } from 'lucide-react';
+import { History, RefreshCw, Search, Train } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { getLineColor, getModeColor, getLineShortLabel } from '@/lib/line-colors';
 import { TflBadge } from '@/components/branding/tfl-badge';
@@ -360,6 +361,12 @@ export function LineStatus({ defaultMode }: LineStatusProps) {
             />
           </div>
           
+          <Button variant="outline" size="icon" asChild>
+            <Link href="/status/history" aria-label="Status history" title="Status history">
+              <History className="h-4 w-4" />
+            </Link>
+          </Button>
+
           <Button
             variant="outline"
             size="icon"
@@ -475,7 +482,7 @@ function ModeBadge({ mode, label }: { mode: string; label?: string }) {
   );
 }
 
-function SeverityTag({ severity, label }: { severity: number; label: string }) {
+export function SeverityTag({ severity, label }: { severity: number; label: string }) {
   // Map TFL severity codes to chip colors
   // 10: Good Service (green)
   // 7-9: Minor to Reduced/Bus service (amber)
@@ -0,0 +1,265 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { History, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TflBadge } from '@/components/branding/tfl-badge';
+import { ModeFilter } from '@/components/status/mode-filter';
+import { SeverityTag } from '@/components/status/line-status';
+import { ALL_MODE_OPTION, MODE_KEYS, modeConfig, type ModeSelectionValue } from '@/lib/mode-config';
+import type { LineTimeline, StatusPeriod } from '@/lib/status-history';
+import { cn } from '@/lib/utils';
+
+interface StatusHistoryData {
+  since: string;
+  until: string;
+  lines: LineTimeline[];
+}
+
+type HistoryState = 'loading' | 'ready' | 'unavailable' | 'error';
+
+const WINDOWS = [
+  { hours: 6, label: '6 hours' },
+  { hours: 24, label: '24 hours' },
+  { hours: 24 * 7, label: '7 days' },
+];
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/London',
+  });
+
+// Same bands as SeverityTag
+const severityBar = (severity: number) => {
+  if (severity >= 10) return 'bg-green-500';
+  if (severity >= 7) return 'bg-amber-400';
+  if (severity >= 4) return 'bg-orange-500';
+  return 'bg-red-600';
+};
+
+type Segment = { key: string; start: number; end: number; className: string; title: string };
+
+// The window split at each change. Before the first change only the status's name is known, so it is shaded
+// as good service or left neutral.
+const timelineSegments = (timeline: LineTimeline, since: string, until: string): Segment[] => {
+  const windowStart = Date.parse(since);
+  const windowEnd = Date.parse(until);
+  const [first] = timeline.periods;
+  const segments: Segment[] = [];
+
+  if (first && Date.parse(first.at) > windowStart) {
+    segments.push({
+      key: 'start',
+      start: windowStart,
+      end: Date.parse(first.at),
+      className: first.from === 'Good Service' ? 'bg-green-500' : 'bg-muted',
+      title: first.from || 'No earlier status recorded',
+    });
+  }
+  timeline.periods.forEach((period) => {
+    segments.push({
+      key: period.at,
+      start: Math.max(windowStart, Date.parse(period.at)),
+      end: period.until ? Date.parse(period.until) : windowEnd,
+      className: severityBar(period.isGoodService ? 10 : period.severity),
+      title: period.summary,
+    });
+  });
+
+  const span = Math.max(1, windowEnd - windowStart);
+  return segments.map((segment) => ({
+    ...segment,
+    start: ((segment.start - windowStart) / span) * 100,
+    end: ((segment.end - windowStart) / span) * 100,
+  }));
+};
+
+function LineTimelineCard({ timeline, since, until }: { timeline: LineTimeline; since: string; until: string }) {
+  // Newest first in the list, oldest first along the bar
+  const periods: StatusPeriod[] = [...timeline.periods].reverse();
+  const latest = periods[0];
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <TflBadge mode={timeline.modeName} lineIdOrName={timeline.lineId} size={32} ariaLabel={`${timeline.lineName} ${timeline.modeName}`} />
+            <div>
+              <CardTitle className="text-base">{timeline.lineName}</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {modeConfig[timeline.modeName as keyof typeof modeConfig]?.label || timeline.modeName}
+              </p>
+            </div>
+          </div>
+          <SeverityTag severity={latest.isGoodService ? 10 : latest.severity} label={latest.to} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-0">
+        <div>
+          <div className="relative h-3 overflow-hidden rounded-full bg-muted" role="img" aria-label={`${timeline.lineName} status over time`}>
+            {timelineSegments(timeline, since, until).map((segment) => (
+              <div
+                key={segment.key}
+                className={cn('absolute inset-y-0', segment.className)}
+                style={{ left: `${segment.start}%`, width: `${Math.max(0.5, segment.end - segment.start)}%` }}
+                title={segment.title}
+              />
+            ))}
+          </div>
+          <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+            <span>{formatTime(since)}</span>
+            <span>Now</span>
+          </div>
+        </div>
+
+        <ol className="space-y-2">
+          {periods.map((period) => (
+            <li key={period.at} className="rounded-lg border p-3 text-sm">
+              <p className="font-medium">{period.summary}</p>
+              <p className="text-xs text-muted-foreground">
+                <time dateTime={period.at}>{formatTime(period.at)}</time>
+              </p>
+              {!period.isGoodService && period.reason && <p className="mt-1 text-muted-foreground">{period.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
+
+// How each line's status changed over a recent window, one timeline per line that changed
+export function StatusHistory() {
+  const [hours, setHours] = useState(24);
+  const [selectedMode, setSelectedMode] = useState<ModeSelectionValue>(ALL_MODE_OPTION.value);
+  const [state, setState] = useState<HistoryState>('loading');
+  const [data, setData] = useState<StatusHistoryData | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchHistory = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      const params = new URLSearchParams({ hours: String(hours) });
+      if (selectedMode !== ALL_MODE_OPTION.value) params.set('mode', selectedMode);
+
+      const response = await fetch(`/api/status/history?${params.toString()}`);
+      if (response.status === 503) {
+        setState('unavailable');
+        return;
+      }
+      const result = await response.json().catch(() => null);
+      if (!response.ok || result?.status !== 'success') {
+        throw new Error(result?.error || 'Failed to load status history');
+      }
+      setData(result.data);
+      setState('ready');
+    } catch (error) {
+      console.error('Status history load error:', error);
+      setState('error');
+    } finally {
+      setRefreshing(false);
+    }
+  }, [hours, selectedMode]);
+
+  useEffect(() => {
+    void fetchHistory();
+  }, [fetchHistory]);
+
+  const modeOptions = useMemo(
+    () => [
+      { value: ALL_MODE_OPTION.value, label: ALL_MODE_OPTION.label, icon: ALL_MODE_OPTION.icon },
+      ...MODE_KEYS.map((mode) => ({
+        value: mode as ModeSelectionValue,
+        label: modeConfig[mode].label,
+        icon: modeConfig[mode].icon,
+      })),
+    ],
+    []
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="flex items-center gap-2 text-2xl font-bold">
+            <History className="h-6 w-6" aria-hidden="true" /> Status History
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Every status change, as recorded from the live status each minute.{' '}
+            <Link href="/status" className="text-tfl-blue hover:underline">Current status</Link>
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border" role="group" aria-label="Time window">
+            {WINDOWS.map((item) => (
+              <button
+                key={item.hours}
+                type="button"
+                aria-pressed={hours === item.hours}
+                onClick={() => setHours(item.hours)}
+                className={cn(
+                  'px-3 py-1.5 text-sm first:rounded-l-md last:rounded-r-md',
+                  hours === item.hours ? 'bg-tfl-blue text-white' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="icon" onClick={() => fetchHistory()} disabled={refreshing} aria-label="Refresh">
+            <RefreshCw className={cn('h-4 w-4', refreshing && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      <ModeFilter
+        options={modeOptions}
+        selected={selectedMode}
+        onSelect={setSelectedMode}
+        disabled={refreshing}
+        description="Choose a network to focus the history."
+      />
+
+      {state === 'loading' && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status">
+          <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" /> Loading status history…
+        </p>
+      )}
+
+      {(state === 'unavailable' || state === 'error') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>History unavailable</CardTitle>
+            <CardDescription>
+              {state === 'unavailable'
+                ? 'Status history is not set up on this server.'
+                : 'The status history could not be loaded. Please try again later.'}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {state === 'ready' && data && (
+        data.lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes in this window.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Lines not listed ran without a status change.</p>
+            <div className="grid gap-4 md:grid-cols-2">
+              {data.lines.map((timeline) => (
+                <LineTimelineCard key={timeline.lineId} timeline={timeline} since={data.since} until={data.until} />
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
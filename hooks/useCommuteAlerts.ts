@@ -0,0 +1,201 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useUserProfile } from '@/components/account/user-profile-provider';
+import { createCommute, sanitizeCommute, type Commute, type CommuteAlert, type CommuteWindow } from '@/lib/commute-alerts';
+import { getAccessToken } from '@/lib/supabase-browser';
+import type { SavedJourney } from '@/types';
+
+// Without an account, commutes and alerts belong to this browser's code
+const ALERTS_CODE_KEY = 'spitro-alerts-code';
+const SERVICE_WORKER_URL = '/sw.js';
+
+export type CommuteAlertsStatus = 'loading' | 'ready' | 'unavailable' | 'error';
+export type PushState = 'unsupported' | 'denied' | 'off' | 'on';
+
+interface UseCommuteAlertsReturn {
+  status: CommuteAlertsStatus;
+  push: PushState;
+  commutes: Commute[];
+  // Newest first
+  history: CommuteAlert[];
+  busy: boolean;
+  enablePush: () => Promise<void>;
+  disablePush: () => Promise<void>;
+  // False when the journey has no lines recorded to watch
+  addCommute: (journey: SavedJourney, commuteWindow: CommuteWindow) => Promise<boolean>;
+  removeCommute: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const newCode = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+const alertsCode = (): string => {
+  try {
+    const stored = window.localStorage.getItem(ALERTS_CODE_KEY);
+    if (stored) return stored;
+    const code = newCode();
+    window.localStorage.setItem(ALERTS_CODE_KEY, code);
+    return code;
+  } catch {
+    return newCode();
+  }
+};
+
+const isPushSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+const currentSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+// Commutes, alert history and this browser's push subscription, through /api/alerts
+export function useCommuteAlerts(): UseCommuteAlertsReturn {
+  const { user } = useUserProfile();
+  const userId = user?.id;
+  const [status, setStatus] = useState<CommuteAlertsStatus>('loading');
+  const [push, setPush] = useState<PushState>('off');
+  const [commutes, setCommutes] = useState<Commute[]>([]);
+  const [history, setHistory] = useState<CommuteAlert[]>([]);
+  const [busy, setBusy] = useState(false);
+  const publicKeyRef = useRef<string | null>(null);
+
+  // Resolves to the response's data, or null when alerts are not configured on the server
+  const request = useCallback(async (path: string, init: RequestInit = {}): Promise<any | null> => {
+    const token = await getAccessToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    });
+    if (response.status === 503) {
+      setStatus('unavailable');
+      return null;
+    }
+    const data = await response.json().catch(() => null);
+    if (!response.ok || data?.status !== 'success') {
+      throw new Error(data?.error || 'Commute alerts request failed');
+    }
+    return data.data;
+  }, []);
+
+  const saveSubscription = useCallback(async (subscription: PushSubscription) => {
+    await request('/api/alerts/subscription', {
+      method: 'PUT',
+      body: JSON.stringify({ userId: alertsCode(), subscription: subscription.toJSON() }),
+    });
+  }, [request]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await request(`/api/alerts?userId=${encodeURIComponent(alertsCode())}`);
+      if (!data) return;
+      publicKeyRef.current = data.publicKey || null;
+      setCommutes((Array.isArray(data.commutes) ? data.commutes : [])
+        .map(sanitizeCommute)
+        .filter((commute: Commute | null): commute is Commute => commute !== null));
+      setHistory(Array.isArray(data.history) ? data.history : []);
+      setStatus('ready');
+    } catch (error) {
+      console.error('Commute alerts load error:', error);
+      setStatus('error');
+    }
+  }, [request]);
+
+  // Load on mount and again on sign-in or out, which changes whose commutes these are. A browser already
+  // subscribed is re-registered so its alerts follow the account it is now signed in to.
+  useEffect(() => {
+    void refresh();
+
+    if (!isPushSupported()) {
+      setPush('unsupported');
+      return;
+    }
+    if (Notification.permission === 'denied') {
+      setPush('denied');
+      return;
+    }
+    currentSubscription()
+      .then((subscription) => {
+        setPush(subscription && Notification.permission === 'granted' ? 'on' : 'off');
+        if (subscription) return saveSubscription(subscription);
+      })
+      .catch((error) => console.error('Push subscription check error:', error));
+  }, [userId, refresh, saveSubscription]);
+
+  const enablePush = useCallback(async () => {
+    if (!isPushSupported() || !publicKeyRef.current) return;
+    setBusy(true);
+    try {
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setPush(permission === 'denied' ? 'denied' : 'off');
+        return;
+      }
+      const subscription = (await registration.pushManager.getSubscription())
+        ?? (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          // The base64url VAPID public key, which browsers accept as is
+          applicationServerKey: publicKeyRef.current,
+        }));
+      await saveSubscription(subscription);
+      setPush('on');
+    } finally {
+      setBusy(false);
+    }
+  }, [saveSubscription]);
+
+  const disablePush = useCallback(async () => {
+    if (!isPushSupported()) return;
+    setBusy(true);
+    try {
+      const subscription = await currentSubscription();
+      if (subscription) {
+        await request('/api/alerts/subscription', {
+          method: 'DELETE',
+          body: JSON.stringify({ userId: alertsCode(), endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setPush('off');
+    } finally {
+      setBusy(false);
+    }
+  }, [request]);
+
+  const addCommute = useCallback(async (journey: SavedJourney, commuteWindow: CommuteWindow) => {
+    const commute = createCommute(journey, commuteWindow);
+    if (!commute) return false;
+    setBusy(true);
+    try {
+      const data = await request('/api/alerts', {
+        method: 'PUT',
+        body: JSON.stringify({ userId: alertsCode(), commute }),
+      });
+      if (data) setCommutes(data.commutes || []);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }, [request]);
+
+  const removeCommute = useCallback(async (id: string) => {
+    setBusy(true);
+    try {
+      const data = await request(
+        `/api/alerts?userId=${encodeURIComponent(alertsCode())}&id=${encodeURIComponent(id)}`,
+        { method: 'DELETE' }
+      );
+      if (data) setCommutes(data.commutes || []);
+    } finally {
+      setBusy(false);
+    }
+  }, [request]);
+
+  return { status, push, commutes, history, busy, enablePush, disablePush, addCommute, removeCommute, refresh };
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  findSavedRoute,
+  mergeSavedJourneys,
+  moveFavorite,
+  removeSavedJourney,
+  renameSavedJourney,
+  sanitizeSavedJourneys,
+  saveRoute,
+  toggleFavorite,
+  visibleSavedJourneys,
+  type SavableRoute,
+} from '@/lib/saved-journeys';
+import { useUserProfile } from '@/components/account/user-profile-provider';
+import { getAccessToken } from '@/lib/supabase-browser';
+import type { SavedJourney } from '@/types';
+
+const SAVED_JOURNEYS_KEY = 'spitro-saved-journeys';
+// Present only while anonymous sync is on; the same code on another device shares the list. Signed-in users sync
+// through their account instead.
+const SYNC_CODE_KEY = 'spitro-saved-journeys-sync';
+
+// Changes are pushed after a short pause so a burst of reordering is one request
+const SYNC_DELAY_MS = 1000;
+
+export type SavedJourneySyncStatus = 'off' | 'syncing' | 'synced' | 'unavailable' | 'error';
+
+interface UseSavedJourneysReturn {
+  // Favourites in order, then other saved journeys newest first
+  journeys: SavedJourney[];
+  findRoute: (route: SavableRoute) => SavedJourney | undefined;
+  save: (route: SavableRoute, name?: string) => void;
+  rename: (id: string, name: string) => void;
+  toggleFavorite: (id: string) => void;
+  move: (id: string, offset: number) => void;
+  remove: (id: string) => void;
+  syncCode: string | null;
+  syncStatus: SavedJourneySyncStatus;
+  // Synced through the signed-in account rather than a code
+  syncedToAccount: boolean;
+  // Turns sync on with a new code, or with the code from another device
+  enableSync: (code?: string) => void;
+  disableSync: () => void;
+}
+
+const newSyncCode = () =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+
+const writeJourneys = (journeys: SavedJourney[]) => {
+  try {
+    window.localStorage.setItem(SAVED_JOURNEYS_KEY, JSON.stringify(journeys));
+  } catch {}
+};
+
+export function useSavedJourneys(): UseSavedJourneysReturn {
+  const { user } = useUserProfile();
+  const userId = user?.id;
+  const [allJourneys, setAllJourneys] = useState<SavedJourney[]>([]);
+  const [syncCode, setSyncCode] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SavedJourneySyncStatus>('off');
+  // Latest values for the sync callbacks, which outlive the render that scheduled them
+  const journeysRef = useRef<SavedJourney[]>([]);
+  const syncCodeRef = useRef<string | null>(null);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const store = useCallback((journeys: SavedJourney[]) => {
+    journeysRef.current = journeys;
+    setAllJourneys(journeys);
+    writeJourneys(journeys);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    const code = syncCodeRef.current;
+    const token = await getAccessToken();
+    if (!code && !token) return;
+
+    setSyncStatus('syncing');
+    try {
+      const response = await fetch('/api/saved-journeys', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+        body: JSON.stringify({ userId: code, journeys: journeysRef.current }),
+      });
+      if (response.status === 503) {
+        setSyncStatus('unavailable');
+        return;
+      }
+      const data = await response.json().catch(() => null);
+      if (!response.ok || data?.status !== 'success') {
+        throw new Error(data?.error || 'Failed to sync saved journeys');
+      }
+      // Keep anything changed here while the request was out
+      store(mergeSavedJourneys(journeysRef.current, sanitizeSavedJourneys(data.data?.journeys)));
+      setSyncStatus('synced');
+    } catch (error) {
+      console.error('Saved journeys sync error:', error);
+      setSyncStatus('error');
+    }
+  }, [store]);
+
+  const scheduleSync = useCallback(() => {
+    if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    syncTimerRef.current = setTimeout(() => {
+      syncTimerRef.current = null;
+      void syncNow();
+    }, SYNC_DELAY_MS);
+  }, [syncNow]);
+
+  const update = useCallback((change: (journeys: SavedJourney[]) => SavedJourney[]) => {
+    store(change(journeysRef.current));
+    scheduleSync();
+  }, [store, scheduleSync]);
+
+  // Load this device's list, then catch up with the synced copy
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    try {
+      // Merging with nothing drops tombstones that have expired
+      const stored = sanitizeSavedJourneys(JSON.parse(window.localStorage.getItem(SAVED_JOURNEYS_KEY) || '[]'));
+      store(mergeSavedJourneys(stored, []));
+    } catch {}
+
+    const code = window.localStorage.getItem(SYNC_CODE_KEY);
+    if (code) {
+      syncCodeRef.current = code;
+      setSyncCode(code);
+      void syncNow();
+    }
+
+    return () => {
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+    };
+  }, [store, syncNow]);
+
+  // Signing in brings the account's journeys in and this browser's up
+  useEffect(() => {
+    if (userId) void syncNow();
+  }, [userId, syncNow]);
+
+  const enableSync = useCallback((code?: string) => {
+    const next = code?.trim() || newSyncCode();
+    syncCodeRef.current = next;
+    setSyncCode(next);
+    try {
+      window.localStorage.setItem(SYNC_CODE_KEY, next);
+    } catch {}
+    void syncNow();
+  }, [syncNow]);
+
+  const disableSync = useCallback(() => {
+    syncCodeRef.current = null;
+    setSyncCode(null);
+    if (!userId) setSyncStatus('off');
+    try {
+      window.localStorage.removeItem(SYNC_CODE_KEY);
+    } catch {}
+  }, [userId]);
+
+  const journeys = useMemo(() => visibleSavedJourneys(allJourneys), [allJourneys]);
+
+  return {
+    journeys,
+    findRoute: useCallback((route: SavableRoute) => findSavedRoute(allJourneys, route), [allJourneys]),
+    save: useCallback((route: SavableRoute, name?: string) => update((list) => saveRoute(list, route, name)), [update]),
+    rename: useCallback((id: string, name: string) => update((list) => renameSavedJourney(list, id, name)), [update]),
+    toggleFavorite: useCallback((id: string) => update((list) => toggleFavorite(list, id)), [update]),
+    move: useCallback((id: string, offset: number) => update((list) => moveFavorite(list, id, offset)), [update]),
+    remove: useCallback((id: string) => update((list) => removeSavedJourney(list, id)), [update]),
+    syncCode,
+    syncStatus,
+    syncedToAccount: !!userId,
+    enableSync,
+    disableSync,
+  };
+}
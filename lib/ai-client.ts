@@ -1,69 +1,61 @@
-import { config } from './config';
+import { createLLMProvider, type ChatCompletionRequest, type LLMProvider } from '@/lib/llm';
+import { rateLimiters, type RateLimiter } from '@/lib/rate-limiter';
 import {
   NLPJourneyIntent,
   NLP_SYSTEM_PROMPT,
   createDefaultIntent,
   isValidIntentType,
 } from '@/lib/schemas/nlp-response';
-
-interface AzureOpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface AzureOpenAIRequest {
-  messages: AzureOpenAIMessage[];
-  temperature?: number;
-  max_completion_tokens?: number;
-  top_p?: number;
-  frequency_penalty?: number;
-  presence_penalty?: number;
-  response_format?: { type: 'json_object' };
-}
-
-interface AzureOpenAIResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: AzureOpenAIMessage;
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+import {
+  parseJourneyQueryWithRules,
+  parseStationQueryWithRules,
+  parseStatusQueryWithRules,
+  refineJourneyIntentWithRules,
+} from '@/lib/nlp-rule-parser';
 
 class AzureAIClient {
-  private apiUrl: string;
-  private apiKey: string;
-  private transcriptionUrl: string;
+  private provider: LLMProvider;
+  private rateLimiter: RateLimiter | null;
 
-  constructor() {
-    this.apiUrl = config.azure.apiUrl;
-    this.apiKey = config.azure.apiKey;
-    this.transcriptionUrl = config.azure.transcriptionUrl;
+  constructor(provider: LLMProvider = createLLMProvider(), rateLimiter: RateLimiter | null = rateLimiters.azure) {
+    this.provider = provider;
+    this.rateLimiter = rateLimiter;
 
-    if ((!this.apiUrl || !this.apiKey) && process.env.NODE_ENV !== 'test') {
-      console.warn('Azure OpenAI configuration is missing');
+    if (!this.provider.isConfigured() && process.env.NODE_ENV !== 'test') {
+      console.warn(`${this.provider.name} configuration is missing`);
     }
 
-    if (!this.transcriptionUrl && process.env.NODE_ENV !== 'test') {
-      console.warn('Azure OpenAI transcription endpoint is missing');
+    if (!this.provider.supportsTranscription() && process.env.NODE_ENV !== 'test') {
+      console.warn(`${this.provider.name} transcription endpoint is missing`);
     }
   }
 
+  // Every completion draws from the shared LLM budget; a shed request fails like any other provider error
+  private async complete(request: ChatCompletionRequest): Promise<string> {
+    await this.rateLimiter?.acquire();
+    return this.provider.complete(request);
+  }
+
   async parseJourneyIntent(userQuery: string): Promise<NLPJourneyIntent> {
-    if (!this.apiUrl || !this.apiKey) {
-      throw new Error('Azure OpenAI is not configured properly');
+    // Retries carry JSON_FEEDBACK for the LLM; the rule parser only ever sees the traveller's words
+    const isFeedbackRetry = userQuery.includes('JSON_FEEDBACK:');
+    const travellerQuery = userQuery.split('\n\nJSON_FEEDBACK:')[0];
+    // "Delays to the Central line" reads like a journey too, so a status reading wins unless the journey parse is clean
+    const journeyParse = parseJourneyQueryWithRules(travellerQuery);
+    const ruleParse = journeyParse?.unambiguous
+      ? journeyParse
+      : parseStatusQueryWithRules(travellerQuery) ?? parseStationQueryWithRules(travellerQuery) ?? journeyParse;
+
+    if (ruleParse?.unambiguous && !isFeedbackRetry) {
+      return ruleParse.intent;
+    }
+
+    if (!this.provider.isConfigured()) {
+      return ruleParse ? ruleParse.intent : createDefaultIntent(userQuery);
     }
 
     try {
-      const requestBody: AzureOpenAIRequest = {
+      const messageContent = await this.complete({
         messages: [
           {
             role: 'system',
@@ -74,36 +66,10 @@ class AzureAIClient {
             content: userQuery,
           },
         ],
-        max_completion_tokens: 500,
-        response_format: { type: 'json_object' },
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.apiKey,
-        },
-        body: JSON.stringify(requestBody),
+        maxTokens: 500,
+        json: true,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `Azure OpenAI API error: ${response.status} - ${
-            errorData.error?.message || response.statusText
-          }`
-        );
-      }
-
-      const data: AzureOpenAIResponse = await response.json();
-
-      if (!data.choices || data.choices.length === 0) {
-        throw new Error('No response from Azure OpenAI');
-      }
-
-      const messageContent = data.choices[0].message.content;
-      
       // Parse the JSON response
       const intent = JSON.parse(messageContent) as NLPJourneyIntent;
 
@@ -121,58 +87,75 @@ class AzureAIClient {
     } catch (error) {
       console.error('Error parsing journey intent:', error);
       
-      // Return a default intent on error
-      return createDefaultIntent(userQuery);
+      // Fall back to the rule-based parse, then to a default intent
+      return ruleParse ? ruleParse.intent : createDefaultIntent(userQuery);
     }
   }
 
-  async transcribeAudio(
-    audioBuffer: ArrayBuffer,
-    filename: string,
-    mimeType: string,
-    prompt?: string
-  ): Promise<string> {
-    if (!this.transcriptionUrl || !this.apiKey) {
-      throw new Error('Azure OpenAI transcription is not configured properly');
+  // A follow-up in a conversation ("actually leave at 8") changes the previous intent rather than replacing it
+  async refineJourneyIntent(previous: NLPJourneyIntent, followUp: string): Promise<NLPJourneyIntent> {
+    const refined = refineJourneyIntentWithRules(previous, followUp);
+    if (refined?.unambiguous) {
+      return refined.intent;
     }
 
-    try {
-      const formData = new FormData();
-      const audioBlob = new Blob([audioBuffer], { type: mimeType });
-
-      formData.append('file', audioBlob, filename);
-      formData.append('response_format', 'json');
-      formData.append('language', 'en');
-      formData.append('temperature', '0');
+    // A whole new journey, or a station or status question, stands on its own
+    const fresh = parseJourneyQueryWithRules(followUp);
+    const standalone = fresh?.unambiguous
+      ? fresh
+      : parseStatusQueryWithRules(followUp) ?? parseStationQueryWithRules(followUp);
+    if (standalone?.unambiguous) {
+      return standalone.intent;
+    }
 
-      if (prompt) {
-        formData.append('prompt', prompt);
-      }
+    if (!this.provider.isConfigured()) {
+      return refined ? refined.intent : this.parseJourneyIntent(followUp);
+    }
 
-      const response = await fetch(this.transcriptionUrl, {
-        method: 'POST',
-        headers: {
-          'api-key': this.apiKey,
-        },
-        body: formData,
+    try {
+      const messageContent = await this.complete({
+        messages: [
+          {
+            role: 'system',
+            content: NLP_SYSTEM_PROMPT,
+          },
+          {
+            role: 'user',
+            content: `PREVIOUS_INTENT:\n${JSON.stringify(previous)}\n\nFOLLOW_UP:\n${followUp}\n\nThe follow-up continues the same conversation. Return the complete updated intent JSON, keeping everything from the previous intent that the follow-up does not change. If the follow-up is a new, unrelated request, return the intent for it alone.`,
+          },
+        ],
+        maxTokens: 500,
+        json: true,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          `Azure OpenAI transcription error: ${response.status} - ${
-            errorData.error?.message || response.statusText
-          }`
-        );
+      const intent = JSON.parse(messageContent) as NLPJourneyIntent;
+      if (!isValidIntentType(intent.type)) {
+        throw new Error(`Invalid intent type: ${intent.type}`);
       }
+      intent.rawQuery = followUp;
 
-      const data = await response.json();
-
-      if (!data?.text) {
-        throw new Error('No transcription text returned');
-      }
+      return intent;
+    } catch (error) {
+      console.error('Error refining journey intent:', error);
+      return refined ? refined.intent : this.parseJourneyIntent(followUp);
+    }
+  }
 
-      return data.text as string;
+  async transcribeAudio(
+    audioBuffer: ArrayBuffer,
+    filename: string,
+    mimeType: string,
+    prompt?: string
+  ): Promise<string> {
+    try {
+      await this.rateLimiter?.acquire();
+      return await this.provider.transcribe({
+        audio: audioBuffer,
+        filename,
+        mimeType,
+        prompt,
+        language: 'en',
+      });
     } catch (error) {
       console.error('Error transcribing audio:', error);
       throw error;
@@ -180,12 +163,12 @@ class AzureAIClient {
   }
 
   async generateAccessibleDescription(journey: any): Promise<string> {
-    if (!this.apiUrl || !this.apiKey) {
+    if (!this.provider.isConfigured()) {
       return 'Journey description not available';
     }
 
     try {
-      const requestBody: AzureOpenAIRequest = {
+      const content = await this.complete({
         messages: [
           {
             role: 'system',
@@ -202,24 +185,10 @@ Keep it under 200 words and use simple language.`,
             content: `Describe this journey: ${JSON.stringify(journey)}`,
           },
         ],
-        max_completion_tokens: 2000,
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.apiKey,
-        },
-        body: JSON.stringify(requestBody),
+        maxTokens: 2000,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to generate description');
-      }
-
-      const data: AzureOpenAIResponse = await response.json();
-      return data.choices[0]?.message.content || 'Journey description not available';
+      return content || 'Journey description not available';
     } catch (error) {
       console.error('Error generating accessible description:', error);
       return 'Journey description not available';
@@ -230,12 +199,12 @@ Keep it under 200 words and use simple language.`,
     originalQuery: string,
     ambiguities: string[]
   ): Promise<string[]> {
-    if (!this.apiUrl || !this.apiKey) {
+    if (!this.provider.isConfigured()) {
       return [];
     }
 
     try {
-      const requestBody: AzureOpenAIRequest = {
+      const content = await this.complete({
         messages: [
           {
             role: 'system',
@@ -249,26 +218,11 @@ Return a JSON array of strings, each being a short question.`,
 Ambiguities: ${ambiguities.join(', ')}`,
           },
         ],
-        max_completion_tokens: 200,
-        response_format: { type: 'json_object' },
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.apiKey,
-        },
-        body: JSON.stringify(requestBody),
+        maxTokens: 200,
+        json: true,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to generate clarifying questions');
-      }
-
-      const data: AzureOpenAIResponse = await response.json();
-      const content = data.choices[0]?.message.content || '{"questions":[]}';
-      const parsed = JSON.parse(content);
+      const parsed = JSON.parse(content || '{"questions":[]}');
       return parsed.questions || [];
     } catch (error) {
       console.error('Error generating clarifying questions:', error);
@@ -281,12 +235,12 @@ Ambiguities: ${ambiguities.join(', ')}`,
     stations?: string[];
     mode?: string;
   }> {
-    if (!this.apiUrl || !this.apiKey) {
+    if (!this.provider.isConfigured()) {
       return {};
     }
 
     try {
-      const requestBody: AzureOpenAIRequest = {
+      const content = await this.complete({
         messages: [
           {
             role: 'system',
@@ -302,26 +256,11 @@ Be specific with line names. For example, "Central Line" -> "Central".`,
             content: query,
           },
         ],
-        max_completion_tokens: 200,
-        response_format: { type: 'json_object' },
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.apiKey,
-        },
-        body: JSON.stringify(requestBody),
+        maxTokens: 200,
+        json: true,
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to parse service status query');
-      }
-
-      const data: AzureOpenAIResponse = await response.json();
-      const content = data.choices[0]?.message.content || '{}';
-      return JSON.parse(content);
+      return JSON.parse(content || '{}');
     } catch (error) {
       console.error('Error parsing service status query:', error);
       return {};
@@ -330,12 +269,12 @@ Be specific with line names. For example, "Central Line" -> "Central".`,
 
   // Utility method to enhance location names for better TFL search
   async enhanceLocationName(locationName: string): Promise<string> {
-    if (!this.apiUrl || !this.apiKey) {
+    if (!this.provider.isConfigured()) {
       return locationName;
     }
 
     try {
-      const requestBody: AzureOpenAIRequest = {
+      const content = await this.complete({
         messages: [
           {
             role: 'system',
@@ -350,24 +289,10 @@ Return a single line of text with no extra commentary.`,
             content: locationName,
           },
         ],
-        max_completion_tokens: 50,
-      };
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': this.apiKey,
-        },
-        body: JSON.stringify(requestBody),
+        maxTokens: 50,
       });
 
-      if (!response.ok) {
-        return locationName;
-      }
-
-      const data: AzureOpenAIResponse = await response.json();
-      return data.choices[0]?.message.content.trim() || locationName;
+      return content.trim() || locationName;
     } catch (error) {
       console.error('Error enhancing location name:', error);
       return locationName;
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { checkRateLimit, classifyRoute, getClientId, MemoryRateLimitStore, SESSION_COOKIE } from './api-rate-limit';
+
+const request = (init: { ip?: string; headers?: Record<string, string> } = {}) =>
+  new NextRequest('https://example.com/api/ask', init);
+
+describe('classifyRoute', () => {
+  it('puts LLM-backed routes in the llm class', () => {
+    expect(classifyRoute('/api/ask')).toBe('llm');
+    expect(classifyRoute('/api/journey/stream')).toBe('llm');
+    expect(classifyRoute('/api/nlp/parse/')).toBe('llm');
+  });
+
+  it('puts a free-text status query in the llm class but not the plain status board', () => {
+    expect(classifyRoute('/api/status', new URLSearchParams('query=is+the+central+line+ok'))).toBe('llm');
+    expect(classifyRoute('/api/status', new URLSearchParams('query=%20'))).toBe('standard');
+    expect(classifyRoute('/api/status', new URLSearchParams('modes=tube'))).toBe('standard');
+    expect(classifyRoute('/api/status')).toBe('standard');
+  });
+
+  it('classifies the remaining routes', () => {
+    expect(classifyRoute('/api/journey/refresh')).toBe('journey-refresh');
+    expect(classifyRoute('/api/stations/search')).toBe('search');
+    expect(classifyRoute('/api/status/refresh', new URLSearchParams('query=x'))).toBe('cron');
+    expect(classifyRoute('/api/arrivals')).toBe('standard');
+  });
+});
+
+describe('getClientId', () => {
+  it('uses the IP the platform reports over any forwarded header', () => {
+    expect(getClientId(request({ ip: '203.0.113.7', headers: { 'x-forwarded-for': '198.51.100.1' } }))).toBe('ip:203.0.113.7');
+  });
+
+  it('trusts only the right-most forwarded entry without a platform IP', () => {
+    expect(getClientId(request({ headers: { 'x-forwarded-for': '198.51.100.1, 203.0.113.9' } }))).toBe('ip:203.0.113.9');
+    expect(getClientId(request({ headers: { 'x-real-ip': '203.0.113.5', 'x-forwarded-for': '198.51.100.1' } }))).toBe('ip:203.0.113.5');
+  });
+
+  it('falls back to the session cookie, then to a shared anonymous bucket', () => {
+    expect(getClientId(request({ headers: { cookie: `${SESSION_COOKIE}=abc123` } }))).toBe('sid:abc123');
+    expect(getClientId(request())).toBe('anonymous');
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('allows requests up to the class limit within a window', async () => {
+    const store = new MemoryRateLimitStore();
+    const now = Date.UTC(2026, 9, 19, 9, 0, 30);
+
+    const decisions = [];
+    for (let index = 0; index < 11; index += 1) {
+      decisions.push(await checkRateLimit(store, 'ip:203.0.113.7', 'llm', now));
+    }
+
+    expect(decisions[9]).toEqual(expect.objectContaining({ allowed: true, remaining: 0 }));
+    expect(decisions[10]).toEqual(expect.objectContaining({ allowed: false, retryAfterSeconds: 30 }));
+    expect((await checkRateLimit(store, 'ip:203.0.113.8', 'llm', now)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+import type { NextRequest } from 'next/server';
+import { config } from './config';
+
+// Per-client request limits for our own /api routes, applied in middleware.ts.
+// Runs in the Edge runtime, so this module must only use fetch and Web APIs.
+
+export type RouteClass = 'llm' | 'journey-refresh' | 'search' | 'cron' | 'standard';
+
+export interface RouteLimit {
+  limit: number;
+  windowMs: number;
+}
+
+// LLM-backed routes fan out into several model calls per request, so they get the tightest budget
+export const ROUTE_LIMITS: Record<RouteClass, RouteLimit> = {
+  llm: { limit: 10, windowMs: 60_000 },
+  'journey-refresh': { limit: 30, windowMs: 60_000 },
+  search: { limit: 120, windowMs: 60_000 },
+  cron: { limit: 6, windowMs: 60_000 },
+  standard: { limit: 60, windowMs: 60_000 },
+};
+
+// `param` limits a pattern to requests carrying that query parameter
+const ROUTE_CLASS_PATTERNS: Array<{ routeClass: RouteClass; pattern: RegExp; param?: string }> = [
+  { routeClass: 'journey-refresh', pattern: /^\/api\/journey\/refresh\/?$/ },
+  { routeClass: 'llm', pattern: /^\/api\/(ask|journey|journey\/stream|journey\/page|nlp\/parse|nlp\/transcribe)\/?$/ },
+  // A free-text status query falls back to the LLM; the plain status board does not
+  { routeClass: 'llm', pattern: /^\/api\/status\/?$/, param: 'query' },
+  { routeClass: 'search', pattern: /^\/api\/stations\/search\/?$/ },
+  { routeClass: 'cron', pattern: /^\/api\/(status\/refresh|stations\/catalogue\/refresh)\/?$/ },
+];
+
+export const classifyRoute = (pathname: string, searchParams?: URLSearchParams): RouteClass =>
+  ROUTE_CLASS_PATTERNS.find(({ pattern, param }) =>
+    pattern.test(pathname) && (!param || !!searchParams?.get(param)?.trim())
+  )?.routeClass ?? 'standard';
+
+export const SESSION_COOKIE = 'spitro_sid';
+
+// Prefer the client IP as the platform reports it; fall back to a per-browser session cookie when no IP is
+// available (e.g. local dev). Clients can send their own X-Forwarded-For, so only the right-most entry, the one
+// our own proxy appended, is trusted when the platform gives no IP.
+export const getClientId = (request: NextRequest): string => {
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',');
+  const ip = request.ip || request.headers.get('x-real-ip') || forwardedFor?.[forwardedFor.length - 1]?.trim();
+  if (ip) return `ip:${ip}`;
+
+  const sessionId = request.cookies.get(SESSION_COOKIE)?.value;
+  return sessionId ? `sid:${sessionId}` : 'anonymous';
+};
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Count one hit in the window that contains `now` and return the running total for that window
+  increment(key: string, windowMs: number): Promise<number>;
+}
+
+class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private lastSweep = 0;
+
+  async increment(key: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const existing = this.counters.get(key);
+    if (existing && existing.expiresAt > now) {
+      existing.count += 1;
+      return existing.count;
+    }
+
+    this.counters.set(key, { count: 1, expiresAt: now + windowMs });
+    return 1;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60_000) return;
+    this.lastSweep = now;
+    this.counters.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.counters.delete(key);
+    });
+  }
+}
+
+// Shared counters across instances via a Redis REST endpoint (Upstash-compatible pipeline API)
+class RedisRestRateLimitStore implements RateLimitStore {
+  readonly name = 'redis-rest';
+  private url: string;
+  private token: string;
+
+  constructor(url: string, token: string) {
+    this.url = url.replace(/\/+$/, '');
+    this.token = token;
+  }
+
+  async increment(key: string, windowMs: number): Promise<number> {
+    const response = await fetch(`${this.url}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify([
+        ['INCR', key],
+        ['PEXPIRE', key, String(windowMs), 'NX'],
+      ]),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rate limit store error: ${response.status}`);
+    }
+
+    const results = (await response.json()) as Array<{ result?: number; error?: string }>;
+    const count = Number(results?.[0]?.result);
+    if (!Number.isFinite(count)) {
+      throw new Error(results?.[0]?.error || 'Rate limit store returned no count');
+    }
+    return count;
+  }
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  routeClass: RouteClass;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch ms when the current window ends
+  retryAfterSeconds: number;
+}
+
+export const checkRateLimit = async (
+  store: RateLimitStore,
+  clientId: string,
+  routeClass: RouteClass,
+  now: number = Date.now()
+): Promise<RateLimitDecision> => {
+  const { limit, windowMs } = ROUTE_LIMITS[routeClass];
+  // Fixed windows aligned to the clock so every instance agrees on the key
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetAt = windowStart + windowMs;
+  const count = await store.increment(`ratelimit:${routeClass}:${clientId}:${windowStart}`, windowMs);
+
+  return {
+    allowed: count <= limit,
+    routeClass,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetAt,
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+  };
+};
+
+export const createRateLimitStore = (): RateLimitStore => {
+  const { store, redisRestUrl, redisRestToken } = config.apiRateLimit;
+  if (store === 'redis' && redisRestUrl && redisRestToken) {
+    return new RedisRestRateLimitStore(redisRestUrl, redisRestToken);
+  }
+  return new MemoryRateLimitStore();
+};
+
+// Export classes for testing purposes
+export { MemoryRateLimitStore, RedisRestRateLimitStore };
@@ -0,0 +1,220 @@
+import { aiClient, type AzureAIClient } from './ai-client';
+import {
+  journeyPlanner,
+  type JourneyPlannerService,
+  type JourneyPlanRequest,
+  type JourneyPlanResult,
+  type JourneyPlanStage,
+} from './journey-planner';
+import { findStationId, loadStationDetail } from './station-lookup';
+import { getCurrentLineStatuses } from './service-status-snapshots';
+import {
+  appendConversationTurn,
+  decodeConversation,
+  describeJourneyIntent,
+  encodeConversation,
+  type ConversationSnapshot,
+} from './conversation';
+import { findQueryMatches, summarizeLineStatus, type LineStatusSummary } from './status-matching';
+import {
+  ACCESSIBILITY_TOPICS,
+  describeStationAnswer,
+  normalizeStationTopics,
+  type StationTopic,
+} from './station-info';
+import type { NLPJourneyIntent, StatusQuery } from './schemas/nlp-response';
+import type { StationInfo, StationLine } from '@/types';
+import type { LineStatus } from '@/types/tfl';
+
+// One entry point for the natural language box: parse the query once, then hand it to whatever answers that
+// kind of question.
+
+// `intent` resumes from an earlier response (e.g. after the traveller picked a station) without parsing again.
+// `conversation` is the token from the previous answer; it makes the query a follow-up that refines that answer.
+export type AskRequest = JourneyPlanRequest & { naturalLanguageQuery: string; conversation?: string };
+
+type AskAnswer =
+  | { type: 'journey_planning'; journey: JourneyPlanResult }
+  | {
+      type: 'station_info' | 'accessibility_info';
+      answer: string;
+      topics: StationTopic[];
+      station: StationInfo;
+      lines: StationLine[];
+    }
+  | {
+      type: 'status_query';
+      answer: string;
+      statusQuery?: StatusQuery;
+      // Lines the question named, or the disrupted lines in scope when it named none
+      lines: LineStatusSummary[];
+      mode?: string;
+      statusPath: string;
+    };
+
+// `conversation` is the updated state to send with the next follow-up
+export type AskResult = AskAnswer & { conversation?: ConversationSnapshot };
+
+// Lines of the streaming response (/api/journey/stream): planning stages, then exactly one `done` or `error`
+export type AskStreamEvent =
+  | JourneyPlanStage
+  | { stage: 'done'; data: AskResult }
+  | { stage: 'error'; error: string; status: number; data?: unknown };
+
+export interface AskDependencies {
+  ai: Pick<AzureAIClient, 'parseJourneyIntent' | 'refineJourneyIntent'>;
+  planner: Pick<JourneyPlannerService, 'plan'>;
+  findStationId: typeof findStationId;
+  loadStationDetail: typeof loadStationDetail;
+  getLineStatuses: () => Promise<LineStatus[]>;
+}
+
+// Errors about the question itself, reported with `status` as the HTTP status
+export interface AskError extends Error {
+  status: number;
+}
+
+const createAskError = (message: string, status: number): AskError => {
+  const error = new Error(message) as AskError;
+  error.name = 'AskError';
+  error.status = status;
+  return error;
+};
+
+export const isAskError = (error: unknown): error is AskError =>
+  error instanceof Error && error.name === 'AskError';
+
+class AskService {
+  private deps: AskDependencies;
+
+  constructor(deps: Partial<AskDependencies> = {}) {
+    this.deps = {
+      ai: aiClient,
+      planner: journeyPlanner,
+      findStationId,
+      loadStationDetail,
+      getLineStatuses: () => getCurrentLineStatuses(),
+      ...deps,
+    };
+  }
+
+  // `onStage` follows journey planning progress; other kinds of answer arrive all at once
+  async ask(request: AskRequest, options: { onStage?: (stage: JourneyPlanStage) => void } = {}): Promise<AskResult> {
+    const query = request.naturalLanguageQuery.trim();
+    const conversation = request.conversation ? decodeConversation(request.conversation) : null;
+    const intent = request.intent ?? (conversation?.intent
+      ? await this.deps.ai.refineJourneyIntent(conversation.intent, query)
+      : await this.deps.ai.parseJourneyIntent(query));
+
+    const answer = await this.answer(intent, query, request, options);
+
+    // Follow-ups refine the journey the planner actually used, which a retry may have re-parsed
+    const journeyIntent = answer.type === 'journey_planning'
+      ? answer.journey.trace.attempts[answer.journey.trace.attempts.length - 1]?.intent ?? intent
+      : undefined;
+    const reply = answer.type === 'journey_planning' ? describeJourneyIntent(journeyIntent ?? intent) : answer.answer;
+    const next = appendConversationTurn(conversation, { query, reply }, journeyIntent);
+
+    return { ...answer, conversation: { token: encodeConversation(next), turns: next.turns } };
+  }
+
+  private async answer(
+    intent: NLPJourneyIntent,
+    query: string,
+    request: AskRequest,
+    options: { onStage?: (stage: JourneyPlanStage) => void }
+  ): Promise<AskAnswer> {
+    switch (intent.type) {
+      case 'station_info':
+      case 'accessibility_info':
+        return this.answerStationQuestion(intent);
+      case 'status_query':
+        return this.answerStatusQuery(intent, query);
+      default:
+        return {
+          type: 'journey_planning',
+          journey: await this.deps.planner.plan(
+            { ...request, naturalLanguageQuery: query, intent },
+            { onStage: options.onStage }
+          ),
+        };
+    }
+  }
+
+  private async answerStationQuestion(intent: NLPJourneyIntent): Promise<AskAnswer> {
+    const stationName = intent.stationQuery?.station?.trim();
+    if (!stationName) {
+      throw createAskError('Which station do you mean? Try including the station name.', 400);
+    }
+
+    const stationId = await this.deps.findStationId(stationName);
+    if (!stationId) {
+      throw createAskError(`Could not find a station called "${stationName}"`, 404);
+    }
+
+    const { station, lines } = await this.deps.loadStationDetail(stationId);
+    const topics = normalizeStationTopics(intent.stationQuery?.facilities);
+    // The LLM can label "is there a lift at X" either way; topics decide which summary fits
+    const type = intent.type === 'accessibility_info' || topics.some((topic) => ACCESSIBILITY_TOPICS.includes(topic))
+      ? 'accessibility_info'
+      : 'station_info';
+
+    return {
+      type,
+      answer: describeStationAnswer(station, topics, type),
+      topics,
+      station,
+      lines,
+    };
+  }
+
+  private async answerStatusQuery(intent: NLPJourneyIntent, query: string): Promise<AskAnswer> {
+    const statuses = await this.deps.getLineStatuses();
+    const namedLines = intent.statusQuery?.lines?.filter(Boolean) ?? [];
+    const { exactMatches, partialMatches } = findQueryMatches(
+      statuses,
+      namedLines.length > 0 ? namedLines.join(', ') : query
+    );
+    const matched = (exactMatches.length > 0 ? exactMatches : partialMatches).map(summarizeLineStatus);
+    const mode = intent.statusQuery?.mode || matched[0]?.modeName;
+    const statusPath = mode ? `/status?mode=${encodeURIComponent(mode)}` : '/status';
+
+    if (matched.length > 0) {
+      return {
+        type: 'status_query',
+        answer: matched.map((line) => `${line.name}: ${line.severityDescription}.`).join(' '),
+        statusQuery: intent.statusQuery,
+        lines: matched,
+        mode,
+        statusPath,
+      };
+    }
+
+    const inScope = statuses
+      .filter((line) => !mode || line.modeName === mode)
+      .map(summarizeLineStatus);
+    const disrupted = inScope.filter((line) => !line.isGoodService);
+    const scopeLabel = mode ? `${mode} lines` : 'lines';
+    const answer = inScope.length === 0
+      ? `TfL has no status for ${scopeLabel} right now.`
+      : disrupted.length === 0
+        ? `Good service on all ${inScope.length} ${scopeLabel}.`
+        : `${disrupted.length} of ${inScope.length} ${scopeLabel} have disruption: ${disrupted
+            .map((line) => `${line.name} (${line.severityDescription})`)
+            .join(', ')}.`;
+
+    return {
+      type: 'status_query',
+      answer,
+      statusQuery: intent.statusQuery,
+      lines: disrupted,
+      mode,
+      statusPath,
+    };
+  }
+}
+
+export const askService = new AskService();
+
+// Export the class for testing purposes
+export { AskService };
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import type { LineStatus } from '@/types/tfl';
+import { sendCommuteAlerts } from './commute-alerts-store';
+import type { StatusSnapshot } from './service-status-snapshots';
+
+const snapshot: StatusSnapshot = {
+  valid_at: '2026-10-19T07:30:00.000Z',
+  source: 'autofetch',
+  payload: [{
+    id: 'central',
+    name: 'Central',
+    modeName: 'tube',
+    lineStatuses: [{ statusSeverity: 6, statusSeverityDescription: 'Severe Delays' }],
+  } as unknown as LineStatus],
+};
+
+describe('sendCommuteAlerts', () => {
+  it('reads every page of commutes', async () => {
+    // 1000 rows on the first page and one on the second; none are valid commutes, so no alerts are raised
+    const pages = [Array(1000).fill({ user_id: 'anon:a', commute: null }), [{ user_id: 'anon:b', commute: null }]];
+    const range = vi.fn(async (from: number) => ({ data: pages[from / 1000] ?? [], error: null }));
+    const query = { select: () => query, order: () => query, range };
+    const supabase = { from: vi.fn(() => query) } as unknown as SupabaseClient;
+
+    const run = await sendCommuteAlerts(snapshot, supabase);
+
+    expect(range.mock.calls).toEqual([[0, 999], [1000, 1999]]);
+    expect(run).toEqual({ alerts: 0, delivered: 0 });
+  });
+});
@@ -0,0 +1,234 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  alertDedupeKey,
+  commuteDisruptions,
+  describeAlert,
+  isCommuteActive,
+  sanitizeCommute,
+  type Commute,
+  type CommuteAlert,
+} from './commute-alerts';
+import type { StatusSnapshot } from './service-status-snapshots';
+import { summarizeLineStatus } from './status-matching';
+import { getServiceSupabase } from './supabase-server';
+import { isValidPushSubscription, sendWebPush, type WebPushSubscription } from './web-push';
+
+// Commutes, the browsers to alert and the alerts sent, in three Supabase tables keyed by owner (the account id,
+// or `anon:` and a browser's code):
+//   commutes (user_id text, id text, commute jsonb, updated_at timestamptz, primary key (user_id, id))
+//   push_subscriptions (endpoint text primary key, user_id text, subscription jsonb, updated_at timestamptz)
+//   commute_alerts (user_id text, dedupe_key text, alert jsonb, created_at timestamptz default now(),
+//                   primary key (user_id, dedupe_key))
+
+// Alerts older than this are dropped from the history
+const ALERT_HISTORY_DAYS = 30;
+
+// Undelivered alerts are stale once the commute has likely started
+const ALERT_TTL_SECONDS = 30 * 60;
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+type CommuteRow = { user_id: string; commute: unknown };
+type SubscriptionRow = { user_id: string; endpoint: string; subscription: unknown };
+type AlertRow = { user_id: string; dedupe_key: string; alert: CommuteAlert };
+
+export type CommuteAlertRun = {
+  // New alerts raised by the snapshot
+  alerts: number;
+  // Pushes the push services accepted
+  delivered: number;
+};
+
+export async function loadCommutes(userId: string, supabaseClient?: SupabaseClient): Promise<Commute[]> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { data, error } = await supabase.from('commutes').select('commute').eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as Array<Pick<CommuteRow, 'commute'>>)
+    .map((row) => sanitizeCommute(row.commute))
+    .filter((commute): commute is Commute => commute !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveCommute(userId: string, commute: Commute, supabaseClient?: SupabaseClient): Promise<void> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { error } = await supabase.from('commutes').upsert(
+    { user_id: userId, id: commute.id, commute, updated_at: new Date(commute.updatedAt).toISOString() },
+    { onConflict: 'user_id,id' }
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+export async function deleteCommute(userId: string, id: string, supabaseClient?: SupabaseClient): Promise<void> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { error } = await supabase.from('commutes').delete().eq('user_id', userId).eq('id', id);
+  if (error) {
+    throw error;
+  }
+}
+
+// A browser subscribing again moves its endpoint to the current owner
+export async function savePushSubscription(
+  userId: string,
+  subscription: WebPushSubscription,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { error } = await supabase.from('push_subscriptions').upsert(
+    {
+      endpoint: subscription.endpoint,
+      user_id: userId,
+      subscription: { endpoint: subscription.endpoint, keys: subscription.keys },
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'endpoint' }
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+export async function deletePushSubscription(userId: string, endpoint: string, supabaseClient?: SupabaseClient): Promise<void> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { error } = await supabase.from('push_subscriptions').delete().eq('user_id', userId).eq('endpoint', endpoint);
+  if (error) {
+    throw error;
+  }
+}
+
+// Newest first
+export async function loadAlertHistory(userId: string, limit = 50, supabaseClient?: SupabaseClient): Promise<CommuteAlert[]> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { data, error } = await supabase
+    .from('commute_alerts')
+    .select('alert')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as Array<Pick<AlertRow, 'alert'>>).map((row) => row.alert);
+}
+
+// Raises an alert for every commute on at the snapshot's time with a line below Good Service, unless the same
+// line and status were already alerted today, and pushes it to each of the owner's browsers. Browsers whose
+// subscription has gone are forgotten.
+export async function sendCommuteAlerts(
+  snapshot: StatusSnapshot,
+  supabaseClient?: SupabaseClient
+): Promise<CommuteAlertRun> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+  const now = new Date(snapshot.valid_at);
+
+  if (snapshot.payload.every((line) => summarizeLineStatus(line).isGoodService)) {
+    return { alerts: 0, delivered: 0 };
+  }
+
+  const commuteRows: CommuteRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('commutes')
+      .select('user_id, commute')
+      .order('user_id', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+
+    const rows = (data || []) as CommuteRow[];
+    commuteRows.push(...rows);
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  const candidates: AlertRow[] = [];
+  commuteRows.forEach((row) => {
+    const commute = sanitizeCommute(row.commute);
+    if (!commute || !isCommuteActive(commute, now)) return;
+
+    commuteDisruptions(commute, snapshot.payload).forEach((disruption) => {
+      const dedupeKey = alertDedupeKey(commute.id, disruption, now);
+      candidates.push({
+        user_id: row.user_id,
+        dedupe_key: dedupeKey,
+        alert: { id: dedupeKey, commuteId: commute.id, commuteName: commute.name, ...disruption, validAt: snapshot.valid_at },
+      });
+    });
+  });
+  if (candidates.length === 0) {
+    return { alerts: 0, delivered: 0 };
+  }
+
+  // Rows already there are skipped, so concurrent runs cannot alert twice
+  const { data: inserted, error: insertError } = await supabase
+    .from('commute_alerts')
+    .upsert(candidates, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+    .select('user_id, dedupe_key, alert');
+  if (insertError) {
+    throw insertError;
+  }
+
+  const alerts = (inserted || []) as AlertRow[];
+  if (alerts.length === 0) {
+    return { alerts: 0, delivered: 0 };
+  }
+
+  const owners = Array.from(new Set(alerts.map((row) => row.user_id)));
+  const { data: subscriptionRows, error: subscriptionsError } = await supabase
+    .from('push_subscriptions')
+    .select('user_id, endpoint, subscription')
+    .in('user_id', owners);
+  if (subscriptionsError) {
+    throw subscriptionsError;
+  }
+
+  const subscriptions = (subscriptionRows || []) as SubscriptionRow[];
+  const gone = new Set<string>();
+  let delivered = 0;
+  for (const row of alerts) {
+    const { title, body } = describeAlert(row.alert);
+    const message = { title, body, tag: `line-${row.alert.line.id}`, url: '/alerts/history' };
+    const targets = subscriptions.filter((item) => item.user_id === row.user_id && !gone.has(item.endpoint));
+    for (const target of targets) {
+      if (!isValidPushSubscription(target.subscription)) {
+        gone.add(target.endpoint);
+        continue;
+      }
+      try {
+        const result = await sendWebPush(target.subscription, message, { ttl: ALERT_TTL_SECONDS, urgency: 'high' });
+        if (result.ok) delivered += 1;
+        if (result.gone) gone.add(target.endpoint);
+      } catch (error) {
+        console.error('Commute alert push error:', error);
+      }
+    }
+  }
+
+  if (gone.size > 0) {
+    const { error } = await supabase.from('push_subscriptions').delete().in('endpoint', Array.from(gone));
+    if (error) {
+      console.error('Failed to delete expired push subscriptions:', error);
+    }
+  }
+
+  const cutoff = new Date(now.getTime() - ALERT_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error: pruneError } = await supabase.from('commute_alerts').delete().lt('created_at', cutoff);
+  if (pruneError) {
+    console.error('Failed to prune commute alert history:', pruneError);
+  }
+
+  return { alerts: alerts.length, delivered };
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { alertDedupeKey, isCommuteActive, sanitizeCommute, type LineDisruption } from './commute-alerts';
+
+// 19 October 2026 is a Monday, still on British Summer Time (UTC+1) until the clocks go back on Sunday 25 October
+const MORNING = { days: [1, 2, 3, 4, 5], start: '07:00', end: '09:30' };
+// Friday and Saturday nights out, home after midnight
+const NIGHT_OUT = { days: [5, 6], start: '22:00', end: '02:00' };
+
+describe('isCommuteActive', () => {
+  it('runs within the window on a commute day in London time', () => {
+    // 07:30 BST, still 06:30 UTC
+    expect(isCommuteActive(MORNING, new Date('2026-10-19T06:30:00Z'))).toBe(true);
+    // 09:30 BST: the end is exclusive
+    expect(isCommuteActive(MORNING, new Date('2026-10-19T08:30:00Z'))).toBe(false);
+    // Saturday
+    expect(isCommuteActive(MORNING, new Date('2026-10-24T06:30:00Z'))).toBe(false);
+  });
+
+  it('runs an overnight window into the small hours after a commute day', () => {
+    // 23:00 BST on Friday
+    expect(isCommuteActive(NIGHT_OUT, new Date('2026-10-23T22:00:00Z'))).toBe(true);
+    // 01:00 BST on Saturday, after Friday night
+    expect(isCommuteActive(NIGHT_OUT, new Date('2026-10-24T00:00:00Z'))).toBe(true);
+    // 01:00 BST on Friday, after Thursday night, which is not a commute day
+    expect(isCommuteActive(NIGHT_OUT, new Date('2026-10-23T00:00:00Z'))).toBe(false);
+    // 21:00 BST on Friday, before the window
+    expect(isCommuteActive(NIGHT_OUT, new Date('2026-10-23T20:00:00Z'))).toBe(false);
+  });
+
+  it('wraps from Sunday night into Monday morning', () => {
+    const sundayNights = { days: [0], start: '23:00', end: '01:00' };
+
+    // 00:30 GMT on Monday 26 October
+    expect(isCommuteActive(sundayNights, new Date('2026-10-26T00:30:00Z'))).toBe(true);
+    // 00:30 on Sunday 25 October follows Saturday night
+    expect(isCommuteActive(sundayNights, new Date('2026-10-24T23:30:00Z'))).toBe(false);
+  });
+
+  it('follows London time across the clock changes', () => {
+    // Sunday 25 October: 07:30 is GMT again
+    expect(isCommuteActive({ ...MORNING, days: [0] }, new Date('2026-10-25T07:30:00Z'))).toBe(true);
+    expect(isCommuteActive({ ...MORNING, days: [0] }, new Date('2026-10-25T06:30:00Z'))).toBe(false);
+    // Monday 30 March 2026, the day after the clocks go forward: 07:30 BST
+    expect(isCommuteActive(MORNING, new Date('2026-03-30T06:30:00Z'))).toBe(true);
+    // Friday 27 March, still GMT
+    expect(isCommuteActive(MORNING, new Date('2026-03-27T06:30:00Z'))).toBe(false);
+    // The repeated hour on Saturday night: 01:45 BST has passed the end, 01:15 GMT an hour later has not
+    const saturdayNights = { days: [6], start: '23:00', end: '01:30' };
+    expect(isCommuteActive(saturdayNights, new Date('2026-10-25T00:45:00Z'))).toBe(false);
+    expect(isCommuteActive(saturdayNights, new Date('2026-10-25T01:15:00Z'))).toBe(true);
+  });
+});
+
+describe('sanitizeCommute', () => {
+  const valid = {
+    id: 'c1',
+    savedJourneyId: 'j1',
+    name: '  Work  ',
+    lines: [{ id: 'central', name: 'Central' }],
+    days: [5, 1, 1, 9],
+    start: '22:00',
+    end: '02:00',
+    updatedAt: 1,
+  };
+
+  it('keeps an overnight window and tidies the days', () => {
+    expect(sanitizeCommute(valid)).toEqual({ ...valid, name: 'Work', days: [1, 5] });
+  });
+
+  it('rejects an empty window, bad times and commutes without days or lines', () => {
+    expect(sanitizeCommute({ ...valid, end: '22:00' })).toBeNull();
+    expect(sanitizeCommute({ ...valid, start: '24:00' })).toBeNull();
+    expect(sanitizeCommute({ ...valid, start: '7:00' })).toBeNull();
+    expect(sanitizeCommute({ ...valid, days: [7] })).toBeNull();
+    expect(sanitizeCommute({ ...valid, lines: [{ id: 'central' }] })).toBeNull();
+    expect(sanitizeCommute(null)).toBeNull();
+  });
+});
+
+describe('alertDedupeKey', () => {
+  const severe: LineDisruption = { line: { id: 'central', name: 'Central' }, severity: 6, status: 'Severe Delays' };
+
+  it('raises one alert per line and status per London day', () => {
+    const key = alertDedupeKey('c1', severe, new Date('2026-10-19T06:30:00Z'));
+
+    expect(alertDedupeKey('c1', { ...severe, reason: 'A new reason' }, new Date('2026-10-19T08:00:00Z'))).toBe(key);
+    expect(alertDedupeKey('c1', { ...severe, status: 'Minor Delays' }, new Date('2026-10-19T08:00:00Z'))).not.toBe(key);
+    expect(alertDedupeKey('c1', { ...severe, line: { id: 'victoria', name: 'Victoria' } }, new Date('2026-10-19T08:00:00Z'))).not.toBe(key);
+    expect(alertDedupeKey('c1', severe, new Date('2026-10-20T06:30:00Z'))).not.toBe(key);
+  });
+
+  it('starts a new day at London midnight', () => {
+    // 23:30 and 00:30 BST, both on 19 October in UTC
+    expect(alertDedupeKey('c1', severe, new Date('2026-10-19T22:30:00Z')))
+      .not.toBe(alertDedupeKey('c1', severe, new Date('2026-10-19T23:30:00Z')));
+  });
+});
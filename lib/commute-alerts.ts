@@ -0,0 +1,186 @@
+import { summarizeLineStatus } from './status-matching';
+import type { JourneyLine, SavedJourney } from '@/types';
+import type { Journey, LineStatus } from '@/types/tfl';
+
+// Commutes: a saved journey the traveller rides on some days within a time window. While a commute is on, any of
+// its lines below Good Service in the latest status snapshot raises an alert, sent once per line and status per
+// day. Safe to import from client components.
+
+export const MAX_COMMUTES = 10;
+
+// Sunday first, as Date#getDay counts
+export const COMMUTE_DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export type Commute = {
+  id: string;
+  savedJourneyId: string;
+  name: string;
+  lines: JourneyLine[];
+  days: number[];
+  // London time, "HH:MM"; an end before the start runs past midnight
+  start: string;
+  end: string;
+  updatedAt: number;
+};
+
+export type CommuteWindow = Pick<Commute, 'days' | 'start' | 'end'>;
+
+export const DEFAULT_COMMUTE_WINDOW: CommuteWindow = { days: WEEKDAYS, start: '07:00', end: '09:30' };
+
+export type CommuteAlert = {
+  id: string;
+  commuteId: string;
+  commuteName: string;
+  line: JourneyLine;
+  severity: number;
+  status: string;
+  reason?: string;
+  // When the status snapshot that raised it was taken
+  validAt: string;
+};
+
+export type LineDisruption = Pick<CommuteAlert, 'line' | 'severity' | 'status' | 'reason'>;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+const randomId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const londonFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: 'Europe/London',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+// The day of the week, minutes after midnight and date in London at `now`
+export const londonClock = (now: Date): { day: number; minutes: number; date: string } => {
+  const parts: Record<string, string> = {};
+  londonFormat.formatToParts(now).forEach((part) => {
+    parts[part.type] = part.value;
+  });
+  return {
+    day: COMMUTE_DAY_LABELS.indexOf(parts.weekday),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+  };
+};
+
+export const isCommuteActive = (commute: CommuteWindow, now: Date): boolean => {
+  const { day, minutes } = londonClock(now);
+  const start = minutesOf(commute.start);
+  const end = minutesOf(commute.end);
+  if (start <= end) {
+    return commute.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight: the evening of a commute day, or the small hours after one
+  return (commute.days.includes(day) && minutes >= start) || (commute.days.includes((day + 6) % 7) && minutes < end);
+};
+
+// Every line a journey rides, in order, from the legs' route options
+export const journeyLines = (journey: Pick<Journey, 'legs'>): JourneyLine[] => {
+  const lines: JourneyLine[] = [];
+  (journey.legs || []).forEach((leg) => {
+    (leg.routeOptions || []).forEach((option) => {
+      const id = option.lineIdentifier?.id;
+      if (id && !lines.some((line) => line.id === id)) {
+        lines.push({ id, name: option.lineIdentifier?.name || option.name || id });
+      }
+    });
+  });
+  return lines;
+};
+
+export const describeCommuteWindow = (commute: CommuteWindow): string => {
+  const days = commute.days.length === 7
+    ? 'Every day'
+    : commute.days.length === WEEKDAYS.length && WEEKDAYS.every((day) => commute.days.includes(day))
+      ? 'Weekdays'
+      : commute.days.map((day) => COMMUTE_DAY_LABELS[day]).join(', ');
+  return `${days}, ${commute.start}–${commute.end}`;
+};
+
+// A new commute for a saved journey; null when the journey has no lines to watch
+export const createCommute = (journey: SavedJourney, commuteWindow: CommuteWindow, now: number = Date.now()): Commute | null => {
+  if (!journey.lines?.length) return null;
+  return sanitizeCommute({
+    id: randomId(),
+    savedJourneyId: journey.id,
+    name: journey.name?.trim() || `${journey.fromName} → ${journey.toName}`,
+    lines: journey.lines,
+    ...commuteWindow,
+    updatedAt: now,
+  });
+};
+
+// A commute from a request body or storage, or null when it is not usable
+export const sanitizeCommute = (value: unknown): Commute | null => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Commute>;
+  const isText = (text: unknown, max: number): text is string => typeof text === 'string' && !!text.trim() && text.length <= max;
+
+  const lines = Array.isArray(input.lines)
+    ? input.lines.filter((line) => !!line && isText(line.id, 100) && isText(line.name, 200)).slice(0, 20)
+    : [];
+  const days = Array.isArray(input.days)
+    ? input.days.filter((day, index, all) => Number.isInteger(day) && day >= 0 && day <= 6 && all.indexOf(day) === index)
+    : [];
+  if (
+    !isText(input.id, 100)
+    || !isText(input.savedJourneyId, 100)
+    || !isText(input.name, 200)
+    || lines.length === 0
+    || days.length === 0
+    || typeof input.start !== 'string' || !TIME_PATTERN.test(input.start)
+    || typeof input.end !== 'string' || !TIME_PATTERN.test(input.end)
+    || input.start === input.end
+  ) {
+    return null;
+  }
+
+  return {
+    id: input.id,
+    savedJourneyId: input.savedJourneyId,
+    name: input.name.trim().slice(0, 80),
+    lines: lines.map((line) => ({ id: line.id, name: line.name })),
+    days: days.sort((a, b) => a - b),
+    start: input.start,
+    end: input.end,
+    updatedAt: typeof input.updatedAt === 'number' && Number.isFinite(input.updatedAt) ? input.updatedAt : Date.now(),
+  };
+};
+
+// The commute's lines that are below Good Service in `statuses`. Lines missing from the status feed (buses) are
+// not watched.
+export const commuteDisruptions = (commute: Pick<Commute, 'lines'>, statuses: LineStatus[]): LineDisruption[] =>
+  commute.lines
+    .map((line) => {
+      const status = statuses.find((item) => item.id === line.id);
+      if (!status) return null;
+      const summary = summarizeLineStatus(status);
+      if (summary.isGoodService) return null;
+      return {
+        line: { id: line.id, name: summary.name || line.name },
+        severity: summary.severity,
+        status: summary.severityDescription,
+        ...(summary.reason ? { reason: summary.reason } : {}),
+      };
+    })
+    .filter((disruption): disruption is LineDisruption => disruption !== null);
+
+// Alerts repeat only when the line's status changes, or on a later day
+export const alertDedupeKey = (commuteId: string, disruption: LineDisruption, now: Date): string =>
+  [commuteId, disruption.line.id, disruption.status.toLowerCase(), londonClock(now).date].join('|');
+
+export const describeAlert = (alert: Pick<CommuteAlert, 'commuteName' | 'line' | 'status' | 'reason'>) => ({
+  title: `${alert.line.name}: ${alert.status}`,
+  body: alert.reason ? `${alert.commuteName}. ${alert.reason}` : `${alert.commuteName} uses this line.`,
+});
@@ -7,6 +7,17 @@ export const config = {
     transcriptionUrl: process.env.AZURE_TRANSCRIPTION_TARGET_URL || '',
   },
   
+  // LLM provider selection: 'azure' (default), 'openai-compatible' or 'stub' (offline, deterministic)
+  llm: {
+    provider: process.env.LLM_PROVIDER || 'azure',
+    openai: {
+      baseUrl: process.env.LLM_BASE_URL || '',
+      apiKey: process.env.LLM_API_KEY || '',
+      model: process.env.LLM_MODEL || '',
+      transcriptionModel: process.env.LLM_TRANSCRIPTION_MODEL || '',
+    },
+  },
+  
   // TFL API Configuration
   tfl: {
     baseUrl: 'https://api.tfl.gov.uk',
@@ -24,6 +35,13 @@ export const config = {
       .filter((s) => s.length > 0),
   },
   
+  // TfL response cache: 'memory' (per instance LRU) or 'supabase' (shared table api_response_cache)
+  cache: {
+    enabled: process.env.TFL_CACHE_ENABLED !== 'false', // Default true
+    store: process.env.TFL_CACHE_STORE || 'memory',
+    maxEntries: Number(process.env.TFL_CACHE_MAX_ENTRIES) || 500,
+  },
+  
   // National Rail (live departures) Configuration
   nationalRail: {
     // For example, OpenLDBWS/GBR-RDG bridge or your proxy. Keep server-side only.
@@ -68,11 +86,45 @@ export const config = {
     enableDebugMode: process.env.NODE_ENV === 'development',
   },
   
+  // Per-client limits on our own /api routes (middleware.ts). 'memory' is per instance;
+  // 'redis' shares counters through an Upstash-compatible REST endpoint.
+  apiRateLimit: {
+    enabled: process.env.API_RATE_LIMIT_ENABLED !== 'false', // Default true
+    store: process.env.API_RATE_LIMIT_STORE || 'memory',
+    redisRestUrl: process.env.UPSTASH_REDIS_REST_URL || '',
+    redisRestToken: process.env.UPSTASH_REDIS_REST_TOKEN || '',
+  },
+  
+  // Follow-up questions carry the conversation in an HMAC-signed token. Without a secret each instance signs
+  // with a random one, so tokens only work on the instance that issued them.
+  conversation: {
+    secret: process.env.CONVERSATION_SECRET || '',
+  },
+  
+  // Scheduled routes only answer requests carrying `Authorization: Bearer <secret>`, which Vercel Cron sends
+  // when CRON_SECRET is set. Without it they answer 503, except the status refresh, which stays open as it was.
+  cron: {
+    secret: process.env.CRON_SECRET || '',
+  },
+  
+  // Web Push for commute disruption alerts. Generate the VAPID key pair once (public key as an uncompressed P-256
+  // point, private key as the raw 32-byte scalar, both base64url); the subject is a mailto: or https: contact.
+  webPush: {
+    vapidPublicKey: process.env.VAPID_PUBLIC_KEY || '',
+    vapidPrivateKey: process.env.VAPID_PRIVATE_KEY || '',
+    vapidSubject: process.env.VAPID_SUBJECT || '',
+  },
+  
   // Rate Limiting
   rateLimit: {
     tflRequestsPerMinute: 60,
+    // TfL counts its quota per API key, so each configured key gets the full budget above. Set false to share
+    // one budget across every key. The Azure and geocoding budgets are always one budget for the whole app.
+    tflBudgetPerKey: true,
     azureRequestsPerMinute: 30,
     geocodingRequestsPerMinute: 100,
+    // How long a request may queue for budget before it is rejected instead
+    maxQueueMs: 5_000,
   },
 }
 
@@ -80,8 +132,14 @@ export const config = {
 export function validateConfig() {
   const errors: string[] = []
   
-  if (!config.azure.apiUrl) errors.push('AZURE_API_TARGET_URL is required')
-  if (!config.azure.apiKey) errors.push('AZURE_API_KEY is required')
+  const llmProvider = (config.llm.provider || 'azure').toLowerCase()
+  if (llmProvider === 'azure') {
+    if (!config.azure.apiUrl) errors.push('AZURE_API_TARGET_URL is required')
+    if (!config.azure.apiKey) errors.push('AZURE_API_KEY is required')
+  } else if (llmProvider === 'openai' || llmProvider === 'openai-compatible') {
+    if (!config.llm.openai.baseUrl) errors.push('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible')
+    if (!config.llm.openai.model) errors.push('LLM_MODEL is required when LLM_PROVIDER=openai-compatible')
+  }
   
   // TFL API key is optional as the API works without it (but with lower rate limits)
   
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { appendConversationTurn, decodeConversation, describeJourneyIntent, encodeConversation } from './conversation';
+import { parseJourneyQueryWithRules } from './nlp-rule-parser';
+import type { NLPJourneyIntent } from './schemas/nlp-response';
+
+const intentWithTime = (datetime: string, type: 'depart' | 'arrive' = 'depart'): NLPJourneyIntent => ({
+  type: 'journey_planning',
+  rawQuery: 'Paddington to Bank',
+  intent_confidence: 0.9,
+  journey: {
+    from: { name: 'Paddington', confidence: 0.9 },
+    to: { name: 'Bank', confidence: 0.9 },
+    preferences: { time: { type, datetime } },
+  },
+});
+
+describe('describeJourneyIntent', () => {
+  it('restates the times the rule parser resolved in London time', () => {
+    // 10:00 BST
+    const parsed = parseJourneyQueryWithRules('Paddington to Bank arrive by 6pm and back at 10:30pm', new Date('2026-07-01T09:00:00Z'));
+
+    expect(describeJourneyIntent(parsed!.intent)).toBe('Paddington to Bank, arriving by 18:00, back at 22:30');
+  });
+
+  it('reads zoneless times from the LLM as London time', () => {
+    expect(describeJourneyIntent(intentWithTime('2026-07-01T08:00'))).toBe('Paddington to Bank, leaving 08:00');
+    expect(describeJourneyIntent(intentWithTime('2026-07-01T07:00:00Z', 'arrive'))).toBe('Paddington to Bank, arriving by 08:00');
+    expect(describeJourneyIntent(intentWithTime('2026-12-01T08:00:00Z'))).toBe('Paddington to Bank, leaving 08:00');
+  });
+
+  it('leaves out a time it cannot read', () => {
+    expect(describeJourneyIntent(intentWithTime('soon'))).toBe('Paddington to Bank');
+  });
+});
+
+describe('conversation tokens', () => {
+  const state = appendConversationTurn(null, { query: 'Paddington to Bank', reply: 'Paddington to Bank' }, undefined, 1000);
+
+  it('round trips a signed state', () => {
+    expect(decodeConversation(encodeConversation(state, 'secret'), 'secret', 2000)).toEqual(state);
+  });
+
+  it('rejects tampered, foreign and expired tokens', () => {
+    const [payload, signature] = encodeConversation(state, 'secret').split('.');
+
+    expect(decodeConversation(`${payload}x.${signature}`, 'secret', 2000)).toBeNull();
+    expect(decodeConversation(encodeConversation(state, 'other'), 'secret', 2000)).toBeNull();
+    expect(decodeConversation(encodeConversation(state, 'secret'), 'secret', 1000 + 7 * 60 * 60 * 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '@/lib/config';
+import { londonDateParts, parseClientTime } from '@/lib/journey-planner/dates';
+import type { NLPJourneyIntent, TimePreference } from '@/lib/schemas/nlp-response';
+
+// Conversation state for follow-up questions ("actually leave at 8"), carried by the client as a signed token
+// so any instance can pick the conversation up without server-side storage.
+
+export type ConversationTurn = {
+  query: string;
+  // Short summary of how the query was answered, shown back as the history
+  reply: string;
+};
+
+export type ConversationState = {
+  // The journey intent follow-ups refine; station and status questions leave it in place
+  intent?: NLPJourneyIntent;
+  turns: ConversationTurn[];
+  updatedAt: number;
+};
+
+// What the client keeps: the token to send with the next query, and the history to show
+export type ConversationSnapshot = {
+  token: string;
+  turns: ConversationTurn[];
+};
+
+const MAX_TURNS = 8;
+
+// A conversation left alone this long starts over
+const CONVERSATION_TTL_MS = 6 * 60 * 60 * 1000;
+
+const fallbackSecret = randomBytes(32).toString('hex');
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+export const encodeConversation = (state: ConversationState, secret = config.conversation.secret || fallbackSecret): string => {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+// Null for tokens that are malformed, tampered with or expired
+export const decodeConversation = (
+  token: string,
+  secret = config.conversation.secret || fallbackSecret,
+  now: number = Date.now()
+): ConversationState | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as ConversationState;
+    if (!Array.isArray(state.turns) || now - state.updatedAt > CONVERSATION_TTL_MS) return null;
+    return state;
+  } catch {
+    return null;
+  }
+};
+
+export const appendConversationTurn = (
+  state: ConversationState | null,
+  turn: ConversationTurn,
+  intent?: NLPJourneyIntent,
+  now: number = Date.now()
+): ConversationState => ({
+  intent: intent ?? state?.intent,
+  turns: [...(state?.turns ?? []), turn].slice(-MAX_TURNS),
+  updatedAt: now,
+});
+
+// London time, read the way the planner and the rule parser read it
+const describeTime = (time?: TimePreference): string | null => {
+  const when = parseClientTime(time?.datetime);
+  if (!when) return null;
+  const { hours, minutes } = londonDateParts(when);
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// One line restating a journey intent, e.g. "Paddington to Bank via Bond Street, leaving 08:00, avoiding Central line"
+export const describeJourneyIntent = (intent: NLPJourneyIntent): string => {
+  const journey = intent.journey;
+  if (!journey) return 'Journey';
+
+  const from = journey.from?.name || (journey.from?.useCurrentLocation ? 'Your location' : 'Somewhere');
+  const to = journey.to?.name || 'somewhere';
+  const vias = (journey.via || []).map((via) => via.name).filter(Boolean);
+  const parts = [`${from} to ${to}${vias.length > 0 ? ` via ${vias.join(' and ')}` : ''}`];
+
+  const preferences = journey.preferences;
+  const outboundTime = describeTime(preferences?.time);
+  if (outboundTime) {
+    parts.push(`${preferences?.time?.type === 'arrive' ? 'arriving by' : 'leaving'} ${outboundTime}`);
+  }
+  if (preferences?.mode?.length) {
+    parts.push(`${preferences.modePolicy === 'only' ? 'only by' : 'preferring'} ${preferences.mode.join(', ')}`);
+  }
+  if (preferences?.avoid?.length) parts.push(`avoiding ${preferences.avoid.join(', ')}`);
+  if (preferences?.accessibility?.length) parts.push('step-free');
+  if (journey.returnJourney) {
+    const returnTime = describeTime(journey.returnJourney.time);
+    parts.push(returnTime
+      ? `back ${journey.returnJourney.time?.type === 'arrive' ? 'by' : 'at'} ${returnTime}`
+      : 'and back');
+  }
+
+  return parts.join(', ');
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { cronAuthError, isAuthorizedCronRequest } from './cron-auth';
+
+const request = (authorization?: string) =>
+  new Request('https://example.com/api/status/refresh', authorization ? { headers: { authorization } } : {});
+
+describe('cron auth', () => {
+  it('accepts the bearer secret Vercel Cron sends', () => {
+    expect(isAuthorizedCronRequest(request('Bearer s3cret'), 's3cret')).toBe(true);
+    expect(cronAuthError(request('Bearer s3cret'), 's3cret')).toBeNull();
+  });
+
+  it('answers 401 to a missing or wrong secret', () => {
+    expect(cronAuthError(request(), 's3cret')?.status).toBe(401);
+    expect(cronAuthError(request('Bearer nope'), 's3cret')?.status).toBe(401);
+    expect(cronAuthError(request('s3cret'), 's3cret')?.status).toBe(401);
+  });
+
+  it('answers 503 when no secret is configured', () => {
+    expect(isAuthorizedCronRequest(request('Bearer '), '')).toBe(false);
+    expect(cronAuthError(request('Bearer anything'), '')?.status).toBe(503);
+  });
+
+  it('lets a job that predates the secret run until one is set', () => {
+    expect(cronAuthError(request(), '', { allowWithoutSecret: true })).toBeNull();
+    expect(cronAuthError(request(), 's3cret', { allowWithoutSecret: true })?.status).toBe(401);
+    expect(cronAuthError(request('Bearer s3cret'), 's3cret', { allowWithoutSecret: true })).toBeNull();
+  });
+});
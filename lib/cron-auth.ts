@@ -0,0 +1,39 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { config } from '@/lib/config';
+
+// True when the request carries `Authorization: Bearer <CRON_SECRET>`, as Vercel Cron sends it
+export const isAuthorizedCronRequest = (request: Request, secret: string = config.cron.secret): boolean => {
+  if (!secret) return false;
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') || '');
+  if (!match) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+let warnedOpen = false;
+
+// The response to send back instead of running a scheduled job, or null when the caller may run it.
+// `allowWithoutSecret` keeps a job that predates CRON_SECRET open until one is set, so upgrading does not stop it.
+export const cronAuthError = (
+  request: Request,
+  secret: string = config.cron.secret,
+  options: { allowWithoutSecret?: boolean } = {}
+): NextResponse | null => {
+  if (!secret) {
+    if (options.allowWithoutSecret) {
+      if (!warnedOpen) {
+        warnedOpen = true;
+        console.warn('CRON_SECRET is not set; the status refresh route is open to anyone');
+      }
+      return null;
+    }
+    return NextResponse.json({ status: 'error', error: 'Scheduled jobs are not configured' }, { status: 503 });
+  }
+  if (!isAuthorizedCronRequest(request, secret)) {
+    return NextResponse.json({ status: 'error', error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+};
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import type { FareDetail, Journey, Leg } from '@/types/tfl';
+import { estimateCaps, explainFare, FARE_CAPS, tripFromJourney, type FareProfileId, type PlannedTrip } from './fares';
+
+const leg = (mode: string, departureTime: string): Leg => ({ mode: { id: mode }, departureTime } as unknown as Leg);
+
+const fare = (cost: number, overrides: Partial<FareDetail> = {}): FareDetail => ({
+  lowZone: 1,
+  highZone: 2,
+  cost,
+  chargeProfileName: 'Peak',
+  isHopperFare: false,
+  chargeLevel: 'Peak',
+  peak: cost,
+  offPeak: cost,
+  ...overrides,
+});
+
+const journey = (startDateTime: string, legs: Leg[], fares: FareDetail[]): Journey => ({
+  startDateTime,
+  arrivalDateTime: startDateTime,
+  duration: 30,
+  legs,
+  fare: { totalCost: fares.reduce((acc, detail) => acc + detail.cost, 0), fares, caveats: [] },
+} as unknown as Journey);
+
+const trip = (date: string, cost: number, overrides: Partial<PlannedTrip> = {}): PlannedTrip => ({
+  date,
+  cost,
+  highZone: 2,
+  busAndTramOnly: false,
+  ...overrides,
+});
+
+describe('explainFare', () => {
+  it('matches each fare component to the legs it pays for', () => {
+    // Monday 19 October 2026, 08:00: tube then a bus
+    const planned = journey('2026-10-19T08:00', [
+      leg('walking', '2026-10-19T07:55'),
+      leg('tube', '2026-10-19T08:00'),
+      leg('tube', '2026-10-19T08:10'),
+      leg('bus', '2026-10-19T08:30'),
+    ], [fare(380, { offPeak: 320 }), fare(175, { chargeLevel: '', peak: 175, offPeak: 175 })]);
+
+    const breakdown = explainFare(planned)!;
+
+    expect(breakdown.components.map((component) => component.legIndexes)).toEqual([[1, 2], [3]]);
+    expect(breakdown.components.map((component) => component.perRide)).toEqual([false, true]);
+    expect(breakdown.totalCost).toBe(555);
+  });
+
+  it('leaves the fare unmatched when the component and leg counts disagree', () => {
+    const planned = journey('2026-10-19T11:00', [
+      leg('tube', '2026-10-19T11:00'),
+      leg('bus', '2026-10-19T11:20'),
+      leg('bus', '2026-10-19T11:40'),
+    ], [fare(280, { chargeLevel: 'Off Peak' }), fare(175, { chargeLevel: '' })]);
+
+    const breakdown = explainFare(planned, 'freedom-pass')!;
+
+    expect(breakdown.components.map((component) => component.legIndexes)).toEqual([[], []]);
+    expect(breakdown.totalCost).toBe(455);
+    expect(breakdown.components[0].note).toMatch(/adult price/);
+  });
+
+  it('suggests leaving after the peak when it is cheaper', () => {
+    const planned = journey('2026-10-19T09:25', [leg('tube', '2026-10-19T09:25')], [fare(380, { offPeak: 320 })]);
+
+    expect(explainFare(planned)?.offPeakSaving).toBe(60);
+  });
+
+  it('is null when TfL gave no fare', () => {
+    expect(explainFare({ ...journey('2026-10-19T09:00', [], []), fare: undefined } as unknown as Journey)).toBeNull();
+  });
+});
+
+describe('explainFare by profile', () => {
+  // Weekdays are Monday 19 October 2026; the weekend is Saturday 24 October
+  const rail = (mode: string, at: string, detail: Partial<FareDetail> = {}) =>
+    journey(at, [leg(mode, at)], [fare(380, { offPeak: 300, ...detail })]);
+  const bus = (at: string) => journey(at, [leg('bus', at)], [fare(175, { chargeLevel: '', offPeak: 175 })]);
+
+  const cases: Array<{ name: string; profile: FareProfileId; journey: Journey; cost: number; valid?: boolean; note?: RegExp }> = [
+    { name: 'adult pays TfL\'s fare', profile: 'adult', journey: rail('tube', '2026-10-19T08:00'), cost: 380 },
+    { name: 'railcard takes a third off off-peak', profile: 'railcard', journey: rail('tube', '2026-10-19T11:00', { cost: 300, chargeLevel: 'Off Peak' }), cost: 200, note: /third off/ },
+    { name: 'railcard pays full fare in the peak', profile: 'railcard', journey: rail('tube', '2026-10-19T08:00'), cost: 380, note: /off-peak/ },
+    { name: 'railcard has no bus discount', profile: 'railcard', journey: bus('2026-10-19T11:00'), cost: 175, note: /buses/ },
+    { name: '60+ rides buses free', profile: 'sixty-plus', journey: bus('2026-10-19T07:00'), cost: 0 },
+    { name: '60+ pays before 09:00 on weekdays', profile: 'sixty-plus', journey: rail('tube', '2026-10-19T08:30'), cost: 380, valid: false },
+    { name: '60+ travels free from 09:00', profile: 'sixty-plus', journey: rail('tube', '2026-10-19T09:00'), cost: 0 },
+    { name: '60+ travels free at weekend mornings', profile: 'sixty-plus', journey: rail('tube', '2026-10-24T07:00'), cost: 0 },
+    { name: 'Freedom Pass rides TfL free in the peak', profile: 'freedom-pass', journey: rail('tube', '2026-10-19T08:00'), cost: 0 },
+    { name: 'Freedom Pass pays on National Rail before 09:30', profile: 'freedom-pass', journey: rail('national-rail', '2026-10-19T09:15'), cost: 380, valid: false, note: /09:30/ },
+    { name: 'Freedom Pass rides National Rail free from 09:30', profile: 'freedom-pass', journey: rail('national-rail', '2026-10-19T09:30'), cost: 0 },
+    { name: 'Zip rides buses free', profile: 'zip', journey: bus('2026-10-19T08:00'), cost: 0 },
+    { name: 'Zip pays half the off-peak fare on trains', profile: 'zip', journey: rail('tube', '2026-10-19T08:00'), cost: 150, note: /Child rate/ },
+  ];
+
+  it.each(cases)('$name', ({ profile, journey: planned, cost, valid = true, note }) => {
+    const breakdown = explainFare(planned, profile)!;
+    const [component] = breakdown.components;
+
+    expect(breakdown.profile).toBe(profile);
+    expect(component.cost).toBe(cost);
+    expect(breakdown.totalCost).toBe(cost);
+    expect(component.concessionValid).toBe(valid);
+    if (note) expect(component.note).toMatch(note);
+  });
+
+  it('prices each component of a mixed journey for the profile', () => {
+    const planned = journey('2026-10-19T08:45', [
+      leg('bus', '2026-10-19T08:45'),
+      leg('tube', '2026-10-19T09:05'),
+    ], [fare(175, { chargeLevel: '' }), fare(380, { offPeak: 300 })]);
+
+    const breakdown = explainFare(planned, 'sixty-plus')!;
+
+    expect(breakdown.components.map((component) => component.cost)).toEqual([0, 0]);
+    expect(breakdown.adultCost).toBe(555);
+    expect(breakdown.totalCost).toBe(0);
+  });
+
+  it('suggests waiting until the concession is valid', () => {
+    const planned = rail('national-rail', '2026-10-19T09:25');
+
+    expect(explainFare(planned, 'freedom-pass')?.offPeakSaving).toBe(380);
+  });
+});
+
+describe('estimateCaps', () => {
+  it('caps each day, then caps the week on what the days charged', () => {
+    // Monday to Sunday at £12 a day in zones 1–2: each day caps at £8.90, and the week at £44.70
+    const week = ['19', '20', '21', '22', '23', '24', '25'].flatMap((day) => [
+      trip(`2026-10-${day}`, 600),
+      trip(`2026-10-${day}`, 600),
+    ]);
+
+    const estimate = estimateCaps(week);
+
+    expect(estimate.days).toHaveLength(7);
+    expect(estimate.days[0]).toMatchObject({ spent: 1200, charged: 890, cap: 890, reached: true, capLabel: 'zones 1–2' });
+    expect(estimate.weeks).toEqual([
+      expect.objectContaining({ start: '2026-10-19', spent: 7 * 890, charged: 4470, cap: 4470, reached: true }),
+    ]);
+    expect(estimate.capsEffectiveFrom).toBe(FARE_CAPS.effectiveFrom);
+  });
+
+  it('uses the highest zone travelled and the bus and tram cap for bus-only days', () => {
+    const estimate = estimateCaps([
+      trip('2026-10-19', 900, { highZone: 4 }),
+      trip('2026-10-19', 500),
+      trip('2026-10-20', 350, { highZone: undefined, busAndTramOnly: true }),
+      trip('2026-10-20', 350, { highZone: undefined, busAndTramOnly: true }),
+    ]);
+
+    expect(estimate.days.map((day) => [day.cap, day.charged])).toEqual([[1280, 1280], [525, 525]]);
+    // A week with rail in it is capped by zone, not as bus and tram
+    expect(estimate.weeks[0]).toMatchObject({ spent: 1805, cap: 6420, charged: 1805, reached: false });
+  });
+
+  it('splits weeks on Monday', () => {
+    const estimate = estimateCaps([trip('2026-10-25', 300), trip('2026-10-26', 300)]);
+
+    expect(estimate.weeks.map((week) => week.start)).toEqual(['2026-10-19', '2026-10-26']);
+  });
+
+  it('takes the caps table it is given', () => {
+    const caps = { ...FARE_CAPS, effectiveFrom: '2026-03-01', daily: { 2: 1000 } };
+
+    expect(estimateCaps([trip('2026-10-19', 1200)], caps)).toMatchObject({
+      days: [{ cap: 1000, charged: 1000 }],
+      capsEffectiveFrom: '2026-03-01',
+    });
+  });
+
+  it('builds trips from priced journeys', () => {
+    const planned = journey('2026-10-19T08:00', [leg('tube', '2026-10-19T08:00')], [fare(380, { highZone: 3 })]);
+
+    expect(tripFromJourney(planned)).toEqual({ date: '2026-10-19', cost: 380, highZone: 3, busAndTramOnly: false });
+  });
+});
@@ -0,0 +1,346 @@
+import type { FareDetail, Journey, Leg } from '@/types/tfl';
+
+// Explains TfL pay as you go fares: which legs each fare component pays for, peak and off-peak prices, the Bus &
+// Tram Hopper, what a railcard or concession actually pays, and how a set of trips adds up against the daily and
+// weekly caps. Amounts are in pence.
+
+// Modes that are never charged
+const FREE_MODES = ['walking', 'cycle'];
+
+// Bus and tram rides are charged one by one; everything else is charged per journey between taps
+const PER_RIDE_MODES = ['bus', 'tram'];
+
+// Weekday peak: 06:30–09:30 and 16:00–19:00, by tap-in time
+const PEAK_WINDOWS: Array<[number, number]> = [[6 * 60 + 30, 9 * 60 + 30], [16 * 60, 19 * 60]];
+
+// How much later the off-peak suggestion looks
+export const OFF_PEAK_SHIFT_MINUTES = 10;
+
+export type FareCaps = {
+  // yyyy-MM-dd the figures took effect; shown with every estimate so stale figures are visible
+  effectiveFrom: string;
+  // For zones 1 to the key. Journeys that stay outside zone 1 can cap lower, so those estimates are an upper bound.
+  daily: Record<number, number>;
+  weekly: Record<number, number>;
+  busAndTramDaily: number;
+  busAndTramWeekly: number;
+};
+
+// Pay as you go caps. TfL revises them each March; replace the figures and effectiveFrom together.
+export const FARE_CAPS: FareCaps = {
+  effectiveFrom: '2025-03-02',
+  daily: { 2: 890, 3: 1050, 4: 1280, 5: 1520, 6: 1630 },
+  weekly: { 2: 4470, 3: 5250, 4: 6420, 5: 7620, 6: 8160 },
+  busAndTramDaily: 525,
+  busAndTramWeekly: 2470,
+};
+
+export type FareProfileId = 'adult' | 'railcard' | 'sixty-plus' | 'freedom-pass' | 'zip';
+
+export type FareProfile = {
+  id: FareProfileId;
+  label: string;
+  description: string;
+};
+
+// Who is paying. TfL only prices adult pay as you go, so the others are worked out from its FareDetail entries.
+export const FARE_PROFILES: FareProfile[] = [
+  { id: 'adult', label: 'Adult', description: 'Contactless or Oyster pay as you go' },
+  { id: 'railcard', label: '16-25 Railcard', description: 'Railcard on Oyster: a third off off-peak rail fares' },
+  { id: 'sixty-plus', label: '60+ Oyster', description: 'Free on buses and trams, and on trains from 09:00 on weekdays' },
+  { id: 'freedom-pass', label: 'Freedom Pass', description: 'Free on TfL, and on National Rail from 09:30 on weekdays' },
+  { id: 'zip', label: '11-15 Zip Oyster', description: 'Free on buses and trams, child rate on trains' },
+];
+
+export const DEFAULT_FARE_PROFILE: FareProfileId = 'adult';
+
+export const isFareProfileId = (value: unknown): value is FareProfileId =>
+  FARE_PROFILES.some((profile) => profile.id === value);
+
+export type FareComponent = {
+  detail: FareDetail;
+  // Legs this component pays for; empty when the fares could not be matched to legs
+  legIndexes: number[];
+  modes: string[];
+  perRide: boolean;
+  zones?: string;
+  peak: boolean;
+  // What the profile pays for this component, and why it differs from the adult fare
+  cost: number;
+  note?: string;
+  // False when the profile's pass or discount does not cover this component, so the adult fare is charged
+  concessionValid: boolean;
+};
+
+export type FareBreakdown = {
+  profile: FareProfileId;
+  // What the profile pays; adultCost is TfL's own total
+  totalCost: number;
+  adultCost: number;
+  components: FareComponent[];
+  // A Hopper fare: further bus and tram rides within an hour of the first are free
+  hopper: boolean;
+  // Set when leaving OFF_PEAK_SHIFT_MINUTES later would be cheaper (off-peak, or inside the concession's hours)
+  offPeakSaving?: number;
+  caveats: string[];
+};
+
+export type PlannedTrip = {
+  date: string; // yyyy-MM-dd, London time
+  cost: number;
+  highZone?: number;
+  busAndTramOnly: boolean;
+};
+
+export type CapPeriod = {
+  start: string; // yyyy-MM-dd of the day, or of the Monday the week starts
+  spent: number;
+  // What the trips cost once the cap is applied
+  charged: number;
+  cap?: number;
+  capLabel?: string;
+  reached: boolean;
+};
+
+export type CapEstimate = {
+  days: CapPeriod[];
+  weeks: CapPeriod[];
+  // When the cap figures used took effect
+  capsEffectiveFrom: string;
+};
+
+const isPaidLeg = (leg: Leg) => !FREE_MODES.includes(leg.mode?.id);
+
+// TfL times are London local without an offset, so the clock and date are read straight from the string
+const readLocalTime = (value?: string): { date: string; minutes: number } | null => {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})/.exec(value || '');
+  if (!match) return null;
+  return { date: match[1], minutes: Number(match[2]) * 60 + Number(match[3]) };
+};
+
+const weekday = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export const isPeakTime = (value?: string): boolean => {
+  const time = readLocalTime(value);
+  if (!time) return false;
+  const day = weekday(time.date);
+  if (day === 0 || day === 6) return false;
+  return PEAK_WINDOWS.some(([start, end]) => time.minutes >= start && time.minutes < end);
+};
+
+const shiftMinutes = (value: string, minutes: number): string => {
+  const time = readLocalTime(value);
+  if (!time) return value;
+  const total = time.minutes + minutes;
+  const hours = String(Math.floor(total / 60) % 24).padStart(2, '0');
+  const mins = String(total % 60).padStart(2, '0');
+  return `${time.date}T${hours}:${mins}`;
+};
+
+// Minutes after midnight on a weekday before which a concession is not valid, e.g. 09:30 for Freedom Pass on
+// National Rail; false at weekends
+const beforeOnWeekday = (value: string | undefined, minutes: number): boolean => {
+  const time = readLocalTime(value);
+  if (!time) return false;
+  const day = weekday(time.date);
+  return day !== 0 && day !== 6 && time.minutes < minutes;
+};
+
+export const formatZones = (detail: Pick<FareDetail, 'lowZone' | 'highZone'>): string | undefined => {
+  if (!detail.lowZone && !detail.highZone) return undefined;
+  if (!detail.highZone || detail.lowZone === detail.highZone) return `Zone ${detail.lowZone || detail.highZone}`;
+  return `Zones ${detail.lowZone}–${detail.highZone}`;
+};
+
+export const formatPence = (pence: number): string => `£${(pence / 100).toFixed(2)}`;
+
+// Consecutive rail legs share one fare (touch in, touch out); each bus or tram ride has its own
+const chargeableGroups = (legs: Leg[]): number[][] => {
+  const groups: number[][] = [];
+  let previousPerRide = true;
+  for (let index = 0; index < legs.length; index += 1) {
+    const leg = legs[index];
+    if (!isPaidLeg(leg)) continue;
+    const perRide = PER_RIDE_MODES.includes(leg.mode?.id);
+    if (perRide || previousPerRide || groups.length === 0) {
+      groups.push([index]);
+    } else {
+      groups[groups.length - 1].push(index);
+    }
+    previousPerRide = perRide;
+  }
+  return groups;
+};
+
+// Fare components matched to the legs they pay for, in travel order. TfL lists one component per charged journey,
+// so the match only holds when the counts agree (or there is a single component).
+const matchComponents = (journey: Journey, details: FareDetail[]): number[][] => {
+  const legs = journey.legs || [];
+  const groups = chargeableGroups(legs);
+  if (groups.length === details.length) return groups;
+  if (details.length === 1) return [groups.reduce((acc, group) => acc.concat(group), [])];
+  return details.map(() => []);
+};
+
+type ComponentPrice = Pick<FareComponent, 'cost' | 'note' | 'concessionValid'>;
+
+// What a profile pays for one component, given the adult fare at that time and when the component starts
+const priceComponent = (
+  profile: FareProfileId,
+  component: Pick<FareComponent, 'legIndexes' | 'modes' | 'perRide' | 'peak' | 'detail'>,
+  adultCost: number,
+  peak: boolean,
+  startTime?: string
+): ComponentPrice => {
+  if (profile === 'adult') return { cost: adultCost, concessionValid: true };
+  if (component.legIndexes.length === 0) {
+    return { cost: adultCost, note: 'Could not tell which legs this fare covers, so it is shown at the adult price', concessionValid: true };
+  }
+
+  const nationalRail = component.modes.includes('national-rail');
+  switch (profile) {
+    case 'railcard':
+      if (component.perRide) return { cost: adultCost, note: 'No railcard discount on buses and trams', concessionValid: true };
+      if (peak) return { cost: adultCost, note: 'Railcard discount only applies off-peak', concessionValid: true };
+      return { cost: Math.round((adultCost * 2) / 3), note: 'A third off with your railcard', concessionValid: true };
+    case 'sixty-plus':
+      if (component.perRide) return { cost: 0, note: 'Free with 60+ Oyster', concessionValid: true };
+      if (beforeOnWeekday(startTime, 9 * 60)) {
+        return {
+          cost: adultCost,
+          note: `60+ Oyster is not valid on ${nationalRail ? 'National Rail' : 'trains'} before 09:00 on weekdays`,
+          concessionValid: false,
+        };
+      }
+      return { cost: 0, note: 'Free with 60+ Oyster', concessionValid: true };
+    case 'freedom-pass':
+      if (nationalRail && beforeOnWeekday(startTime, 9 * 60 + 30)) {
+        return { cost: adultCost, note: 'Freedom Pass is not valid on National Rail before 09:30 on weekdays', concessionValid: false };
+      }
+      return { cost: 0, note: 'Free with Freedom Pass', concessionValid: true };
+    case 'zip':
+      if (component.perRide) return { cost: 0, note: 'Free with Zip Oyster', concessionValid: true };
+      // Child rate is roughly half the adult off-peak fare at any time of day
+      return { cost: Math.round(component.detail.offPeak / 2), note: 'Child rate (estimated)', concessionValid: true };
+    default:
+      return { cost: adultCost, concessionValid: true };
+  }
+};
+
+export const explainFare = (journey: Journey, profile: FareProfileId = DEFAULT_FARE_PROFILE): FareBreakdown | null => {
+  const fare = journey.fare;
+  if (!fare || typeof fare.totalCost !== 'number') return null;
+
+  const details = fare.fares || [];
+  const legs = journey.legs || [];
+  const matched = matchComponents(journey, details);
+  const start = journey.startDateTime;
+  let laterDifference = 0;
+
+  const components: FareComponent[] = details.map((detail, index) => {
+    const legIndexes = matched[index];
+    const modes = Array.from(new Set(legIndexes.map((legIndex) => legs[legIndex]?.mode?.id).filter(Boolean)));
+    const component = {
+      detail,
+      legIndexes,
+      modes,
+      perRide: modes.length > 0 && modes.every((mode) => PER_RIDE_MODES.includes(mode)),
+      zones: formatZones(detail),
+      peak: /^peak$/i.test(detail.chargeLevel || '') || (detail.peak > detail.offPeak && !/off/i.test(detail.chargeLevel || '')),
+    };
+
+    const componentStart = legs[legIndexes[0]]?.departureTime || start;
+    const componentLater = shiftMinutes(componentStart, OFF_PEAK_SHIFT_MINUTES);
+    const price = priceComponent(profile, component, detail.cost, component.peak, componentStart);
+    // The same component a few minutes later: off-peak if that leaves the peak window
+    const laterOffPeak = component.peak && !isPeakTime(componentLater);
+    const laterPrice = priceComponent(
+      profile,
+      component,
+      laterOffPeak ? detail.offPeak : detail.cost,
+      component.peak && !laterOffPeak,
+      componentLater
+    );
+    laterDifference += price.cost - laterPrice.cost;
+
+    return { ...component, ...price };
+  });
+
+  // Components' differences from the adult fare, applied to TfL's total so anything it adds beyond them stays
+  const discount = components.reduce((acc, component) => acc + component.detail.cost - component.cost, 0);
+  const offPeakSaving = laterDifference > 0 ? laterDifference : undefined;
+
+  return {
+    profile,
+    totalCost: Math.max(0, fare.totalCost - discount),
+    adultCost: fare.totalCost,
+    components,
+    hopper: details.some((detail) => detail.isHopperFare),
+    ...(offPeakSaving ? { offPeakSaving } : {}),
+    caveats: (fare.caveats || []).map((caveat) => caveat.text).filter(Boolean),
+  };
+};
+
+// The trip a journey adds to the cap estimate; null when TfL did not price it
+export const tripFromJourney = (journey: Journey, profile: FareProfileId = DEFAULT_FARE_PROFILE): PlannedTrip | null => {
+  const breakdown = explainFare(journey, profile);
+  const time = readLocalTime(journey.startDateTime);
+  if (!breakdown || !time) return null;
+
+  const highZones = breakdown.components.map((component) => component.detail.highZone).filter((zone) => zone > 0);
+  return {
+    date: time.date,
+    cost: breakdown.totalCost,
+    ...(highZones.length > 0 ? { highZone: Math.max(...highZones) } : {}),
+    busAndTramOnly: breakdown.components.length > 0 && breakdown.components.every((component) => component.perRide),
+  };
+};
+
+const capFor = (trips: PlannedTrip[], caps: Record<number, number>, busAndTramCap: number) => {
+  if (trips.every((trip) => trip.busAndTramOnly)) {
+    return { cap: busAndTramCap, capLabel: 'bus and tram' };
+  }
+  const highZone = Math.max(2, ...trips.map((trip) => trip.highZone || 0));
+  const cap = caps[highZone];
+  return cap ? { cap, capLabel: `zones 1–${highZone}` } : {};
+};
+
+const groupBy = <T>(items: T[], key: (item: T) => string): Array<[string, T[]]> => {
+  const groups: Array<[string, T[]]> = [];
+  for (const item of items) {
+    const value = key(item);
+    const group = groups.find(([existing]) => existing === value);
+    if (group) group[1].push(item);
+    else groups.push([value, [item]]);
+  }
+  return groups.sort(([a], [b]) => a.localeCompare(b));
+};
+
+const mondayOf = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const monday = new Date(Date.UTC(year, month - 1, day - ((weekday(date) + 6) % 7)));
+  return monday.toISOString().slice(0, 10);
+};
+
+// Daily caps apply first; the weekly cap (Monday to Sunday) then limits the sum of what each day charged
+export const estimateCaps = (trips: PlannedTrip[], caps: FareCaps = FARE_CAPS): CapEstimate => {
+  const days = groupBy(trips, (trip) => trip.date).map(([start, dayTrips]): CapPeriod => {
+    const spent = dayTrips.reduce((acc, trip) => acc + trip.cost, 0);
+    const { cap, capLabel } = capFor(dayTrips, caps.daily, caps.busAndTramDaily);
+    const charged = cap !== undefined ? Math.min(spent, cap) : spent;
+    return { start, spent, charged, cap, capLabel, reached: cap !== undefined && spent >= cap };
+  });
+
+  const weeks = groupBy(days, (day) => mondayOf(day.start)).map(([start, weekDays]): CapPeriod => {
+    const weekTrips = trips.filter((trip) => mondayOf(trip.date) === start);
+    const spent = weekDays.reduce((acc, day) => acc + day.charged, 0);
+    const { cap, capLabel } = capFor(weekTrips, caps.weekly, caps.busAndTramWeekly);
+    const charged = cap !== undefined ? Math.min(spent, cap) : spent;
+    return { start, spent, charged, cap, capLabel, reached: cap !== undefined && spent >= cap };
+  });
+
+  return { days, weeks, capsEffectiveFrom: caps.effectiveFrom };
+};
@@ -1,4 +1,5 @@
 import { config } from './config';
+import { rateLimiters } from './rate-limiter';
 
 export interface GeocodingResult {
   name: string;
@@ -63,6 +64,13 @@ class GeocodingService {
       return [];
     }
 
+    try {
+      await rateLimiters.geocoding.acquire();
+    } catch (error) {
+      console.warn('Geocoding request skipped:', error);
+      return [];
+    }
+
     // Add London/UK bias if not specified
     const defaultOptions = {
       country: 'GB',
@@ -209,6 +217,13 @@ class GeocodingService {
       return null;
     }
 
+    try {
+      await rateLimiters.geocoding.acquire();
+    } catch (error) {
+      console.warn('Reverse geocoding request skipped:', error);
+      return null;
+    }
+
     if (this.provider === 'google') {
       return this.reverseGeocodeWithGoogle(lat, lon);
     } else if (this.provider === 'mapbox') {
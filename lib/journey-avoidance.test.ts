@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Journey, Leg } from '@/types/tfl';
+import { classifyAvoidTerms, findAvoidanceViolations, partitionByAvoidance } from './journey-avoidance';
+
+const stop = (commonName: string) => ({ commonName });
+
+const leg = (mode: string, from: string, to: string, options: { line?: string; through?: string[] } = {}): Leg => ({
+  mode: { id: mode },
+  departurePoint: stop(from),
+  arrivalPoint: stop(to),
+  path: { stopPoints: (options.through || []).map((name) => ({ name })) },
+  routeOptions: options.line ? [{ name: options.line, lineIdentifier: { id: options.line.toLowerCase(), name: options.line } }] : [],
+} as unknown as Leg);
+
+const journey = (...legs: Leg[]): Journey => ({ legs } as unknown as Journey);
+
+describe('classifyAvoidTerms', () => {
+  it('reads line names however they are written', () => {
+    expect(classifyAvoidTerms(['the Central line', 'Hammersmith & City', 'Waterloo and City line', 'DLR']).lines)
+      .toEqual(['central', 'hammersmith-city', 'waterloo-city', 'dlr']);
+  });
+
+  it('reads bus routes by their number', () => {
+    expect(classifyAvoidTerms(['the 25', 'bus 73', 'N29', 'route 341']).lines).toEqual(['25', '73', 'n29', '341']);
+  });
+
+  it('treats anything else as a station', () => {
+    expect(classifyAvoidTerms(['Bank', 'Kings Cross St. Pancras', ' ', 'Victoria line'])).toEqual({
+      lines: ['victoria'],
+      stations: ['Bank', 'Kings Cross St. Pancras'],
+    });
+    expect(classifyAvoidTerms(null)).toEqual({ lines: [], stations: [] });
+  });
+});
+
+describe('findAvoidanceViolations', () => {
+  const avoidBank = { lines: [], stations: ['Bank'] };
+
+  it('matches a station by its name or a longer name starting with it', () => {
+    expect(findAvoidanceViolations(journey(leg('tube', 'Bank Underground Station', 'Stratford')), avoidBank)).toEqual(['Bank']);
+    expect(findAvoidanceViolations(journey(leg('tube', 'Bank-Monument', 'Stratford')), avoidBank)).toEqual(['Bank']);
+    expect(findAvoidanceViolations(journey(leg('tube', 'Bankside Pier', 'Stratford')), avoidBank)).toEqual([]);
+    expect(findAvoidanceViolations(journey(leg('dlr', 'Canary Wharf Bank Street', 'Stratford')), avoidBank)).toEqual([]);
+  });
+
+  it('matches station names written differently', () => {
+    const avoid = { lines: [], stations: ["King's Cross St. Pancras"] };
+
+    expect(findAvoidanceViolations(journey(leg('tube', 'Kings Cross St Pancras Underground Station', 'Angel')), avoid))
+      .toEqual(["King's Cross St. Pancras"]);
+  });
+
+  it('allows a journey that only passes through an avoided station', () => {
+    const through = journey(leg('tube', 'Liverpool Street', 'Oxford Circus', { line: 'Central', through: ['Bank', 'St Paul\'s'] }));
+
+    expect(findAvoidanceViolations(through, avoidBank)).toEqual([]);
+  });
+
+  it('flags a change at an avoided station but not a walk past it', () => {
+    const change = journey(
+      leg('tube', 'Waterloo', 'Bank', { line: 'Waterloo-City' }),
+      leg('tube', 'Bank', 'Stratford', { line: 'Central' })
+    );
+    const walk = journey(leg('walking', 'Bank', 'Monument'), leg('tube', 'Monument', 'Embankment', { line: 'District' }));
+
+    expect(findAvoidanceViolations(change, avoidBank)).toEqual(['Bank']);
+    expect(findAvoidanceViolations(walk, avoidBank)).toEqual([]);
+  });
+
+  it('matches lines and bus routes on the legs that ride them', () => {
+    const rides = journey(leg('bus', 'Aldwych', 'Bank', { line: '25' }), leg('tube', 'Bank', 'Stratford', { line: 'Central' }));
+
+    expect(findAvoidanceViolations(rides, classifyAvoidTerms(['the 25', 'Central line']))).toEqual(['25', 'central']);
+    expect(findAvoidanceViolations(rides, classifyAvoidTerms(['bus 205', 'Jubilee']))).toEqual([]);
+  });
+});
+
+describe('partitionByAvoidance', () => {
+  it('splits journeys into compliant and rejected', () => {
+    const viaBank = journey(leg('tube', 'Waterloo', 'Bank'), leg('tube', 'Bank', 'Stratford'));
+    const direct = journey(leg('tube', 'Waterloo', 'Stratford', { through: ['Bank'] }));
+
+    expect(partitionByAvoidance([viaBank, direct], { lines: [], stations: ['Bank'] }))
+      .toEqual({ compliant: [direct], rejected: [viaBank] });
+  });
+});
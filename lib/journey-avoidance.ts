@@ -0,0 +1,214 @@
+import type { Journey, Leg, StopPoint } from '@/types/tfl';
+
+export interface AvoidanceConstraints {
+  stations: string[];
+  lines: string[];
+}
+
+export interface AvoidanceOutcome {
+  stations: string[];
+  lines: string[];
+  satisfied: boolean;
+  summary: string;
+  message?: string;
+}
+
+// Rail line ids used by the TfL API plus the names people use for them
+const KNOWN_LINE_IDS: Record<string, string> = {
+  bakerloo: 'bakerloo',
+  central: 'central',
+  circle: 'circle',
+  district: 'district',
+  hammersmithcity: 'hammersmith-city',
+  hammersmithandcity: 'hammersmith-city',
+  jubilee: 'jubilee',
+  metropolitan: 'metropolitan',
+  northern: 'northern',
+  piccadilly: 'piccadilly',
+  victoria: 'victoria',
+  waterloocity: 'waterloo-city',
+  waterlooandcity: 'waterloo-city',
+  elizabeth: 'elizabeth',
+  dlr: 'dlr',
+  liberty: 'liberty',
+  lioness: 'lioness',
+  mildmay: 'mildmay',
+  suffragette: 'suffragette',
+  weaver: 'weaver',
+  windrush: 'windrush',
+  tram: 'tram',
+};
+
+const STATION_SUFFIX_PATTERN =
+  /\b(underground|overground|dlr|rail|tram|bus|elizabeth line)?\s*(station|stop)\b/g;
+
+const compact = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeStationName = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/\bst\.?\b/g, 'st')
+    .replace(STATION_SUFFIX_PATTERN, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const normalizeLineTerm = (value: string): string =>
+  compact(
+    value
+      .toLowerCase()
+      .replace(/^the\s+/, '')
+      .replace(/\s+(line|lines)$/, '')
+      .replace(/&/g, 'and')
+  );
+
+const resolveLineTerm = (term: string): string | undefined => {
+  const normalized = normalizeLineTerm(term);
+  if (!normalized) return undefined;
+  if (KNOWN_LINE_IDS[normalized]) return KNOWN_LINE_IDS[normalized];
+
+  // Bus routes are identified by their number, e.g. "the 25" or "bus 25"
+  const busRoute = /^(?:bus|route)?([a-z]?\d{1,3}[a-z]?)(?:bus)?$/.exec(normalized);
+  if (busRoute && /\d/.test(busRoute[1])) return busRoute[1];
+
+  return undefined;
+};
+
+// Split free-text avoid terms (from the NLP parser) into lines and stations
+export const classifyAvoidTerms = (terms?: string[] | null): AvoidanceConstraints => {
+  const lines = new Set<string>();
+  const stations = new Set<string>();
+
+  for (const raw of Array.isArray(terms) ? terms : []) {
+    const term = String(raw || '').trim();
+    if (!term) continue;
+
+    const lineId = resolveLineTerm(term);
+    if (lineId) {
+      lines.add(lineId);
+      continue;
+    }
+
+    stations.add(term);
+  }
+
+  return { lines: Array.from(lines), stations: Array.from(stations) };
+};
+
+export const mergeAvoidanceConstraints = (
+  ...sources: Array<Partial<AvoidanceConstraints> | undefined>
+): AvoidanceConstraints => {
+  const lines = new Set<string>();
+  const stations = new Set<string>();
+
+  for (const source of sources) {
+    (source?.lines || []).forEach((line) => {
+      const lineId = resolveLineTerm(line) || line.toLowerCase().trim();
+      if (lineId) lines.add(lineId);
+    });
+    (source?.stations || []).forEach((station) => {
+      const trimmed = station.trim();
+      if (trimmed) stations.add(trimmed);
+    });
+  }
+
+  return { lines: Array.from(lines), stations: Array.from(stations) };
+};
+
+export const hasAvoidanceConstraints = (constraints?: AvoidanceConstraints | null): boolean =>
+  !!constraints && (constraints.lines.length > 0 || constraints.stations.length > 0);
+
+const legLineKeys = (leg: Leg): string[] => {
+  const keys: string[] = [];
+  for (const option of leg.routeOptions || []) {
+    if (option.lineIdentifier?.id) keys.push(compact(option.lineIdentifier.id));
+    if (option.lineIdentifier?.name) keys.push(compact(option.lineIdentifier.name));
+    if (option.name) keys.push(compact(option.name));
+  }
+  return keys;
+};
+
+// Where a leg boards and alights. Stops it only passes through do not count, so avoiding (or not changing at)
+// Bank still allows a train that runs through it.
+const legStopNames = (leg: Leg): string[] => {
+  const names: string[] = [];
+  const push = (stop?: Partial<StopPoint> & { name?: string }) => {
+    const name = stop?.commonName || stop?.name;
+    if (name) names.push(normalizeStationName(name));
+  };
+
+  push(leg.departurePoint);
+  push(leg.arrivalPoint);
+
+  return names;
+};
+
+const stationMatches = (stopName: string, avoided: string): boolean => {
+  if (!stopName || !avoided) return false;
+  if (stopName === avoided) return true;
+  // "Bank" should match "Bank" and "Bank Monument" but not "Canary Wharf Bank Street"
+  return stopName.startsWith(`${avoided} `);
+};
+
+// Describe which avoided lines or stations a journey uses; an empty list means it complies
+export const findAvoidanceViolations = (journey: Journey, constraints: AvoidanceConstraints): string[] => {
+  const violations = new Set<string>();
+  const avoidedLines = constraints.lines.map((line) => ({ line, key: compact(line) }));
+  const avoidedStations = constraints.stations.map((station) => ({
+    station,
+    key: normalizeStationName(station),
+  }));
+
+  for (const leg of journey.legs || []) {
+    if (leg.mode?.id === 'walking') continue;
+
+    const lineKeys = legLineKeys(leg);
+    for (const { line, key } of avoidedLines) {
+      if (lineKeys.includes(key)) violations.add(line);
+    }
+
+    const stopNames = legStopNames(leg);
+    for (const { station, key } of avoidedStations) {
+      if (stopNames.some((name) => stationMatches(name, key))) violations.add(station);
+    }
+  }
+
+  return Array.from(violations);
+};
+
+export const partitionByAvoidance = (
+  journeys: Journey[],
+  constraints: AvoidanceConstraints
+): { compliant: Journey[]; rejected: Journey[] } => {
+  const compliant: Journey[] = [];
+  const rejected: Journey[] = [];
+
+  for (const journey of journeys) {
+    if (findAvoidanceViolations(journey, constraints).length === 0) {
+      compliant.push(journey);
+    } else {
+      rejected.push(journey);
+    }
+  }
+
+  return { compliant, rejected };
+};
+
+const formatLineLabel = (lineId: string): string => {
+  if (/\d/.test(lineId)) return `the ${lineId.toUpperCase()} bus`;
+  if (lineId === 'dlr') return 'the DLR';
+  const name = lineId
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' & ');
+  return `the ${name} line`;
+};
+
+export const describeAvoidance = (constraints: AvoidanceConstraints): string => {
+  const parts = [...constraints.lines.map(formatLineLabel), ...constraints.stations];
+  if (parts.length <= 1) return parts.join('');
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { formatTfLDate, formatTfLTime, fromLondonTime, parseClientTime, parseTfLDateTime } from './dates';
+
+describe('London dates', () => {
+  it('formats TfL dates and times in London time', () => {
+    // 23:30 UTC in summer is 00:30 the next day in London
+    const when = new Date('2026-07-01T23:30:00Z');
+
+    expect(formatTfLDate(when)).toBe('20260702');
+    expect(formatTfLTime(when)).toBe('0030');
+    expect(formatTfLTime(new Date('2026-12-01T23:30:00Z'))).toBe('2330');
+  });
+
+  it('reads London wall-clock times either side of the clock changes', () => {
+    expect(fromLondonTime(2026, 7, 1, 9, 0).toISOString()).toBe('2026-07-01T08:00:00.000Z');
+    expect(fromLondonTime(2026, 12, 1, 9, 0).toISOString()).toBe('2026-12-01T09:00:00.000Z');
+    // Clocks go forward at 01:00 on 29 March 2026, so 01:30 does not exist
+    expect(fromLondonTime(2026, 3, 29, 1, 30).toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    expect(fromLondonTime(2026, 3, 29, 2, 30).toISOString()).toBe('2026-03-29T01:30:00.000Z');
+    // Day overflow rolls into the next month
+    expect(fromLondonTime(2026, 10, 32, 8, 0).toISOString()).toBe('2026-11-01T08:00:00.000Z');
+  });
+
+  it('reads TfL date and time pairs back as London time', () => {
+    expect(parseTfLDateTime('20260701', '0900')?.toISOString()).toBe('2026-07-01T08:00:00.000Z');
+    expect(parseTfLDateTime('2026-07-01', '0900')).toBeUndefined();
+  });
+
+  it('reads zoneless client times as London time and keeps explicit zones', () => {
+    expect(parseClientTime('2026-07-01T18:00')?.toISOString()).toBe('2026-07-01T17:00:00.000Z');
+    expect(parseClientTime('2026-07-01T18:00:00')?.toISOString()).toBe('2026-07-01T17:00:00.000Z');
+    expect(parseClientTime('2026-07-01T18:00:00Z')?.toISOString()).toBe('2026-07-01T18:00:00.000Z');
+    expect(parseClientTime('2026-07-01T18:00:00+02:00')?.toISOString()).toBe('2026-07-01T16:00:00.000Z');
+    expect(parseClientTime('not a time')).toBeUndefined();
+    expect(parseClientTime(undefined)).toBeUndefined();
+  });
+});
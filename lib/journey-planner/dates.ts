@@ -0,0 +1,74 @@
+// TfL expects dates as yyyyMMdd and times as HHmm in London local time. Everything here works in Europe/London
+// whatever the server's own zone is, so a search reads the same on a UTC host as on a laptop in London.
+
+export const LONDON_TIME_ZONE = 'Europe/London';
+
+export type LondonDateParts = { year: number; month: number; day: number; hours: number; minutes: number };
+
+const londonFormat = new Intl.DateTimeFormat('en-GB', {
+  timeZone: LONDON_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+// The wall-clock date and time in London at an instant; month is 1-based
+export const londonDateParts = (d: Date): LondonDateParts => {
+  const parts: Record<string, number> = {};
+  londonFormat.formatToParts(d).forEach((part) => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return { year: parts.year, month: parts.month, day: parts.day, hours: parts.hour, minutes: parts.minute };
+};
+
+// The instant a London wall-clock time falls at. Day and month overflow roll over as Date.UTC does, so day + 1
+// is the next day. A time skipped by the spring clock change lands an hour later; one repeated in autumn takes
+// the later of the two.
+export const fromLondonTime = (year: number, month: number, day: number, hours: number, minutes: number): Date => {
+  const wall = Date.UTC(year, month - 1, day, hours, minutes);
+  const offsetAt = (instant: number) => {
+    const p = londonDateParts(new Date(instant));
+    return Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes) - instant;
+  };
+  // The offset at the guess can differ from the one at the answer near a clock change, so check it twice
+  let instant = wall - offsetAt(wall);
+  instant = wall - offsetAt(instant);
+  return new Date(instant);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatTfLDate = (d: Date): string => {
+  const { year, month, day } = londonDateParts(d);
+  return `${year}${pad(month)}${pad(day)}`;
+};
+
+export const formatTfLTime = (d: Date): string => {
+  const { hours, minutes } = londonDateParts(d);
+  return `${pad(hours)}${pad(minutes)}`;
+};
+
+// Reads TfL's own yyyyMMdd / HHmm pair back, e.g. from a result's timeAdjustments
+export const parseTfLDateTime = (date: unknown, time: unknown): Date | undefined => {
+  const day = /^(\d{4})(\d{2})(\d{2})$/.exec(String(date ?? ''));
+  const clock = /^(\d{2})(\d{2})$/.exec(String(time ?? ''));
+  if (!day || !clock) return undefined;
+  const d = fromLondonTime(Number(day[1]), Number(day[2]), Number(day[3]), Number(clock[1]), Number(clock[2]));
+  return isNaN(d.getTime()) ? undefined : d;
+};
+
+// An ISO date-time without a zone, as TfL's own results and the LLM's "<today>T18:00" are written
+const ZONELESS_ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+
+// Times with a zone or offset are exact; zoneless ones are read as London wall-clock time
+export const parseClientTime = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const zoneless = typeof value === 'string' ? ZONELESS_ISO_PATTERN.exec(value.trim()) : null;
+  const d = zoneless
+    ? fromLondonTime(Number(zoneless[1]), Number(zoneless[2]), Number(zoneless[3]), Number(zoneless[4]), Number(zoneless[5]))
+    : new Date(value as string | number | Date);
+  return isNaN(d.getTime()) ? undefined : d;
+};
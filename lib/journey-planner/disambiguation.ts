@@ -0,0 +1,61 @@
+import { scoreStopPointMatch } from '@/lib/search-ranking';
+import type { StopPoint } from '@/types/tfl';
+import type { PlaceChoice } from './types';
+
+// Decides when a place name matches more than one station closely enough that the traveller should pick.
+// Stations sharing a name ("Edgware Road (Bakerloo)" / "Edgware Road (Circle Line)", the two Hammersmiths) are
+// found structurally; pairs with different names that people still mix up are listed by hand.
+
+// Lower-case names without apostrophes, line qualifiers or "... Station" suffixes
+const CONFUSABLE_STATIONS: string[][] = [
+  ['shepherds bush', 'shepherds bush market'],
+];
+
+// Below this the query matched no station name well, and a tie says nothing about which one was meant
+const MIN_AMBIGUOUS_SCORE = 0.5;
+
+const MAX_CHOICES = 4;
+
+export const baseStationName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\b(?:(?:underground|rail|dlr|overground|tram|elizabeth line|bus)\s+)?station\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const areConfusable = (a: string, b: string): boolean =>
+  a === b || CONFUSABLE_STATIONS.some((group) => group.includes(a) && group.includes(b));
+
+// Stops (ranked best first, as TfL search returns them) that tie with the best match for `query`. Empty when the
+// best match is clear.
+export const findAmbiguousStops = (stops: StopPoint[], query: string): StopPoint[] => {
+  const seen = new Set<string>();
+  const unique = stops.filter((stop) => {
+    const key = stop.naptanId || stop.id;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (unique.length < 2) return [];
+
+  const [best] = unique;
+  const bestScore = scoreStopPointMatch(best, query);
+  if (bestScore < MIN_AMBIGUOUS_SCORE) return [];
+
+  const bestBase = baseStationName(best.commonName);
+  const tied = unique.filter((stop) =>
+    scoreStopPointMatch(stop, query) === bestScore && areConfusable(baseStationName(stop.commonName), bestBase)
+  );
+
+  return tied.length > 1 ? tied.slice(0, MAX_CHOICES) : [];
+};
+
+export const stopPointToChoice = (stop: StopPoint, location: string): PlaceChoice => ({
+  stopPointId: stop.naptanId || stop.id,
+  name: stop.commonName,
+  location,
+  modes: stop.modes || [],
+  lines: (stop.lines || []).map((line) => line.name),
+});
@@ -0,0 +1,268 @@
+import type { Journey, Leg, Prediction, StopPoint } from '@/types/tfl';
+import type { EnhancedLeg, JourneyPlannerDependencies, LegArrival, LegEnhancements } from './types';
+
+// Live departure data attached to journey legs, shared by initial planning and the refresh endpoint
+
+export type LegArrivalDescriptor = {
+  modeId: string;
+  stopPointId?: string;
+  parentStationId?: string;
+  lineId?: string;
+  departurePoint?: StopPoint;
+  arrivalPoint?: StopPoint;
+};
+
+type ArrivalSources = {
+  // TfL predictions for every requested stop, soonest first
+  arrivals: Prediction[];
+  nrByCrs: Map<string, LegArrival[]>;
+};
+
+const isWalkingLeg = (leg: Leg) => leg.mode.id === 'walking';
+
+export const extractCrsFromStopPoint = (stopPoint?: StopPoint): string | undefined => {
+  if (!stopPoint) return undefined;
+
+  // 1) Direct CRS in ICS when present (rare)
+  const ics = stopPoint.icsCode;
+  if (ics && /^[A-Z]{3}$/.test(ics)) {
+    return ics.toUpperCase();
+  }
+
+  // 2) Additional properties sometimes include 'Crs' or 'CrsCode'
+  const props = stopPoint.additionalProperties || [];
+  for (const p of props) {
+    const key = (p.key || '').toLowerCase();
+    if (key === 'crs' || key === 'crscode') {
+      const val = String(p.value || '').toUpperCase();
+      if (/^[A-Z]{3}$/.test(val)) return val;
+    }
+  }
+
+  // 3) Derive from NaPTAN ID. For National Rail, many station NaPTANs start with '910G' followed by the 3-letter CRS.
+  // Example: '910GKGX' -> CRS 'KGX'
+  const naptanId = stopPoint.naptanId || stopPoint.id || '';
+  const match = /^910G([A-Z]{3})/i.exec(naptanId);
+  if (match && match[1]) {
+    return match[1].toUpperCase();
+  }
+
+  // 4) Try parent station id as a last resort
+  const parent = stopPoint.stationNaptan || '';
+  const parentMatch = /^910G([A-Z]{3})/i.exec(parent);
+  if (parentMatch && parentMatch[1]) {
+    return parentMatch[1].toUpperCase();
+  }
+
+  return undefined;
+};
+
+const descriptorCrs = (descriptor: LegArrivalDescriptor): string | undefined =>
+  descriptor.modeId === 'national-rail'
+    ? extractCrsFromStopPoint(descriptor.departurePoint) || extractCrsFromStopPoint(descriptor.arrivalPoint)
+    : undefined;
+
+const mapPrediction = (prediction: Prediction): LegArrival => ({
+  id: prediction.id,
+  destinationName: prediction.destinationName,
+  expectedArrival: prediction.expectedArrival,
+  timeToStation: prediction.timeToStation,
+  platformName: prediction.platformName,
+  towards: prediction.towards || prediction.direction,
+});
+
+const candidateStopIdsFor = (descriptor: LegArrivalDescriptor): string[] =>
+  [descriptor.stopPointId, descriptor.parentStationId].filter(Boolean) as string[];
+
+// Fetch TfL arrivals and National Rail departures for a batch of legs in as few calls as possible
+const fetchArrivalSources = async (
+  descriptors: LegArrivalDescriptor[],
+  deps: Pick<JourneyPlannerDependencies, 'tfl' | 'nationalRail'>
+): Promise<ArrivalSources> => {
+  const stopPointIds = new Set<string>();
+  const nrCrsSet = new Set<string>();
+
+  for (const descriptor of descriptors) {
+    candidateStopIdsFor(descriptor).forEach((id) => stopPointIds.add(id));
+    const crs = descriptorCrs(descriptor);
+    if (crs) nrCrsSet.add(crs);
+  }
+
+  let arrivals: Prediction[] = [];
+  if (stopPointIds.size > 0) {
+    try {
+      arrivals = await deps.tfl.getMultipleArrivals(Array.from(stopPointIds));
+    } catch (error) {
+      console.error('Failed to fetch arrivals for journey legs:', error);
+      arrivals = [];
+    }
+  }
+
+  const nrByCrs = new Map<string, LegArrival[]>();
+  if (deps.nationalRail.isEnabled() && nrCrsSet.size > 0) {
+    await Promise.all(
+      Array.from(nrCrsSet).map(async (crs) => {
+        try {
+          const departures = await deps.nationalRail.getNextDeparturesByCRS(crs, 3);
+          nrByCrs.set(
+            crs,
+            departures.map((d) => ({
+              id: d.id,
+              destinationName: d.destinationName,
+              expectedArrival: d.expectedArrival,
+              timeToStation: d.timeToStation,
+              platformName: d.platformName,
+              towards: d.towards,
+            }))
+          );
+        } catch (e) {
+          console.warn('NR departures fetch failed for CRS', crs, e);
+        }
+      })
+    );
+  }
+
+  return {
+    arrivals: [...arrivals].sort((a, b) => a.timeToStation - b.timeToStation),
+    nrByCrs,
+  };
+};
+
+// National Rail departures win for rail legs; otherwise prefer the leg's line at the same stop, then any line
+const selectLegArrivals = (descriptor: LegArrivalDescriptor, sources: ArrivalSources): LegArrival[] => {
+  const crs = descriptorCrs(descriptor);
+  if (crs && sources.nrByCrs.has(crs)) {
+    const departures = (sources.nrByCrs.get(crs) || []).slice(0, 3);
+    if (departures.length > 0) return departures;
+  }
+
+  const candidateStopIds = candidateStopIdsFor(descriptor);
+  const atStop = sources.arrivals.filter((prediction) => candidateStopIds.includes(prediction.naptanId));
+
+  if (descriptor.lineId) {
+    const lineId = descriptor.lineId.toLowerCase();
+    const sameLine = atStop
+      .filter((prediction) => (prediction.lineId || '').toLowerCase() === lineId)
+      .slice(0, 3)
+      .map(mapPrediction);
+    if (sameLine.length > 0) return sameLine;
+  }
+
+  return atStop.slice(0, 3).map(mapPrediction);
+};
+
+export type LegArrivalUpdate = {
+  nextArrivals: LegArrival[];
+  platformName?: string;
+};
+
+// Recompute live arrivals for legs the client already has on screen
+export const refreshLegArrivals = async (
+  descriptors: LegArrivalDescriptor[],
+  deps: Pick<JourneyPlannerDependencies, 'tfl' | 'nationalRail'>
+): Promise<LegArrivalUpdate[]> => {
+  const sources = await fetchArrivalSources(descriptors, deps);
+
+  return descriptors.map((descriptor) => {
+    const nextArrivals = selectLegArrivals(descriptor, sources);
+    return {
+      nextArrivals,
+      platformName: nextArrivals[0]?.platformName || undefined,
+    };
+  });
+};
+
+const buildGoogleMapsUrl = (leg: Leg): string | undefined => {
+  const fromLat = leg.departurePoint?.lat;
+  const fromLon = leg.departurePoint?.lon;
+  const toLat = leg.arrivalPoint?.lat;
+  const toLon = leg.arrivalPoint?.lon;
+
+  if (
+    typeof fromLat === 'number' &&
+    typeof fromLon === 'number' &&
+    typeof toLat === 'number' &&
+    typeof toLon === 'number'
+  ) {
+    return `https://www.google.com/maps/dir/?api=1&origin=${fromLat},${fromLon}&destination=${toLat},${toLon}&travelmode=walking`;
+  }
+
+  return undefined;
+};
+
+const formatDistanceSummary = (leg: Leg): string | undefined => {
+  if (typeof leg.distance === 'number' && leg.distance > 0) {
+    const metres = Math.round(leg.distance);
+    if (metres >= 1000) {
+      return `${(metres / 1000).toFixed(1)} km`;
+    }
+    return `${metres} m`;
+  }
+
+  return undefined;
+};
+
+const describeLeg = (leg: Leg): LegArrivalDescriptor => {
+  const lineId = leg.routeOptions?.[0]?.lineIdentifier?.id || leg.mode?.id || leg.mode?.name;
+  return {
+    modeId: leg.mode?.id,
+    stopPointId: leg.departurePoint?.naptanId || leg.departurePoint?.id,
+    parentStationId: leg.departurePoint?.stationNaptan,
+    lineId: lineId ? lineId.toLowerCase() : undefined,
+    departurePoint: leg.departurePoint,
+    arrivalPoint: leg.arrivalPoint,
+  };
+};
+
+export const enhanceLegsWithArrivals = async (
+  journey: Journey,
+  deps: Pick<JourneyPlannerDependencies, 'tfl' | 'nationalRail'>
+): Promise<EnhancedLeg[]> => {
+  const descriptors = new Map<Leg, LegArrivalDescriptor>();
+  journey.legs.filter((leg) => !isWalkingLeg(leg)).forEach((leg) => descriptors.set(leg, describeLeg(leg)));
+
+  const sources = await fetchArrivalSources(Array.from(descriptors.values()), deps);
+
+  return Promise.all(journey.legs.map(async (leg) => {
+    const baseEnhancements: LegEnhancements = {
+      fromName: leg.departurePoint?.commonName,
+      toName: leg.arrivalPoint?.commonName,
+      distanceSummary: formatDistanceSummary(leg),
+    };
+
+    const descriptor = descriptors.get(leg);
+    if (!descriptor) {
+      baseEnhancements.googleMapsUrl = buildGoogleMapsUrl(leg);
+      return {
+        ...leg,
+        enhancements: baseEnhancements,
+      };
+    }
+
+    let relevantArrivals = selectLegArrivals(descriptor, sources);
+
+    // Final fallback: query line-specific arrivals for this stop
+    if (relevantArrivals.length === 0 && descriptor.stopPointId && descriptor.lineId) {
+      const candidateStopIds = candidateStopIdsFor(descriptor);
+      try {
+        const lineArrivals = await deps.tfl.getLineArrivals([descriptor.lineId], descriptor.stopPointId);
+        relevantArrivals = lineArrivals
+          .filter((p) => candidateStopIds.includes(p.naptanId))
+          .sort((a, b) => a.timeToStation - b.timeToStation)
+          .slice(0, 3)
+          .map(mapPrediction);
+      } catch (e) {
+        // Ignore and leave as empty if this also fails
+      }
+    }
+
+    baseEnhancements.nextArrivals = relevantArrivals;
+    baseEnhancements.platformName = relevantArrivals[0]?.platformName || undefined;
+    baseEnhancements.direction = leg.routeOptions?.[0]?.directions?.[0] || leg.instruction?.summary;
+
+    return {
+      ...leg,
+      enhancements: baseEnhancements,
+    };
+  }));
+};
@@ -0,0 +1,40 @@
+export { journeyPlanner, JourneyPlannerService } from './service';
+export { extractCrsFromStopPoint, enhanceLegsWithArrivals, refreshLegArrivals } from './enhance';
+export type { LegArrivalDescriptor, LegArrivalUpdate } from './enhance';
+export { formatTfLDate, formatTfLTime, parseClientTime, parseTfLDateTime } from './dates';
+export {
+  ALLOWED_MODES,
+  DEFAULT_MODES,
+  MODE_SYNONYMS,
+  normalizeTransportModes,
+  extractModesFromQuery,
+  normalizeAccessibilityOptions,
+} from './modes';
+export { createJourneyPlannerError, isJourneyPlannerError } from './types';
+export { baseStationName, findAmbiguousStops } from './disambiguation';
+export { journeyKey, mergeJourneyPage } from './paging';
+export type { PageDirection } from './paging';
+export type {
+  DirectionPlan,
+  JourneyClarification,
+  JourneyDirection,
+  JourneyPageRequest,
+  JourneyPlannerDependencies,
+  JourneyPlannerError,
+  JourneyPlanOptions,
+  JourneyPlanRequest,
+  JourneyPlanResult,
+  JourneyPlanStage,
+  JourneySearch,
+  PlannedJourney,
+  EnhancedLeg,
+  LegArrival,
+  LegEnhancements,
+  PlaceCandidate,
+  PlaceChoice,
+  PlaceClarification,
+  PlaceResolution,
+  ResolutionAttempt,
+  ResolutionTrace,
+  ResolvedPoint,
+} from './types';
@@ -0,0 +1,160 @@
+import type { JourneyPlannerParams } from '@/types/tfl';
+
+// Normalisation of transport modes and preferences coming from either the NLP parser or a request body
+
+export const ALLOWED_MODES = [
+  'tube',
+  'bus',
+  'dlr',
+  'overground',
+  'tram',
+  'river-bus',
+  'walking',
+  'national-rail',
+  'cable-car',
+  'coach',
+  'cycle',
+];
+
+export const DEFAULT_MODES = ['tube', 'bus', 'dlr', 'overground', 'walking', 'national-rail'] as const;
+
+export const MODE_SYNONYMS: Record<string, string> = {
+  underground: 'tube',
+  subway: 'tube',
+  metro: 'tube',
+  'docklands light railway': 'dlr',
+  riverbus: 'river-bus',
+  'river bus': 'river-bus',
+  'thames clipper': 'river-bus',
+  'thames clippers': 'river-bus',
+  walk: 'walking',
+  'on foot': 'walking',
+  nr: 'national-rail',
+  'national rail': 'national-rail',
+  rail: 'national-rail',
+  train: 'national-rail',
+  tram: 'tram',
+  buses: 'bus',
+  coach: 'coach',
+  coaches: 'coach',
+  bike: 'cycle',
+  cycling: 'cycle',
+  'cable car': 'cable-car',
+  dlr: 'dlr',
+  overground: 'overground',
+  tube: 'tube',
+  bus: 'bus',
+};
+
+export const normalizeTransportModes = (modes?: string[] | null): string[] => {
+  const input = Array.isArray(modes) ? modes : [];
+  const normalized = input
+    .map((m) => String(m || '').toLowerCase().trim())
+    .filter(Boolean)
+    .map((m) => MODE_SYNONYMS[m] || m)
+    .filter((m) => ALLOWED_MODES.includes(m));
+  return Array.from(new Set(normalized));
+};
+
+export type NamedLine = {
+  // TfL line id, as in a leg's routeOptions lineIdentifier
+  id: string;
+  // The mode to search for it; the Elizabeth line has none of its own in ALLOWED_MODES
+  mode?: string;
+};
+
+// Lines travellers ask to travel on by name ("on the Central line"), keyed by lower-case name
+export const NAMED_LINES: Record<string, NamedLine> = {
+  bakerloo: { id: 'bakerloo', mode: 'tube' },
+  central: { id: 'central', mode: 'tube' },
+  circle: { id: 'circle', mode: 'tube' },
+  district: { id: 'district', mode: 'tube' },
+  'hammersmith and city': { id: 'hammersmith-city', mode: 'tube' },
+  jubilee: { id: 'jubilee', mode: 'tube' },
+  metropolitan: { id: 'metropolitan', mode: 'tube' },
+  northern: { id: 'northern', mode: 'tube' },
+  piccadilly: { id: 'piccadilly', mode: 'tube' },
+  victoria: { id: 'victoria', mode: 'tube' },
+  'waterloo and city': { id: 'waterloo-city', mode: 'tube' },
+  elizabeth: { id: 'elizabeth' },
+  liberty: { id: 'liberty', mode: 'overground' },
+  lioness: { id: 'lioness', mode: 'overground' },
+  mildmay: { id: 'mildmay', mode: 'overground' },
+  suffragette: { id: 'suffragette', mode: 'overground' },
+  weaver: { id: 'weaver', mode: 'overground' },
+  windrush: { id: 'windrush', mode: 'overground' },
+};
+
+export const findNamedLine = (name: string): NamedLine | null =>
+  NAMED_LINES[name.toLowerCase().replace(/\s*&\s*/g, ' and ').replace(/\s+/g, ' ').trim()] ?? null;
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const extractModesFromQuery = (query: string): string[] => {
+  if (!query) return [];
+  const found = new Set<string>();
+  const haystack = String(query).toLowerCase();
+  const candidates = [
+    ...Object.keys(MODE_SYNONYMS),
+    ...ALLOWED_MODES,
+  ];
+
+  for (const key of candidates) {
+    const pattern = new RegExp(`\\b${escapeRegex(key)}\\b`, 'i');
+    if (pattern.test(haystack)) {
+      const mapped = MODE_SYNONYMS[key] || key;
+      if (ALLOWED_MODES.includes(mapped)) {
+        found.add(mapped);
+      }
+    }
+  }
+
+  return Array.from(found);
+};
+
+export const normalizeAccessibilityOptions = (opts?: string[] | null): string[] => {
+  const input = Array.isArray(opts) ? opts : [];
+  const out: string[] = [];
+  for (const raw of input) {
+    const v = String(raw || '').toLowerCase().trim();
+    if (!v) continue;
+    if (v.includes('vehicle')) out.push('step-free-vehicle');
+    else if (v.includes('platform')) out.push('step-free-platform');
+    else if (v.includes('step-free')) out.push('step-free-vehicle');
+    else if (v.includes('wheelchair')) out.push('step-free-vehicle');
+    else if (v.includes('audio')) out.push('audio-announcements');
+    else if (v.includes('visual')) out.push('visual-displays');
+  }
+  return Array.from(new Set(out));
+};
+
+export const mapAccessibilityPreference = (
+  options: string[]
+): NonNullable<JourneyPlannerParams['accessibilityPreference']> => {
+  if (options.includes('step-free-vehicle')) return 'StepFreeToVehicle';
+  if (options.includes('step-free-platform')) return 'StepFreeToPlatform';
+  return 'NoRequirements';
+};
+
+export const mapJourneyPreference = (pref?: string): 'LeastInterchange' | 'LeastTime' | 'LeastWalking' => {
+  const p = (pref || '').toLowerCase();
+  if (p === 'least-interchange') return 'LeastInterchange';
+  if (p === 'least-walking') return 'LeastWalking';
+  return 'LeastTime';
+};
+
+export const mapWalkingSpeed = (speed?: string): 'Slow' | 'Average' | 'Fast' => {
+  const s = (speed || '').toLowerCase();
+  if (s === 'slow') return 'Slow';
+  if (s === 'fast') return 'Fast';
+  return 'Average';
+};
+
+export const hasOnlyConstraint = (query?: string): boolean => {
+  if (!query) return false;
+  // Match common synonyms for "only"
+  if (/\b(only|just|strictly|exclusively)\b/i.test(query)) return true;
+  if (/\bnothing but\b/i.test(query)) return true;
+  if (/\bno (other )?(modes?|transport)\b/i.test(query)) return true;
+  return false;
+};
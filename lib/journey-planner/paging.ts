@@ -0,0 +1,36 @@
+import type { Journey } from '@/types/tfl';
+import type { DirectionPlan } from './types';
+
+// Merging pages of earlier and later journeys into a result. Kept apart from the service so the client can use it.
+
+export type PageDirection = 'earlier' | 'later';
+
+// Same departure, arrival and route means the same journey, whichever page it came from
+export const journeyKey = (journey: Pick<Journey, 'startDateTime' | 'arrivalDateTime' | 'legs'>): string =>
+  [
+    journey.startDateTime,
+    journey.arrivalDateTime,
+    ...(journey.legs || []).map((leg) => leg.routeOptions?.[0]?.name || leg.mode?.id || ''),
+  ].join('|');
+
+// Earlier pages go before the journeys shown and later ones after. The adjustments on the paged side come from
+// the new page so the next request goes further; the other side keeps its own.
+export const mergeJourneyPage = <T extends DirectionPlan>(current: T, page: DirectionPlan, direction: PageDirection): T => {
+  const seen = new Set(current.journeys.map(journeyKey));
+  const fresh = page.journeys.filter((journey) => !seen.has(journeyKey(journey)));
+  const journeys = direction === 'earlier' ? [...fresh, ...current.journeys] : [...current.journeys, ...fresh];
+
+  const kept = current.searchCriteria?.timeAdjustments;
+  const next = page.searchCriteria?.timeAdjustments;
+  const timeAdjustments = kept && next
+    ? direction === 'earlier'
+      ? { ...kept, earliest: next.earliest, earlier: next.earlier }
+      : { ...kept, later: next.later, latest: next.latest }
+    : next ?? kept;
+
+  return {
+    ...current,
+    journeys,
+    searchCriteria: { ...current.searchCriteria, ...(timeAdjustments ? { timeAdjustments } : {}) },
+  };
+};
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Journey, JourneyPlannerParams, JourneyPlannerResult, Leg } from '@/types/tfl';
+import { planWithVias } from './routing';
+import type { JourneyPlannerDependencies, ResolvedPoint } from './types';
+
+const STOPS: ResolvedPoint[] = [
+  { location: '51.515,-0.1415', name: 'Oxford Circus' },
+  { location: '51.5074,-0.1278', name: 'Charing Cross' },
+  { location: '51.5133,-0.0886', name: 'Bank' },
+  { location: '51.5416,-0.0042', name: 'Stratford' },
+];
+
+const point = (stop: ResolvedPoint) => {
+  const [lat, lon] = stop.location.split(',').map(Number);
+  return { id: stop.name, naptanId: stop.name, commonName: stop.name, lat, lon };
+};
+
+// TfL writes its times as zoneless London wall-clock times
+const segment = (from: ResolvedPoint, to: ResolvedPoint, startDateTime: string, arrivalDateTime: string): Journey => ({
+  startDateTime,
+  arrivalDateTime,
+  duration: 20,
+  legs: [{
+    departureTime: startDateTime,
+    arrivalTime: arrivalDateTime,
+    departurePoint: point(from),
+    arrivalPoint: point(to),
+    mode: { id: 'tube' },
+  } as unknown as Leg],
+} as unknown as Journey);
+
+const planned = (journeys: Journey[]): JourneyPlannerResult => ({ journeys } as unknown as JourneyPlannerResult);
+
+// Answers each segment search with the journeys listed for its from/to pair
+const fakeTfl = (journeysBySegment: Record<string, Journey[]>) => ({
+  planJourney: vi.fn(async (params: JourneyPlannerParams) => planned(journeysBySegment[`${params.fromName}>${params.toName}`] || [])),
+});
+
+const params = (overrides: Partial<JourneyPlannerParams> = {}): JourneyPlannerParams => ({
+  from: STOPS[0].location,
+  fromName: STOPS[0].name,
+  to: STOPS[3].location,
+  toName: STOPS[3].name,
+  ...overrides,
+} as JourneyPlannerParams);
+
+const asTfl = (tfl: ReturnType<typeof fakeTfl>) => tfl as unknown as JourneyPlannerDependencies['tfl'];
+
+describe('planWithVias', () => {
+  it('chains departing searches from each arrival in London time', async () => {
+    const [oxford, charing, bank, stratford] = STOPS;
+    const tfl = fakeTfl({
+      'Oxford Circus>Charing Cross': [segment(oxford, charing, '2026-10-19T09:00:00', '2026-10-19T09:20:00')],
+      'Charing Cross>Bank': [segment(charing, bank, '2026-10-19T09:25:00', '2026-10-19T09:40:00')],
+      'Bank>Stratford': [
+        segment(bank, stratford, '2026-10-19T09:35:00', '2026-10-19T09:50:00'),
+        segment(bank, stratford, '2026-10-19T09:45:00', '2026-10-19T10:00:00'),
+      ],
+    });
+
+    const result = await planWithVias(asTfl(tfl), params(), [charing, bank]);
+
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({ fromName: 'Charing Cross', date: '20261019', time: '0920', timeIs: 'Departing' }));
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({ fromName: 'Bank', time: '0940' }));
+
+    const [journey] = result.journeys as Array<Journey & { waypoints?: unknown[] }>;
+    expect(journey.startDateTime).toBe('2026-10-19T09:00:00');
+    expect(journey.arrivalDateTime).toBe('2026-10-19T10:00:00');
+    expect(journey.duration).toBe(60);
+    expect(journey.legs).toHaveLength(3);
+    expect(journey.waypoints).toEqual([
+      expect.objectContaining({ name: 'Charing Cross', legIndex: 1, arrivalTime: '2026-10-19T09:20:00', departureTime: '2026-10-19T09:25:00' }),
+      expect.objectContaining({ name: 'Bank', legIndex: 2 }),
+    ]);
+  });
+
+  it('chains arriving searches backwards from the last segment', async () => {
+    const [oxford, charing, bank, stratford] = STOPS;
+    const tfl = fakeTfl({
+      'Bank>Stratford': [segment(bank, stratford, '2026-10-19T17:40:00', '2026-10-19T17:55:00')],
+      'Charing Cross>Bank': [
+        segment(charing, bank, '2026-10-19T17:15:00', '2026-10-19T17:30:00'),
+        segment(charing, bank, '2026-10-19T17:30:00', '2026-10-19T17:45:00'),
+      ],
+      'Oxford Circus>Charing Cross': [segment(oxford, charing, '2026-10-19T16:55:00', '2026-10-19T17:10:00')],
+    });
+
+    const result = await planWithVias(asTfl(tfl), params({ timeIs: 'Arriving', date: '20261019', time: '1800' }), [charing, bank]);
+
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({ fromName: 'Charing Cross', time: '1740', timeIs: 'Arriving' }));
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({ fromName: 'Oxford Circus', time: '1715', timeIs: 'Arriving' }));
+
+    const [journey] = result.journeys;
+    expect(journey.startDateTime).toBe('2026-10-19T16:55:00');
+    expect(journey.legs.map((leg) => leg.departureTime)).toEqual([
+      '2026-10-19T16:55:00',
+      '2026-10-19T17:15:00',
+      '2026-10-19T17:40:00',
+    ]);
+  });
+
+  it('reports when no chain passes every via point', async () => {
+    const [oxford, charing, bank] = STOPS;
+    const tfl = fakeTfl({
+      'Oxford Circus>Charing Cross': [segment(oxford, charing, '2026-10-19T09:00:00', '2026-10-19T09:20:00')],
+      // Leaves before the first segment arrives
+      'Charing Cross>Bank': [segment(charing, bank, '2026-10-19T09:10:00', '2026-10-19T09:25:00')],
+    });
+
+    await expect(planWithVias(asTfl(tfl), params(), [charing, bank]))
+      .rejects.toThrow('No journeys found that pass through every via point');
+  });
+
+  it('marks a single via on the leg TfL ends there', async () => {
+    const [oxford, charing, bank] = STOPS;
+    const journey = segment(oxford, bank, '2026-10-19T09:00:00', '2026-10-19T09:40:00');
+    journey.legs = [
+      ...segment(oxford, charing, '2026-10-19T09:00:00', '2026-10-19T09:15:00').legs,
+      ...segment(charing, bank, '2026-10-19T09:20:00', '2026-10-19T09:40:00').legs,
+    ];
+    const tfl = fakeTfl({ 'Oxford Circus>Bank': [journey] });
+
+    const result = await planWithVias(asTfl(tfl), params({ to: bank.location, toName: bank.name }), [charing]);
+
+    expect(tfl.planJourney).toHaveBeenCalledTimes(1);
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({ via: charing.location, viaName: 'Charing Cross' }));
+    expect((result.journeys[0] as Journey & { waypoints?: unknown[] }).waypoints).toEqual([{
+      name: 'Charing Cross',
+      location: charing.location,
+      legIndex: 1,
+      arrivalTime: '2026-10-19T09:15:00',
+      departureTime: '2026-10-19T09:20:00',
+    }]);
+  });
+});
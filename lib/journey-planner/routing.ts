@@ -0,0 +1,279 @@
+import {
+  describeAvoidance,
+  hasAvoidanceConstraints,
+  partitionByAvoidance,
+  type AvoidanceConstraints,
+  type AvoidanceOutcome,
+} from '@/lib/journey-avoidance';
+import type { JourneyWaypoint } from '@/types';
+import type { JourneyPlannerParams, JourneyPlannerResult, Journey, Fare, FareCaveat, Leg } from '@/types/tfl';
+import { formatTfLDate, formatTfLTime, parseClientTime } from './dates';
+import type { JourneyPlannerDependencies, ResolvedPoint } from './types';
+
+// How many first-segment alternatives are expanded into full chained journeys
+const MAX_CHAINED_OPTIONS = 3;
+
+// How far (in degrees, roughly 500m) a leg may end from a single via and still be taken as passing it;
+// TfL snaps a coordinate via to a nearby stop
+const VIA_MATCH_DEGREES = 0.005;
+
+// TfL's times are zoneless London times, whatever the server's zone
+const tflTime = (value: string): number => parseClientTime(value)?.getTime() ?? NaN;
+
+const combineSegmentFares = (segments: Journey[]): Fare | undefined => {
+  const priced = segments.filter((segment) => segment.fare && typeof segment.fare.totalCost === 'number');
+  if (priced.length === 0) return undefined;
+
+  const caveats: FareCaveat[] = [];
+  const seenCaveats = new Set<string>();
+  for (const segment of priced) {
+    for (const caveat of segment.fare?.caveats || []) {
+      if (seenCaveats.has(caveat.text)) continue;
+      seenCaveats.add(caveat.text);
+      caveats.push(caveat);
+    }
+  }
+  caveats.push({
+    text: 'Fare combines separately priced journeys between each via point.',
+    type: 'notice',
+  });
+
+  return {
+    totalCost: priced.reduce((acc, segment) => acc + (segment.fare?.totalCost || 0), 0),
+    fares: priced.flatMap((segment) => segment.fare?.fares || []),
+    caveats,
+  };
+};
+
+// Merge consecutive sub-journeys into one composite journey, recording where each via point sits
+const stitchSegments = (segments: Journey[], viaPoints: ResolvedPoint[]): Journey & { waypoints: JourneyWaypoint[] } => {
+  const legs: Leg[] = [];
+  const waypoints: JourneyWaypoint[] = [];
+
+  segments.forEach((segment, index) => {
+    if (index > 0) {
+      const via = viaPoints[index - 1];
+      waypoints.push({
+        name: via?.name || `Via ${index}`,
+        location: via?.location || '',
+        legIndex: legs.length,
+        arrivalTime: segments[index - 1].arrivalDateTime,
+        departureTime: segment.startDateTime,
+      });
+    }
+    legs.push(...(segment.legs || []));
+  });
+
+  const startDateTime = segments[0].startDateTime;
+  const arrivalDateTime = segments[segments.length - 1].arrivalDateTime;
+  const elapsedMs = tflTime(arrivalDateTime) - tflTime(startDateTime);
+  const duration = Number.isFinite(elapsedMs) && elapsedMs > 0
+    ? Math.round(elapsedMs / 60000)
+    : segments.reduce((acc, segment) => acc + (Number(segment.duration) || 0), 0);
+
+  return {
+    startDateTime,
+    arrivalDateTime,
+    duration,
+    legs,
+    fare: combineSegmentFares(segments),
+    waypoints,
+  };
+};
+
+// TfL plans a single via itself, so its marker goes after the leg that ends at (or nearest) the via point
+const markSingleVia = (journey: Journey, via: ResolvedPoint): Journey & { waypoints?: JourneyWaypoint[] } => {
+  const legs = journey.legs || [];
+  const [lat, lon] = via.location.split(',').map(Number);
+  let best: { index: number; distance: number } | undefined;
+
+  legs.slice(0, -1).forEach((leg, index) => {
+    const point = leg.arrivalPoint;
+    if (!point) return;
+    const distance = [point.naptanId, point.stationNaptan, point.id, point.icsCode].includes(via.location)
+      ? 0
+      : Math.hypot(point.lat - lat, (point.lon - lon) * Math.cos((lat * Math.PI) / 180));
+    if (distance <= VIA_MATCH_DEGREES && (!best || distance < best.distance)) {
+      best = { index, distance };
+    }
+  });
+
+  if (!best) return journey;
+  const arrivingLeg = legs[best.index];
+  return {
+    ...journey,
+    waypoints: [{
+      name: via.name || arrivingLeg.arrivalPoint.commonName,
+      location: via.location,
+      legIndex: best.index + 1,
+      arrivalTime: arrivingLeg.arrivalTime,
+      departureTime: legs[best.index + 1].departureTime,
+    }],
+  };
+};
+
+// TfL only accepts a single via, so journeys with several vias are planned one segment at a time.
+// Departing searches chain forwards from each arrival; arriving searches chain backwards from the target time.
+const planViaChain = async (
+  tfl: JourneyPlannerDependencies['tfl'],
+  baseParams: JourneyPlannerParams,
+  viaPoints: ResolvedPoint[]
+): Promise<JourneyPlannerResult> => {
+  const { via: _via, viaName: _viaName, ...sharedParams } = baseParams;
+  const stops: ResolvedPoint[] = [
+    { location: baseParams.from, name: baseParams.fromName },
+    ...viaPoints,
+    { location: baseParams.to, name: baseParams.toName },
+  ];
+  const segmentCount = stops.length - 1;
+  const isArriving = baseParams.timeIs === 'Arriving';
+
+  const planSegment = (index: number, anchor?: Date) => {
+    const from = stops[index];
+    const to = stops[index + 1];
+    return tfl.planJourney({
+      ...sharedParams,
+      from: from.location,
+      to: to.location,
+      fromName: from.name,
+      toName: to.name,
+      ...(anchor
+        ? {
+            date: formatTfLDate(anchor),
+            time: formatTfLTime(anchor),
+            timeIs: isArriving ? ('Arriving' as const) : ('Departing' as const),
+          }
+        : {}),
+    });
+  };
+
+  const describeSegment = (index: number) =>
+    `${stops[index].name || stops[index].location} and ${stops[index + 1].name || stops[index + 1].location}`;
+
+  // The first planned segment (last one when arriving) supplies the alternatives we expand
+  const seedIndex = isArriving ? segmentCount - 1 : 0;
+  const seedResult = await planSegment(seedIndex);
+  if (!seedResult?.journeys || seedResult.journeys.length === 0) {
+    throw new Error(`No journeys found between ${describeSegment(seedIndex)}`);
+  }
+
+  const chained = await Promise.all(
+    seedResult.journeys.slice(0, MAX_CHAINED_OPTIONS).map(async (seed) => {
+      const segments: Journey[] = [seed];
+
+      if (isArriving) {
+        let latestArrival = new Date(tflTime(seed.startDateTime));
+        for (let index = seedIndex - 1; index >= 0; index -= 1) {
+          const result = await planSegment(index, latestArrival);
+          const candidate = [...(result?.journeys || [])]
+            .reverse()
+            .find((journey) => tflTime(journey.arrivalDateTime) <= latestArrival.getTime());
+          if (!candidate) return null;
+          segments.unshift(candidate);
+          latestArrival = new Date(tflTime(candidate.startDateTime));
+        }
+      } else {
+        let earliestDeparture = new Date(tflTime(seed.arrivalDateTime));
+        for (let index = seedIndex + 1; index < segmentCount; index += 1) {
+          const result = await planSegment(index, earliestDeparture);
+          const candidate = (result?.journeys || [])
+            .find((journey) => tflTime(journey.startDateTime) >= earliestDeparture.getTime());
+          if (!candidate) return null;
+          segments.push(candidate);
+          earliestDeparture = new Date(tflTime(candidate.arrivalDateTime));
+        }
+      }
+
+      return stitchSegments(segments, viaPoints);
+    })
+  );
+
+  const journeys = chained.filter((journey): journey is NonNullable<typeof journey> => journey !== null);
+  if (journeys.length === 0) {
+    throw new Error('No journeys found that pass through every via point');
+  }
+
+  return {
+    ...seedResult,
+    journeys,
+  };
+};
+
+// Single vias go straight to TfL and are marked on its legs; multiple vias are chained segment by segment
+export const planWithVias = async (
+  tfl: JourneyPlannerDependencies['tfl'],
+  journeyParams: JourneyPlannerParams,
+  viaPoints: ResolvedPoint[]
+): Promise<JourneyPlannerResult> => {
+  if (viaPoints.length > 1) {
+    return planViaChain(tfl, journeyParams, viaPoints);
+  }
+
+  const [singleVia] = viaPoints;
+  const result = await tfl.planJourney({
+    ...journeyParams,
+    ...(singleVia ? { via: singleVia.location } : {}),
+    ...(singleVia?.name ? { viaName: singleVia.name } : {}),
+  });
+  if (!singleVia || !result?.journeys) return result;
+
+  return { ...result, journeys: result.journeys.map((journey) => markSingleVia(journey, singleVia)) };
+};
+
+const JOURNEY_PREFERENCE_FALLBACKS: NonNullable<JourneyPlannerParams['journeyPreference']>[] = [
+  'LeastTime',
+  'LeastInterchange',
+  'LeastWalking',
+];
+
+// Drop journeys that use an avoided line or station. When every candidate violates the constraints,
+// re-query with the other journey preferences before reporting that no compliant route exists.
+export const planAvoiding = async (
+  tfl: JourneyPlannerDependencies['tfl'],
+  journeyParams: JourneyPlannerParams,
+  viaPoints: ResolvedPoint[],
+  constraints: AvoidanceConstraints
+): Promise<{ result: JourneyPlannerResult; avoidance?: AvoidanceOutcome }> => {
+  const result = await planWithVias(tfl, journeyParams, viaPoints);
+  if (!hasAvoidanceConstraints(constraints)) {
+    return { result };
+  }
+
+  const requested = {
+    lines: constraints.lines,
+    stations: constraints.stations,
+    summary: describeAvoidance(constraints),
+  };
+  const initial = partitionByAvoidance(result.journeys || [], constraints);
+  if (initial.compliant.length > 0) {
+    return {
+      result: { ...result, journeys: initial.compliant },
+      avoidance: { ...requested, satisfied: true },
+    };
+  }
+
+  const alternatives = JOURNEY_PREFERENCE_FALLBACKS.filter((pref) => pref !== journeyParams.journeyPreference);
+  for (const journeyPreference of alternatives) {
+    try {
+      const retry = await planWithVias(tfl, { ...journeyParams, journeyPreference, alternativeRoute: true }, viaPoints);
+      const { compliant } = partitionByAvoidance(retry.journeys || [], constraints);
+      if (compliant.length > 0) {
+        return {
+          result: { ...retry, journeys: compliant },
+          avoidance: { ...requested, satisfied: true },
+        };
+      }
+    } catch (error) {
+      console.warn('Avoidance re-query failed for preference', journeyPreference, error);
+    }
+  }
+
+  return {
+    result,
+    avoidance: {
+      ...requested,
+      satisfied: false,
+      message: `We couldn't find a route that avoids ${requested.summary}. These are the closest alternatives.`,
+    },
+  };
+};
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { NLPJourneyIntent } from '@/lib/schemas/nlp-response';
+import type { Journey, JourneyPlannerResult, StopPoint } from '@/types/tfl';
+import { JourneyPlannerService } from './service';
+import { isJourneyPlannerError, type JourneyPlannerDependencies } from './types';
+
+const stop = (id: string, commonName: string, lat: number, lon: number): StopPoint => ({
+  id,
+  naptanId: id,
+  commonName,
+  placeType: 'StopPoint',
+  lat,
+  lon,
+  modes: ['tube'],
+});
+
+const STOPS: Record<string, StopPoint> = {
+  'oxford circus': stop('940GZZLUOXC', 'Oxford Circus Underground Station', 51.515, -0.1415),
+  'bank': stop('940GZZLUBNK', 'Bank Underground Station', 51.5133, -0.0886),
+};
+
+// One walking leg, so no arrivals are fetched
+const walkingJourney = (startDateTime: string): Journey => ({
+  startDateTime,
+  arrivalDateTime: startDateTime,
+  duration: 25,
+  legs: [{
+    duration: 25,
+    instruction: { summary: 'Walk to Bank', detailed: 'Walk to Bank', steps: [] },
+    departureTime: startDateTime,
+    arrivalTime: startDateTime,
+    departurePoint: STOPS['oxford circus'],
+    arrivalPoint: STOPS.bank,
+    path: { lineString: '[]', stopPoints: [], elevation: [] },
+    mode: { id: 'walking', name: 'walking', type: 'Mode', routeType: 'Unknown', status: 'Unknown' },
+  }],
+} as unknown as Journey);
+
+const planResult = (journeys: Journey[]): JourneyPlannerResult => ({
+  journeys,
+  lines: [],
+  searchCriteria: { dateTime: '2026-10-19T09:00:00', dateTimeType: 'Departing' },
+  recommendedMaxAgeMinutes: 1,
+} as unknown as JourneyPlannerResult);
+
+const journeyIntent = (from: string, to: string): NLPJourneyIntent => ({
+  type: 'journey_planning',
+  rawQuery: `${from} to ${to}`,
+  intent_confidence: 0.9,
+  journey: { from: { name: from, confidence: 0.9 }, to: { name: to, confidence: 0.9 } },
+});
+
+const fakeDeps = (journeys: Journey[]) => {
+  const tfl = {
+    planJourney: vi.fn(async () => planResult(journeys)),
+    searchStopPoints: vi.fn(async (query: string) => {
+      const match = STOPS[query.toLowerCase()];
+      return match ? [match] : [];
+    }),
+    formatStopPointForJourney: vi.fn((point: StopPoint) => `${point.lat},${point.lon}`),
+    getMultipleArrivals: vi.fn(async () => []),
+    getLineArrivals: vi.fn(async () => []),
+  };
+  const ai = {
+    parseJourneyIntent: vi.fn(async () => journeyIntent('Oxford Circus', 'Bank')),
+    clarifyAmbiguousQuery: vi.fn(async () => []),
+    enhanceLocationName: vi.fn(async (name: string) => name),
+    generateAccessibleDescription: vi.fn(async () => 'Walk to Bank.'),
+  };
+  const geocoder = { geocode: vi.fn(async () => []) };
+  const nationalRail = { isEnabled: vi.fn(() => false), getNextDeparturesByCRS: vi.fn(async () => []) };
+
+  return {
+    tfl,
+    ai,
+    geocoder,
+    deps: { tfl, ai, geocoder, nationalRail } as unknown as JourneyPlannerDependencies,
+  };
+};
+
+describe('JourneyPlannerService', () => {
+  it('plans a manual search between resolved stations', async () => {
+    const { tfl, deps } = fakeDeps([walkingJourney('2026-10-19T09:00:00')]);
+    const planner = new JourneyPlannerService(deps);
+
+    const result = await planner.plan({ from: 'Oxford Circus', to: 'Bank' });
+
+    expect(tfl.planJourney).toHaveBeenCalledTimes(1);
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({
+      from: '51.515,-0.1415',
+      to: '51.5133,-0.0886',
+      fromName: 'Oxford Circus Underground Station',
+      toName: 'Bank Underground Station',
+    }));
+    expect(result.journeys).toHaveLength(1);
+    expect(result.journeys[0].accessibleDescription).toBe('Walk to Bank.');
+    expect(result.trace.attempts[0].places.map((place) => place.source)).toEqual(['tfl', 'tfl']);
+  });
+
+  it('passes coordinates straight through on the manual path', async () => {
+    const { tfl, deps } = fakeDeps([walkingJourney('2026-10-19T09:00:00')]);
+    const planner = new JourneyPlannerService(deps);
+
+    await planner.plan({ from: '51.5,-0.12', to: 'Bank' });
+
+    expect(tfl.searchStopPoints).toHaveBeenCalledTimes(1);
+    expect(tfl.planJourney).toHaveBeenCalledWith(expect.objectContaining({ from: '51.5,-0.12' }));
+  });
+
+  it('answers a manual search TfL finds no route for with an empty list', async () => {
+    const { deps } = fakeDeps([]);
+    const planner = new JourneyPlannerService(deps);
+
+    const result = await planner.plan({ from: 'Oxford Circus', to: 'Bank' });
+
+    expect(result.journeys).toEqual([]);
+    expect(result.fromName).toBe('Oxford Circus Underground Station');
+  });
+
+  it('reports an unknown manual station as a 400', async () => {
+    const { deps } = fakeDeps([]);
+    const planner = new JourneyPlannerService(deps);
+
+    const error = await planner.plan({ from: 'Nowhere', to: 'Bank' }).catch((e: unknown) => e);
+
+    expect(isJourneyPlannerError(error)).toBe(true);
+    expect(error).toMatchObject({ status: 400, message: 'Could not find starting location: Nowhere' });
+  });
+
+  it('plans a natural language query from the parsed intent', async () => {
+    const { ai, tfl, deps } = fakeDeps([walkingJourney('2026-10-19T09:00:00')]);
+    const planner = new JourneyPlannerService(deps);
+
+    const result = await planner.plan({ naturalLanguageQuery: 'Oxford Circus to Bank' });
+
+    expect(ai.parseJourneyIntent).toHaveBeenCalledWith('Oxford Circus to Bank');
+    expect(tfl.planJourney).toHaveBeenCalledTimes(1);
+    expect(result.trace.query).toBe('Oxford Circus to Bank');
+    expect(result.journeys).toHaveLength(1);
+  });
+
+  it('re-parses a natural language query with feedback when TfL finds no route', async () => {
+    const { ai, deps } = fakeDeps([]);
+    const planner = new JourneyPlannerService(deps);
+
+    const error = await planner.plan({ naturalLanguageQuery: 'Oxford Circus to Bank' }).catch((e: unknown) => e);
+
+    expect(ai.parseJourneyIntent).toHaveBeenCalledTimes(5);
+    expect(ai.parseJourneyIntent).toHaveBeenLastCalledWith(expect.stringContaining('"lastError":"No journeys found"'));
+    expect(error).toMatchObject({ status: 400, message: 'No journeys found' });
+  });
+
+  it('skips the first parse when given an intent', async () => {
+    const { ai, deps } = fakeDeps([walkingJourney('2026-10-19T09:00:00')]);
+    const planner = new JourneyPlannerService(deps);
+
+    await planner.plan(
+      { naturalLanguageQuery: 'Oxford Circus to Bank' },
+      { intent: journeyIntent('Oxford Circus', 'Bank') }
+    );
+
+    expect(ai.parseJourneyIntent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,664 @@
+import { tflClient } from '@/lib/tfl-client';
+import { aiClient } from '@/lib/ai-client';
+import { geocodingService } from '@/lib/geocoding';
+import { nationalRailClient } from '@/lib/national-rail-client';
+import {
+  classifyAvoidTerms,
+  mergeAvoidanceConstraints,
+} from '@/lib/journey-avoidance';
+import { scoreStopPointMatch } from '@/lib/search-ranking';
+import { findNamedPlace, sanitizeNamedPlaces } from '@/lib/named-places';
+import type { NLPJourneyIntent, ReturnJourneyInfo } from '@/lib/schemas/nlp-response';
+import type { NamedPlace, PinnedPlace, PlaceRole, ReturnJourneyParams } from '@/types';
+import type { Journey, JourneyPlannerParams } from '@/types/tfl';
+import {
+  ALLOWED_MODES,
+  DEFAULT_MODES,
+  extractModesFromQuery,
+  hasOnlyConstraint,
+  mapAccessibilityPreference,
+  mapJourneyPreference,
+  mapWalkingSpeed,
+  normalizeAccessibilityOptions,
+  normalizeTransportModes,
+} from './modes';
+import { formatTfLDate, formatTfLTime, parseClientTime, parseTfLDateTime } from './dates';
+import { enhanceLegsWithArrivals, refreshLegArrivals, type LegArrivalDescriptor } from './enhance';
+import { findAmbiguousStops, stopPointToChoice } from './disambiguation';
+import { planAvoiding } from './routing';
+import {
+  createJourneyPlannerError,
+  isJourneyPlannerError,
+  type JourneyPlanOptions,
+  type JourneyPlanRequest,
+  type JourneyPlanResult,
+  type JourneyPlanStage,
+  type JourneySearch,
+  type DirectionPlan,
+  type JourneyClarification,
+  type JourneyDirection,
+  type JourneyPageRequest,
+  type JourneyPlannerDependencies,
+  type PlaceCandidate,
+  type PlaceClarification,
+  type PlannedJourney,
+  type PlaceResolution,
+  type ResolutionAttempt,
+  type ResolutionTrace,
+  type ResolvedPoint,
+} from './types';
+
+// How many times the NLP intent is re-requested with error feedback before giving up
+const MAX_NLP_ATTEMPTS = 5;
+
+// Alternatives kept per place in the resolution trace
+const MAX_TRACE_CANDIDATES = 5;
+
+type ResolveOptions = {
+  role: PlaceRole;
+  index?: number;
+  // Pass "lat,lon" strings straight through
+  acceptCoordinates?: boolean;
+  // Normalise the name with the LLM before searching TfL
+  enhance?: boolean;
+  // Fall back to the geocoder when TfL has no matching stop
+  geocode?: boolean;
+};
+
+type StageListener = (stage: JourneyPlanStage) => void;
+
+// Per attempt: the traveller's pinned choices and labelled places, a record of every place resolved, and the
+// places that matched several stations equally well
+type ResolutionContext = {
+  pins: PinnedPlace[];
+  namedPlaces: NamedPlace[];
+  places: PlaceResolution[];
+  clarifications: PlaceClarification[];
+};
+
+type PlanPreferences = JourneySearch['preferences'] & {
+  when?: Date;
+  timeIs?: 'Arriving' | 'Departing';
+};
+
+type ReturnTiming = Pick<PlanPreferences, 'when' | 'timeIs'>;
+
+// Everything both entry points (natural language and manual stations) need to run a search
+type PlanInputs = Omit<JourneySearch, 'preferences'> & {
+  preferences: PlanPreferences;
+  // Set for round trips; the way back uses the same places and preferences at its own time
+  returnJourney?: ReturnTiming;
+  trace: ResolutionTrace;
+};
+
+// The request body's return times win over the parsed ones, as body preferences do
+const returnTiming = (params?: ReturnJourneyParams, parsed?: ReturnJourneyInfo): ReturnTiming | undefined => {
+  if (params) {
+    const arriveBy = parseClientTime(params.arrivalTime);
+    const departAt = parseClientTime(params.departureTime);
+    return { when: arriveBy || departAt, timeIs: arriveBy ? 'Arriving' : departAt ? 'Departing' : undefined };
+  }
+  if (parsed) {
+    const when = parsed.time?.datetime ? parseClientTime(parsed.time.datetime) : undefined;
+    return { when, timeIs: when ? (parsed.time?.type === 'arrive' ? 'Arriving' : 'Departing') : undefined };
+  }
+  return undefined;
+};
+
+class JourneyPlannerService {
+  private deps: JourneyPlannerDependencies;
+
+  constructor(deps: Partial<JourneyPlannerDependencies> = {}) {
+    this.deps = {
+      tfl: tflClient,
+      ai: aiClient,
+      geocoder: geocodingService,
+      nationalRail: nationalRailClient,
+      ...deps,
+    };
+  }
+
+  // Pass `intent` when the query has already been parsed (e.g. by /api/ask) to skip the first parse, and
+  // `onStage` to hear about each stage as it completes (used by the streaming route)
+  async plan(request: JourneyPlanRequest, options: JourneyPlanOptions = {}): Promise<JourneyPlanResult> {
+    const emit = options.onStage ?? (() => {});
+    if (request.naturalLanguageQuery) {
+      return this.planFromQuery(request.naturalLanguageQuery, request, emit, options.intent ?? request.intent);
+    }
+    return this.planFromStations(request, emit);
+  }
+
+  // Earlier or later journeys for a direction already planned: the same search at one of TfL's time adjustments
+  async page(request: JourneyPageRequest): Promise<DirectionPlan> {
+    const { search, adjustment } = request;
+    if (!search?.from?.location || !search.to?.location || !Array.isArray(search.vias) || !search.preferences) {
+      throw createJourneyPlannerError('A journey search is required', 400);
+    }
+    const when = parseTfLDateTime(adjustment?.date, adjustment?.time);
+    if (!when) {
+      throw createJourneyPlannerError('adjustment needs a TfL date (yyyyMMdd) and time (HHmm)', 400);
+    }
+
+    const plan = await this.planDirection({
+      ...search,
+      avoid: mergeAvoidanceConstraints(search.avoid),
+      preferences: {
+        ...search.preferences,
+        modes: normalizeTransportModes(search.preferences.modes || [...DEFAULT_MODES]),
+        when,
+        timeIs: /^arriv/i.test(adjustment.timeIs) ? 'Arriving' : 'Departing',
+      },
+    });
+    if (!plan || plan.journeys.length === 0) {
+      throw createJourneyPlannerError('No more journeys found', 404);
+    }
+
+    return { ...plan, journeys: await this.enhanceJourneys(plan.journeys, 'outbound', () => {}) };
+  }
+
+  async refreshArrivals(descriptors: LegArrivalDescriptor[]) {
+    return refreshLegArrivals(descriptors, this.deps);
+  }
+
+  private async planFromQuery(
+    originalQuery: string,
+    request: JourneyPlanRequest,
+    emit: StageListener,
+    parsedIntent?: NLPJourneyIntent
+  ): Promise<JourneyPlanResult> {
+    let currentQuery = originalQuery;
+    let lastError: unknown = null;
+    const trace: ResolutionTrace = { query: originalQuery, attempts: [] };
+
+    for (let attempt = 0; attempt < MAX_NLP_ATTEMPTS; attempt += 1) {
+      const record: ResolutionAttempt = { attempt, places: [] };
+      trace.attempts.push(record);
+
+      try {
+        const nlpIntent = attempt === 0 && parsedIntent
+          ? parsedIntent
+          : await this.deps.ai.parseJourneyIntent(currentQuery);
+        record.intent = nlpIntent;
+        emit({ stage: 'intent', attempt, intent: nlpIntent });
+        const context: ResolutionContext = {
+          pins: request.pinnedPlaces || [],
+          namedPlaces: sanitizeNamedPlaces(request.namedPlaces),
+          places: record.places,
+          clarifications: [],
+        };
+        const inputs = await this.inputsFromIntent(nlpIntent, originalQuery, request, context);
+        return await this.execute({ ...inputs, trace }, emit);
+      } catch (e: any) {
+        // Answers about the query itself (not understood, needs clarification) are final
+        if (isJourneyPlannerError(e)) throw e;
+
+        lastError = e;
+        const errorText = typeof e?.message === 'string' ? e.message : String(e);
+        record.error = errorText;
+        if (attempt < MAX_NLP_ATTEMPTS - 1) {
+          // Ask LLM to refine intent with error context
+          const jsonFeedback = {
+            lastError: errorText,
+            // Follow-ups only make sense alongside the intent they refined
+            previousIntent: record.intent,
+            guidance: 'Revise stations (must be valid/open), adjust modes/time to produce a feasible plan.',
+            allowedModes: ALLOWED_MODES,
+            defaultModes: DEFAULT_MODES,
+          };
+          currentQuery = `${originalQuery}\n\nJSON_FEEDBACK:\n${JSON.stringify(jsonFeedback)}\n\nPlease return updated intent JSON only.`;
+        }
+      }
+    }
+
+    throw createJourneyPlannerError(
+      lastError instanceof Error ? lastError.message : 'Failed to plan journey',
+      400,
+      { trace }
+    );
+  }
+
+  private async inputsFromIntent(
+    nlpIntent: NLPJourneyIntent,
+    originalQuery: string,
+    request: JourneyPlanRequest,
+    context: ResolutionContext
+  ): Promise<Omit<PlanInputs, 'trace'>> {
+    if (nlpIntent.intent_confidence < 0.3) {
+      throw createJourneyPlannerError(
+        'Could not understand your query. Please try rephrasing or use manual station selection.',
+        400
+      );
+    }
+
+    if (nlpIntent.type === 'status_query') {
+      throw createJourneyPlannerError('This appears to be a service status query. Please use the status page.', 400);
+    }
+
+    if (nlpIntent.type !== 'journey_planning' || !nlpIntent.journey) {
+      throw createJourneyPlannerError('This appears to be a question about a station. Ask it through /api/ask.', 400);
+    }
+
+    if (nlpIntent.ambiguities && nlpIntent.ambiguities.length > 0) {
+      const clarifyingQuestions = await this.deps.ai.clarifyAmbiguousQuery(originalQuery, nlpIntent.ambiguities);
+      const clarification: JourneyClarification = {
+        places: [],
+        ambiguities: nlpIntent.ambiguities,
+        suggestions: clarifyingQuestions,
+        intent: nlpIntent,
+      };
+      throw createJourneyPlannerError('Need more information', 400, clarification);
+    }
+
+    const journey = nlpIntent.journey;
+
+    // Resolve FROM
+    let from: ResolvedPoint | null = null;
+    if (journey.from?.useCurrentLocation) {
+      if (!request.from) {
+        throw new Error('location_required');
+      }
+      from = await this.resolvePlace(request.from, context, { role: 'from', acceptCoordinates: true });
+      if (!from) {
+        throw new Error(`Could not resolve starting location: ${request.from}`);
+      }
+      if (!from.name) {
+        from = { ...from, name: journey.from?.name || 'Current location' };
+      }
+    } else if (journey.from?.name) {
+      from = await this.resolvePlace(journey.from.name, context, { role: 'from', enhance: true, geocode: true });
+      if (!from) {
+        throw new Error(`Could not find location: ${journey.from.name}`);
+      }
+    }
+
+    // Resolve TO
+    if (!journey.to?.name) {
+      throw new Error('Destination is required');
+    }
+    const to = await this.resolvePlace(journey.to.name, context, { role: 'to', enhance: true, geocode: true });
+    if (!to) {
+      throw new Error(`Could not find destination: ${journey.to.name}`);
+    }
+
+    if (!from) {
+      throw new Error('Both starting point and destination are required');
+    }
+
+    // Resolve VIAs in travel order
+    const vias: ResolvedPoint[] = [];
+    const viaCandidates = (Array.isArray(journey.via) ? journey.via : [])
+      .map((via) => via?.name?.trim())
+      .filter((name): name is string => !!name);
+    for (let index = 0; index < viaCandidates.length; index += 1) {
+      const viaCandidate = viaCandidates[index];
+      const via = await this.resolvePlace(viaCandidate, context, { role: 'via', index, enhance: true, geocode: true });
+      if (!via) {
+        throw new Error(`Could not find via location: ${viaCandidate}`);
+      }
+      vias.push(via);
+    }
+    this.assertUnambiguous(context, nlpIntent);
+
+    // Derive preferences from request or NLP
+    const nlPreferences = journey.preferences as (NonNullable<typeof journey.preferences> & {
+      walkingSpeed?: string;
+      journeyPreference?: string;
+      maxWalkingMinutes?: number;
+      maxTransferMinutes?: number;
+    }) | undefined;
+    const bodyPreferences = request.preferences;
+    const modesMentionedInQuery = normalizeTransportModes(extractModesFromQuery(originalQuery));
+    const requestedModes = normalizeTransportModes(
+      (bodyPreferences?.modes as string[] | undefined)
+        || nlPreferences?.mode
+        || (modesMentionedInQuery.length > 0 ? modesMentionedInQuery : [...DEFAULT_MODES])
+    );
+
+    const restrictToMentionedModes = hasOnlyConstraint(originalQuery) || nlPreferences?.modePolicy === 'only';
+    // Avoid terms can name modes ("avoid buses"), lines or stations
+    const nlAvoidTerms = nlPreferences?.avoid || [];
+    const avoidedModes = normalizeTransportModes(nlAvoidTerms).filter((mode) => mode !== 'walking');
+    const avoid = mergeAvoidanceConstraints(
+      { lines: bodyPreferences?.avoidLines, stations: bodyPreferences?.avoidStations },
+      classifyAvoidTerms(nlAvoidTerms.filter((term) => normalizeTransportModes([term]).length === 0))
+    );
+
+    const allowedModes = (restrictToMentionedModes
+      ? requestedModes
+      : normalizeTransportModes(Array.from(new Set([...(DEFAULT_MODES as unknown as string[]), ...requestedModes])))
+    ).filter((mode) => !avoidedModes.includes(mode));
+
+    // Optional time preference (NLP)
+    const nlpTime = nlPreferences?.time;
+    const when = nlpTime?.datetime ? parseClientTime(nlpTime.datetime) : undefined;
+
+    return {
+      from,
+      to,
+      vias,
+      avoid,
+      preferredModes: restrictToMentionedModes ? undefined : requestedModes,
+      ...(nlPreferences?.lines?.length ? { preferredLines: nlPreferences.lines } : {}),
+      returnJourney: returnTiming(request.returnJourney, journey.returnJourney),
+      preferences: {
+        modes: allowedModes,
+        accessibility: normalizeAccessibilityOptions(
+          (bodyPreferences?.accessibility as string[] | undefined) || nlPreferences?.accessibility || []
+        ),
+        journeyPreference: bodyPreferences?.journeyPreference || nlPreferences?.journeyPreference,
+        walkingSpeed: bodyPreferences?.walkingSpeed || nlPreferences?.walkingSpeed,
+        when,
+        timeIs: when ? (nlpTime?.type === 'arrive' ? 'Arriving' : 'Departing') : undefined,
+        maxWalkingMinutes: bodyPreferences?.maxWalkingMinutes ?? nlPreferences?.maxWalkingMinutes,
+        maxTransferMinutes: bodyPreferences?.maxTransferMinutes ?? nlPreferences?.maxTransferMinutes,
+      },
+    };
+  }
+
+  private async planFromStations(request: JourneyPlanRequest, emit: StageListener): Promise<JourneyPlanResult> {
+    if (!request.to) {
+      throw createJourneyPlannerError('Destination is required', 400);
+    }
+
+    // No FROM specified - client should provide current location
+    if (!request.from) {
+      throw createJourneyPlannerError('location_required', 400, {
+        message: 'Starting location is required',
+      });
+    }
+
+    const attempt: ResolutionAttempt = { attempt: 0, places: [] };
+    const context: ResolutionContext = {
+      pins: request.pinnedPlaces || [],
+      namedPlaces: sanitizeNamedPlaces(request.namedPlaces),
+      places: attempt.places,
+      clarifications: [],
+    };
+
+    const from = await this.resolvePlace(request.from, context, { role: 'from', acceptCoordinates: true });
+    if (!from) {
+      throw createJourneyPlannerError(`Could not find starting location: ${request.from}`, 400);
+    }
+
+    const to = await this.resolvePlace(request.to, context, { role: 'to', acceptCoordinates: true });
+    if (!to) {
+      throw createJourneyPlannerError(`Could not find destination: ${request.to}`, 400);
+    }
+
+    // Handle VIAs from manual request, in travel order
+    const vias: ResolvedPoint[] = [];
+    const viaInputs = (Array.isArray(request.via) ? request.via : [])
+      .map((via) => String(via || '').trim())
+      .filter(Boolean);
+    for (let index = 0; index < viaInputs.length; index += 1) {
+      const viaRaw = viaInputs[index];
+      const via = await this.resolvePlace(viaRaw, context, { role: 'via', index, acceptCoordinates: true, geocode: true });
+      if (!via) {
+        throw createJourneyPlannerError(`Could not find via location: ${viaRaw}`, 400);
+      }
+      vias.push(via);
+    }
+    this.assertUnambiguous(context);
+
+    const preferences = request.preferences;
+    const departAt = parseClientTime(request.departureTime);
+    const arriveBy = parseClientTime(request.arrivalTime);
+
+    // A manual search with no route answers with an empty list rather than an error
+    return this.execute({
+      from,
+      to,
+      vias,
+      avoid: mergeAvoidanceConstraints({
+        lines: preferences?.avoidLines,
+        stations: preferences?.avoidStations,
+      }),
+      preferences: {
+        modes: normalizeTransportModes((preferences?.modes as string[] | undefined) || [...DEFAULT_MODES]),
+        accessibility: normalizeAccessibilityOptions(preferences?.accessibility as string[] | undefined),
+        journeyPreference: preferences?.journeyPreference,
+        walkingSpeed: preferences?.walkingSpeed,
+        when: arriveBy || departAt,
+        timeIs: arriveBy ? 'Arriving' : departAt ? 'Departing' : undefined,
+        maxWalkingMinutes: preferences?.maxWalkingMinutes,
+        maxTransferMinutes: preferences?.maxTransferMinutes,
+      },
+      returnJourney: returnTiming(request.returnJourney),
+      trace: { attempts: [attempt] },
+    }, emit, { allowEmpty: true });
+  }
+
+  // Look a place up as a TfL stop first, optionally falling back to the geocoder. The best match is used unless
+  // the traveller pinned another; either way the alternatives are recorded in `context.places`. A traveller's
+  // label ("home") is used as is when it has coordinates, otherwise its station or address is searched for.
+  private async resolvePlace(
+    query: string,
+    context: ResolutionContext,
+    options: ResolveOptions
+  ): Promise<ResolvedPoint | null> {
+    const record = (resolution: Pick<PlaceResolution, 'searchedAs' | 'source' | 'chosen' | 'candidates'>) => {
+      context.places.push({
+        role: options.role,
+        ...(options.index !== undefined ? { index: options.index } : {}),
+        query,
+        ...resolution,
+      });
+      return resolution.chosen;
+    };
+
+    if (options.acceptCoordinates && query.includes(',')) {
+      return record({ source: 'coordinates', chosen: { location: query }, candidates: [] });
+    }
+
+    const pin = context.pins.find((item) => item.role === options.role && (item.index ?? 0) === (options.index ?? 0));
+    const named = findNamedPlace(context.namedPlaces, query);
+    if (named?.location && !pin) {
+      return record({ source: 'named', chosen: { location: named.location, name: named.name }, candidates: [] });
+    }
+
+    const searchName = named
+      ? named.name
+      : options.enhance ? await this.deps.ai.enhanceLocationName(query) : query;
+    const searchedAs = searchName !== query ? searchName : undefined;
+    const stations = await this.deps.tfl.searchStopPoints(searchName);
+    let candidates: PlaceCandidate[] = stations.slice(0, MAX_TRACE_CANDIDATES).map((station) => ({
+      stopPointId: station.naptanId || station.id,
+      name: station.commonName,
+      location: this.deps.tfl.formatStopPointForJourney(station),
+      source: 'tfl',
+      score: scoreStopPointMatch(station, searchName),
+    }));
+
+    if (candidates.length === 0 && options.geocode) {
+      const geocodeResults = await this.deps.geocoder.geocode(named ? named.name : query);
+      candidates = geocodeResults.slice(0, MAX_TRACE_CANDIDATES).map((result) => ({
+        name: result.name,
+        location: `${result.lat},${result.lon}`,
+        source: 'geocoder',
+        score: result.confidence,
+      }));
+    }
+
+    if (pin) {
+      return record({ searchedAs, source: 'pinned', chosen: { location: pin.location, name: pin.name }, candidates });
+    }
+
+    const ambiguous = findAmbiguousStops(stations, searchName);
+    if (ambiguous.length > 0) {
+      context.clarifications.push({
+        role: options.role,
+        ...(options.index !== undefined ? { index: options.index } : {}),
+        query,
+        choices: ambiguous.map((stop) => stopPointToChoice(stop, this.deps.tfl.formatStopPointForJourney(stop))),
+      });
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const [best] = candidates;
+    return record({ searchedAs, source: best.source, chosen: { location: best.location, name: best.name }, candidates });
+  }
+
+  // Stop before planning when a place matched several stations; the traveller picks and resends with pins
+  private assertUnambiguous(context: ResolutionContext, intent?: NLPJourneyIntent) {
+    if (context.clarifications.length === 0) return;
+
+    const clarification: JourneyClarification = {
+      places: context.clarifications,
+      ambiguities: [],
+      suggestions: context.clarifications.map(
+        (place) => `Which ${place.query} do you mean: ${place.choices.map((choice) => choice.name).join(' or ')}?`
+      ),
+      ...(intent ? { intent } : {}),
+    };
+    throw createJourneyPlannerError('Need more information', 400, clarification);
+  }
+
+  private buildJourneyParams(inputs: Pick<PlanInputs, 'from' | 'to' | 'preferences'>): JourneyPlannerParams {
+    const { from, to, preferences } = inputs;
+    return {
+      from: from.location,
+      to: to.location,
+      fromName: from.name,
+      toName: to.name,
+      nationalSearch: false,
+      journeyPreference: mapJourneyPreference(preferences.journeyPreference),
+      accessibilityPreference: mapAccessibilityPreference(preferences.accessibility),
+      mode: preferences.modes,
+      alternativeRoute: true,
+      walkingSpeed: mapWalkingSpeed(preferences.walkingSpeed),
+      ...(preferences.when
+        ? {
+            date: formatTfLDate(preferences.when),
+            time: formatTfLTime(preferences.when),
+            timeIs: preferences.timeIs || 'Departing',
+          }
+        : {}),
+      ...(typeof preferences.maxWalkingMinutes === 'number' ? { maxWalkingMinutes: preferences.maxWalkingMinutes } : {}),
+      ...(typeof preferences.maxTransferMinutes === 'number' ? { maxTransferMinutes: preferences.maxTransferMinutes } : {}),
+    };
+  }
+
+  // One direction of travel: the TfL search with avoidance fallbacks, mentioned modes ranked first, top three
+  // kept. Null when TfL gave no result at all; the journeys are empty when it found no route.
+  private async planDirection(inputs: Omit<PlanInputs, 'trace' | 'returnJourney'>): Promise<DirectionPlan | null> {
+    const { when: _when, timeIs: _timeIs, ...searchPreferences } = inputs.preferences;
+    const { result: journeyResult, avoidance } = await planAvoiding(
+      this.deps.tfl,
+      this.buildJourneyParams(inputs),
+      inputs.vias,
+      inputs.avoid
+    );
+    if (!journeyResult) {
+      return null;
+    }
+
+    // Prefer mentioned modes if not restricted by "only", and named lines above those: reorder journeys
+    const orderedJourneys = [...(journeyResult.journeys || [])];
+    const preferredModes = new Set(inputs.preferredModes || []);
+    const preferredLines = new Set(inputs.preferredLines || []);
+    if (preferredModes.size > 0 || preferredLines.size > 0) {
+      const score = (j: Journey) =>
+        (Array.isArray(j.legs) ? j.legs : []).reduce((acc, leg) => {
+          const onLine = (leg.routeOptions || []).some((option) => preferredLines.has(option.lineIdentifier?.id || ''));
+          return acc + (preferredModes.has(leg.mode?.id) ? 2 : 0) + (onLine ? 3 : 0);
+        }, 0);
+      orderedJourneys.sort((a, b) => score(b) - score(a));
+    }
+
+    return {
+      ...journeyResult,
+      journeys: orderedJourneys.slice(0, 3).map((journey) => ({ ...journey, accessibleDescription: '' })),
+      fromName: inputs.from.name,
+      toName: inputs.to.name,
+      viaNames: inputs.vias.map((via) => via.name || via.location),
+      avoidance,
+      search: {
+        from: inputs.from,
+        to: inputs.to,
+        vias: inputs.vias,
+        preferences: searchPreferences,
+        avoid: inputs.avoid,
+        ...(inputs.preferredModes ? { preferredModes: inputs.preferredModes } : {}),
+        ...(inputs.preferredLines ? { preferredLines: inputs.preferredLines } : {}),
+      },
+    };
+  }
+
+  // Accessible descriptions and live arrivals for each journey, reported as each one finishes
+  private enhanceJourneys(journeys: PlannedJourney[], direction: JourneyDirection, emit: StageListener) {
+    return Promise.all(
+      journeys.map(async (journey, journeyIndex) => {
+        const [accessibleDescription, enhancedLegs] = await Promise.all([
+          this.deps.ai.generateAccessibleDescription(journey).then((description) => {
+            emit({ stage: 'description', direction, journeyIndex, accessibleDescription: description });
+            return description;
+          }),
+          enhanceLegsWithArrivals(journey, this.deps).then((legs) => {
+            emit({ stage: 'arrivals', direction, journeyIndex, legs });
+            return legs;
+          }),
+        ]);
+        return { ...journey, legs: enhancedLegs, accessibleDescription };
+      })
+    );
+  }
+
+  // Without `allowEmpty`, finding no journeys is an error, which sends a natural language query back to the LLM
+  private async execute(
+    inputs: PlanInputs,
+    emit: StageListener,
+    { allowEmpty = false }: { allowEmpty?: boolean } = {}
+  ): Promise<JourneyPlanResult> {
+    emit({ stage: 'stations', from: inputs.from, to: inputs.to, vias: inputs.vias });
+
+    const outbound = await this.planDirection(inputs);
+    if (!outbound || (outbound.journeys.length === 0 && !allowEmpty)) {
+      throw new Error('No journeys found');
+    }
+
+    let returnJourney: DirectionPlan | undefined;
+    if (inputs.returnJourney && outbound.journeys.length > 0) {
+      // Without its own time the way back leaves once the first outbound option arrives
+      const arrival = parseClientTime(outbound.journeys[0].arrivalDateTime);
+      const returning = await this.planDirection({
+        ...inputs,
+        from: inputs.to,
+        to: inputs.from,
+        vias: inputs.vias.slice().reverse(),
+        preferences: {
+          ...inputs.preferences,
+          when: inputs.returnJourney.when ?? arrival,
+          timeIs: inputs.returnJourney.when ? inputs.returnJourney.timeIs : 'Departing',
+        },
+      });
+      if (!returning || (returning.journeys.length === 0 && !allowEmpty)) {
+        throw new Error('No return journeys found');
+      }
+      returnJourney = returning;
+    }
+
+    const plan: JourneyPlanResult = { ...outbound, trace: inputs.trace, ...(returnJourney ? { returnJourney } : {}) };
+    emit({ stage: 'journeys', plan });
+
+    // Generate accessible descriptions and enhanced legs for the journeys
+    const [journeys, returnJourneys] = await Promise.all([
+      this.enhanceJourneys(plan.journeys, 'outbound', emit),
+      returnJourney ? this.enhanceJourneys(returnJourney.journeys, 'return', emit) : Promise.resolve([]),
+    ]);
+
+    return {
+      ...plan,
+      journeys,
+      ...(returnJourney ? { returnJourney: { ...returnJourney, journeys: returnJourneys } } : {}),
+    };
+  }
+}
+
+// Export singleton instance
+export const journeyPlanner = new JourneyPlannerService();
+
+// Export the class for testing purposes
+export { JourneyPlannerService };
@@ -0,0 +1,201 @@
+import type { TFLApiClient } from '@/lib/tfl-client';
+import type { AzureAIClient } from '@/lib/ai-client';
+import type { GeocodingService } from '@/lib/geocoding';
+import type { NationalRailClient } from '@/lib/national-rail-client';
+import type { AvoidanceConstraints, AvoidanceOutcome } from '@/lib/journey-avoidance';
+import type { NLPJourneyIntent } from '@/lib/schemas/nlp-response';
+import type { JourneySearchParams, JourneyWaypoint, PlaceRole } from '@/types';
+import type { JourneyPlannerResult, Journey, Leg, TimeAdjustment } from '@/types/tfl';
+
+// Only the client methods the planner calls, so tests can pass lightweight fakes
+export interface JourneyPlannerDependencies {
+  tfl: Pick<
+    TFLApiClient,
+    'planJourney' | 'searchStopPoints' | 'formatStopPointForJourney' | 'getMultipleArrivals' | 'getLineArrivals'
+  >;
+  ai: Pick<
+    AzureAIClient,
+    'parseJourneyIntent' | 'clarifyAmbiguousQuery' | 'enhanceLocationName' | 'generateAccessibleDescription'
+  >;
+  geocoder: Pick<GeocodingService, 'geocode'>;
+  nationalRail: Pick<NationalRailClient, 'isEnabled' | 'getNextDeparturesByCRS'>;
+}
+
+export type ResolvedPoint = {
+  location: string;
+  name?: string;
+};
+
+// A place the planner could have used for a from/to/via name. `score` runs from 0 to 1: the TfL search ranking
+// for stops, the geocoder's confidence for addresses.
+export type PlaceCandidate = {
+  stopPointId?: string;
+  name: string;
+  location: string;
+  source: 'tfl' | 'geocoder';
+  score: number;
+};
+
+export type PlaceResolution = {
+  role: PlaceRole;
+  index?: number;
+  query: string;
+  // The name actually searched for, when the LLM normalised the query first
+  searchedAs?: string;
+  source: 'coordinates' | 'named' | 'pinned' | 'tfl' | 'geocoder';
+  chosen: ResolvedPoint;
+  candidates: PlaceCandidate[];
+};
+
+export type ResolutionAttempt = {
+  attempt: number;
+  intent?: NLPJourneyIntent;
+  places: PlaceResolution[];
+  // Why the attempt failed; fed back to the LLM before the next one
+  error?: string;
+};
+
+// How the request became a TfL search: every parse attempt and the places each one resolved
+export type ResolutionTrace = {
+  query?: string;
+  attempts: ResolutionAttempt[];
+};
+
+export type LegArrival = {
+  id: string;
+  destinationName: string;
+  expectedArrival: string;
+  timeToStation: number;
+  platformName?: string;
+  towards?: string;
+};
+
+export type LegEnhancements = {
+  fromName?: string;
+  toName?: string;
+  platformName?: string;
+  direction?: string;
+  googleMapsUrl?: string;
+  distanceSummary?: string;
+  nextArrivals?: LegArrival[];
+};
+
+export type EnhancedLeg = Leg & { enhancements?: LegEnhancements };
+
+export type PlannedJourney = Omit<Journey, 'legs'> & {
+  legs: EnhancedLeg[];
+  accessibleDescription: string;
+  // Set on journeys chained through vias
+  waypoints?: JourneyWaypoint[];
+};
+
+export type JourneyPlanRequest = JourneySearchParams & {
+  // The intent from an earlier response (e.g. a clarification), used instead of parsing the query again
+  intent?: NLPJourneyIntent;
+};
+
+// A station the traveller can pick when a place name matched several
+export type PlaceChoice = {
+  stopPointId: string;
+  name: string;
+  location: string;
+  modes: string[];
+  lines: string[];
+};
+
+export type PlaceClarification = {
+  role: PlaceRole;
+  index?: number;
+  query: string;
+  choices: PlaceChoice[];
+};
+
+// `data` of the "Need more information" error. Resend the request with `intent` and a `pinnedPlaces` entry for
+// each of `places` to carry on from where planning stopped.
+export type JourneyClarification = {
+  places: PlaceClarification[];
+  // Unclear parts of the query other than places, with free-text questions about them
+  ambiguities: string[];
+  suggestions: string[];
+  intent?: NLPJourneyIntent;
+};
+
+export type JourneyDirection = 'outbound' | 'return';
+
+// Everything a TfL search for one direction used apart from the time, so earlier or later journeys can be fetched
+// without parsing the query or resolving places again
+export type JourneySearch = {
+  from: ResolvedPoint;
+  to: ResolvedPoint;
+  vias: ResolvedPoint[];
+  preferences: {
+    modes: string[];
+    accessibility: string[];
+    journeyPreference?: string;
+    walkingSpeed?: string;
+    maxWalkingMinutes?: number;
+    maxTransferMinutes?: number;
+  };
+  avoid: AvoidanceConstraints;
+  // Modes to rank first when the traveller mentioned them without restricting to them
+  preferredModes?: string[];
+  // TfL line ids to rank first, e.g. "on the Central line"
+  preferredLines?: string[];
+};
+
+// The journeys found for one direction of travel. `searchCriteria.timeAdjustments` holds TfL's earlier and later
+// search times, which go back to the page endpoint with `search`.
+export type DirectionPlan = Omit<JourneyPlannerResult, 'journeys'> & {
+  journeys: PlannedJourney[];
+  fromName?: string;
+  toName?: string;
+  viaNames: string[];
+  avoidance?: AvoidanceOutcome;
+  search: JourneySearch;
+};
+
+// Body of /api/journey/page: a direction's `search` and one of its `timeAdjustments`
+export type JourneyPageRequest = {
+  search: JourneySearch;
+  adjustment: Pick<TimeAdjustment, 'date' | 'time' | 'timeIs'>;
+};
+
+// `returnJourney` is the way back of a round trip, planned between the same resolved places in reverse
+export type JourneyPlanResult = DirectionPlan & {
+  trace: ResolutionTrace;
+  returnJourney?: DirectionPlan;
+};
+
+// Progress reported while a plan is built, in the order the stages happen. `intent` and `stations` repeat when
+// a natural language query is re-parsed after a failed attempt. `journeys` carries the TfL result (both
+// directions of a round trip) before arrivals and descriptions are added; those follow per journey, in whichever
+// order they finish.
+export type JourneyPlanStage =
+  | { stage: 'intent'; attempt: number; intent: NLPJourneyIntent }
+  | { stage: 'stations'; from: ResolvedPoint; to: ResolvedPoint; vias: ResolvedPoint[] }
+  | { stage: 'journeys'; plan: JourneyPlanResult }
+  | { stage: 'arrivals'; direction: JourneyDirection; journeyIndex: number; legs: EnhancedLeg[] }
+  | { stage: 'description'; direction: JourneyDirection; journeyIndex: number; accessibleDescription: string };
+
+export type JourneyPlanOptions = {
+  // An already parsed intent for `naturalLanguageQuery` (e.g. from /api/ask), used instead of the first parse
+  intent?: NLPJourneyIntent;
+  onStage?: (stage: JourneyPlanStage) => void;
+};
+
+// Errors the caller should report as-is (with `status` as the HTTP status) rather than as a server failure
+export interface JourneyPlannerError extends Error {
+  status: number;
+  data?: unknown;
+}
+
+export const createJourneyPlannerError = (message: string, status: number, data?: unknown): JourneyPlannerError => {
+  const error = new Error(message) as JourneyPlannerError;
+  error.name = 'JourneyPlannerError';
+  error.status = status;
+  if (data !== undefined) error.data = data;
+  return error;
+};
+
+export const isJourneyPlannerError = (error: unknown): error is JourneyPlannerError =>
+  error instanceof Error && error.name === 'JourneyPlannerError';
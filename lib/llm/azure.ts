@@ -0,0 +1,59 @@
+import { postChatCompletion, postTranscription } from './chat-completions';
+import { createLLMProviderError, type ChatCompletionRequest, type LLMProvider, type TranscriptionRequest } from './types';
+
+type AzureOpenAIOptions = {
+  // Full deployment URLs including api-version, e.g. .../deployments/<name>/chat/completions?api-version=...
+  apiUrl: string;
+  apiKey: string;
+  transcriptionUrl?: string;
+};
+
+class AzureOpenAIProvider implements LLMProvider {
+  readonly name = 'Azure OpenAI';
+  private options: AzureOpenAIOptions;
+
+  constructor(options: AzureOpenAIOptions) {
+    this.options = options;
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.apiUrl && !!this.options.apiKey;
+  }
+
+  supportsTranscription(): boolean {
+    return !!this.options.transcriptionUrl && !!this.options.apiKey;
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw createLLMProviderError(this.name, 'Azure OpenAI is not configured properly');
+    }
+
+    return postChatCompletion(
+      {
+        provider: this.name,
+        url: this.options.apiUrl,
+        headers: { 'api-key': this.options.apiKey },
+        tokenLimitField: 'max_completion_tokens',
+      },
+      request
+    );
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    if (!this.supportsTranscription()) {
+      throw createLLMProviderError(this.name, 'Azure OpenAI transcription is not configured properly');
+    }
+
+    return postTranscription(
+      {
+        provider: this.name,
+        url: this.options.transcriptionUrl as string,
+        headers: { 'api-key': this.options.apiKey },
+      },
+      request
+    );
+  }
+}
+
+export { AzureOpenAIProvider };
@@ -0,0 +1,120 @@
+import { createLLMProviderError, type ChatCompletionRequest, type LLMMessage, type TranscriptionRequest } from './types';
+
+// Wire format shared by Azure OpenAI and OpenAI-compatible servers (vLLM, Ollama, LM Studio, ...)
+
+interface ChatCompletionBody {
+  model?: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  response_format?: { type: 'json_object' };
+}
+
+interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: LLMMessage;
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+type ChatCompletionOptions = {
+  provider: string;
+  url: string;
+  headers: Record<string, string>;
+  model?: string;
+  // Azure reasoning deployments only accept max_completion_tokens; most other servers expect max_tokens
+  tokenLimitField: 'max_tokens' | 'max_completion_tokens';
+};
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData?.error?.message || response.statusText;
+};
+
+export const postChatCompletion = async (
+  options: ChatCompletionOptions,
+  request: ChatCompletionRequest
+): Promise<string> => {
+  const body: ChatCompletionBody = {
+    messages: request.messages,
+    ...(options.model ? { model: options.model } : {}),
+    ...(typeof request.temperature === 'number' ? { temperature: request.temperature } : {}),
+    ...(typeof request.maxTokens === 'number' ? { [options.tokenLimitField]: request.maxTokens } : {}),
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+
+  const response = await fetch(options.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw createLLMProviderError(
+      options.provider,
+      `${options.provider} chat completion error: ${response.status} - ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+
+  const data: ChatCompletionResponse = await response.json();
+  if (!data.choices || data.choices.length === 0) {
+    throw createLLMProviderError(options.provider, `No response from ${options.provider}`);
+  }
+
+  return data.choices[0]?.message?.content || '';
+};
+
+export const postTranscription = async (
+  options: Omit<ChatCompletionOptions, 'tokenLimitField'>,
+  request: TranscriptionRequest
+): Promise<string> => {
+  const formData = new FormData();
+  const audioBlob = new Blob([request.audio], { type: request.mimeType });
+
+  formData.append('file', audioBlob, request.filename);
+  formData.append('response_format', 'json');
+  formData.append('language', request.language || 'en');
+  formData.append('temperature', '0');
+  if (options.model) {
+    formData.append('model', options.model);
+  }
+  if (request.prompt) {
+    formData.append('prompt', request.prompt);
+  }
+
+  const response = await fetch(options.url, {
+    method: 'POST',
+    headers: options.headers,
+    body: formData,
+  });
+
+  if (!response.ok) {
+    throw createLLMProviderError(
+      options.provider,
+      `${options.provider} transcription error: ${response.status} - ${await readErrorMessage(response)}`,
+      response.status
+    );
+  }
+
+  const data = await response.json();
+  if (!data?.text) {
+    throw createLLMProviderError(options.provider, 'No transcription text returned');
+  }
+
+  return data.text as string;
+};
@@ -0,0 +1,38 @@
+import { config } from '@/lib/config';
+import { AzureOpenAIProvider } from './azure';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { StubLLMProvider } from './stub';
+import type { LLMProvider, LLMProviderName } from './types';
+
+export const resolveLLMProviderName = (value?: string): LLMProviderName => {
+  const normalized = (value || '').toLowerCase().trim();
+  if (normalized === 'openai' || normalized === 'openai-compatible') return 'openai-compatible';
+  if (normalized === 'stub' || normalized === 'offline') return 'stub';
+  return 'azure';
+};
+
+// Build the provider selected by LLM_PROVIDER (defaults to Azure OpenAI)
+export const createLLMProvider = (name: LLMProviderName = resolveLLMProviderName(config.llm.provider)): LLMProvider => {
+  switch (name) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.llm.openai.baseUrl,
+        apiKey: config.llm.openai.apiKey,
+        model: config.llm.openai.model,
+        transcriptionModel: config.llm.openai.transcriptionModel,
+      });
+    case 'stub':
+      return new StubLLMProvider();
+    case 'azure':
+    default:
+      return new AzureOpenAIProvider({
+        apiUrl: config.azure.apiUrl,
+        apiKey: config.azure.apiKey,
+        transcriptionUrl: config.azure.transcriptionUrl,
+      });
+  }
+};
+
+export { AzureOpenAIProvider, OpenAICompatibleProvider, StubLLMProvider };
+export type { StubResponder } from './stub';
+export * from './types';
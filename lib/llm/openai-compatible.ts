@@ -0,0 +1,67 @@
+import { postChatCompletion, postTranscription } from './chat-completions';
+import { createLLMProviderError, type ChatCompletionRequest, type LLMProvider, type TranscriptionRequest } from './types';
+
+type OpenAICompatibleOptions = {
+  // API root such as https://api.openai.com/v1 or http://localhost:11434/v1
+  baseUrl: string;
+  model: string;
+  // Optional for self-hosted servers that do not check credentials
+  apiKey?: string;
+  transcriptionModel?: string;
+};
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'OpenAI-compatible';
+  private options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.options = { ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.baseUrl && !!this.options.model;
+  }
+
+  supportsTranscription(): boolean {
+    return !!this.options.baseUrl && !!this.options.transcriptionModel;
+  }
+
+  private get headers(): Record<string, string> {
+    return this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {};
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    if (!this.isConfigured()) {
+      throw createLLMProviderError(this.name, 'LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider');
+    }
+
+    return postChatCompletion(
+      {
+        provider: this.name,
+        url: `${this.options.baseUrl}/chat/completions`,
+        headers: this.headers,
+        model: this.options.model,
+        tokenLimitField: 'max_tokens',
+      },
+      request
+    );
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    if (!this.supportsTranscription()) {
+      throw createLLMProviderError(this.name, 'LLM_TRANSCRIPTION_MODEL is required for transcription');
+    }
+
+    return postTranscription(
+      {
+        provider: this.name,
+        url: `${this.options.baseUrl}/audio/transcriptions`,
+        headers: this.headers,
+        model: this.options.transcriptionModel,
+      },
+      request
+    );
+  }
+}
+
+export { OpenAICompatibleProvider };
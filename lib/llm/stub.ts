@@ -0,0 +1,40 @@
+import { createLLMProviderError, type ChatCompletionRequest, type LLMProvider, type TranscriptionRequest } from './types';
+
+export type StubResponder = (request: ChatCompletionRequest) => string | Promise<string>;
+
+// An empty reply makes every AzureAIClient method fall back to its non-LLM default
+// (default intent, unchanged location names, no clarifying questions)
+const defaultResponder: StubResponder = (request) => (request.json ? '{}' : '');
+
+// Offline provider for local development and tests; never touches the network
+class StubLLMProvider implements LLMProvider {
+  readonly name = 'Stub LLM';
+  private responder: StubResponder;
+  private transcript?: string;
+
+  constructor(options: { responder?: StubResponder; transcript?: string } = {}) {
+    this.responder = options.responder || defaultResponder;
+    this.transcript = options.transcript;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  supportsTranscription(): boolean {
+    return typeof this.transcript === 'string';
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    return this.responder(request);
+  }
+
+  async transcribe(_request: TranscriptionRequest): Promise<string> {
+    if (typeof this.transcript !== 'string') {
+      throw createLLMProviderError(this.name, 'Transcription is not available with the stub LLM provider');
+    }
+    return this.transcript;
+  }
+}
+
+export { StubLLMProvider };
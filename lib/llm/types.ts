@@ -0,0 +1,44 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask the model for a single JSON object (OpenAI `response_format: json_object`)
+  json?: boolean;
+}
+
+export interface TranscriptionRequest {
+  audio: ArrayBuffer;
+  filename: string;
+  mimeType: string;
+  prompt?: string;
+  language?: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  supportsTranscription(): boolean;
+  // Resolves to the assistant message text; throws an LLMProviderError when the request fails
+  complete(request: ChatCompletionRequest): Promise<string>;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+export type LLMProviderName = 'azure' | 'openai-compatible' | 'stub';
+
+export interface LLMProviderError extends Error {
+  provider: string;
+  status?: number;
+}
+
+export const createLLMProviderError = (provider: string, message: string, status?: number): LLMProviderError => {
+  const error = new Error(message) as LLMProviderError;
+  error.name = 'LLMProviderError';
+  error.provider = provider;
+  if (typeof status === 'number') error.status = status;
+  return error;
+};
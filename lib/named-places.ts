@@ -0,0 +1,65 @@
+import type { NamedPlace } from '@/types';
+
+// The traveller's own labels for places ("home", "work", "gym"), matched against the names in a query before any
+// station search. Safe to import from client components.
+
+export const MAX_NAMED_PLACES = 20;
+
+const MAX_LABEL_LENGTH = 40;
+const MAX_NAME_LENGTH = 200;
+
+const COORDINATES_PATTERN = /^-?\d{1,2}(\.\d+)?,-?\d{1,3}(\.\d+)?$/;
+
+// "My Gym", "the gym" and "gym." all name the same place
+export const normalizePlaceLabel = (value: string): string =>
+  String(value || '')
+    .toLowerCase()
+    .replace(/[’']/g, "'")
+    .replace(/[^a-z0-9' ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(my|the|our) /, '');
+
+export const findNamedPlace = (places: NamedPlace[] | undefined, query: string): NamedPlace | undefined => {
+  const label = normalizePlaceLabel(query);
+  if (!label || !places) return undefined;
+  return places.find((place) => normalizePlaceLabel(place.label) === label);
+};
+
+// A place list from storage or a request body: labels are unique, coordinates must look like "lat,lon", and
+// anything else is dropped
+export const sanitizeNamedPlaces = (value: unknown): NamedPlace[] => {
+  if (!Array.isArray(value)) return [];
+
+  const places: NamedPlace[] = [];
+  value.forEach((item) => {
+    const input = (item && typeof item === 'object' ? item : {}) as Partial<NamedPlace>;
+    const label = typeof input.label === 'string' ? input.label.trim().slice(0, MAX_LABEL_LENGTH) : '';
+    const name = typeof input.name === 'string' ? input.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    if (!normalizePlaceLabel(label) || !name || places.length >= MAX_NAMED_PLACES) return;
+    if (findNamedPlace(places, label)) return;
+
+    const location = typeof input.location === 'string' && COORDINATES_PATTERN.test(input.location.trim())
+      ? input.location.trim()
+      : undefined;
+    places.push({
+      label,
+      name,
+      ...(location ? { location } : {}),
+      ...(location && typeof input.stopPointId === 'string' && input.stopPointId ? { stopPointId: input.stopPointId } : {}),
+    });
+  });
+  return places;
+};
+
+// Adds the place, replacing one with the same label
+export const upsertNamedPlace = (places: NamedPlace[], place: NamedPlace): NamedPlace[] => {
+  const label = normalizePlaceLabel(place.label);
+  const index = places.findIndex((existing) => normalizePlaceLabel(existing.label) === label);
+  return index === -1
+    ? [...places, place].slice(0, MAX_NAMED_PLACES)
+    : places.map((existing, i) => (i === index ? place : existing));
+};
+
+export const removeNamedPlace = (places: NamedPlace[], label: string): NamedPlace[] =>
+  places.filter((place) => normalizePlaceLabel(place.label) !== normalizePlaceLabel(label));
@@ -182,4 +182,7 @@ class NationalRailClient {
 
 export const nationalRailClient = new NationalRailClient();
 
+// Export the class for testing purposes
+export { NationalRailClient };
+
 
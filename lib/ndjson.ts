@@ -0,0 +1,60 @@
+// Newline-delimited JSON over a streamed response body: one JSON value per line. Used by the streaming journey
+// route so the page can render each planning stage as it arrives. Safe to import from client components.
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+// Runs `produce`, writing every value it sends as a line. The stream closes when `produce` settles, so it must
+// report its own failures as a final line rather than throw.
+export const createNdjsonStream = <T>(
+  produce: (send: (value: T) => void) => Promise<void>
+): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const send = (value: T) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+        } catch {
+          // The client went away; keep producing so server-side work is not left half done
+          open = false;
+        }
+      };
+
+      try {
+        await produce(send);
+      } finally {
+        if (open) controller.close();
+      }
+    },
+  });
+};
+
+// Calls `onValue` for each line of an NDJSON body as it arrives
+export const readNdjson = async <T>(body: ReadableStream<Uint8Array>, onValue: (value: T) => void): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const flush = (text: string) => {
+    const trimmed = text.trim();
+    if (trimmed) onValue(JSON.parse(trimmed) as T);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      flush(buffered.slice(0, newline));
+      buffered = buffered.slice(newline + 1);
+      newline = buffered.indexOf('\n');
+    }
+  }
+
+  flush(buffered + decoder.decode());
+};
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseJourneyQueryWithRules,
+  parseStationQueryWithRules,
+  parseStatusQueryWithRules,
+  refineJourneyIntentWithRules,
+} from './nlp-rule-parser';
+
+const parse = (query: string) => {
+  const result = parseJourneyQueryWithRules(query);
+  if (!result) throw new Error(`No parse for "${query}"`);
+  return { ...result, journey: result.intent.journey! };
+};
+
+describe('parseJourneyQueryWithRules', () => {
+  it('reads the lead as the origin', () => {
+    const { journey, unambiguous } = parse('Paddington to Canary Wharf');
+
+    expect(unambiguous).toBe(true);
+    expect(journey.from?.name).toBe('Paddington');
+    expect(journey.to?.name).toBe('Canary Wharf');
+  });
+
+  it('reads explicit from, to and vias in order', () => {
+    const { journey, unambiguous } = parse('How do I get from Victoria to Bank via Green Park and Oxford Circus');
+
+    expect(unambiguous).toBe(true);
+    expect(journey.from?.name).toBe('Victoria');
+    expect(journey.to?.name).toBe('Bank');
+    expect(journey.via?.map((via) => via.name)).toEqual(['Green Park', 'Oxford Circus']);
+  });
+
+  it('uses the current location without an origin', () => {
+    const { journey } = parse('Take me to Kings Cross');
+
+    expect(journey.from).toEqual(expect.objectContaining({ useCurrentLocation: true }));
+    expect(journey.to?.name).toBe('Kings Cross');
+  });
+
+  it('keeps names that contain "and" whole', () => {
+    const { journey } = parse('Elephant and Castle to Harrow and Wealdstone');
+
+    expect(journey.from?.name).toBe('Elephant and Castle');
+    expect(journey.to?.name).toBe('Harrow and Wealdstone');
+  });
+
+  it('treats a trailing "on the <line> line" as a line preference', () => {
+    const { journey, unambiguous } = parse('Shepherds Bush to Oxford Circus on the Central line');
+
+    expect(unambiguous).toBe(true);
+    expect(journey.to?.name).toBe('Oxford Circus');
+    expect(journey.preferences?.lines).toEqual(['central']);
+    expect(journey.preferences?.mode).toEqual(['tube']);
+    expect(journey.preferences?.modePolicy).toBe('prefer');
+  });
+
+  it('reads lines named with "and"', () => {
+    const { journey } = parse('Paddington to Moorgate on the Hammersmith and City line');
+
+    expect(journey.to?.name).toBe('Moorgate');
+    expect(journey.preferences?.lines).toEqual(['hammersmith-city']);
+  });
+
+  it('flags an unknown line for the LLM', () => {
+    const { journey, unambiguous } = parse('Bank to Stratford on the Purple line');
+
+    expect(unambiguous).toBe(false);
+    expect(journey.to?.name).toBe('Stratford');
+  });
+
+  it('glues a short "on" tail back onto the place name', () => {
+    const { journey, unambiguous } = parse('Liverpool Street to Southend on Sea');
+
+    expect(unambiguous).toBe(true);
+    expect(journey.to?.name).toBe('Southend on Sea');
+  });
+
+  it('flags leftover words after "on" instead of gluing them on', () => {
+    const { unambiguous } = parse('Bank to Stratford on the way to the match');
+
+    expect(unambiguous).toBe(false);
+  });
+
+  it('flags requests that are not place names', () => {
+    const { journey, unambiguous } = parse('Pay to park near Stratford');
+
+    expect(unambiguous).toBe(false);
+    expect(journey.from?.name).toBe('Pay');
+    expect(parse('Bank to a cafe near Borough Market').unambiguous).toBe(false);
+  });
+
+  it('reads modes and an "only" constraint', () => {
+    const { journey } = parse('Tube only from Bank to Stratford');
+
+    expect(journey.from?.name).toBe('Bank');
+    expect(journey.preferences?.mode).toEqual(['tube']);
+    expect(journey.preferences?.modePolicy).toBe('only');
+  });
+
+  it('reads avoided stations and routing preferences', () => {
+    const { journey, unambiguous } = parse('Waterloo to Bank avoiding Westminster, fewest changes, step-free');
+
+    expect(unambiguous).toBe(true);
+    expect(journey.to?.name).toBe('Bank');
+    expect(journey.preferences?.avoid).toEqual(['Westminster']);
+    expect(journey.preferences?.journeyPreference).toBe('least-interchange');
+    expect(journey.preferences?.accessibility).toEqual(['step-free-vehicle']);
+  });
+
+  it('reads a round trip with its own return time', () => {
+    const { journey } = parse('Baker Street to Wembley Park at 6pm and back at 10:30pm');
+
+    expect(journey.to?.name).toBe('Wembley Park');
+    expect(journey.preferences?.time?.type).toBe('depart');
+    expect(journey.returnJourney?.time?.type).toBe('depart');
+  });
+
+  it('resolves clock times in London time', () => {
+    // 10:00 BST
+    const now = new Date('2026-07-01T09:00:00Z');
+
+    const arrive = parseJourneyQueryWithRules('Bank to Stratford arrive by 6pm', now);
+    expect(arrive?.intent.journey?.preferences?.time).toEqual({ type: 'arrive', datetime: '2026-07-01T17:00:00.000Z' });
+
+    // 9:30am has passed, so it means tomorrow
+    const past = parseJourneyQueryWithRules('Bank to Stratford at 9:30am', now);
+    expect(past?.intent.journey?.preferences?.time?.datetime).toBe('2026-07-02T08:30:00.000Z');
+
+    // Already 2 July in London
+    const tomorrow = parseJourneyQueryWithRules('Bank to Stratford tomorrow at 8am', new Date('2026-07-01T23:30:00Z'));
+    expect(tomorrow?.intent.journey?.preferences?.time?.datetime).toBe('2026-07-03T07:00:00.000Z');
+  });
+
+  it('takes unparsed times and days out of the destination and flags them', () => {
+    const now = new Date('2026-10-19T10:00:00Z');
+    const queries = [
+      'Bank to Stratford at 9',
+      'Bank to Stratford tomorrow',
+      'Bank to Stratford tonight',
+      'Bank to Stratford on Monday',
+      'Bank to Stratford with my bike',
+      'Bank to Stratford leaving in 10 minutes',
+    ];
+
+    queries.forEach((query) => {
+      const result = parseJourneyQueryWithRules(query, now);
+      expect(result?.intent.journey?.to?.name, query).toBe('Stratford');
+      expect(result?.unambiguous, query).toBe(false);
+    });
+  });
+
+  it('reads "now" as leaving now', () => {
+    const { journey, unambiguous } = parse('Bank to Stratford now');
+
+    expect(unambiguous).toBe(true);
+    expect(journey.to?.name).toBe('Stratford');
+    expect(journey.preferences?.time).toBeUndefined();
+  });
+
+  it('leaves a named day to the LLM instead of guessing the date', () => {
+    const result = parseJourneyQueryWithRules('Bank to Stratford next Friday at 9am', new Date('2026-10-19T10:00:00Z'));
+
+    expect(result?.unambiguous).toBe(false);
+    expect(result?.intent.journey?.to?.name).toBe('Stratford');
+    expect(result?.intent.journey?.preferences?.time).toBeUndefined();
+  });
+
+  it('flags a long place name', () => {
+    expect(parse('Bank to the big red building with the clock on top').unambiguous).toBe(false);
+  });
+
+  it('returns null without a destination', () => {
+    expect(parseJourneyQueryWithRules('Paddington')).toBeNull();
+    expect(parseJourneyQueryWithRules('')).toBeNull();
+  });
+});
+
+describe('parseStationQueryWithRules', () => {
+  it('reads the station and facilities', () => {
+    const result = parseStationQueryWithRules('Does Stratford have toilets?');
+
+    expect(result?.intent.type).toBe('station_info');
+    expect(result?.intent.stationQuery?.station).toBe('Stratford');
+  });
+
+  it('leaves journeys alone', () => {
+    expect(parseStationQueryWithRules('From Bank to Stratford with toilets')).toBeNull();
+  });
+});
+
+describe('parseStatusQueryWithRules', () => {
+  it('reads a status question and its mode', () => {
+    const result = parseStatusQueryWithRules('Any delays on the DLR?');
+
+    expect(result?.intent.type).toBe('status_query');
+    expect(result?.intent.statusQuery).toEqual({ mode: 'dlr' });
+  });
+});
+
+describe('refineJourneyIntentWithRules', () => {
+  const previous = parse('Shepherds Bush to Bank').intent;
+
+  it('switches to a named line', () => {
+    const result = refineJourneyIntentWithRules(previous, 'actually on the Victoria line');
+
+    expect(result?.unambiguous).toBe(true);
+    expect(result?.intent.journey?.preferences?.lines).toEqual(['victoria']);
+    expect(result?.intent.journey?.to?.name).toBe('Bank');
+  });
+
+  it('changes the destination', () => {
+    const result = refineJourneyIntentWithRules(previous, 'to Liverpool Street instead');
+
+    expect(result?.intent.journey?.to?.name).toBe('Liverpool Street');
+    expect(result?.intent.journey?.from?.name).toBe('Shepherds Bush');
+  });
+
+  it('reverses the journey', () => {
+    const result = refineJourneyIntentWithRules(previous, 'the other way round');
+
+    expect(result?.intent.journey?.from?.name).toBe('Bank');
+    expect(result?.intent.journey?.to?.name).toBe('Shepherds Bush');
+  });
+});
@@ -0,0 +1,672 @@
+import { fromLondonTime, londonDateParts } from '@/lib/journey-planner/dates';
+import {
+  extractModesFromQuery,
+  findNamedLine,
+  hasOnlyConstraint,
+  normalizeTransportModes,
+  type NamedLine,
+} from '@/lib/journey-planner/modes';
+import { ACCESSIBILITY_TOPICS, STATION_TOPIC_PATTERNS, type StationTopic } from '@/lib/station-info';
+import type {
+  JourneyInfo,
+  JourneyPreferences,
+  NLPJourneyIntent,
+  ReturnJourneyInfo,
+  TimePreference,
+} from '@/lib/schemas/nlp-response';
+
+// Deterministic parser for common journey phrasings. Used as a pre-pass that skips the LLM when a query
+// is unambiguous, and as the fallback when the LLM is unavailable or returns something unusable.
+
+export interface RuleParseResult {
+  intent: NLPJourneyIntent;
+  // True when every part of the query was understood, so the LLM has nothing to add
+  unambiguous: boolean;
+}
+
+type Segment = {
+  marker: 'from' | 'to' | 'via' | 'mode' | 'avoid' | 'with';
+  keyword: string;
+  text: string;
+};
+
+// Leading phrases that carry no location, e.g. "How do I get to Bank"
+const FILLER_PATTERN =
+  /^(?:please\s+)?(?:(?:how\s+(?:do|can|could|would|should)\s+i\s+(?:get|go|travel)|how\s+to\s+get|get\s+me|take\s+me|i\s+(?:want|need|would\s+like|'d\s+like)\s+to\s+(?:go|get|travel)|directions|route|journey|travel|go|plan(?:\s+(?:a|my))?\s+(?:journey|route|trip)|show\s+me\s+(?:the\s+)?(?:way|route))\b\s*)+/i;
+
+// Words that start a new clause. They must be surrounded by whitespace so "Bromley-by-Bow" stays intact.
+const MARKER_PATTERN =
+  /(?:^|\s)(from|to|via|through|by|using|on\s+the|on|with|avoid(?:ing)?|without|(?:but\s+)?(?:don'?t|do\s+not|not|no)\s+chang(?:e|ing|es)\s+at)(?=\s|$)/gi;
+
+const LIST_SPLIT_PATTERN = /\s*(?:,|\band\s+then\b|\bthen\b|\band\b|\bor\b|&)\s*/i;
+
+// Names that contain "and"/"&" themselves and must not be split into two list items
+const COMPOUND_NAME_PATTERN =
+  /\b(elephant|hammersmith|waterloo|harrow|terminals?\s+\d)\s+(?:and|&)\s+(castle|city|wealdstone|\d)\b/gi;
+const COMPOUND_JOINER = '\u0000';
+
+// Question scaffolding around a station name, e.g. "Does ... have", "Is there ... at", "Are the ... working"
+const STATION_QUESTION_WORDS =
+  /\b(?:does|do|is|are|has|have|got|there|any|a|an|the|at|in|for|station|stations|working|available|open|what|which|facilities|access|how|about|tell|me|can|i|use|get|with|it|its|from|street|platforms?|to)\b/gi;
+
+const JOURNEY_MARKER_PATTERN = /\b(?:from|to|via)\s+\S+.*\b(?:to|from)\b/i;
+
+const STATUS_PATTERN = /\b(status|delays?|disruptions?|good service|running|closures?|strikes?)\b/i;
+
+const TIME_VALUE = String.raw`(noon|midday|midnight|\d{1,2}(?:[:.]\d{2})?\s*(?:am|pm)?)`;
+const STRICT_TIME_VALUE = String.raw`(noon|midday|midnight|\d{1,2}[:.]\d{2}\s*(?:am|pm)?|\d{1,2}\s*(?:am|pm))`;
+
+const TIME_PATTERNS: Array<{ type: 'arrive' | 'depart'; pattern: RegExp }> = [
+  {
+    type: 'arrive',
+    pattern: new RegExp(
+      String.raw`\b(?:arriv(?:e|ing)|get(?:ting)?\s+there|be\s+there)\s+(?:by|at|before|for)\s+${TIME_VALUE}`,
+      'i'
+    ),
+  },
+  {
+    type: 'depart',
+    pattern: new RegExp(
+      String.raw`\b(?:leav(?:e|ing)|depart(?:ing)?|set(?:ting)?\s+off)\s+(?:at|after|around)?\s*${TIME_VALUE}`,
+      'i'
+    ),
+  },
+  { type: 'arrive', pattern: new RegExp(String.raw`\bby\s+${STRICT_TIME_VALUE}`, 'i') },
+  { type: 'depart', pattern: new RegExp(String.raw`\b(?:at|after|around)\s+${STRICT_TIME_VALUE}`, 'i') },
+];
+
+const DAY_PATTERN = /\b(today|tonight|tomorrow)\b/i;
+
+// Named days the rules do not resolve ("on Monday", "next Friday", "this weekend"); the LLM works out the date
+const NAMED_DAY_PATTERN =
+  /\b(?:(?:on|next|this|at\s+the)\s+)?(?:(?:mon|tues|wednes|thurs|fri|satur|sun)day|weekend)\b/i;
+
+// Times the patterns above cannot pin down, e.g. "at 9" (morning or evening?) or "leaving in 10 minutes".
+// They are taken out of the text so they never end up in a place name, and left for the LLM.
+const UNPARSED_TIME_PATTERN =
+  /\b(?:(?:(?:leav(?:e|ing)|depart(?:ing)?|set(?:ting)?\s+off|arriv(?:e|ing)|get(?:ting)?\s+there)\s+)?in\s+(?:\d+|an?|half\s+an)\s+(?:min(?:ute)?s?|hours?)|(?:arriv(?:e|ing)\s+)?(?:at|by|after|around|before)\s+\d{1,2}(?:[:.]\d{2})?(?!\s*(?:am|pm)))\b/i;
+
+// "now", "right now", "asap": leaving now is already the default
+const NOW_PATTERN = /\b(?:(?:right\s+)?now|asap|as\s+soon\s+as\s+possible)\b/i;
+
+const ACCESSIBILITY_PATTERNS: Array<{ value: string; pattern: RegExp }> = [
+  { value: 'step-free-platform', pattern: /\bstep[- ]free\s+(?:access\s+)?to\s+(?:the\s+)?platforms?\b/i },
+  { value: 'step-free-vehicle', pattern: /\bstep[- ]free\s+(?:access\s+)?to\s+(?:the\s+)?(?:vehicle|train)s?\b/i },
+  { value: 'step-free-vehicle', pattern: /\b(?:step[- ]free(?:\s+access)?|wheelchair(?:\s+(?:accessible|access|user))?|no\s+stairs|lifts?\s+only)\b/i },
+];
+
+const JOURNEY_PREFERENCE_PATTERNS: Array<{ value: NonNullable<JourneyPreferences['journeyPreference']>; pattern: RegExp }> = [
+  { value: 'least-walking', pattern: /\b(?:least|less|minimal|minimum|min|little)\s+walk(?:ing)?\b/i },
+  { value: 'least-interchange', pattern: /\b(?:fewest|least|minimal|minimum|min|no)\s+(?:changes|interchanges?|transfers?)\b(?!\s+at\b)/i },
+  { value: 'least-time', pattern: /\b(?:fastest|quickest)(?:\s+(?:route|way|journey))?\b/i },
+];
+
+const WALKING_SPEED_PATTERNS: Array<{ value: NonNullable<JourneyPreferences['walkingSpeed']>; pattern: RegExp }> = [
+  { value: 'slow', pattern: /\b(?:walk(?:ing)?\s+slowly|slow\s+walk(?:er|ing)?|walk(?:ing)?\s+slow)\b/i },
+  { value: 'fast', pattern: /\b(?:walk(?:ing)?\s+(?:fast|quickly)|fast\s+walk(?:er|ing)?)\b/i },
+];
+
+const ONLY_WORDS_PATTERN = /\b(?:only|just|strictly|exclusively|nothing\s+but)\b/gi;
+
+// Openers that carry nothing in a follow-up, e.g. "Actually, ...", "What about ...", "Can we go ..."
+const FOLLOW_UP_FILLER_PATTERN =
+  /^(?:(?:ok(?:ay)?|actually|and|but|so|then|what|how|about|if|can|could|we|i|let'?s|make\s+it|rather|no|please|(?:i\s+)?(?:need|want)(?:\s+to)?|going|go|travel(?:ling)?|get|try)\b[\s,]*)+/i;
+
+// "and back again", "the return journey": a follow-up asking for the way back as well
+const RETURN_PATTERN =
+  /\b(?:and\s+)?(?:back(?:\s+again)?|(?:the\s+)?return(?:\s+(?:trip|journey))?|coming\s+back)(?:\s+home)?\b/i;
+
+// "the other way round": a follow-up replacing the journey with its reverse
+const REVERSE_PATTERN = /\b(?:the\s+other\s+way(?:\s+round)?|reverse(?:\s+it)?)\b/i;
+
+// "... and back at 6pm", "..., returning at 10pm": everything after the marker is about the way back
+const RETURN_CLAUSE_PATTERN =
+  /(?:,|\s)\s*(?:and\s+)?(?:back(?:\s+again)?|return(?:ing)?(?!\s+(?:journey|trip)\b)|coming\s+back)(?:\s+home)?\b(.*)$/i;
+
+// "round trip from ...", "a return journey from ..." ask for the way back without a clause of its own
+const ROUND_TRIP_PATTERN = /\b(?:round[- ]trip|return\s+(?:journey|trip))\b/i;
+
+// Words that never belong in a place name the rules can hand to the station search: spatial phrasing the
+// planner cannot act on ("park near Stratford") and verbs opening a request rather than naming a place
+// ("Pay to park ..."). A name containing them is left for the LLM.
+const NON_PLACE_WORD_PATTERN = /\b(?:near|nearby|around|close\s+to|next\s+to|opposite|behind|beside|outside)\b/i;
+const LEADING_VERB_PATTERN =
+  /^(?:pay|paying|buy|book|find|meet|eat|drink|shop|shopping|parking|drive|driving|cycle|ride|walk|run|visit|see|watch|pick|drop|collect|check|look|search|help|show|tell)\b/i;
+
+// A name glued back together across "on" ("Southend on Sea") is at most this many words after it
+const MAX_GLUED_WORDS = 2;
+
+// Words a return clause can carry besides its time
+const RETURN_FILLER_PATTERN = /\b(?:again|home|later|please|the\s+same\s+way)\b/gi;
+
+const cleanName = (value: string): string =>
+  value
+    .replace(/^(?:the\s+)(?=\S)/i, '')
+    .replace(/[\s,.;:!?]+$/g, '')
+    .replace(/(?:\s+(?:and|then|please|but|with|using|taking))+$/i, '')
+    .replace(/^[\s,]+/, '')
+    .trim();
+
+const parseClock = (raw: string): { hours: number; minutes: number } | null => {
+  const value = raw.toLowerCase().trim();
+  if (value === 'noon' || value === 'midday') return { hours: 12, minutes: 0 };
+  if (value === 'midnight') return { hours: 0, minutes: 0 };
+
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/.exec(value);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return { hours, minutes };
+};
+
+// Clock times are London times whatever the server's zone, the same convention the planner uses for TfL
+const resolveDateTime = (clock: { hours: number; minutes: number }, day: string | undefined, now: Date): string => {
+  const today = londonDateParts(now);
+  const at = (offsetDays: number) =>
+    fromLondonTime(today.year, today.month, today.day + offsetDays, clock.hours, clock.minutes);
+
+  let when = at(day === 'tomorrow' ? 1 : 0);
+  if (!day && when.getTime() < now.getTime()) {
+    // "arrive by 9am" asked at 10pm means tomorrow morning
+    when = at(1);
+  }
+
+  return when.toISOString();
+};
+
+const takeMatch = (text: string, pattern: RegExp): { match: RegExpExecArray | null; rest: string } => {
+  const match = pattern.exec(text);
+  if (!match) return { match: null, rest: text };
+  return { match, rest: `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}` };
+};
+
+const toMarker = (keyword: string): Segment['marker'] => {
+  const lower = keyword.toLowerCase().replace(/\s+/g, ' ');
+  if (lower === 'from') return 'from';
+  if (lower === 'to') return 'to';
+  if (lower === 'via' || lower === 'through') return 'via';
+  if (lower.startsWith('avoid') || lower === 'without' || lower.includes('chang')) return 'avoid';
+  if (lower === 'with') return 'with';
+  return 'mode';
+};
+
+const splitSegments = (text: string): { lead: string; segments: Segment[] } => {
+  const segments: Segment[] = [];
+  const markers: Array<{ keyword: string; start: number; end: number }> = [];
+
+  MARKER_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MARKER_PATTERN.exec(text)) !== null) {
+    const keyword = match[1];
+    const start = match.index + match[0].length - keyword.length;
+    markers.push({ keyword, start, end: start + keyword.length });
+  }
+
+  const lead = markers.length > 0 ? text.slice(0, markers[0].start) : text;
+  markers.forEach((marker, index) => {
+    const next = markers[index + 1];
+    segments.push({
+      marker: toMarker(marker.keyword),
+      keyword: marker.keyword.toLowerCase(),
+      text: text.slice(marker.end, next ? next.start : undefined).trim(),
+    });
+  });
+
+  return { lead: lead.trim(), segments };
+};
+
+const splitList = (text: string): string[] =>
+  text
+    .replace(COMPOUND_NAME_PATTERN, `$1${COMPOUND_JOINER}$2`)
+    .split(LIST_SPLIT_PATTERN)
+    .map((part) => cleanName(part.replace(new RegExp(COMPOUND_JOINER, 'g'), ' & ')))
+    .filter(Boolean);
+
+// "Central line", "Central or Victoria lines": every item must be a known line
+const linesInText = (text: string): NamedLine[] => {
+  const names = splitList(text.replace(/\s+lines?$/i, ''));
+  const lines = names.map(findNamedLine);
+  return names.length > 0 && /\blines?$/i.test(text.trim()) && lines.every(Boolean) ? (lines as NamedLine[]) : [];
+};
+
+const modesInText = (text: string): string[] =>
+  normalizeTransportModes(
+    splitList(text.replace(ONLY_WORDS_PATTERN, ' ')).map((part) => part.replace(/\s+(?:line|lines|services?)$/i, ''))
+  );
+
+// Pulls time, accessibility and routing preferences out of the text first so they never end up inside a place name
+const takePreferences = (
+  text: string,
+  now: Date
+): { preferences: JourneyPreferences; ambiguities: string[]; rest: string } => {
+  const ambiguities: string[] = [];
+  const preferences: JourneyPreferences = {};
+  let working = text;
+
+  let time: { type: TimePreference['type']; clock: { hours: number; minutes: number } } | undefined;
+  for (const { type, pattern } of TIME_PATTERNS) {
+    const { match, rest } = takeMatch(working, pattern);
+    if (!match) continue;
+    const clock = parseClock(match[1]);
+    if (!clock) {
+      ambiguities.push(`Could not understand the time "${match[1]}"`);
+      break;
+    }
+    working = rest;
+    time = { type, clock };
+    break;
+  }
+
+  // Day words come out whether or not a time went with them, so they never end up in a place name
+  const day = takeMatch(working, DAY_PATTERN);
+  working = day.rest;
+  const dayWord = day.match?.[1]?.toLowerCase();
+
+  const namedDay = takeMatch(working, NAMED_DAY_PATTERN);
+  working = namedDay.rest;
+  if (namedDay.match) {
+    ambiguities.push(`Could not work out the day "${namedDay.match[0]}"`);
+  }
+
+  const unparsedTime = takeMatch(working, UNPARSED_TIME_PATTERN);
+  working = unparsedTime.rest;
+  if (unparsedTime.match) {
+    ambiguities.push(`Could not understand the time "${unparsedTime.match[0]}"`);
+  }
+
+  working = takeMatch(working, NOW_PATTERN).rest;
+
+  if (time && !namedDay.match) {
+    preferences.time = {
+      type: time.type,
+      datetime: resolveDateTime(time.clock, dayWord === 'tomorrow' ? 'tomorrow' : dayWord ? 'today' : undefined, now),
+    };
+  } else if (!time && !unparsedTime.match && dayWord && dayWord !== 'today') {
+    // "tomorrow" or "tonight" without a clock time: the rules have no time of day to give TfL
+    ambiguities.push(`No time was given for "${dayWord}"`);
+  }
+
+  const accessibility = new Set<string>();
+  for (const { value, pattern } of ACCESSIBILITY_PATTERNS) {
+    const { match, rest } = takeMatch(working, pattern);
+    if (match) {
+      accessibility.add(value);
+      working = rest;
+      break;
+    }
+  }
+  if (accessibility.size > 0) preferences.accessibility = Array.from(accessibility);
+
+  for (const { value, pattern } of JOURNEY_PREFERENCE_PATTERNS) {
+    const { match, rest } = takeMatch(working, pattern);
+    if (match) {
+      preferences.journeyPreference = value;
+      working = rest;
+      break;
+    }
+  }
+
+  for (const { value, pattern } of WALKING_SPEED_PATTERNS) {
+    const { match, rest } = takeMatch(working, pattern);
+    if (match) {
+      preferences.walkingSpeed = value;
+      working = rest;
+      break;
+    }
+  }
+
+  return { preferences, ambiguities, rest: working };
+};
+
+// The way back's own time, read relative to the outbound time so "at 9am ... and back at 6pm" is the same day
+const parseReturnClause = (
+  clause: string,
+  outboundTime: TimePreference | undefined,
+  now: Date,
+  ambiguities: string[]
+): ReturnJourneyInfo => {
+  const base = outboundTime?.datetime ? new Date(outboundTime.datetime) : now;
+  const { preferences, ambiguities: clauseAmbiguities, rest } = takePreferences(clause, base);
+  ambiguities.push(...clauseAmbiguities);
+
+  const leftover = cleanName(rest.replace(RETURN_FILLER_PATTERN, ' ').replace(/\s+/g, ' ').trim());
+  if (leftover) ambiguities.push(`Did not understand "${leftover}" about the return journey`);
+
+  return preferences.time ? { time: preferences.time } : {};
+};
+
+export const parseJourneyQueryWithRules = (query: string, now: Date = new Date()): RuleParseResult | null => {
+  const rawQuery = String(query || '').trim();
+  if (!rawQuery) return null;
+
+  const normalized = rawQuery.replace(/[?!]+$/g, '').replace(/\s+/g, ' ');
+  const returnClause = takeMatch(normalized, RETURN_CLAUSE_PATTERN);
+  const roundTrip = ROUND_TRIP_PATTERN.test(returnClause.rest);
+  const { preferences, ambiguities, rest } = takePreferences(returnClause.rest.replace(ROUND_TRIP_PATTERN, 'journey'), now);
+  const working = rest.replace(/\s+/g, ' ').trim().replace(FILLER_PATTERN, '').trim();
+
+  const { lead, segments } = splitSegments(working);
+
+  let fromName: string | undefined;
+  let toName: string | undefined;
+  const vias: string[] = [];
+  const avoid: string[] = [];
+  const modes: string[] = [];
+  const lines: string[] = [];
+  let previousPlace: { get: () => string | undefined; set: (value: string) => void } | null = null;
+
+  // Modes mentioned before any place, e.g. "Tube only from X to Y"
+  const leadModes = modesInText(lead);
+  const leadIsModes = leadModes.length > 0 && !lead.replace(ONLY_WORDS_PATTERN, ' ').trim().split(/\s+/).some(
+    (word) => normalizeTransportModes([word.replace(/[,.]$/, '')]).length === 0 && !/^(and|or|&|the|by|prefer|ideally)$/i.test(word)
+  );
+  if (leadIsModes) modes.push(...leadModes);
+
+  for (const segment of segments) {
+    switch (segment.marker) {
+      case 'from': {
+        if (fromName) ambiguities.push('More than one starting point was mentioned');
+        fromName = cleanName(segment.text);
+        previousPlace = { get: () => fromName, set: (value) => { fromName = value; } };
+        break;
+      }
+      case 'to': {
+        if (toName) ambiguities.push('More than one destination was mentioned');
+        toName = cleanName(segment.text);
+        previousPlace = { get: () => toName, set: (value) => { toName = value; } };
+        break;
+      }
+      case 'via': {
+        vias.push(...splitList(segment.text));
+        previousPlace = null;
+        break;
+      }
+      case 'avoid': {
+        avoid.push(...splitList(segment.text));
+        previousPlace = null;
+        break;
+      }
+      case 'with': {
+        // "with my bike", "with a buggy": a need the rules cannot turn into a preference
+        if (segment.text) ambiguities.push(`Did not understand "${segment.keyword} ${segment.text}"`);
+        previousPlace = null;
+        break;
+      }
+      case 'mode': {
+        const found = modesInText(segment.text);
+        const namedLines = linesInText(segment.text);
+        const leftover = segment.text.replace(ONLY_WORDS_PATTERN, ' ').trim();
+        if (found.length > 0) {
+          modes.push(...found);
+        } else if (namedLines.length > 0) {
+          // "on the Central line": travel on those lines, searching their modes
+          lines.push(...namedLines.map((line) => line.id));
+          namedLines.forEach((line) => {
+            if (line.mode) modes.push(line.mode);
+          });
+        } else if (
+          previousPlace
+          && leftover
+          && segment.keyword === 'on'
+          && leftover.split(/\s+/).length <= MAX_GLUED_WORDS
+        ) {
+          // Not a mode after all ("Southend on Sea"): glue it back onto the place name
+          const current = previousPlace.get() || '';
+          previousPlace.set(cleanName(`${current} ${segment.keyword} ${segment.text}`));
+        } else if (leftover) {
+          ambiguities.push(`Did not understand "${segment.keyword} ${segment.text}"`);
+        }
+        break;
+      }
+    }
+  }
+
+  // "Paddington to Canary Wharf": the lead is the origin when no explicit "from" was given
+  const leadName = leadIsModes ? '' : cleanName(lead);
+  if (!fromName && leadName) {
+    fromName = leadName;
+  } else if (leadName && fromName) {
+    ambiguities.push(`Did not understand "${leadName}"`);
+  }
+
+  if (!toName) return null;
+
+  if (STATUS_PATTERN.test(rawQuery)) {
+    ambiguities.push('The query may be asking about service status');
+  }
+
+  const isOnly = hasOnlyConstraint(rawQuery);
+  const mentionedModes = normalizeTransportModes(modes.length > 0 ? modes : extractModesFromQuery(lead));
+  if (mentionedModes.length > 0) {
+    preferences.mode = mentionedModes;
+    preferences.modePolicy = isOnly ? 'only' : 'prefer';
+  }
+  if (avoid.length > 0) preferences.avoid = avoid;
+  if (lines.length > 0) preferences.lines = Array.from(new Set(lines));
+
+  const places = [fromName, toName, ...vias].filter((name): name is string => !!name);
+  places.forEach((name) => {
+    if (NON_PLACE_WORD_PATTERN.test(name) || LEADING_VERB_PATTERN.test(name)) {
+      ambiguities.push(`"${name}" does not look like a place name`);
+    }
+  });
+
+  const tooLong = (name?: string) => !!name && name.split(/\s+/).length > 6;
+  if ([fromName, toName, ...vias].some(tooLong)) {
+    ambiguities.push('A place name looks like it includes extra words');
+  }
+
+  const returnJourney = returnClause.match || roundTrip
+    ? parseReturnClause(returnClause.match?.[1] || '', preferences.time, now, ambiguities)
+    : undefined;
+
+  const unambiguous = ambiguities.length === 0;
+  const placeConfidence = unambiguous ? 0.9 : 0.6;
+
+  const intent: NLPJourneyIntent = {
+    type: 'journey_planning',
+    rawQuery,
+    intent_confidence: unambiguous ? 0.85 : 0.5,
+    journey: {
+      from: fromName
+        ? { name: fromName, confidence: placeConfidence }
+        : { useCurrentLocation: true, confidence: placeConfidence },
+      to: { name: toName, confidence: placeConfidence },
+      ...(vias.length > 0 ? { via: vias.map((name) => ({ name, confidence: placeConfidence })) } : {}),
+      ...(Object.keys(preferences).length > 0 ? { preferences } : {}),
+      ...(returnJourney ? { returnJourney } : {}),
+    },
+  };
+
+  // Leave ambiguities off the intent: the rule parser is a best effort, not a reason to stop and ask
+  return { intent, unambiguous };
+};
+
+// Recognises questions about one station's facilities or accessibility ("Does Stratford have toilets?",
+// "Is Green Park step-free?"). Returns null for anything that looks like a journey.
+export const parseStationQueryWithRules = (query: string): RuleParseResult | null => {
+  const rawQuery = String(query || '').trim();
+  if (!rawQuery || JOURNEY_MARKER_PATTERN.test(rawQuery)) return null;
+
+  let working = rawQuery.replace(/[?!.]+$/g, '');
+  const topics: StationTopic[] = [];
+  const facilityWords: string[] = [];
+
+  for (const { topic, pattern } of STATION_TOPIC_PATTERNS) {
+    pattern.lastIndex = 0;
+    const matches = working.match(pattern);
+    if (!matches) continue;
+    topics.push(topic);
+    facilityWords.push(...matches.map((match) => match.toLowerCase()));
+    working = working.replace(pattern, ' ');
+  }
+
+  if (topics.length === 0) return null;
+
+  const station = cleanName(working.replace(STATION_QUESTION_WORDS, ' ').replace(/[,?]/g, ' ').replace(/\s+/g, ' '));
+  if (!station) return null;
+
+  const tooLong = station.split(/\s+/).length > 5;
+  const intent: NLPJourneyIntent = {
+    type: topics.some((topic) => ACCESSIBILITY_TOPICS.includes(topic)) ? 'accessibility_info' : 'station_info',
+    rawQuery,
+    intent_confidence: tooLong ? 0.5 : 0.85,
+    stationQuery: {
+      station,
+      facilities: Array.from(new Set(facilityWords)),
+    },
+  };
+
+  return { intent, unambiguous: !tooLong };
+};
+
+// Recognises service status questions ("Is the Northern line running?", "Any delays on the DLR?"). Which lines
+// they mean is left to the status matcher, which knows the current line list.
+export const parseStatusQueryWithRules = (query: string): RuleParseResult | null => {
+  const rawQuery = String(query || '').trim();
+  if (!rawQuery || !STATUS_PATTERN.test(rawQuery) || JOURNEY_MARKER_PATTERN.test(rawQuery)) return null;
+
+  const [mode] = extractModesFromQuery(rawQuery);
+  const intent: NLPJourneyIntent = {
+    type: 'status_query',
+    rawQuery,
+    intent_confidence: 0.85,
+    statusQuery: mode ? { mode } : {},
+  };
+
+  return { intent, unambiguous: true };
+};
+
+// Applies a follow-up ("actually leave at 8", "avoid the Central line", "and back again at 6pm") to the previous
+// journey intent. "And back" adds a return journey; "the other way round" replaces the journey with its reverse. Returns null when the follow-up changes nothing the rules understand, or names a whole new
+// journey, so the caller can fall back to the LLM or a fresh parse.
+export const refineJourneyIntentWithRules = (
+  previous: NLPJourneyIntent,
+  followUp: string,
+  now: Date = new Date()
+): RuleParseResult | null => {
+  const rawQuery = String(followUp || '').trim();
+  if (!rawQuery || previous.type !== 'journey_planning' || !previous.journey) return null;
+  if (JOURNEY_MARKER_PATTERN.test(rawQuery)) return null;
+
+  const normalized = rawQuery.replace(/[?!.]+$/g, '').replace(/\s+/g, ' ');
+  const reverse = REVERSE_PATTERN.test(normalized);
+  const addsReturn = !reverse && RETURN_PATTERN.test(normalized);
+  // A time given with "and back" is when the traveller comes back, read relative to the outbound time
+  const outboundTime = previous.journey.preferences?.time?.datetime;
+  const { preferences: changes, ambiguities, rest } = takePreferences(
+    normalized,
+    addsReturn && outboundTime ? new Date(outboundTime) : now
+  );
+  const returnTrip = takeMatch(rest, reverse ? REVERSE_PATTERN : RETURN_PATTERN);
+  const working = returnTrip.rest
+    .replace(/\binstead\b/gi, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(FOLLOW_UP_FILLER_PATTERN, '')
+    .replace(FILLER_PATTERN, '')
+    .trim();
+  const { lead, segments } = splitSegments(working);
+
+  let journey: JourneyInfo = { ...previous.journey };
+  const preferences: JourneyPreferences = { ...previous.journey.preferences };
+  let changed = Object.keys(changes).length > 0;
+
+  if (returnTrip.match && addsReturn) {
+    journey = { ...journey, returnJourney: changes.time ? { time: changes.time } : {} };
+    delete changes.time;
+    changed = true;
+  } else if (returnTrip.match) {
+    if (!journey.from?.name) ambiguities.push('Where the reversed journey ends is unknown');
+    const { returnJourney: _returnJourney, ...oneWay } = journey;
+    journey = {
+      ...oneWay,
+      from: journey.to,
+      to: journey.from,
+      ...(journey.via ? { via: journey.via.slice().reverse() } : {}),
+    };
+    // The outbound time says nothing about when the traveller travels the other way
+    if (!changes.time) delete preferences.time;
+    changed = true;
+  }
+  Object.assign(preferences, changes);
+
+  for (const segment of segments) {
+    const name = cleanName(segment.text);
+    switch (segment.marker) {
+      case 'from':
+      case 'to': {
+        if (!name) {
+          ambiguities.push(`Did not understand "${segment.keyword}"`);
+          break;
+        }
+        journey = { ...journey, [segment.marker]: { name, confidence: 0.9 } };
+        changed = true;
+        break;
+      }
+      case 'via': {
+        journey = { ...journey, via: splitList(segment.text).map((via) => ({ name: via, confidence: 0.9 })) };
+        changed = true;
+        break;
+      }
+      case 'avoid': {
+        preferences.avoid = Array.from(new Set([...(preferences.avoid || []), ...splitList(segment.text)]));
+        changed = true;
+        break;
+      }
+      case 'mode': {
+        const found = modesInText(segment.text);
+        const namedLines = linesInText(segment.text);
+        if (found.length > 0) {
+          preferences.mode = found;
+          preferences.modePolicy = hasOnlyConstraint(rawQuery) ? 'only' : 'prefer';
+          changed = true;
+        } else if (namedLines.length > 0) {
+          preferences.lines = namedLines.map((line) => line.id);
+          const lineModes = namedLines.map((line) => line.mode).filter((mode): mode is string => !!mode);
+          if (lineModes.length > 0) {
+            preferences.mode = Array.from(new Set(lineModes));
+            preferences.modePolicy = hasOnlyConstraint(rawQuery) ? 'only' : 'prefer';
+          }
+          changed = true;
+        } else if (name) {
+          ambiguities.push(`Did not understand "${segment.keyword} ${segment.text}"`);
+        }
+        break;
+      }
+    }
+  }
+
+  // A bare mode ("tube only") is a mode change; any other leftover words are not understood
+  const leadModes = modesInText(lead);
+  if (leadModes.length > 0) {
+    preferences.mode = leadModes;
+    preferences.modePolicy = hasOnlyConstraint(rawQuery) ? 'only' : 'prefer';
+    changed = true;
+  } else if (cleanName(lead)) {
+    ambiguities.push(`Did not understand "${cleanName(lead)}"`);
+  }
+
+  if (!changed) return null;
+
+  const unambiguous = ambiguities.length === 0;
+  const intent: NLPJourneyIntent = {
+    type: 'journey_planning',
+    rawQuery,
+    intent_confidence: unambiguous ? 0.85 : 0.5,
+    journey: { ...journey, preferences },
+  };
+
+  return { intent, unambiguous };
+};
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, isRateLimitExceededError } from './rate-limiter';
+
+// One token a second
+const limiter = (options: { capacity?: number; maxWaitMs?: number; perKey?: boolean } = {}) =>
+  new RateLimiter('Test', { requestsPerMinute: 60, capacity: 1, maxWaitMs: 5_000, ...options });
+
+// Resolves to the time the acquire settled, relative to the start
+const timed = (promise: Promise<void>) => {
+  const start = Date.now();
+  return promise.then(() => Date.now() - start);
+};
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('grants the budget, queues behind it and sheds what would wait too long', async () => {
+    const rl = limiter({ capacity: 2, maxWaitMs: 1_000 });
+
+    await rl.acquire();
+    await rl.acquire();
+    const queued = timed(rl.acquire());
+    const shed = rl.acquire().catch((error: unknown) => error);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    await expect(queued).resolves.toBe(1_000);
+    expect(isRateLimitExceededError(await shed)).toBe(true);
+    expect(rl.getUsage().buckets[0]).toMatchObject({ granted: 3, shed: 1 });
+  });
+
+  it('serves waiters in arrival order', async () => {
+    const rl = limiter();
+    const order: number[] = [];
+
+    await rl.acquire();
+    const first = rl.acquire().then(() => order.push(1));
+    const second = rl.acquire().then(() => order.push(2));
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(order).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await Promise.all([first, second]);
+    expect(order).toEqual([1, 2]);
+  });
+
+  it('does not spend a token on a shed request', async () => {
+    const rl = limiter({ maxWaitMs: 0 });
+
+    await rl.acquire();
+    await expect(rl.acquire()).rejects.toMatchObject({ status: 429, isRateLimit: true });
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(rl.hasCapacity()).toBe(true);
+  });
+
+  it('holds a waiting request back when the key is paused mid-wait', async () => {
+    const rl = limiter();
+
+    await rl.acquire();
+    const waiting = timed(rl.acquire());
+    await vi.advanceTimersByTimeAsync(500);
+    rl.pause('default', 2_000);
+
+    let settled = false;
+    void waiting.then(() => { settled = true; });
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1_500);
+    await expect(waiting).resolves.toBe(2_500);
+  });
+
+  it('sheds a waiting request once a pause runs past its deadline', async () => {
+    const rl = limiter({ maxWaitMs: 2_000 });
+
+    await rl.acquire();
+    const waiting = rl.acquire().catch((error: unknown) => error);
+    rl.pause('default', 10_000);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(isRateLimitExceededError(await waiting)).toBe(true);
+  });
+
+  it('shares one budget across keys unless configured per key', async () => {
+    const shared = limiter({ maxWaitMs: 0 });
+    await shared.acquire('key-a');
+    expect(shared.hasCapacity('key-b')).toBe(false);
+    await expect(shared.acquire('key-b')).rejects.toMatchObject({ isRateLimit: true });
+
+    const perKey = limiter({ maxWaitMs: 0, perKey: true });
+    await perKey.acquire('key-a');
+    await expect(perKey.acquire('key-b')).resolves.toBeUndefined();
+    expect(perKey.getUsage().perKey).toBe(true);
+  });
+
+  it('pauses one key without holding back the others', async () => {
+    const rl = limiter({ capacity: 2, maxWaitMs: 0 });
+
+    rl.pause('key-a', 10_000);
+    await expect(rl.acquire('key-a')).rejects.toMatchObject({ isRateLimit: true });
+    await expect(rl.acquire('key-b')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,224 @@
+import { config } from './config';
+
+// Token-bucket limiter that keeps our upstream calls inside config.rateLimit budgets. Each limiter holds one
+// bucket per key (e.g. one per TfL API key) so a key can be paused when it gets a 429. The tokens are either
+// the key's own (perKey) or one pool every key draws from, so extra keys never add budget unless configured to.
+
+interface TokenPool {
+  tokens: number;
+  lastRefill: number;
+  // Waiters in arrival order; a waiter takes a token only once those ahead of it have been served
+  waiting: object[];
+}
+
+interface Bucket {
+  pool: TokenPool;
+  pausedUntil: number;
+  queued: number;
+  granted: number;
+  shed: number;
+}
+
+export interface RateLimitBucketUsage {
+  key: string;
+  availableTokens: number;
+  queued: number;
+  granted: number;
+  shed: number;
+  pausedForMs: number;
+}
+
+export interface RateLimiterUsage {
+  name: string;
+  requestsPerMinute: number;
+  capacity: number;
+  maxWaitMs: number;
+  perKey: boolean;
+  buckets: RateLimitBucketUsage[];
+}
+
+// Shaped like TflClientError so existing rate-limit detection treats a shed request like an upstream 429
+export interface RateLimitExceededError extends Error {
+  status: number;
+  isRateLimit: true;
+  retryAfterMs: number;
+  limiter: string;
+}
+
+type RateLimiterOptions = {
+  requestsPerMinute: number;
+  // Bucket size; defaults to a full minute's budget
+  capacity?: number;
+  // Requests that would wait longer than this are rejected instead of queued
+  maxWaitMs?: number;
+  // Give each key its own budget rather than sharing one across all keys; off by default
+  perKey?: boolean;
+};
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Keys are often API keys; never surface them in debug output
+const maskKey = (key: string): string => (key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-2)}` : key);
+
+class RateLimiter {
+  readonly name: string;
+  private requestsPerMinute: number;
+  private capacity: number;
+  private maxWaitMs: number;
+  private perKey: boolean;
+  private sharedPool: TokenPool;
+  private buckets = new Map<string, Bucket>();
+
+  constructor(name: string, options: RateLimiterOptions) {
+    this.name = name;
+    this.requestsPerMinute = Math.max(1, options.requestsPerMinute);
+    this.capacity = Math.max(1, options.capacity ?? this.requestsPerMinute);
+    this.maxWaitMs = Math.max(0, options.maxWaitMs ?? config.rateLimit.maxQueueMs);
+    this.perKey = options.perKey ?? false;
+    this.sharedPool = this.createPool();
+  }
+
+  private get refillPerMs(): number {
+    return this.requestsPerMinute / 60_000;
+  }
+
+  private createPool(): TokenPool {
+    return { tokens: this.capacity, lastRefill: Date.now(), waiting: [] };
+  }
+
+  private bucket(key: string): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        pool: this.perKey ? this.createPool() : this.sharedPool,
+        pausedUntil: 0,
+        queued: 0,
+        granted: 0,
+        shed: 0,
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    this.refill(bucket.pool);
+    return bucket;
+  }
+
+  private refill(pool: TokenPool): void {
+    const now = Date.now();
+    pool.tokens = Math.min(this.capacity, pool.tokens + (now - pool.lastRefill) * this.refillPerMs);
+    pool.lastRefill = now;
+  }
+
+  // How long until a request with `ahead` waiters in front of it could take a token
+  private waitTime(bucket: Bucket, ahead: number): number {
+    const pausedFor = Math.max(0, bucket.pausedUntil - Date.now());
+    const deficit = ahead + 1 - bucket.pool.tokens;
+    const refillWait = deficit > 0 ? Math.ceil(deficit / this.refillPerMs) : 0;
+    return Math.max(pausedFor, refillWait);
+  }
+
+  // True when a request for this key would go out immediately
+  hasCapacity(key: string = 'default'): boolean {
+    const bucket = this.bucket(key);
+    return this.waitTime(bucket, bucket.pool.waiting.length) === 0;
+  }
+
+  // Take a token, waiting in line when the budget is empty or the key is paused. The token is only taken once
+  // the wait is over, and the pause and budget are checked again after every sleep, so a pause that arrives
+  // mid-wait holds the request back and a request shed for waiting too long leaves the budget untouched.
+  async acquire(key: string = 'default', maxWaitMs: number = this.maxWaitMs): Promise<void> {
+    const deadline = Date.now() + maxWaitMs;
+    const bucket = this.bucket(key);
+    const ticket = {};
+    bucket.pool.waiting.push(ticket);
+
+    try {
+      for (;;) {
+        this.refill(bucket.pool);
+        const waitMs = this.waitTime(bucket, bucket.pool.waiting.indexOf(ticket));
+        if (waitMs === 0) {
+          bucket.pool.tokens -= 1;
+          bucket.granted += 1;
+          return;
+        }
+
+        if (Date.now() + waitMs > deadline) {
+          bucket.shed += 1;
+          throw this.exhaustedError(waitMs);
+        }
+
+        bucket.queued += 1;
+        try {
+          await sleep(waitMs);
+        } finally {
+          bucket.queued -= 1;
+        }
+      }
+    } finally {
+      const { waiting } = bucket.pool;
+      waiting.splice(waiting.indexOf(ticket), 1);
+    }
+  }
+
+  // Stop handing out tokens for a key, e.g. after the upstream answered 429 with Retry-After
+  pause(key: string = 'default', durationMs: number): void {
+    const bucket = this.bucket(key);
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + Math.max(0, durationMs));
+  }
+
+  private exhaustedError(waitMs: number): RateLimitExceededError {
+    const error = new Error(
+      `${this.name} rate limit budget exhausted (${this.requestsPerMinute}/min); retry in ${Math.ceil(waitMs / 1000)}s`
+    ) as RateLimitExceededError;
+    error.name = 'RateLimitExceededError';
+    error.status = 429;
+    error.isRateLimit = true;
+    error.retryAfterMs = waitMs;
+    error.limiter = this.name;
+    return error;
+  }
+
+  getUsage(): RateLimiterUsage {
+    const now = Date.now();
+    const buckets: RateLimitBucketUsage[] = [];
+    this.buckets.forEach((_bucket, key) => {
+      const bucket = this.bucket(key);
+      buckets.push({
+        key: maskKey(key),
+        availableTokens: Math.max(0, Math.floor(bucket.pool.tokens)),
+        queued: bucket.queued,
+        granted: bucket.granted,
+        shed: bucket.shed,
+        pausedForMs: Math.max(0, bucket.pausedUntil - now),
+      });
+    });
+
+    return {
+      name: this.name,
+      requestsPerMinute: this.requestsPerMinute,
+      capacity: this.capacity,
+      maxWaitMs: this.maxWaitMs,
+      perKey: this.perKey,
+      buckets,
+    };
+  }
+}
+
+export const isRateLimitExceededError = (error: unknown): error is RateLimitExceededError =>
+  error instanceof Error && error.name === 'RateLimitExceededError';
+
+// Shared limiters, one per upstream service
+export const rateLimiters = {
+  tfl: new RateLimiter('TfL', {
+    requestsPerMinute: config.rateLimit.tflRequestsPerMinute,
+    perKey: config.rateLimit.tflBudgetPerKey,
+  }),
+  azure: new RateLimiter('Azure OpenAI', { requestsPerMinute: config.rateLimit.azureRequestsPerMinute }),
+  geocoding: new RateLimiter('Geocoding', { requestsPerMinute: config.rateLimit.geocodingRequestsPerMinute }),
+};
+
+export const getRateLimitUsage = (): RateLimiterUsage[] =>
+  Object.values(rateLimiters).map((limiter) => limiter.getUsage());
+
+// Export the class for testing purposes
+export { RateLimiter };
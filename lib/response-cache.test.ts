@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryCacheStore, ResponseCache, type CacheEntry } from './response-cache';
+
+// A memory store whose reads take a while, as a remote store's do
+class SlowStore extends MemoryCacheStore {
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    return super.get<T>(key);
+  }
+}
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs one load for concurrent callers while the cache read is in progress', async () => {
+    const cache = new ResponseCache(new SlowStore());
+    const loader = vi.fn(async () => 'arrivals');
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => cache.getOrLoad('key', loader, { ttlMs: 1000, group: 'arrivals' }))
+    );
+
+    expect(results).toEqual(Array(5).fill('arrivals'));
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(cache.getMetrics().byGroup.arrivals).toMatchObject({ misses: 1, coalesced: 4, hits: 0 });
+  });
+
+  it('serves later callers from the cache until the entry expires', async () => {
+    vi.useFakeTimers();
+    try {
+      const cache = new ResponseCache(new MemoryCacheStore());
+      const loader = vi.fn(async () => 'status');
+
+      await cache.getOrLoad('key', loader, { ttlMs: 1000 });
+      await cache.getOrLoad('key', loader, { ttlMs: 1000 });
+      expect(loader).toHaveBeenCalledTimes(1);
+      expect(cache.getMetrics()).toMatchObject({ hits: 1, misses: 1 });
+
+      vi.advanceTimersByTime(1001);
+      await cache.getOrLoad('key', loader, { ttlMs: 1000 });
+      expect(loader).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('lets the next caller retry after a failed load', async () => {
+    const cache = new ResponseCache(new MemoryCacheStore());
+    const loader = vi.fn()
+      .mockRejectedValueOnce(new Error('TfL down'))
+      .mockResolvedValueOnce('status');
+
+    await expect(cache.getOrLoad('key', loader, { ttlMs: 1000 })).rejects.toThrow('TfL down');
+    await expect(cache.getOrLoad('key', loader, { ttlMs: 1000 })).resolves.toBe('status');
+  });
+
+  it('falls back to the loader when the store fails', async () => {
+    const store = new MemoryCacheStore();
+    vi.spyOn(store, 'get').mockRejectedValue(new Error('store down'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const cache = new ResponseCache(store);
+
+    await expect(cache.getOrLoad('key', async () => 'status', { ttlMs: 1000 })).resolves.toBe('status');
+    expect(cache.getMetrics().errors).toBe(1);
+  });
+});
@@ -0,0 +1,268 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+import { getServiceSupabase } from './supabase-server';
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number; // epoch ms
+}
+
+// Storage backend for ResponseCache. Implementations may be remote, so every call is async.
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  errors: number;
+  evictions: number;
+}
+
+export interface CacheMetricsSnapshot extends CacheMetrics {
+  store: string;
+  size?: number;
+  hitRate: number;
+  byGroup: Record<string, CacheMetrics>;
+}
+
+const emptyMetrics = (): CacheMetrics => ({ hits: 0, misses: 0, coalesced: 0, errors: 0, evictions: 0 });
+
+class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+  private onEvict?: () => void;
+
+  constructor(maxEntries: number = 500, onEvict?: () => void) {
+    this.maxEntries = Math.max(1, maxEntries);
+    this.onEvict = onEvict;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Map keeps insertion order, so re-inserting marks the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.onEvict?.();
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// Shared cache across serverless instances, backed by the Supabase table `api_response_cache`
+class SupabaseCacheStore implements CacheStore {
+  readonly name = 'supabase';
+  private supabaseClient?: SupabaseClient;
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabaseClient = supabaseClient;
+  }
+
+  private get supabase(): SupabaseClient {
+    return this.supabaseClient ?? getServiceSupabase();
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const { data, error } = await this.supabase
+      .from('api_response_cache')
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) return undefined;
+
+    return {
+      value: data.value as T,
+      expiresAt: new Date(data.expires_at as string).getTime(),
+    };
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const { error } = await this.supabase.from('api_response_cache').upsert({
+      key,
+      value: entry.value,
+      expires_at: new Date(entry.expiresAt).toISOString(),
+    });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.supabase.from('api_response_cache').delete().eq('key', key);
+    if (error) {
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    const { error } = await this.supabase.from('api_response_cache').delete().neq('key', '');
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+type LoadOptions = {
+  ttlMs: number;
+  // Bucket for per-resource metrics, e.g. "arrivals" or "stop-search"
+  group?: string;
+};
+
+class ResponseCache {
+  private store: CacheStore;
+  private inflight = new Map<string, Promise<unknown>>();
+  private totals: CacheMetrics = emptyMetrics();
+  private groups = new Map<string, CacheMetrics>();
+
+  constructor(store?: CacheStore) {
+    this.store = store ?? new MemoryCacheStore(config.cache.maxEntries, () => this.record('evictions'));
+  }
+
+  // Return a cached value, or run the loader once for all concurrent callers asking for the same key
+  async getOrLoad<T>(key: string, loader: () => Promise<T>, options: LoadOptions): Promise<T> {
+    const { ttlMs, group = 'default' } = options;
+    if (ttlMs <= 0) {
+      return loader();
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.record('coalesced', group);
+      return pending as Promise<T>;
+    }
+
+    // The cache read sits inside the shared promise, so callers arriving while it is in progress join it
+    // rather than each reading and loading
+    const request = (async () => {
+      try {
+        const cached = await this.read<T>(key, group);
+        if (cached) {
+          this.record('hits', group);
+          return cached.value;
+        }
+
+        this.record('misses', group);
+        const value = await loader();
+        await this.write(key, { value, expiresAt: Date.now() + ttlMs }, group);
+        return value;
+      } finally {
+        this.inflight.delete(key);
+      }
+    })();
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  async invalidate(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+    this.resetMetrics();
+  }
+
+  getMetrics(): CacheMetricsSnapshot {
+    const lookups = this.totals.hits + this.totals.misses;
+    const byGroup: Record<string, CacheMetrics> = {};
+    this.groups.forEach((metrics, group) => {
+      byGroup[group] = { ...metrics };
+    });
+
+    return {
+      ...this.totals,
+      store: this.store.name,
+      ...(this.store instanceof MemoryCacheStore ? { size: this.store.size } : {}),
+      hitRate: lookups > 0 ? this.totals.hits / lookups : 0,
+      byGroup,
+    };
+  }
+
+  resetMetrics(): void {
+    this.totals = emptyMetrics();
+    this.groups.clear();
+  }
+
+  private async read<T>(key: string, group: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const entry = await this.store.get<T>(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await this.store.delete(key);
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      // A broken cache backend should never take the API down with it
+      this.record('errors', group);
+      console.warn('Response cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  private async write<T>(key: string, entry: CacheEntry<T>, group: string): Promise<void> {
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.record('errors', group);
+      console.warn('Response cache write failed:', error);
+    }
+  }
+
+  private record(metric: keyof CacheMetrics, group?: string): void {
+    this.totals[metric] += 1;
+    if (!group) return;
+    const metrics = this.groups.get(group) ?? emptyMetrics();
+    metrics[metric] += 1;
+    this.groups.set(group, metrics);
+  }
+}
+
+const createStore = (): CacheStore | undefined => {
+  if (config.cache.store === 'supabase') {
+    return new SupabaseCacheStore();
+  }
+  return undefined;
+};
+
+// Shared cache for TfL responses
+export const tflResponseCache = new ResponseCache(createStore());
+
+// Export classes for testing purposes
+export { ResponseCache, MemoryCacheStore, SupabaseCacheStore };
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SavedJourney } from '@/types';
+import { mergeSavedJourneys } from './saved-journeys';
+import { getServiceSupabase } from './supabase-server';
+
+// Synced copies of saved journeys, one row per journey in the Supabase table `saved_journeys`
+// (user_id text, id text, journey jsonb, updated_at timestamptz, primary key (user_id, id)). The user id is the
+// account id when signed in, otherwise `anon:` and the random sync code a browser generates: anyone with the code
+// shares the list, as a second device does.
+
+type SavedJourneyRow = {
+  id: string;
+  journey: SavedJourney;
+  updated_at: string;
+};
+
+const versionOf = (journey: SavedJourney) => journey.updatedAt ?? journey.timestamp;
+
+export async function loadSavedJourneys(userId: string, supabaseClient?: SupabaseClient): Promise<SavedJourney[]> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { data, error } = await supabase
+    .from('saved_journeys')
+    .select('id, journey, updated_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as SavedJourneyRow[]).map((row) => row.journey);
+}
+
+// Merges a device's list into the stored one and returns the result for the device to keep. Only journeys the
+// device changed are written; tombstones that have expired are deleted.
+export async function syncSavedJourneys(
+  userId: string,
+  journeys: SavedJourney[],
+  supabaseClient?: SupabaseClient
+): Promise<SavedJourney[]> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const stored = await loadSavedJourneys(userId, supabase);
+  const merged = mergeSavedJourneys(journeys, stored);
+
+  const storedVersions = new Map(stored.map((journey) => [journey.id, versionOf(journey)]));
+  const changed = merged.filter((journey) => storedVersions.get(journey.id) !== versionOf(journey));
+  if (changed.length > 0) {
+    const { error } = await supabase.from('saved_journeys').upsert(
+      changed.map((journey) => ({
+        user_id: userId,
+        id: journey.id,
+        journey,
+        updated_at: new Date(versionOf(journey)).toISOString(),
+      })),
+      { onConflict: 'user_id,id' }
+    );
+    if (error) {
+      throw error;
+    }
+  }
+
+  const keptIds = new Set(merged.map((journey) => journey.id));
+  const expired = stored.filter((journey) => !keptIds.has(journey.id)).map((journey) => journey.id);
+  if (expired.length > 0) {
+    const { error } = await supabase.from('saved_journeys').delete().eq('user_id', userId).in('id', expired);
+    if (error) {
+      console.error('Failed to delete expired saved journeys:', error);
+    }
+  }
+
+  return merged;
+}
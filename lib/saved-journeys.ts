@@ -0,0 +1,206 @@
+import type { JourneyLine, PinnedPlace, SavedJourney } from '@/types';
+
+// Saved journeys and favourites: routes the traveller starred from the results, kept in the browser and optionally
+// synced between devices through /api/saved-journeys. Pure functions, safe to import from client components.
+
+export const MAX_SAVED_JOURNEYS = 50;
+
+// Removals are remembered this long so every device has a chance to hear about them
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// The resolved route of a result, as returned in DirectionPlan.search and its names
+export type SavableRoute = {
+  from: { location: string; name?: string };
+  to: { location: string; name?: string };
+  vias: Array<{ location: string; name?: string }>;
+  // Lines of the option on screen, kept for commute alerts
+  lines?: JourneyLine[];
+};
+
+const versionOf = (journey: SavedJourney) => journey.updatedAt ?? journey.timestamp;
+
+const routeKey = (journey: Pick<SavedJourney, 'from' | 'to' | 'via'>) =>
+  [journey.from, ...(journey.via || []), journey.to].join('>');
+
+const randomId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const defaultJourneyName = (journey: Pick<SavedJourney, 'fromName' | 'toName'>): string =>
+  `${journey.fromName} → ${journey.toName}`;
+
+export const savedJourneyName = (journey: SavedJourney): string => journey.name?.trim() || defaultJourneyName(journey);
+
+// Saved journeys still in use: favourites in their order first, then the rest newest first
+export const visibleSavedJourneys = (journeys: SavedJourney[]): SavedJourney[] => {
+  const live = journeys.filter((journey) => !journey.deletedAt);
+  const favourites = live
+    .filter((journey) => journey.isFavorite)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || b.timestamp - a.timestamp);
+  const others = live.filter((journey) => !journey.isFavorite).sort((a, b) => b.timestamp - a.timestamp);
+  return [...favourites, ...others];
+};
+
+export const findSavedRoute = (journeys: SavedJourney[], route: SavableRoute): SavedJourney | undefined => {
+  const key = routeKey({ from: route.from.location, to: route.to.location, via: route.vias.map((via) => via.location) });
+  return journeys.find((journey) => !journey.deletedAt && routeKey(journey) === key);
+};
+
+// Saving a route already saved renames it (and takes the lines of the option now shown) instead of adding a copy.
+// New saves are favourites, at the end.
+export const saveRoute = (
+  journeys: SavedJourney[],
+  route: SavableRoute,
+  name?: string,
+  now: number = Date.now()
+): SavedJourney[] => {
+  const existing = findSavedRoute(journeys, route);
+  if (existing) {
+    return updateJourney(journeys, existing.id, () => ({
+      name: (name ?? existing.name ?? '').trim() || undefined,
+      ...(route.lines?.length ? { lines: route.lines } : {}),
+    }), now);
+  }
+
+  const favourites = journeys.filter((journey) => journey.isFavorite && !journey.deletedAt);
+  const saved: SavedJourney = {
+    id: randomId(),
+    from: route.from.location,
+    to: route.to.location,
+    fromName: route.from.name || route.from.location,
+    toName: route.to.name || route.to.location,
+    ...(route.vias.length > 0
+      ? { via: route.vias.map((via) => via.location), viaNames: route.vias.map((via) => via.name || via.location) }
+      : {}),
+    ...(name?.trim() ? { name: name.trim() } : {}),
+    ...(route.lines?.length ? { lines: route.lines } : {}),
+    timestamp: now,
+    isFavorite: true,
+    position: favourites.reduce((max, journey) => Math.max(max, (journey.position ?? 0) + 1), 0),
+    updatedAt: now,
+  };
+
+  // Drop the oldest non-favourites once the list is full
+  const visible = visibleSavedJourneys([...journeys, saved]);
+  const kept = new Set(visible.slice(0, MAX_SAVED_JOURNEYS).map((journey) => journey.id));
+  return [...journeys, saved].map((journey) =>
+    journey.deletedAt || kept.has(journey.id) ? journey : { ...journey, deletedAt: now, updatedAt: now }
+  );
+};
+
+const updateJourney = (
+  journeys: SavedJourney[],
+  id: string,
+  patch: (journey: SavedJourney) => Partial<SavedJourney>,
+  now: number
+): SavedJourney[] =>
+  journeys.map((journey) => (journey.id === id ? { ...journey, ...patch(journey), updatedAt: now } : journey));
+
+export const renameSavedJourney = (journeys: SavedJourney[], id: string, name: string, now: number = Date.now()) =>
+  updateJourney(journeys, id, () => ({ name: name.trim() || undefined }), now);
+
+export const toggleFavorite = (journeys: SavedJourney[], id: string, now: number = Date.now()) => {
+  const end = journeys.reduce((max, journey) => Math.max(max, (journey.position ?? 0) + 1), 0);
+  return updateJourney(journeys, id, (journey) => ({ isFavorite: !journey.isFavorite, position: end }), now);
+};
+
+export const removeSavedJourney = (journeys: SavedJourney[], id: string, now: number = Date.now()) =>
+  updateJourney(journeys, id, () => ({ deletedAt: now }), now);
+
+// Moves a favourite up (negative) or down (positive) the list, renumbering the favourites that changed place
+export const moveFavorite = (journeys: SavedJourney[], id: string, offset: number, now: number = Date.now()) => {
+  const favourites = visibleSavedJourneys(journeys).filter((journey) => journey.isFavorite);
+  const from = favourites.findIndex((journey) => journey.id === id);
+  const to = Math.min(favourites.length - 1, Math.max(0, from + offset));
+  if (from < 0 || from === to) return journeys;
+
+  const reordered = [...favourites];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+
+  const positions = new Map(reordered.map((journey, index) => [journey.id, index]));
+  return journeys.map((journey) => {
+    const position = positions.get(journey.id);
+    return position === undefined || position === journey.position ? journey : { ...journey, position, updatedAt: now };
+  });
+};
+
+// Two copies of the list (this device and the synced one): the most recent change to each journey wins, and
+// tombstones past their time are dropped
+export const mergeSavedJourneys = (
+  local: SavedJourney[],
+  remote: SavedJourney[],
+  now: number = Date.now()
+): SavedJourney[] => {
+  const merged = new Map<string, SavedJourney>();
+  [...remote, ...local].forEach((journey) => {
+    const current = merged.get(journey.id);
+    if (!current || versionOf(journey) >= versionOf(current)) merged.set(journey.id, journey);
+  });
+
+  const journeys: SavedJourney[] = [];
+  merged.forEach((journey) => {
+    if (!journey.deletedAt || now - journey.deletedAt < TOMBSTONE_TTL_MS) journeys.push(journey);
+  });
+  return journeys;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && value.length <= 200;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isLineList = (value: unknown): value is JourneyLine[] =>
+  Array.isArray(value) && value.every((line) => !!line && isString(line.id) && isString(line.name));
+
+// Saved journeys from storage or a request body, keeping only well-formed entries
+export const sanitizeSavedJourneys = (value: unknown): SavedJourney[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is SavedJourney =>
+      !!item
+      && typeof item === 'object'
+      && isString(item.id)
+      && isString(item.from)
+      && isString(item.to)
+      && isString(item.fromName)
+      && isString(item.toName)
+      && isNumber(item.timestamp)
+      && (item.via === undefined || isStringList(item.via))
+      && (item.viaNames === undefined || isStringList(item.viaNames))
+      && (item.name === undefined || typeof item.name === 'string')
+      && (item.lines === undefined || isLineList(item.lines))
+    )
+    .slice(0, MAX_SAVED_JOURNEYS * 4)
+    .map((item) => ({
+      id: item.id,
+      from: item.from,
+      to: item.to,
+      fromName: item.fromName,
+      toName: item.toName,
+      ...(item.via ? { via: item.via } : {}),
+      ...(item.viaNames ? { viaNames: item.viaNames } : {}),
+      ...(item.name ? { name: item.name.slice(0, 80) } : {}),
+      ...(item.lines ? { lines: item.lines.slice(0, 20).map((line) => ({ id: line.id, name: line.name })) } : {}),
+      timestamp: item.timestamp,
+      ...(item.isFavorite ? { isFavorite: true } : {}),
+      ...(isNumber(item.position) ? { position: item.position } : {}),
+      ...(isNumber(item.updatedAt) ? { updatedAt: item.updatedAt } : {}),
+      ...(isNumber(item.deletedAt) ? { deletedAt: item.deletedAt } : {}),
+    }));
+};
+
+// The places of a saved journey, pinned so a replan uses them without searching again
+export const savedJourneyRequest = (journey: SavedJourney): { from: string; to: string; via?: string[]; pinnedPlaces: PinnedPlace[] } => {
+  const viaNames = journey.viaNames || [];
+  const vias = (journey.via || []).map((location, index) => ({ location, name: viaNames[index] || location }));
+  return {
+    from: journey.fromName,
+    to: journey.toName,
+    ...(vias.length > 0 ? { via: vias.map((via) => via.name) } : {}),
+    pinnedPlaces: [
+      { role: 'from', location: journey.from, name: journey.fromName },
+      { role: 'to', location: journey.to, name: journey.toName },
+      ...vias.map((via, index): PinnedPlace => ({ role: 'via', index, location: via.location, name: via.name })),
+    ],
+  };
+};
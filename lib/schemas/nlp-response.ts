@@ -22,6 +22,7 @@ export interface JourneyPreferences {
   mode?: string[]; // ["tube", "bus", "dlr", "overground", "tram", "river-bus", "walking", "national-rail"]
   accessibility?: string[]; // ["step-free-platform", "step-free-vehicle", "wheelchair", "audio", "visual"]
   avoid?: string[]; // Stations or lines to avoid
+  lines?: string[]; // TfL line ids to travel on by preference, e.g. ["central"]
   time?: TimePreference;
   walkingSpeed?: 'slow' | 'average' | 'fast';
   journeyPreference?: 'least-time' | 'least-interchange' | 'least-walking';
@@ -31,11 +32,17 @@ export interface JourneyPreferences {
   modePolicy?: 'only' | 'prefer';
 }
 
+// The way back for a round trip: from `to` to `from` through the vias in reverse, at its own time
+export interface ReturnJourneyInfo {
+  time?: TimePreference;
+}
+
 export interface JourneyInfo {
   from?: LocationInfo;
   to?: LocationInfo;
   via?: ViaLocation[];
   preferences?: JourneyPreferences;
+  returnJourney?: ReturnJourneyInfo;
 }
 
 export interface StatusQuery {
@@ -44,10 +51,16 @@ export interface StatusQuery {
   mode?: string; // Transport mode
 }
 
+export interface StationQuery {
+  station?: string; // Station the question is about
+  facilities?: string[]; // What was asked about, e.g. ["toilets", "lifts", "wifi", "step-free"]
+}
+
 export interface NLPJourneyIntent {
   type: IntentType;
   journey?: JourneyInfo;
   statusQuery?: StatusQuery;
+  stationQuery?: StationQuery;
   rawQuery: string; // Original user input
   intent_confidence: number; // Overall confidence (0-1)
   ambiguities?: string[]; // Unclear parts needing clarification
@@ -112,6 +125,10 @@ export function isStatusQueryIntent(intent: NLPJourneyIntent): boolean {
   return intent.type === "status_query" && !!intent.statusQuery;
 }
 
+export function isStationQueryIntent(intent: NLPJourneyIntent): boolean {
+  return (intent.type === "station_info" || intent.type === "accessibility_info") && !!intent.stationQuery?.station;
+}
+
 // Helper to create a default intent when parsing fails
 export function createDefaultIntent(query: string): NLPJourneyIntent {
   return {
@@ -155,12 +172,22 @@ interface NLPJourneyIntent {
         datetime?: string; // ISO 8601
       };
     };
+    returnJourney?: {
+      time?: {
+        type: "depart" | "arrive";
+        datetime?: string; // ISO 8601
+      };
+    };
   };
   statusQuery?: {
     lines?: string[];
     stations?: string[];
     mode?: string;
   };
+  stationQuery?: {
+    station?: string;
+    facilities?: string[];
+  };
   rawQuery: string;
   intent_confidence: number;
   ambiguities?: string[];
@@ -182,9 +209,13 @@ Rules:
    - If the query mentions accessibility "step-free to platform", include "step-free-platform" in journey.preferences.accessibility.
    - If it mentions "step-free to vehicle", include "step-free-vehicle" in journey.preferences.accessibility.
 9. Include additional preferences when present: walkingSpeed (slow/average/fast), journeyPreference (least-time/least-interchange/least-walking), maxWalkingMinutes, maxTransferMinutes.
-10. When a time is specified, include { time: { type, datetime }} with ISO 8601 datetime.
-11. Support one optional via station in journey.via (first only if multiple are mentioned).
-12. Return ONLY valid JSON, no additional text
+10. When a time is specified, include { time: { type, datetime }} with an ISO 8601 datetime in London local time and no offset, e.g. "<today>T18:00".
+11. List every via station in journey.via, in the order the traveller passes through them.
+12. Put anything the traveller wants to avoid in journey.preferences.avoid: line names ("Northern line"), stations ("Bank", including "don't change at Bank") or modes ("bus").
+13. Questions about what a station has (toilets, lifts, Wi-Fi, cash machines, parking, staff) are "station_info"; questions about step-free access, wheelchair access or lifts for accessibility are "accessibility_info". Put the station in stationQuery.station and what was asked about in stationQuery.facilities; omit journey.
+14. For round trips ("and back", "returning at 10pm", "return journey") describe the outbound journey in from/to/via/preferences and set journey.returnJourney, with the return's own time in journey.returnJourney.time when one is given. Leave it out for one-way journeys.
+15. Personal places ("home", "work", "my gym", "mum's") are the traveller's saved places: put the label in the name exactly as written (e.g. { name: "home" }), never expand or guess a station for it, and do not treat it as the current location.
+16. Return ONLY valid JSON, no additional text
 
 Examples (inputs → key fields):
 - "Tube only from Canary Wharf to Oxford Circus" → { journey: { from: {name:"Canary Wharf"}, to: {name:"Oxford Circus"}, preferences: { mode: ["tube"], modePolicy: "only" } } }
@@ -194,4 +225,12 @@ Examples (inputs → key fields):
 - "Step-free to vehicle from Euston to Bank" → { journey: { preferences: { accessibility: ["step-free-vehicle"] } } }
 - "National Rail from Clapham Junction to Waterloo" → { journey: { preferences: { mode: ["national-rail"] } } }
 - "Walking only from Hammersmith to Shepherd's Bush" → { journey: { preferences: { mode: ["walking"] } } }
-- "From Holborn to Liverpool Street via Farringdon" → { journey: { via: [{name:"Farringdon"}] } }`;
+- "From Holborn to Liverpool Street via Farringdon" → { journey: { via: [{name:"Farringdon"}] } }
+- "Paddington to Canary Wharf via Bond Street and then Bank" → { journey: { via: [{name:"Bond Street"},{name:"Bank"}] } }
+- "Euston to London Bridge avoiding the Northern line" → { journey: { preferences: { avoid: ["Northern line"] } } }
+- "Waterloo to Liverpool Street but don't change at Bank" → { journey: { preferences: { avoid: ["Bank"] } } }
+- "Baker Street to Wembley Park at 6pm and back at 10:30pm" → { journey: { from: {name:"Baker Street"}, to: {name:"Wembley Park"}, preferences: { time: { type: "depart", datetime: "<today>T18:00" } }, returnJourney: { time: { type: "depart", datetime: "<today>T22:30" } } } }
+- "To Wembley and back after the match" → { journey: { from: {useCurrentLocation:true}, to: {name:"Wembley"}, returnJourney: {} } }
+- "Home to work via the gym" → { journey: { from: {name:"home"}, to: {name:"work"}, via: [{name:"gym"}] } }
+- "Does Stratford have toilets?" → { type: "station_info", stationQuery: { station: "Stratford", facilities: ["toilets"] } }
+- "Is Green Park step-free?" → { type: "accessibility_info", stationQuery: { station: "Green Park", facilities: ["step-free"] } }`;
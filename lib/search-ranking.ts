@@ -8,8 +8,9 @@ const collator = new Intl.Collator('en-GB', {
 const nonWordPattern = /[^a-z0-9]+/g;
 const numericPattern = /\d+/g;
 
+// Apostrophes are dropped rather than split on, so "kings" matches "King's"
 const normalize = (value: string): string =>
-  value.toLowerCase().replace(nonWordPattern, ' ').replace(/\s+/g, ' ').trim();
+  value.toLowerCase().replace(/['’]/g, '').replace(nonWordPattern, ' ').replace(/\s+/g, ' ').trim();
 
 const tokenize = (normalized: string): string[] =>
   normalized.length === 0 ? [] : normalized.split(' ');
@@ -144,6 +145,13 @@ export const rankStopPoints = (stops: StopPoint[], query: string): StopPoint[] =
   return metadataList.map((meta) => meta.stop);
 };
 
+// How well a stop matches the query, from 1 (exact name or id) down to 0 (no match beyond sharing the result list)
+export const scoreStopPointMatch = (stop: StopPoint, query: string): number => {
+  const queryNormalized = normalize(query);
+  const priority = computePriority(buildMetadata(stop), queryNormalized, tokenize(queryNormalized), query.toLowerCase());
+  return (6 - priority) / 6;
+};
+
 export const sortLinesNaturally = <T extends Pick<Line, 'id' | 'name'>>(lines: T[] | undefined | null): T[] => {
   if (!lines || lines.length <= 1) {
     return Array.isArray(lines) ? [...lines] : [];
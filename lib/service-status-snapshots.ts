@@ -1,8 +1,9 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { LineStatus } from '@/types/tfl';
 import { config } from './config';
+import { recordStatusChanges } from './status-history-store';
 import { getServiceSupabase } from './supabase-server';
-import { TFLApiClient } from './tfl-client';
+import { TFLApiClient, tflClient } from './tfl-client';
 
 export interface StatusSnapshot {
   payload: LineStatus[];
@@ -16,14 +17,21 @@ type RefreshOptions = {
   useAutofetchKeys?: boolean;
 };
 
+// The latest snapshot, or the latest taken before a time
 export async function getLatestStatusSnapshot(
-  supabaseClient?: SupabaseClient
+  supabaseClient?: SupabaseClient,
+  before?: string
 ): Promise<StatusSnapshot | null> {
   const supabase = supabaseClient ?? getServiceSupabase();
 
-  const { data, error } = await supabase
+  let query = supabase
     .from('service_status_snapshots')
-    .select('payload, valid_at, source')
+    .select('payload, valid_at, source');
+  if (before) {
+    query = query.lt('valid_at', before);
+  }
+
+  const { data, error } = await query
     .order('valid_at', { ascending: false })
     .limit(1);
 
@@ -50,6 +58,23 @@ export function isSnapshotFresh(snapshot: StatusSnapshot | null, maxAgeMs: numbe
   return Date.now() - validAtMs <= maxAgeMs;
 }
 
+// Stores a snapshot and records how each line's status changed since the one before it. Failing to record
+// the changes leaves a gap in the history but does not fail the snapshot.
+async function insertStatusSnapshot(supabase: SupabaseClient, snapshot: StatusSnapshot): Promise<void> {
+  const { error } = await supabase.from('service_status_snapshots').insert(snapshot);
+
+  if (error) {
+    throw error;
+  }
+
+  try {
+    const previous = await getLatestStatusSnapshot(supabase, snapshot.valid_at);
+    await recordStatusChanges(previous, snapshot, supabase);
+  } catch (changeError) {
+    console.error('Failed to record status changes:', changeError);
+  }
+}
+
 export async function refreshStatusSnapshot(options: RefreshOptions = {}): Promise<StatusSnapshot> {
   const { supabaseClient, source = 'autofetch', useAutofetchKeys } = options;
   const supabase = supabaseClient ?? getServiceSupabase();
@@ -58,21 +83,60 @@ export async function refreshStatusSnapshot(options: RefreshOptions = {}): Promi
   const shouldUseAutofetch = useAutofetchKeys ?? autofetchKeys.length > 0;
   const overrideKeys = shouldUseAutofetch && autofetchKeys.length > 0 ? autofetchKeys : undefined;
 
-  const client = new TFLApiClient(overrideKeys);
+  // Snapshots are the source of truth for status, so always read TfL directly
+  const client = new TFLApiClient(overrideKeys, { cache: null });
   const payload = await client.getLineStatus();
-  const validAt = new Date().toISOString();
+  const snapshot: StatusSnapshot = { payload, valid_at: new Date().toISOString(), source };
 
-  const { error } = await supabase.from('service_status_snapshots').insert({
-    payload,
-    source,
-    valid_at: validAt,
-  });
+  await insertStatusSnapshot(supabase, snapshot);
 
-  if (error) {
-    throw error;
+  return snapshot;
+}
+
+// Snapshots older than this are refreshed before use
+const MAX_SNAPSHOT_AGE_MS = 2 * 60 * 1000;
+
+// Current status of every line: the latest snapshot when fresh, otherwise a refreshed snapshot, and as a
+// last resort a direct TfL fetch that is persisted for the next caller
+export async function getCurrentLineStatuses(supabaseClient?: SupabaseClient): Promise<LineStatus[]> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  let snapshot: StatusSnapshot | null = null;
+  try {
+    snapshot = await getLatestStatusSnapshot(supabase);
+  } catch (error) {
+    console.error('Failed to read status snapshot:', error);
   }
 
-  return { payload, valid_at: validAt, source };
-}
+  if (isSnapshotFresh(snapshot, MAX_SNAPSHOT_AGE_MS)) {
+    return (snapshot as StatusSnapshot).payload;
+  }
 
+  try {
+    await refreshStatusSnapshot({
+      supabaseClient: supabase,
+      source: 'manual-refresh',
+      useAutofetchKeys: true,
+    });
+    snapshot = await getLatestStatusSnapshot(supabase);
+  } catch (error) {
+    console.error('Status snapshot refresh error:', error);
+  }
+
+  if (isSnapshotFresh(snapshot, MAX_SNAPSHOT_AGE_MS)) {
+    return (snapshot as StatusSnapshot).payload;
+  }
 
+  const liveStatuses = await tflClient.getLineStatus();
+  try {
+    await insertStatusSnapshot(supabase, {
+      payload: liveStatuses,
+      source: 'live',
+      valid_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Failed to persist live status snapshot:', error);
+  }
+
+  return liveStatuses;
+}
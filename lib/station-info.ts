@@ -0,0 +1,267 @@
+import type { AdditionalProperty, LineStatus, StopPoint } from '@/types/tfl';
+import type {
+  StationAccessibility,
+  StationFacility,
+  StationInfo,
+  StationLine,
+  TransportMode,
+} from '@/types';
+
+// Maps TfL StopPoint additionalProperties ("Facility", "Accessibility", "Opening Time" categories) into
+// StationInfo. TfL's keys and values are free text and vary by operator, so matching is deliberately loose.
+
+type FacilityRule = {
+  type: StationFacility['type'];
+  key: RegExp;
+};
+
+const FACILITY_RULES: FacilityRule[] = [
+  { type: 'lift', key: /^lifts?$/i },
+  { type: 'toilet', key: /^(toilets?|accessible ?toilets?)$/i },
+  { type: 'wifi', key: /^wi-?fi$/i },
+  { type: 'baby-changing', key: /baby ?chang/i },
+  { type: 'waiting-room', key: /^waiting ?room/i },
+  { type: 'atm', key: /^(cash machines?|atm)/i },
+  { type: 'payphone', key: /^payphones?$/i },
+  { type: 'car-park', key: /^car ?park/i },
+  { type: 'bicycle-park', key: /^(bicycle|cycle) ?(park|storage|racks?)/i },
+];
+
+const isAffirmative = (value: string | undefined): boolean => {
+  if (!value) return false;
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) > 0;
+  return /^(yes|y|true|available|partial)/.test(trimmed);
+};
+
+const isNegative = (value: string | undefined): boolean =>
+  !!value && /^(no|n|false|none|0|not available)\b/.test(value.trim().toLowerCase());
+
+const findProperty = (properties: AdditionalProperty[], pattern: RegExp, category?: string): AdditionalProperty | undefined =>
+  properties.find((prop) => (!category || prop.category === category) && pattern.test(prop.key));
+
+// Values like "yes" or "2" say nothing beyond availability; anything longer is worth showing
+const describeValue = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed || /^(yes|no|y|n|true|false|\d+)$/i.test(trimmed)) return undefined;
+  return trimmed;
+};
+
+const mapFacilities = (properties: AdditionalProperty[]): StationFacility[] => {
+  const facilities: StationFacility[] = [];
+
+  for (const rule of FACILITY_RULES) {
+    const prop = findProperty(properties, rule.key, 'Facility') ?? findProperty(properties, rule.key);
+    if (!prop) continue;
+
+    const value = prop.value || '';
+    const count = /^\d+$/.test(value.trim()) ? Number(value.trim()) : undefined;
+    facilities.push({
+      type: rule.type,
+      available: isAffirmative(value),
+      paymentRequired: /(fee|charge|paid|£|\bp\b)/i.test(value) || undefined,
+      note: count && count > 1 ? `${count} available` : describeValue(value),
+    });
+  }
+
+  return facilities;
+};
+
+const mapStepFreeAccess = (properties: AdditionalProperty[]): StationAccessibility['stepFreeAccess'] => {
+  const stepFree = findProperty(properties, /step.?free/i, 'Accessibility')
+    ?? findProperty(properties, /^AccessViaLift$/i, 'Accessibility');
+  if (!stepFree) return 'none';
+
+  const value = stepFree.value.toLowerCase();
+  if (value.includes('partial')) return 'partial';
+  if (!isAffirmative(value)) return 'none';
+
+  // Step-free only through one entrance or to some platforms counts as partial
+  const entrance = findProperty(properties, /^SpecificEntranceRequired$/i, 'Accessibility');
+  return entrance && isAffirmative(entrance.value) ? 'partial' : 'full';
+};
+
+const mapPlatformToTrain = (properties: AdditionalProperty[]): StationAccessibility['platformToTrain'] => {
+  const gap = findProperty(properties, /(platform.?to.?train|gap)/i, 'Accessibility');
+  const value = gap?.value.toLowerCase() || '';
+  if (value.includes('level')) return 'level';
+  if (value.includes('large') || value.includes('step')) return 'large-gap';
+  return 'small-gap';
+};
+
+// "Opening Time" entries are keyed by day range, e.g. MonFri: "05:30-00:30"
+const describeOpeningHours = (properties: AdditionalProperty[]): string | undefined => {
+  const hours = properties
+    .filter((prop) => prop.category === 'Opening Time' && prop.value)
+    .map((prop) => `${prop.key.replace(/([a-z])([A-Z])/g, '$1–$2')} ${prop.value}`);
+  return hours.length > 0 ? hours.join(', ') : undefined;
+};
+
+const hasFeature = (properties: AdditionalProperty[], pattern: RegExp): boolean => {
+  const prop = findProperty(properties, pattern);
+  return !!prop && isAffirmative(prop.value);
+};
+
+const mapAccessibility = (stopPoint: StopPoint, properties: AdditionalProperty[]): StationAccessibility => {
+  const staffProp = findProperty(properties, /staff/i);
+  const isStation = stopPoint.stopType === 'NaptanMetroStation' || stopPoint.stopType === 'NaptanRailStation';
+  const entranceNote = findProperty(properties, /^SpecificEntranceInstructions$/i, 'Accessibility')?.value;
+
+  return {
+    stepFreeAccess: mapStepFreeAccess(properties),
+    platformToTrain: mapPlatformToTrain(properties),
+    audioAnnouncements: hasFeature(properties, /audio|announcement/i),
+    visualDisplays: hasFeature(properties, /(visual|display|information screen)/i),
+    tactilePlatformEdges: hasFeature(properties, /tactile/i),
+    inductionLoop: hasFeature(properties, /induction ?loop|hearing loop/i),
+    accessibleTicketMachines: hasFeature(properties, /accessible ?ticket/i),
+    staffAssistance: {
+      available: staffProp ? !isNegative(staffProp.value) : isStation,
+      hours: (staffProp && describeValue(staffProp.value)) || describeOpeningHours(properties),
+    },
+    note: entranceNote?.trim() || undefined,
+  };
+};
+
+const mapZones = (stopPoint: StopPoint, properties: AdditionalProperty[]): string[] => {
+  const zone = stopPoint.zone || findProperty(properties, /^Zone$/i)?.value || '';
+  return zone
+    .split(/[\/+,&]|\band\b/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+};
+
+export const mapStopPointToStationInfo = (stopPoint: StopPoint): StationInfo => {
+  const properties = stopPoint.additionalProperties || [];
+
+  return {
+    id: stopPoint.naptanId || stopPoint.id,
+    name: stopPoint.commonName,
+    coordinates: { lat: stopPoint.lat, lon: stopPoint.lon },
+    modes: (stopPoint.modes || []) as TransportMode[],
+    zones: mapZones(stopPoint, properties),
+    facilities: mapFacilities(properties),
+    accessibility: mapAccessibility(stopPoint, properties),
+  };
+};
+
+// Lines serving the station, annotated with the worst current status TfL reports for each
+export const mapStationLines = (stopPoint: StopPoint, statuses: LineStatus[]): StationLine[] => {
+  const statusById = new Map(statuses.map((status) => [status.id, status]));
+  const modeByLine = new Map<string, string>();
+  (stopPoint.lineModeGroups || []).forEach((group) => {
+    group.lineIdentifier.forEach((lineId) => modeByLine.set(lineId, group.modeName));
+  });
+
+  return (stopPoint.lines || []).map((line) => {
+    const status = statusById.get(line.id);
+    const worst = status?.lineStatuses
+      .slice()
+      .sort((a, b) => a.statusSeverity - b.statusSeverity)[0];
+
+    return {
+      id: line.id,
+      name: line.name,
+      modeName: status?.modeName || modeByLine.get(line.id),
+      statusSeverity: worst?.statusSeverity,
+      statusDescription: worst?.statusSeverityDescription,
+      reason: worst?.disruption?.description,
+    };
+  });
+};
+
+// What a station question can be about: a facility, or one of the accessibility features
+export type StationTopic = StationFacility['type'] | 'step-free' | 'staff';
+
+export const STATION_TOPIC_PATTERNS: Array<{ topic: StationTopic; pattern: RegExp }> = [
+  { topic: 'step-free', pattern: /\b(step[\s-]?free(?:\s+access)?|wheelchair(?:\s+access(?:ible)?)?|level\s+access|accessib(?:le|ility))\b/gi },
+  { topic: 'lift', pattern: /\b(lifts?|elevators?)\b/gi },
+  { topic: 'toilet', pattern: /\b(toilets?|loos?|restrooms?|wcs?)\b/gi },
+  { topic: 'wifi', pattern: /\b(wi-?fi|internet)\b/gi },
+  { topic: 'baby-changing', pattern: /\b(baby[\s-]?chang(?:ing|e)(?:\s+facilities)?)\b/gi },
+  { topic: 'waiting-room', pattern: /\b(waiting\s+rooms?)\b/gi },
+  { topic: 'atm', pattern: /\b(cash\s*(?:machines?|points?)|atms?)\b/gi },
+  { topic: 'payphone', pattern: /\b(pay\s?phones?)\b/gi },
+  { topic: 'bicycle-park', pattern: /\b((?:bike|bicycle|cycle)\s+(?:parking|racks?|storage))\b/gi },
+  { topic: 'car-park', pattern: /\b(car\s*park(?:ing)?|parking)\b/gi },
+  { topic: 'staff', pattern: /\b(staff(?:ed)?|staff\s+assistance|help\s+points?)\b/gi },
+];
+
+// Topics that make a question an accessibility_info question rather than station_info
+export const ACCESSIBILITY_TOPICS: StationTopic[] = ['step-free', 'lift', 'staff'];
+
+export const normalizeStationTopics = (values: string[] = []): StationTopic[] => {
+  const topics = new Set<StationTopic>();
+  for (const value of values) {
+    for (const { topic, pattern } of STATION_TOPIC_PATTERNS) {
+      pattern.lastIndex = 0;
+      if (pattern.test(value)) topics.add(topic);
+    }
+  }
+  return Array.from(topics);
+};
+
+const FACILITY_NAMES: Record<StationFacility['type'], string> = {
+  lift: 'lifts',
+  toilet: 'toilets',
+  wifi: 'Wi-Fi',
+  'baby-changing': 'baby changing facilities',
+  'waiting-room': 'a waiting room',
+  atm: 'cash machines',
+  payphone: 'payphones',
+  'car-park': 'a car park',
+  'bicycle-park': 'cycle parking',
+};
+
+const describeStepFree = (info: StationInfo): string => {
+  const { stepFreeAccess, note } = info.accessibility;
+  const base = stepFreeAccess === 'full'
+    ? `${info.name} is step-free from street to platform.`
+    : stepFreeAccess === 'partial'
+      ? `${info.name} is only partly step-free.`
+      : `${info.name} has no step-free access.`;
+  return note ? `${base} ${note}` : base;
+};
+
+const describeStaff = (info: StationInfo): string => {
+  const { available, hours } = info.accessibility.staffAssistance;
+  if (!available) return `${info.name} is not staffed.`;
+  return hours ? `Staff help is available at ${info.name} (${hours}).` : `Staff help is available at ${info.name}.`;
+};
+
+const describeFacility = (info: StationInfo, type: StationFacility['type']): string => {
+  const facility = info.facilities.find((item) => item.type === type);
+  const name = FACILITY_NAMES[type];
+  if (!facility) return `TfL has no information about ${name} at ${info.name}.`;
+  if (!facility.available) return `No, ${info.name} does not have ${name}.`;
+
+  const details = [facility.paymentRequired ? 'a charge applies' : '', facility.note || ''].filter(Boolean);
+  return `Yes, ${info.name} has ${name}${details.length > 0 ? ` (${details.join('; ')})` : ''}.`;
+};
+
+// Plain-language answer to a station question. Without specific topics, summarise what matters most for the intent.
+export const describeStationAnswer = (
+  info: StationInfo,
+  topics: StationTopic[],
+  intentType: 'station_info' | 'accessibility_info'
+): string => {
+  const selected: StationTopic[] = topics.length > 0
+    ? topics
+    : intentType === 'accessibility_info'
+      ? ['step-free', 'lift', 'staff']
+      : ['step-free', ...info.facilities.filter((item) => item.available).map((item) => item.type)];
+
+  const sentences = selected.map((topic) => {
+    if (topic === 'step-free') return describeStepFree(info);
+    if (topic === 'staff') return describeStaff(info);
+    // Stations without a lift count in "Facility" may still report lift access under "Accessibility"
+    if (topic === 'lift' && !info.facilities.some((item) => item.type === 'lift')) {
+      return info.accessibility.stepFreeAccess === 'none'
+        ? `TfL lists no lift access at ${info.name}.`
+        : `${info.name} has lift access.`;
+    }
+    return describeFacility(info, topic);
+  });
+
+  return Array.from(new Set(sentences)).join(' ');
+};
@@ -0,0 +1,37 @@
+import { tflClient, type TFLApiClient } from './tfl-client';
+import { isConfidentMatch, stopCatalogue } from './stop-catalogue';
+import { mapStationLines, mapStopPointToStationInfo } from './station-info';
+import type { StationDetail } from '@/types';
+import type { LineStatus } from '@/types/tfl';
+
+type StationTfl = Pick<TFLApiClient, 'getStopPoint' | 'getSpecificLineStatus' | 'searchStopPoints'>;
+
+// Station info plus the current status of every line serving it
+export async function loadStationDetail(stopPointId: string, tfl: StationTfl = tflClient): Promise<StationDetail> {
+  const stopPoint = await tfl.getStopPoint(stopPointId);
+  const lineIds = (stopPoint.lines || []).map((line) => line.id);
+
+  // Station details are still useful when line status is unavailable
+  let statuses: LineStatus[] = [];
+  try {
+    statuses = await tfl.getSpecificLineStatus(lineIds);
+  } catch (error) {
+    console.warn('Station line status fetch failed:', error);
+  }
+
+  return {
+    station: mapStopPointToStationInfo(stopPoint),
+    lines: mapStationLines(stopPoint, statuses),
+  };
+}
+
+// Best matching station id for a spoken name, from the local catalogue when it is confident and TfL search
+// otherwise; a catalogue guess is still used when TfL has nothing
+export async function findStationId(name: string, tfl: StationTfl = tflClient): Promise<string | null> {
+  const [match] = (await stopCatalogue.ensureLoaded()) ? stopCatalogue.search(name, { limit: 1 }) : [];
+  if (isConfidentMatch(match)) return match.stop.id;
+
+  const [stop] = await tfl.searchStopPoints(name);
+  if (stop) return stop.naptanId || stop.id;
+  return match ? match.stop.id : null;
+}
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it, vi } from 'vitest';
+import type { LineStatus } from '@/types/tfl';
+import type { StatusSnapshot } from './service-status-snapshots';
+import { recordStatusChanges } from './status-history-store';
+
+const line = (id: string, severity: number, description: string): LineStatus => ({
+  id,
+  name: id,
+  modeName: 'tube',
+  lineStatuses: [{ statusSeverity: severity, statusSeverityDescription: description }],
+} as unknown as LineStatus);
+
+const snapshot = (valid_at: string, ...payload: LineStatus[]): StatusSnapshot => ({ valid_at, source: 'autofetch', payload });
+
+// Answers the "already recorded" lookup with `recorded` and captures inserted rows
+const fakeSupabase = (recorded: Array<{ line_id: string; to_status: string }>) => {
+  const insert = vi.fn(async () => ({ error: null }));
+  const lookup: Record<string, unknown> = { select: () => lookup, in: async () => ({ data: recorded, error: null }) };
+  const gt = vi.fn(() => lookup);
+  lookup.gt = gt;
+  const supabase = { from: vi.fn(() => ({ ...lookup, insert })) } as unknown as SupabaseClient;
+  return { supabase, insert, gt };
+};
+
+describe('recordStatusChanges', () => {
+  const previous = snapshot('2026-10-19T07:00:00.000Z', line('central', 10, 'Good Service'), line('victoria', 10, 'Good Service'));
+  const next = snapshot('2026-10-19T07:01:00.000Z', line('central', 6, 'Severe Delays'), line('victoria', 9, 'Minor Delays'));
+
+  it('skips changes another writer already recorded since the previous snapshot', async () => {
+    const { supabase, insert, gt } = fakeSupabase([{ line_id: 'central', to_status: 'Severe Delays' }]);
+
+    const recorded = await recordStatusChanges(previous, next, supabase);
+
+    expect(gt).toHaveBeenCalledWith('occurred_at', previous.valid_at);
+    expect(recorded).toBe(1);
+    expect(insert).toHaveBeenCalledWith([expect.objectContaining({ line_id: 'victoria', to_status: 'Minor Delays' })]);
+  });
+
+  it('writes nothing when every change is already recorded', async () => {
+    const { supabase, insert } = fakeSupabase([
+      { line_id: 'central', to_status: 'Severe Delays' },
+      { line_id: 'victoria', to_status: 'Minor Delays' },
+    ]);
+
+    expect(await recordStatusChanges(previous, next, supabase)).toBe(0);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it('records first-seen disruptions without a lookup', async () => {
+    const { supabase, insert, gt } = fakeSupabase([]);
+
+    expect(await recordStatusChanges(null, next, supabase)).toBe(2);
+    expect(gt).not.toHaveBeenCalled();
+    expect(insert).toHaveBeenCalledWith([
+      expect.objectContaining({ line_id: 'central', from_status: null }),
+      expect.objectContaining({ line_id: 'victoria', from_status: null }),
+    ]);
+  });
+});
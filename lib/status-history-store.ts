@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StatusSnapshot } from './service-status-snapshots';
+import {
+  diffStatusSnapshots,
+  STATUS_CHANGE_RETENTION_DAYS,
+  STATUS_SNAPSHOT_RETENTION_HOURS,
+  type StatusChange,
+} from './status-history';
+import { getServiceSupabase } from './supabase-server';
+
+// Line status changes, recorded as each snapshot is stored so the full snapshots can be pruned after a day:
+//   service_status_changes (id bigserial primary key, line_id text, line_name text, mode_name text,
+//                           from_status text, to_status text, severity int, reason text,
+//                           is_good_service boolean, occurred_at timestamptz)
+// with an index on occurred_at, which service_status_snapshots also wants on valid_at.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Rows read per request when loading a long window
+const PAGE_SIZE = 1000;
+
+type ChangeRow = {
+  line_id: string;
+  line_name: string;
+  mode_name: string;
+  from_status: string | null;
+  to_status: string;
+  severity: number;
+  reason: string | null;
+  is_good_service: boolean;
+  occurred_at: string;
+};
+
+export type StatusHistoryPruneResult = {
+  snapshots: number;
+  changes: number;
+};
+
+const toRow = (change: StatusChange): ChangeRow => ({
+  line_id: change.lineId,
+  line_name: change.lineName,
+  mode_name: change.modeName,
+  from_status: change.from ?? null,
+  to_status: change.to,
+  severity: change.severity,
+  reason: change.reason ?? null,
+  is_good_service: change.isGoodService,
+  occurred_at: change.at,
+});
+
+const fromRow = (row: ChangeRow): StatusChange => ({
+  lineId: row.line_id,
+  lineName: row.line_name,
+  modeName: row.mode_name,
+  ...(row.from_status ? { from: row.from_status } : {}),
+  to: row.to_status,
+  severity: row.severity,
+  ...(row.reason ? { reason: row.reason } : {}),
+  isGoodService: row.is_good_service,
+  at: row.occurred_at,
+});
+
+// Records how each line changed between a snapshot and the one stored before it. Two writers storing
+// snapshots at once see the same previous one, so a change already recorded since then is skipped.
+export async function recordStatusChanges(
+  previous: StatusSnapshot | null,
+  snapshot: StatusSnapshot,
+  supabaseClient?: SupabaseClient
+): Promise<number> {
+  const changes = diffStatusSnapshots(previous, snapshot);
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  let fresh = changes;
+  if (previous) {
+    const { data, error } = await supabase
+      .from('service_status_changes')
+      .select('line_id, to_status')
+      .gt('occurred_at', previous.valid_at)
+      .in('line_id', changes.map((change) => change.lineId));
+    if (error) {
+      throw error;
+    }
+    const recorded = new Set(
+      ((data || []) as Array<Pick<ChangeRow, 'line_id' | 'to_status'>>).map((row) => `${row.line_id}|${row.to_status}`)
+    );
+    fresh = changes.filter((change) => !recorded.has(`${change.lineId}|${change.to}`));
+  }
+  if (fresh.length === 0) {
+    return 0;
+  }
+
+  const { error } = await supabase.from('service_status_changes').insert(fresh.map(toRow));
+  if (error) {
+    throw error;
+  }
+
+  return fresh.length;
+}
+
+// Changes since a time, oldest first, optionally for some lines only
+export async function loadStatusChanges(
+  since: Date,
+  lineIds?: string[],
+  supabaseClient?: SupabaseClient
+): Promise<StatusChange[]> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const changes: StatusChange[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('service_status_changes')
+      .select('line_id, line_name, mode_name, from_status, to_status, severity, reason, is_good_service, occurred_at')
+      .gte('occurred_at', since.toISOString());
+    if (lineIds && lineIds.length > 0) {
+      query = query.in('line_id', lineIds);
+    }
+
+    const { data, error } = await query
+      .order('occurred_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw error;
+    }
+
+    const rows = (data || []) as ChangeRow[];
+    rows.forEach((row) => changes.push(fromRow(row)));
+    if (rows.length < PAGE_SIZE) break;
+  }
+
+  return changes;
+}
+
+// Drops full snapshots older than a day and changes older than the history goes back. The latest snapshot is
+// always kept, since the next change is recorded against it.
+export async function pruneStatusHistory(
+  now: Date = new Date(),
+  supabaseClient?: SupabaseClient
+): Promise<StatusHistoryPruneResult> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { data: latest, error: latestError } = await supabase
+    .from('service_status_snapshots')
+    .select('valid_at')
+    .order('valid_at', { ascending: false })
+    .limit(1);
+  if (latestError) {
+    throw latestError;
+  }
+
+  let snapshots = 0;
+  const latestValidAt = (latest as Array<{ valid_at: string }> | null)?.[0]?.valid_at;
+  if (latestValidAt) {
+    const retention = now.getTime() - STATUS_SNAPSHOT_RETENTION_HOURS * HOUR_MS;
+    const cutoff = new Date(Math.min(retention, Date.parse(latestValidAt))).toISOString();
+    const { count, error } = await supabase
+      .from('service_status_snapshots')
+      .delete({ count: 'exact' })
+      .lt('valid_at', cutoff);
+    if (error) {
+      throw error;
+    }
+    snapshots = count ?? 0;
+  }
+
+  const changesCutoff = new Date(now.getTime() - STATUS_CHANGE_RETENTION_DAYS * 24 * HOUR_MS).toISOString();
+  const { count: changes, error: changesError } = await supabase
+    .from('service_status_changes')
+    .delete({ count: 'exact' })
+    .lt('occurred_at', changesCutoff);
+  if (changesError) {
+    throw changesError;
+  }
+
+  return { snapshots, changes: changes ?? 0 };
+}
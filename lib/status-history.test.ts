@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { LineStatus } from '@/types/tfl';
+import { buildLineTimelines, describeStatusChange, diffStatusSnapshots, type StatusChange } from './status-history';
+
+type Status = { severity: number; description: string; reason?: string };
+
+const GOOD: Status = { severity: 10, description: 'Good Service' };
+const MINOR: Status = { severity: 9, description: 'Minor Delays', reason: 'Signal failure at Bank' };
+const SEVERE: Status = { severity: 6, description: 'Severe Delays', reason: 'Signal failure at Bank' };
+const PART_CLOSURE: Status = { severity: 5, description: 'Part Closure', reason: 'Engineering works' };
+
+const line = (id: string, ...statuses: Status[]): LineStatus => ({
+  id,
+  name: id[0].toUpperCase() + id.slice(1),
+  modeName: 'tube',
+  lineStatuses: statuses.map((status) => ({
+    statusSeverity: status.severity,
+    statusSeverityDescription: status.description,
+    ...(status.reason ? { disruption: { description: status.reason } } : {}),
+  })),
+} as unknown as LineStatus);
+
+const snapshot = (valid_at: string, ...payload: LineStatus[]) => ({ valid_at, payload });
+
+const change = (at: string, to: Status, from?: Status): StatusChange => ({
+  lineId: 'central',
+  lineName: 'Central',
+  modeName: 'tube',
+  ...(from ? { from: from.description } : {}),
+  to: to.description,
+  severity: to.severity,
+  ...(to.reason ? { reason: to.reason } : {}),
+  isGoodService: to.severity === 10,
+  at,
+});
+
+describe('diffStatusSnapshots', () => {
+  it('reports only lines already disrupted in the first snapshot', () => {
+    const changes = diffStatusSnapshots(null, snapshot('2026-10-19T07:00:00Z', line('central', SEVERE), line('victoria', GOOD)));
+
+    expect(changes).toEqual([{
+      lineId: 'central',
+      lineName: 'Central',
+      modeName: 'tube',
+      to: 'Severe Delays',
+      severity: 6,
+      reason: 'Signal failure at Bank',
+      isGoodService: false,
+      at: '2026-10-19T07:00:00Z',
+    }]);
+  });
+
+  it('reports a status change and a line recovering', () => {
+    const changes = diffStatusSnapshots(
+      snapshot('2026-10-19T07:00:00Z', line('central', GOOD), line('victoria', MINOR)),
+      snapshot('2026-10-19T07:01:00Z', line('central', SEVERE), line('victoria', GOOD))
+    );
+
+    expect(changes.map(({ lineId, from, to, isGoodService }) => ({ lineId, from, to, isGoodService }))).toEqual([
+      { lineId: 'central', from: 'Good Service', to: 'Severe Delays', isGoodService: false },
+      { lineId: 'victoria', from: 'Minor Delays', to: 'Good Service', isGoodService: true },
+    ]);
+  });
+
+  it('counts a second status appearing as a change', () => {
+    const [added] = diffStatusSnapshots(
+      snapshot('2026-10-19T07:00:00Z', line('central', MINOR)),
+      snapshot('2026-10-19T07:01:00Z', line('central', MINOR, PART_CLOSURE))
+    );
+
+    expect(added).toEqual(expect.objectContaining({ from: 'Minor Delays', to: 'Minor Delays, Part Closure' }));
+  });
+
+  it('ignores a new reason under the same status', () => {
+    const changes = diffStatusSnapshots(
+      snapshot('2026-10-19T07:00:00Z', line('central', SEVERE)),
+      snapshot('2026-10-19T07:01:00Z', line('central', { ...SEVERE, reason: 'Earlier signal failure at Bank' }))
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it('treats a line missing from the previous snapshot like a first sighting', () => {
+    const changes = diffStatusSnapshots(
+      snapshot('2026-10-19T07:00:00Z', line('central', GOOD)),
+      snapshot('2026-10-19T07:01:00Z', line('central', GOOD), line('victoria', GOOD), line('jubilee', MINOR))
+    );
+
+    expect(changes.map((item) => [item.lineId, item.from])).toEqual([['jubilee', undefined]]);
+  });
+});
+
+describe('buildLineTimelines', () => {
+  it('marks when each disruption next changed and when it was resolved', () => {
+    const [timeline] = buildLineTimelines([
+      change('2026-10-19T08:30:00Z', GOOD, MINOR),
+      change('2026-10-19T07:14:00Z', MINOR, GOOD),
+      change('2026-10-19T07:40:00Z', SEVERE, MINOR),
+    ]);
+
+    expect(timeline.periods.map(({ to, until, resolvedAt }) => ({ to, until, resolvedAt }))).toEqual([
+      { to: 'Minor Delays', until: '2026-10-19T07:40:00Z', resolvedAt: '2026-10-19T08:30:00Z' },
+      { to: 'Severe Delays', until: '2026-10-19T08:30:00Z', resolvedAt: '2026-10-19T08:30:00Z' },
+      { to: 'Good Service', until: undefined, resolvedAt: undefined },
+    ]);
+    // 08:14 BST
+    expect(timeline.periods[0].summary).toBe('Central: Good Service → Minor Delays at 08:14, resolved 09:30');
+  });
+
+  it('leaves a disruption that still holds open', () => {
+    const [timeline] = buildLineTimelines([change('2026-10-19T07:14:00Z', SEVERE)]);
+
+    expect(timeline.periods[0].resolvedAt).toBeUndefined();
+    expect(timeline.periods[0].summary).toBe('Central: Severe Delays at 08:14');
+  });
+
+  it('groups changes by line in name order', () => {
+    const timelines = buildLineTimelines([
+      { ...change('2026-10-19T07:00:00Z', MINOR), lineId: 'victoria', lineName: 'Victoria' },
+      change('2026-10-19T07:05:00Z', SEVERE),
+    ]);
+
+    expect(timelines.map((timeline) => timeline.lineName)).toEqual(['Central', 'Victoria']);
+  });
+});
+
+describe('describeStatusChange', () => {
+  it('labels an end time on another London day with its date', () => {
+    // 23:30 BST on Monday, resolved 00:30 on Tuesday in London though still Monday in UTC
+    const summary = describeStatusChange({
+      ...change('2026-10-19T22:30:00Z', SEVERE, GOOD),
+      until: '2026-10-19T23:30:00Z',
+      resolvedAt: '2026-10-19T23:30:00Z',
+    });
+
+    expect(summary).toBe('Central: Good Service → Severe Delays at 23:30, resolved Tue 20 Oct 00:30');
+  });
+
+  it('leaves the date off an end time on the same London day', () => {
+    // 00:10 and 01:00 on Tuesday in London, though the start is still Monday in UTC
+    const summary = describeStatusChange({ ...change('2026-10-19T23:10:00Z', MINOR, GOOD), until: '2026-10-20T00:00:00Z' });
+
+    expect(summary).toBe('Central: Good Service → Minor Delays at 00:10, until 01:00');
+  });
+});
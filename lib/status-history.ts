@@ -0,0 +1,161 @@
+import type { LineStatus } from '@/types/tfl';
+import { summarizeLineStatus } from './status-matching';
+
+// Turns consecutive status snapshots into per-line status changes, and changes into per-line timelines
+// ("Central: Good Service → Severe Delays at 08:14, resolved 09:02"). Safe for client and server.
+
+// Full snapshots are kept this long; the changes recorded from them outlive them
+export const STATUS_SNAPSHOT_RETENTION_HOURS = 24;
+export const STATUS_CHANGE_RETENTION_DAYS = 90;
+
+export const DEFAULT_HISTORY_HOURS = 24;
+export const MAX_HISTORY_HOURS = STATUS_CHANGE_RETENTION_DAYS * 24;
+
+type SnapshotLike = { payload: LineStatus[]; valid_at: string };
+
+// A line's status in one snapshot. Every status TfL lists counts, so a second status appearing is a change.
+export type LineState = {
+  status: string;
+  severity: number;
+  reason?: string;
+  isGoodService: boolean;
+};
+
+// A line's status changing between two consecutive snapshots
+export type StatusChange = {
+  lineId: string;
+  lineName: string;
+  modeName: string;
+  // Absent when the line was first seen already disrupted
+  from?: string;
+  to: string;
+  severity: number;
+  reason?: string;
+  isGoodService: boolean;
+  at: string;
+};
+
+// A change in its line's timeline, with how long the status it started lasted
+export type StatusPeriod = StatusChange & {
+  // When the line's status next changed; absent while it still holds
+  until?: string;
+  // For a disruption, when the line was back to Good Service; absent while it is still disrupted
+  resolvedAt?: string;
+  summary: string;
+};
+
+export type LineTimeline = {
+  lineId: string;
+  lineName: string;
+  modeName: string;
+  // Oldest first
+  periods: StatusPeriod[];
+};
+
+export const lineState = (line: LineStatus): LineState => {
+  const summary = summarizeLineStatus(line);
+  const descriptions = Array.from(new Set(
+    (line.lineStatuses || []).map((status) => status.statusSeverityDescription).filter(Boolean)
+  ));
+
+  return {
+    status: descriptions.length > 0 ? descriptions.join(', ') : summary.severityDescription,
+    severity: summary.severity,
+    reason: summary.reason,
+    isGoodService: summary.isGoodService,
+  };
+};
+
+// Lines whose status in `next` differs from `previous`. Without a previous snapshot, or for a line it did not
+// list, only lines already disrupted are reported. A changed reason under the same status is not a change.
+export const diffStatusSnapshots = (previous: SnapshotLike | null, next: SnapshotLike): StatusChange[] => {
+  const before = new Map<string, LineState>();
+  (previous?.payload || []).forEach((line) => before.set(line.id, lineState(line)));
+
+  const changes: StatusChange[] = [];
+  next.payload.forEach((line) => {
+    const state = lineState(line);
+    const prior = before.get(line.id);
+    if (prior ? prior.status === state.status : state.isGoodService) return;
+
+    changes.push({
+      lineId: line.id,
+      lineName: line.name,
+      modeName: line.modeName,
+      ...(prior ? { from: prior.status } : {}),
+      to: state.status,
+      severity: state.severity,
+      ...(state.reason ? { reason: state.reason } : {}),
+      isGoodService: state.isGoodService,
+      at: next.valid_at,
+    });
+  });
+  return changes;
+};
+
+const londonParts = (value: string) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Europe/London',
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(value));
+  const part = (type: string) => parts.find((item) => item.type === type)?.value || '';
+  return {
+    date: `${part('weekday')} ${part('day')} ${part('month')}`,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+};
+
+// London wall-clock time, with the day in front when it is not the day of `since`
+const formatChangeTime = (value: string, since?: string): string => {
+  const { date, time } = londonParts(value);
+  return since && londonParts(since).date === date ? time : `${date} ${time}`;
+};
+
+export const describeStatusChange = (period: Omit<StatusPeriod, 'summary'>): string => {
+  const change = period.from ? `${period.from} → ${period.to}` : period.to;
+  let end = '';
+  if (period.resolvedAt) {
+    end = `, resolved ${formatChangeTime(period.resolvedAt, period.at)}`;
+  } else if (period.until && !period.isGoodService) {
+    end = `, until ${formatChangeTime(period.until, period.at)}`;
+  }
+  return `${period.lineName}: ${change} at ${londonParts(period.at).time}${end}`;
+};
+
+// Changes grouped into one timeline per line, lines in name order. Each disruption is marked with when the
+// status next changed and when the line was back to Good Service.
+export const buildLineTimelines = (changes: StatusChange[]): LineTimeline[] => {
+  const byLine = new Map<string, StatusChange[]>();
+  changes.forEach((change) => {
+    const list = byLine.get(change.lineId) || [];
+    list.push(change);
+    byLine.set(change.lineId, list);
+  });
+
+  const timelines: LineTimeline[] = [];
+  byLine.forEach((lineChanges) => {
+    const ordered = [...lineChanges].sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+    const periods = ordered.map((change, index): StatusPeriod => {
+      const next = ordered[index + 1];
+      const recovery = change.isGoodService
+        ? undefined
+        : ordered.slice(index + 1).find((later) => later.isGoodService);
+      const period = {
+        ...change,
+        ...(next ? { until: next.at } : {}),
+        ...(recovery ? { resolvedAt: recovery.at } : {}),
+      };
+      return { ...period, summary: describeStatusChange(period) };
+    });
+
+    const latest = ordered[ordered.length - 1];
+    timelines.push({ lineId: latest.lineId, lineName: latest.lineName, modeName: latest.modeName, periods });
+  });
+
+  return timelines.sort((a, b) => a.lineName.localeCompare(b.lineName));
+};
@@ -0,0 +1,142 @@
+import type { LineStatus } from '@/types/tfl';
+
+// Matches free-text status questions ("northern and victoria", "is the elizabeth line ok") to TfL lines.
+// Shared by /api/status and status answers from /api/ask.
+
+const STOP_WORDS = ['status', 'line', 'lines', 'service', 'services', 'tube', 'train', 'bus', 'dlr', 'overground'];
+
+// Question phrasing around line names, e.g. "Are there any delays on the Northern line right now?"
+const QUESTION_WORDS = [
+  'is', 'are', 'the', 'there', 'any', 'on', 'of', 'for', 'with', 'a',
+  'running', 'delays', 'delayed', 'delay', 'disruptions', 'disruption', 'problems', 'issues',
+  'ok', 'okay', 'how', 'what', 'whats', 'today', 'now', 'right', 'currently', 'good',
+];
+
+const cleanQuerySegment = (segment: string): string => {
+  let cleaned = segment.toLowerCase().replace(/['’]/g, '');
+
+  [...STOP_WORDS, ...QUESTION_WORDS].forEach((word) => {
+    cleaned = cleaned.replace(new RegExp(`\\b${word}\\b`, 'g'), ' ');
+  });
+
+  cleaned = cleaned.replace(/[^a-z0-9&\s-]/g, ' ');
+  return cleaned.replace(/\s+/g, ' ').trim();
+};
+
+const buildLineKeys = (line: LineStatus) => {
+  const id = line.id.toLowerCase();
+  const name = line.name.toLowerCase();
+  const nameNoLine = name.replace(/ line$/, '');
+  const normalizedId = id.replace(/[^a-z0-9]/g, '');
+  const normalizedName = name.replace(/[^a-z0-9]/g, '');
+  const normalizedNoLine = nameNoLine.replace(/[^a-z0-9]/g, '');
+
+  return {
+    id,
+    name,
+    nameNoLine,
+    normalizedId,
+    normalizedName,
+    normalizedNoLine,
+  };
+};
+
+const evaluateMatch = (line: LineStatus, segment: string) => {
+  const keys = buildLineKeys(line);
+  const base = segment;
+  const noLine = segment.replace(/ line$/, '');
+  const normalized = segment.replace(/[^a-z0-9]/g, '');
+  const normalizedNoLine = noLine.replace(/[^a-z0-9]/g, '');
+
+  const exact =
+    base === keys.name ||
+    base === keys.id ||
+    noLine === keys.name ||
+    noLine === keys.nameNoLine ||
+    normalized === keys.normalizedName ||
+    normalized === keys.normalizedId ||
+    normalizedNoLine === keys.normalizedNoLine;
+
+  const partial =
+    !exact &&
+    (keys.name.includes(base) ||
+      keys.name.includes(noLine) ||
+      keys.id.includes(base) ||
+      keys.normalizedName.includes(normalized) ||
+      keys.normalizedId.includes(normalized));
+
+  return { exact, partial };
+};
+
+export const findQueryMatches = (lines: LineStatus[], query: string) => {
+  const normalizedQuery = query.toLowerCase();
+
+  const segments = normalizedQuery
+    .split(/,|&|\/|\band\b/)
+    .map((part) => cleanQuerySegment(part))
+    .filter(Boolean);
+
+  const searchSegments = segments.length > 0 ? segments : [cleanQuerySegment(normalizedQuery)].filter(Boolean);
+
+  const exactMatches: LineStatus[] = [];
+  const partialMatches: LineStatus[] = [];
+  const seenExact = new Set<string>();
+  const seenPartial = new Set<string>();
+
+  searchSegments.forEach((segment) => {
+    lines.forEach((line) => {
+      if (seenExact.has(line.id)) {
+        return;
+      }
+
+      const { exact, partial } = evaluateMatch(line, segment);
+
+      if (exact && !seenExact.has(line.id)) {
+        exactMatches.push(line);
+        seenExact.add(line.id);
+        seenPartial.delete(line.id);
+      } else if (partial && !seenExact.has(line.id) && !seenPartial.has(line.id)) {
+        partialMatches.push(line);
+        seenPartial.add(line.id);
+      }
+    });
+  });
+
+  return { exactMatches, partialMatches };
+};
+
+// Compact status of one line for inline answers
+export interface LineStatusSummary {
+  id: string;
+  name: string;
+  modeName: string;
+  severity: number;
+  severityDescription: string;
+  reason?: string;
+  isGoodService: boolean;
+  // Stretches of the line TfL reports as affected, e.g. "Morden - Kennington"
+  affectedSections: string[];
+}
+
+export const summarizeLineStatus = (line: LineStatus): LineStatusSummary => {
+  // Same status /api/status reports for the line
+  const [primary] = line.lineStatuses || [];
+  const sections = (line.routeSections || [])
+    .map((section) =>
+      section.originationName && section.destinationName
+        ? `${section.originationName} – ${section.destinationName}`
+        : section.name
+    )
+    .filter(Boolean);
+
+  return {
+    id: line.id,
+    name: line.name,
+    modeName: line.modeName,
+    severity: primary?.statusSeverity || 10,
+    severityDescription: primary?.statusSeverityDescription || 'Good Service',
+    reason: primary?.disruption?.description,
+    isGoodService: (line.lineStatuses || []).every((status) => status.statusSeverity === 10),
+    affectedSections: Array.from(new Set(sections)),
+  };
+};
@@ -0,0 +1,58 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { StopCatalogue, isConfidentMatch } from './stop-catalogue';
+
+const row = (id: string, name: string, lineCount: number = 1) => ({
+  id,
+  name,
+  modes: ['tube'],
+  lines: Array.from({ length: lineCount }, (_, index) => ({ id: `line-${index}`, name: `Line ${index}` })),
+  zone: '1',
+  lat: 51.5,
+  lon: -0.1,
+  crs: null,
+});
+
+const ROWS = [
+  row('940GZZLUOXC', 'Oxford Circus Underground Station', 3),
+  row('940GZZLUPCC', 'Piccadilly Circus Underground Station', 2),
+  row('940GZZLUKSX', "King's Cross St. Pancras Underground Station", 6),
+];
+
+// Answers the two reads StopCatalogue makes: the paged catalogue and the aliases
+const fakeSupabase = () => ({
+  from: (table: string) => ({
+    select: () => table === 'stop_aliases'
+      ? Promise.resolve({ data: [], error: null })
+      : { order: () => ({ range: async () => ({ data: ROWS, error: null }) }) },
+  }),
+}) as unknown as SupabaseClient;
+
+const loadedCatalogue = async () => {
+  const catalogue = new StopCatalogue(fakeSupabase());
+  await catalogue.ensureLoaded();
+  return catalogue;
+};
+
+describe('StopCatalogue', () => {
+  it('is confident about exact, prefix and every-word matches', async () => {
+    const catalogue = await loadedCatalogue();
+
+    const exact = catalogue.search('KX');
+    expect(exact[0].stop.id).toBe('940GZZLUKSX');
+    expect(isConfidentMatch(exact[0])).toBe(true);
+
+    const words = catalogue.search('oxf ci');
+    expect(words[0]).toMatchObject({ tier: 2, stop: { id: '940GZZLUOXC' } });
+    expect(isConfidentMatch(words[0])).toBe(true);
+  });
+
+  it('treats typo-tolerant matches as guesses', async () => {
+    const catalogue = await loadedCatalogue();
+
+    const [match] = catalogue.search('picadily circus');
+    expect(match).toMatchObject({ tier: 3, stop: { id: '940GZZLUPCC' } });
+    expect(isConfidentMatch(match)).toBe(false);
+    expect(isConfidentMatch(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,333 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { StopPoint, Line } from '@/types/tfl';
+import { config } from './config';
+import { getServiceSupabase } from './supabase-server';
+import { TFLApiClient } from './tfl-client';
+import { extractCrsFromStopPoint } from './journey-planner/enhance';
+
+// Local catalogue of London stations, stored in the Supabase tables `stop_catalogue` and `stop_aliases`
+// and refreshed by /api/stations/catalogue/refresh. Searches run in memory so station autocomplete
+// does not need a TfL round trip per keystroke.
+
+export interface CatalogueStop {
+  id: string; // NaPTAN id of the station, e.g. 940GZZLUKSX
+  name: string;
+  modes: string[];
+  lines: Array<Pick<Line, 'id' | 'name'>>;
+  zone?: string;
+  lat: number;
+  lon: number;
+  crs?: string;
+  aliases: string[];
+}
+
+export interface CatalogueMatch {
+  stop: CatalogueStop;
+  // 0 = exact name/alias/CRS, 1 = name prefix, 2 = every word prefixed, 3 = typo-tolerant
+  tier: number;
+}
+
+// Typo-tolerant matches and worse are guesses: search also asks TfL rather than answering from them alone
+const CONFIDENT_MATCH_TIER = 2;
+
+export const isConfidentMatch = (match: CatalogueMatch | undefined): boolean =>
+  !!match && match.tier <= CONFIDENT_MATCH_TIER;
+
+type CatalogueRow = {
+  id: string;
+  name: string;
+  modes: string[] | null;
+  lines: Array<Pick<Line, 'id' | 'name'>> | null;
+  zone: string | null;
+  lat: number;
+  lon: number;
+  crs: string | null;
+};
+
+type IndexedStop = {
+  stop: CatalogueStop;
+  normalizedName: string;
+  tokens: string[];
+  normalizedAliases: string[];
+};
+
+const CATALOGUE_MODES = ['tube', 'dlr', 'overground', 'elizabeth-line', 'tram', 'national-rail'];
+const STATION_STOP_TYPES = new Set(['NaptanMetroStation', 'NaptanRailStation']);
+
+// Shorthand Londoners use for stations, matched against the start of the catalogue name
+const BUILT_IN_ALIASES: Record<string, string> = {
+  kx: "King's Cross St. Pancras",
+  'kings x': "King's Cross St. Pancras",
+  tcr: 'Tottenham Court Road',
+  'liv st': 'Liverpool Street',
+  'liv street': 'Liverpool Street',
+  'e and c': 'Elephant & Castle',
+  'shep bush': "Shepherd's Bush",
+  'clapham j': 'Clapham Junction',
+  'ally pally': 'Alexandra Palace',
+  canary: 'Canary Wharf',
+};
+
+// Reload the catalogue from Supabase at most this often per server instance
+const CATALOGUE_TTL_MS = 60 * 60 * 1000;
+// After a failed load, use TfL search for a while instead of retrying on every request
+const FAILURE_BACKOFF_MS = 60 * 1000;
+const PAGE_SIZE = 1000;
+
+export const normalizeStopName = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .replace(/\b(underground|dlr|rail|tram|overground|elizabeth line)?\s*station\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Edit distance with an early exit once it exceeds `max`
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+const allowedTypos = (token: string): number => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+const tokenMatches = (queryToken: string, nameToken: string, isLastQueryToken: boolean): boolean => {
+  if (nameToken === queryToken) return true;
+  // Only the word being typed may be incomplete
+  if (isLastQueryToken && nameToken.startsWith(queryToken)) return true;
+
+  const typos = allowedTypos(queryToken);
+  if (typos === 0) return false;
+  if (boundedEditDistance(queryToken, nameToken, typos) <= typos) return true;
+  // Typo inside a partially typed last word, e.g. "picadil" for "piccadilly"
+  return isLastQueryToken && boundedEditDistance(queryToken, nameToken.slice(0, queryToken.length), typos) <= typos;
+};
+
+const indexStop = (stop: CatalogueStop): IndexedStop => {
+  const normalizedName = normalizeStopName(stop.name);
+  return {
+    stop,
+    normalizedName,
+    tokens: normalizedName ? normalizedName.split(' ') : [],
+    normalizedAliases: stop.aliases.map(normalizeStopName).filter(Boolean),
+  };
+};
+
+const matchTier = (entry: IndexedStop, query: string, queryTokens: string[], rawQuery: string): number | null => {
+  if (entry.normalizedName === query || entry.normalizedAliases.includes(query)) return 0;
+  if (entry.stop.crs && rawQuery.trim().length === 3 && entry.stop.crs === rawQuery.trim().toUpperCase()) return 0;
+  if (entry.normalizedName.startsWith(query)) return 1;
+
+  const everyWordPrefixed = queryTokens.every((token) =>
+    entry.tokens.some((nameToken) => nameToken.startsWith(token))
+  );
+  if (everyWordPrefixed) return 2;
+
+  const lastIndex = queryTokens.length - 1;
+  const everyWordClose = queryTokens.every((token, index) =>
+    entry.tokens.some((nameToken) => tokenMatches(token, nameToken, index === lastIndex))
+  );
+  return everyWordClose ? 3 : null;
+};
+
+class StopCatalogue {
+  private supabaseClient?: SupabaseClient;
+  private entries: IndexedStop[] = [];
+  private loadedAt = 0;
+  private failedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(supabaseClient?: SupabaseClient) {
+    this.supabaseClient = supabaseClient;
+  }
+
+  private get supabase(): SupabaseClient {
+    return this.supabaseClient ?? getServiceSupabase();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  // Load (or reload) the catalogue; resolves to false when it is unavailable and callers should use TfL
+  async ensureLoaded(): Promise<boolean> {
+    const now = Date.now();
+    if (this.entries.length > 0 && now - this.loadedAt < CATALOGUE_TTL_MS) return true;
+    if (this.entries.length === 0 && now - this.failedAt < FAILURE_BACKOFF_MS) return false;
+
+    if (!this.loading) {
+      this.loading = this.load()
+        .catch((error) => {
+          this.failedAt = Date.now();
+          console.warn('Stop catalogue unavailable, falling back to TfL search:', error);
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    await this.loading;
+    return this.entries.length > 0;
+  }
+
+  private async load(): Promise<void> {
+    const rows: CatalogueRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('stop_catalogue')
+        .select('id, name, modes, lines, zone, lat, lon, crs')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      rows.push(...((data || []) as CatalogueRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const { data: aliasRows, error: aliasError } = await this.supabase.from('stop_aliases').select('alias, stop_id');
+    if (aliasError) throw aliasError;
+
+    const aliasesById = new Map<string, string[]>();
+    (aliasRows || []).forEach((row: { alias: string; stop_id: string }) => {
+      aliasesById.set(row.stop_id, [...(aliasesById.get(row.stop_id) || []), row.alias]);
+    });
+
+    const stops: CatalogueStop[] = rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      modes: row.modes || [],
+      lines: row.lines || [],
+      zone: row.zone || undefined,
+      lat: row.lat,
+      lon: row.lon,
+      crs: row.crs || undefined,
+      aliases: aliasesById.get(row.id) || [],
+    }));
+
+    // Attach built-in shorthand to the first station whose name starts with the target
+    Object.entries(BUILT_IN_ALIASES).forEach(([alias, target]) => {
+      const normalizedTarget = normalizeStopName(target);
+      const stop = stops.find((candidate) => normalizeStopName(candidate.name).startsWith(normalizedTarget));
+      if (stop && !stop.aliases.includes(alias)) stop.aliases.push(alias);
+    });
+
+    this.entries = stops.map(indexStop);
+    this.loadedAt = Date.now();
+  }
+
+  search(query: string, options: { modes?: string[]; limit?: number } = {}): CatalogueMatch[] {
+    const normalizedQuery = normalizeStopName(query);
+    if (!normalizedQuery) return [];
+
+    const queryTokens = normalizedQuery.split(' ');
+    const modeFilter = options.modes && options.modes.length > 0 ? new Set(options.modes) : null;
+    const matches: Array<CatalogueMatch & { entry: IndexedStop }> = [];
+
+    for (const entry of this.entries) {
+      if (modeFilter && !entry.stop.modes.some((mode) => modeFilter.has(mode))) continue;
+      const tier = matchTier(entry, normalizedQuery, queryTokens, query);
+      if (tier !== null) matches.push({ stop: entry.stop, tier, entry });
+    }
+
+    // Better tier first, then busier interchanges, then shorter names
+    matches.sort((a, b) =>
+      a.tier - b.tier
+      || b.stop.lines.length - a.stop.lines.length
+      || a.stop.name.length - b.stop.name.length
+      || a.stop.name.localeCompare(b.stop.name)
+    );
+
+    return matches.slice(0, options.limit ?? 20).map(({ stop, tier }) => ({ stop, tier }));
+  }
+}
+
+// Shape catalogue entries like TfL search results so existing formatters work unchanged
+export const catalogueStopToStopPoint = (stop: CatalogueStop): StopPoint => ({
+  id: stop.id,
+  naptanId: stop.id,
+  commonName: stop.name,
+  placeType: 'StopPoint',
+  lat: stop.lat,
+  lon: stop.lon,
+  modes: stop.modes,
+  zone: stop.zone,
+  lines: stop.lines.map((line) => ({ id: line.id, name: line.name, uri: `/Line/${line.id}`, type: 'Line', routeType: 'Unknown', status: 'Unknown' })),
+});
+
+const zoneFromStopPoint = (stopPoint: StopPoint): string | undefined =>
+  stopPoint.zone || stopPoint.additionalProperties?.find((prop) => prop.key === 'Zone')?.value || undefined;
+
+type RefreshOptions = {
+  supabaseClient?: SupabaseClient;
+};
+
+// Rebuild the catalogue from TfL. Rows not seen in this run are removed as closed or renamed stations.
+export async function refreshStopCatalogue(options: RefreshOptions = {}): Promise<{ count: number; refreshedAt: string }> {
+  const supabase = options.supabaseClient ?? getServiceSupabase();
+  const autofetchKeys = config.tfl.autofetchApiKeys;
+  const client = new TFLApiClient(autofetchKeys.length > 0 ? autofetchKeys : undefined, { cache: null });
+
+  const stopPoints = await client.getStopPointsByMode(CATALOGUE_MODES);
+  const byId = new Map<string, CatalogueRow>();
+
+  for (const stopPoint of stopPoints) {
+    if (!stopPoint.stopType || !STATION_STOP_TYPES.has(stopPoint.stopType)) continue;
+    const id = stopPoint.naptanId || stopPoint.id;
+    if (!id) continue;
+
+    const existing = byId.get(id);
+    const lines = (stopPoint.lines || []).map((line) => ({ id: line.id, name: line.name }));
+    if (existing) {
+      existing.modes = Array.from(new Set([...(existing.modes || []), ...(stopPoint.modes || [])]));
+      const knownLines = new Set((existing.lines || []).map((line) => line.id));
+      existing.lines = [...(existing.lines || []), ...lines.filter((line) => !knownLines.has(line.id))];
+      continue;
+    }
+
+    byId.set(id, {
+      id,
+      name: stopPoint.commonName,
+      modes: stopPoint.modes || [],
+      lines,
+      zone: zoneFromStopPoint(stopPoint) || null,
+      lat: stopPoint.lat,
+      lon: stopPoint.lon,
+      crs: extractCrsFromStopPoint(stopPoint) || null,
+    });
+  }
+
+  const refreshedAt = new Date().toISOString();
+  const rows = Array.from(byId.values()).map((row) => ({ ...row, updated_at: refreshedAt }));
+  if (rows.length === 0) {
+    throw new Error('TfL returned no stations; keeping the existing catalogue');
+  }
+
+  for (let index = 0; index < rows.length; index += 500) {
+    const { error } = await supabase.from('stop_catalogue').upsert(rows.slice(index, index + 500));
+    if (error) throw error;
+  }
+
+  const { error: pruneError } = await supabase.from('stop_catalogue').delete().lt('updated_at', refreshedAt);
+  if (pruneError) throw pruneError;
+
+  return { count: rows.length, refreshedAt };
+}
+
+export const stopCatalogue = new StopCatalogue();
+
+// Export the class for testing purposes
+export { StopCatalogue };
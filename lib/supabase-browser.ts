@@ -0,0 +1,31 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from './config';
+
+// Supabase in the browser, for sign-in only: the session lives in localStorage and its access token is sent to
+// our own routes, which read and write through the service client. Null when Supabase is not configured.
+
+let cachedBrowserClient: SupabaseClient | null = null;
+
+export function getBrowserSupabase(): SupabaseClient | null {
+  if (cachedBrowserClient) return cachedBrowserClient;
+  if (typeof window === 'undefined') return null;
+
+  const url = config.supabase.url;
+  const anonKey = config.supabase.anonKey;
+  if (!url || !anonKey) return null;
+
+  cachedBrowserClient = createClient(url, anonKey, {
+    auth: { persistSession: true, autoRefreshToken: true, detectSessionInUrl: true },
+    global: { headers: { 'X-Client-Info': 'spitro-web' } },
+  });
+
+  return cachedBrowserClient;
+}
+
+// The signed-in user's access token, for an Authorization header; null when signed out
+export async function getAccessToken(): Promise<string | null> {
+  const supabase = getBrowserSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
@@ -1,8 +1,11 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, type User } from '@supabase/supabase-js';
 import { config } from './config';
 
 let cachedServiceClient: SupabaseClient | null = null;
 
+export const isServiceSupabaseConfigured = (): boolean =>
+  !!config.supabase.url && !!config.supabase.serviceRoleKey;
+
 export function getServiceSupabase(): SupabaseClient {
   if (cachedServiceClient) return cachedServiceClient;
 
@@ -29,4 +32,30 @@ export type ServiceStatusSnapshot = {
   payload: unknown;
 };
 
+// The signed-in user behind a request's `Authorization: Bearer <access token>`, or null when there is none or it
+// does not check out
+export async function getRequestUser(request: Request, supabaseClient?: SupabaseClient): Promise<User | null> {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') || '');
+  if (!match) return null;
+
+  const supabase = supabaseClient ?? getServiceSupabase();
+  const { data, error } = await supabase.auth.getUser(match[1]);
+  if (error || !data.user) return null;
+  return data.user;
+}
 
+// Anonymous codes are random UUIDs a browser generates; anything else is refused rather than used as a key
+export const isValidAnonymousCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9-]{16,64}$/.test(value);
+
+// Whose rows a request reads and writes: the signed-in account, otherwise `anon:` and the browser's code, so a
+// code can never name an account's rows. Null when there is neither.
+export async function getRequestOwnerKey(
+  request: Request,
+  anonymousCode: unknown,
+  supabaseClient?: SupabaseClient
+): Promise<string | null> {
+  const user = await getRequestUser(request, supabaseClient);
+  if (user) return user.id;
+  return isValidAnonymousCode(anonymousCode) ? `anon:${anonymousCode}` : null;
+}
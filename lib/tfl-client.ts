@@ -1,5 +1,7 @@
 import { config } from './config';
 import { rankStopPoints } from './search-ranking';
+import { tflResponseCache, type ResponseCache } from './response-cache';
+import { rateLimiters, isRateLimitExceededError, type RateLimiter } from './rate-limiter';
 import type {
   StopPoint,
   JourneyPlannerResult,
@@ -34,6 +36,23 @@ const buildModeVariants = (mode: string): string[] => {
   return Array.from(variants);
 };
 
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// How long each kind of TfL response stays fresh; anything unmatched is not cached
+const CACHE_POLICIES: Array<{ group: string; pattern: RegExp; ttlMs: number }> = [
+  { group: 'arrivals', pattern: /^\/(StopPoint|Line)\/[^/]+\/Arrivals/i, ttlMs: 20_000 },
+  { group: 'line-status', pattern: /^\/Line\/(Mode\/[^/]+\/)?([^/]+\/)?(Status|Disruption)$/i, ttlMs: MINUTE_MS },
+  { group: 'journey', pattern: /^\/Journey\/JourneyResults\//i, ttlMs: 30_000 },
+  { group: 'stop-search', pattern: /^\/StopPoint\/Search$/i, ttlMs: 6 * HOUR_MS },
+  { group: 'stop-nearby', pattern: /^\/StopPoint$/i, ttlMs: HOUR_MS },
+  { group: 'stop-point', pattern: /^\/StopPoint\/[^/]+$/i, ttlMs: 6 * HOUR_MS },
+  { group: 'line-metadata', pattern: /^\/Line\/(Mode\/[^/]+$|[^/]+\/Route\/Sequence\/)/i, ttlMs: 6 * HOUR_MS },
+  { group: 'place', pattern: /^\/Place(\/|$)/i, ttlMs: 6 * HOUR_MS },
+];
+
+const getCachePolicy = (endpoint: string) => CACHE_POLICIES.find((policy) => policy.pattern.test(endpoint));
+
 interface TflClientError extends Error {
   status?: number;
   isRateLimit?: boolean;
@@ -47,8 +66,14 @@ class TFLApiClient {
   private rateLimitCooldowns: Map<string, number>;
   private roundRobinIndex: number;
   private headers: HeadersInit;
-
-  constructor(apiKeysOverride?: string[]) {
+  private cache: ResponseCache | null;
+  private rateLimiter: RateLimiter | null;
+
+  // Pass `cache: null` for callers that must always see live data (e.g. the status snapshot job)
+  constructor(
+    apiKeysOverride?: string[],
+    options: { cache?: ResponseCache | null; rateLimiter?: RateLimiter | null } = {}
+  ) {
     this.baseUrl = config.tfl.baseUrl;
     // Prefer explicit list if provided; otherwise fall back to primary/secondary
     const configuredKeys = Array.isArray(apiKeysOverride)
@@ -65,6 +90,10 @@ class TFLApiClient {
     this.headers = {
       'Content-Type': 'application/json',
     };
+    this.cache = options.cache !== undefined
+      ? options.cache
+      : (config.cache.enabled ? tflResponseCache : null);
+    this.rateLimiter = options.rateLimiter !== undefined ? options.rateLimiter : rateLimiters.tfl;
   }
 
   private buildUrl(endpoint: string, params?: Record<string, any>, apiKey?: string): string {
@@ -91,6 +120,22 @@ class TFLApiClient {
   }
 
   private async fetchApi<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
+    const policy = this.cache ? getCachePolicy(endpoint) : undefined;
+    if (!this.cache || !policy) {
+      return this.fetchFromNetwork<T>(endpoint, params);
+    }
+
+    // Keyed on the URL without the app_key so every key rotation shares the same entry
+    const cacheKey = new URL(this.buildUrl(endpoint, params));
+    cacheKey.searchParams.sort();
+    return this.cache.getOrLoad<T>(
+      `tfl:${cacheKey.toString()}`,
+      () => this.fetchFromNetwork<T>(endpoint, params),
+      { ttlMs: policy.ttlMs, group: policy.group }
+    );
+  }
+
+  private async fetchFromNetwork<T>(endpoint: string, params?: Record<string, any>): Promise<T> {
     const apiKeys = this.getApiKeysInPriorityOrder();
     let lastError: unknown;
 
@@ -107,11 +152,13 @@ class TFLApiClient {
       } catch (error) {
         lastError = error;
 
-        // If rate-limited on a specific key, mark it as cooling down
-        if (apiKey && this.isRateLimitError(error)) {
+        // If rate-limited on a specific key, mark it as cooling down. Budget shed locally by our own
+        // limiter is not a TfL cooldown; the next key is simply tried.
+        if (apiKey && this.isRateLimitError(error) && !isRateLimitExceededError(error)) {
           const retryAfterMs = (error as Partial<TflClientError>).retryAfterMs;
           const cooldownMs = typeof retryAfterMs === 'number' && retryAfterMs > 0 ? retryAfterMs : 60_000;
           this.rateLimitCooldowns.set(apiKey, Date.now() + cooldownMs);
+          this.rateLimiter?.pause(apiKey, cooldownMs);
         }
 
         const shouldRetry = this.shouldRetryWithNextKey(error, index, apiKeys.length);
@@ -155,8 +202,14 @@ class TFLApiClient {
       return [undefined];
     }
 
+    // Keys with local budget left go first so we spread load before any key queues
+    const limiter = this.rateLimiter;
+    const orderedKeys = limiter
+      ? [...usableKeys.filter((key) => limiter.hasCapacity(key)), ...usableKeys.filter((key) => !limiter.hasCapacity(key))]
+      : usableKeys;
+
     // Try configured usable keys first, then consider no-key as very last fallback
-    return [...usableKeys, undefined];
+    return [...orderedKeys, undefined];
   }
 
   private shouldRetryWithNextKey(error: unknown, attemptIndex: number, totalKeys: number): boolean {
@@ -219,6 +272,8 @@ class TFLApiClient {
   ): Promise<T> {
     const url = this.buildUrl(endpoint, params, apiKey);
 
+    await this.rateLimiter?.acquire(apiKey ?? 'anonymous');
+
     const response = await fetch(url, {
       method: 'GET',
       headers: this.headers,
@@ -308,6 +363,14 @@ class TFLApiClient {
     return rankStopPoints(matches, query);
   }
 
+  // All stop points served by the given modes (used to build the offline stop catalogue)
+  async getStopPointsByMode(modes: string[]): Promise<StopPoint[]> {
+    const response = await this.fetchApi<{ stopPoints?: StopPoint[] } | StopPoint[]>(
+      `/StopPoint/Mode/${modes.join(',')}`
+    );
+    return Array.isArray(response) ? response : response.stopPoints || [];
+  }
+
   // Get Stop Point by ID
   async getStopPoint(id: string): Promise<StopPoint> {
     return this.fetchApi<StopPoint>(`/StopPoint/${id}`);
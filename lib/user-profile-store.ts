@@ -0,0 +1,55 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getServiceSupabase } from './supabase-server';
+import { sanitizeUserProfile, type UserProfile } from './user-profile';
+
+// Signed-in users' profiles, one row per user in the Supabase table `user_profiles`
+// (user_id uuid primary key, profile jsonb, updated_at timestamptz)
+
+export async function loadUserProfile(userId: string, supabaseClient?: SupabaseClient): Promise<UserProfile | null> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('profile')
+    .eq('user_id', userId)
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return null;
+  }
+
+  return sanitizeUserProfile((data[0] as { profile: unknown }).profile);
+}
+
+// Keeps whichever of the stored and the incoming profile changed last, and returns it
+export async function saveUserProfile(
+  userId: string,
+  profile: UserProfile,
+  supabaseClient?: SupabaseClient
+): Promise<UserProfile> {
+  const supabase = supabaseClient ?? getServiceSupabase();
+
+  const stored = await loadUserProfile(userId, supabase);
+  if (stored && stored.updatedAt > profile.updatedAt) {
+    return stored;
+  }
+
+  const { error } = await supabase.from('user_profiles').upsert(
+    {
+      user_id: userId,
+      profile,
+      updated_at: new Date(profile.updatedAt || Date.now()).toISOString(),
+    },
+    { onConflict: 'user_id' }
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return profile;
+}
@@ -0,0 +1,82 @@
+import { DEFAULT_FARE_PROFILE, isFareProfileId, type FareProfileId } from './fares';
+import { sanitizeNamedPlaces } from './named-places';
+import type { AccessibilityOption, JourneyPreferences, NamedPlace, TransportMode } from '@/types';
+
+// The traveller's profile: default journey preferences, named places such as home and work, and fare profile. Kept in the browser and,
+// when signed in, in the Supabase table `user_profiles` through /api/profile. Safe to import from client components.
+
+// Searches use these modes unless the profile picks others
+export const DEFAULT_SEARCH_MODES: TransportMode[] = ['tube', 'bus', 'dlr', 'overground', 'walking', 'national-rail'];
+
+export const PROFILE_MODES: TransportMode[] = [
+  'tube', 'bus', 'dlr', 'overground', 'tram', 'national-rail', 'river-bus', 'cable-car', 'walking',
+];
+
+export const PROFILE_ACCESSIBILITY: AccessibilityOption[] = [
+  'step-free-platform', 'step-free-vehicle', 'audio-announcements', 'visual-displays',
+];
+
+const WALKING_SPEEDS: Array<NonNullable<JourneyPreferences['walkingSpeed']>> = ['slow', 'average', 'fast'];
+
+export type UserProfile = {
+  preferences: Pick<JourneyPreferences, 'modes' | 'walkingSpeed' | 'accessibility' | 'maxWalkingMinutes'>;
+  // Labelled places a query can name ("home to work"), in the order they are shown
+  places: NamedPlace[];
+  fareProfile: FareProfileId;
+  // Last change, so the newer of the browser's and the account's copy wins
+  updatedAt: number;
+};
+
+export const DEFAULT_USER_PROFILE: UserProfile = {
+  preferences: { modes: DEFAULT_SEARCH_MODES },
+  places: [],
+  fareProfile: DEFAULT_FARE_PROFILE,
+  updatedAt: 0,
+};
+
+// Profiles saved before named places had a single home and work name
+type LegacyProfile = { home?: { name?: unknown }; work?: { name?: unknown } };
+
+const legacyPlaces = (input: LegacyProfile): unknown[] => [
+  input.home && { label: 'Home', name: input.home.name },
+  input.work && { label: 'Work', name: input.work.name },
+].filter(Boolean);
+
+// A profile from storage or a request body, with anything unknown dropped and defaults filled in
+export const sanitizeUserProfile = (value: unknown): UserProfile => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<UserProfile> & LegacyProfile;
+  const preferences = (input.preferences && typeof input.preferences === 'object' ? input.preferences : {}) as UserProfile['preferences'];
+
+  const modes = Array.isArray(preferences.modes)
+    ? preferences.modes.filter((mode): mode is TransportMode => PROFILE_MODES.includes(mode))
+    : [];
+  const accessibility = Array.isArray(preferences.accessibility)
+    ? preferences.accessibility.filter((option): option is AccessibilityOption => PROFILE_ACCESSIBILITY.includes(option))
+    : [];
+  const maxWalkingMinutes = Number(preferences.maxWalkingMinutes);
+  const places = sanitizeNamedPlaces(Array.isArray(input.places) ? input.places : legacyPlaces(input));
+
+  return {
+    preferences: {
+      modes: modes.length > 0 ? modes : DEFAULT_SEARCH_MODES,
+      ...(preferences.walkingSpeed && WALKING_SPEEDS.includes(preferences.walkingSpeed)
+        ? { walkingSpeed: preferences.walkingSpeed }
+        : {}),
+      ...(accessibility.length > 0 ? { accessibility } : {}),
+      ...(Number.isFinite(maxWalkingMinutes) && maxWalkingMinutes > 0
+        ? { maxWalkingMinutes: Math.min(120, Math.round(maxWalkingMinutes)) }
+        : {}),
+    },
+    places,
+    fareProfile: isFareProfileId(input.fareProfile) ? input.fareProfile : DEFAULT_FARE_PROFILE,
+    updatedAt: typeof input.updatedAt === 'number' && Number.isFinite(input.updatedAt) ? input.updatedAt : 0,
+  };
+};
+
+// The preferences a search sends. Unset options are left out so anything said in the query still applies.
+export const profileJourneyPreferences = (profile: UserProfile): JourneyPreferences => ({
+  modes: profile.preferences.modes?.length ? profile.preferences.modes : DEFAULT_SEARCH_MODES,
+  ...(profile.preferences.walkingSpeed ? { walkingSpeed: profile.preferences.walkingSpeed } : {}),
+  ...(profile.preferences.accessibility?.length ? { accessibility: profile.preferences.accessibility } : {}),
+  ...(profile.preferences.maxWalkingMinutes ? { maxWalkingMinutes: profile.preferences.maxWalkingMinutes } : {}),
+});
@@ -0,0 +1,114 @@
+import { createDecipheriv, createECDH, createHmac, createPublicKey, verify } from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { config } from './config';
+import { encryptPayload, isValidPushSubscription, sendWebPush, type WebPushSubscription } from './web-push';
+
+const b64 = (value: string) => Buffer.from(value, 'base64url');
+
+// RFC 8291 Appendix A
+const RFC = {
+  plaintext: 'When I grow up, I want to be a watermelon',
+  asPrivate: 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw',
+  uaPublic: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  uaPrivate: 'q1dXpw3UpT5VOmu_cf_v6ih07Aems3njxI-JWgLcM94',
+  salt: 'DGv6ra1nlYgDCS1FRnbzlw',
+  authSecret: 'BTBZMqHH6r4Tts7J_aSIgg',
+  body:
+    'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_y'
+    + 'l95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN',
+};
+
+const subscription: WebPushSubscription = {
+  endpoint: 'https://push.example.com/send/abc',
+  keys: { p256dh: RFC.uaPublic, auth: RFC.authSecret },
+};
+
+const hmac = (key: Buffer, ...data: Buffer[]) =>
+  data.reduce((mac, chunk) => mac.update(chunk), createHmac('sha256', key)).digest();
+
+// Decrypts an aes128gcm body as the browser holding the RFC's user agent key would
+const decryptAsUserAgent = (body: Buffer): string => {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const senderKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const ua = createECDH('prime256v1');
+  ua.setPrivateKey(b64(RFC.uaPrivate));
+  const ikm = hmac(
+    hmac(b64(RFC.authSecret), ua.computeSecret(senderKey)),
+    Buffer.concat([Buffer.from('WebPush: info\0'), b64(RFC.uaPublic), senderKey]),
+    Buffer.from([1])
+  );
+  const prk = hmac(salt, ikm);
+  const contentKey = hmac(prk, Buffer.from('Content-Encoding: aes128gcm\0'), Buffer.from([1])).subarray(0, 16);
+  const nonce = hmac(prk, Buffer.from('Content-Encoding: nonce\0'), Buffer.from([1])).subarray(0, 12);
+
+  const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+  expect(padded[padded.length - 1]).toBe(2);
+  return padded.subarray(0, -1).toString('utf8');
+};
+
+describe('encryptPayload', () => {
+  it('matches the RFC 8291 example message', () => {
+    const body = encryptPayload(subscription, Buffer.from(RFC.plaintext), b64(RFC.salt), b64(RFC.asPrivate));
+
+    expect(body.toString('base64url')).toBe(RFC.body);
+  });
+
+  it('encrypts each message with a fresh salt and key the browser can decrypt', () => {
+    const first = encryptPayload(subscription, Buffer.from('{"title":"Central line"}'));
+    const second = encryptPayload(subscription, Buffer.from('{"title":"Central line"}'));
+
+    expect(first.subarray(0, 16).equals(second.subarray(0, 16))).toBe(false);
+    expect(first.readUInt32BE(16)).toBe(4096);
+    expect(decryptAsUserAgent(first)).toBe('{"title":"Central line"}');
+  });
+});
+
+describe('isValidPushSubscription', () => {
+  it('accepts https endpoints with a P-256 key and 16-byte secret', () => {
+    expect(isValidPushSubscription(subscription)).toBe(true);
+    expect(isValidPushSubscription({ ...subscription, endpoint: 'http://push.example.com/send/abc' })).toBe(false);
+    expect(isValidPushSubscription({ ...subscription, keys: { ...subscription.keys, auth: 'c2hvcnQ' } })).toBe(false);
+    expect(isValidPushSubscription(null)).toBe(false);
+  });
+});
+
+describe('sendWebPush', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends a VAPID-signed aes128gcm request', async () => {
+    const vapid = createECDH('prime256v1');
+    vapid.generateKeys();
+    Object.assign(config.webPush, {
+      vapidPublicKey: vapid.getPublicKey().toString('base64url'),
+      vapidPrivateKey: vapid.getPrivateKey().toString('base64url'),
+      vapidSubject: 'mailto:alerts@example.com',
+    });
+    const fetchMock = vi.fn(async () => new Response(null, { status: 410 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await sendWebPush(subscription, { title: 'Central line' }, { ttl: 600, urgency: 'high' });
+
+    expect(result).toEqual({ ok: false, status: 410, gone: true });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit & { headers: Record<string, string> }];
+    expect(url).toBe(subscription.endpoint);
+    expect(init.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm', TTL: '600', Urgency: 'high' });
+    expect(decryptAsUserAgent(Buffer.from(init.body as Uint8Array))).toBe('{"title":"Central line"}');
+
+    const [, token, key] = /^vapid t=([^,]+), k=(.+)$/.exec(init.headers.Authorization)!;
+    expect(key).toBe(config.webPush.vapidPublicKey);
+    const [header, claims, signature] = token.split('.');
+    expect(JSON.parse(b64(claims).toString())).toMatchObject({ aud: 'https://push.example.com', sub: 'mailto:alerts@example.com' });
+    const publicKey = createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: b64(key).subarray(1, 33).toString('base64url'), y: b64(key).subarray(33).toString('base64url') },
+      format: 'jwk',
+    });
+    expect(verify('sha256', Buffer.from(`${header}.${claims}`), { key: publicKey, dsaEncoding: 'ieee-p1363' }, b64(signature))).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { config as appConfig } from '@/lib/config';
+import { checkRateLimit, classifyRoute, createRateLimitStore, getClientId, SESSION_COOKIE } from '@/lib/api-rate-limit';
+import type { ApiResponse } from '@/types';
+
+const store = createRateLimitStore();
+
+export async function middleware(request: NextRequest) {
+  if (!appConfig.apiRateLimit.enabled || request.method === 'OPTIONS') {
+    return NextResponse.next();
+  }
+
+  const routeClass = classifyRoute(request.nextUrl.pathname, request.nextUrl.searchParams);
+
+  let decision;
+  try {
+    decision = await checkRateLimit(store, getClientId(request), routeClass);
+  } catch (error) {
+    // Fail open: an unavailable counter store must not take the API down
+    console.warn('API rate limit check failed:', error);
+    return NextResponse.next();
+  }
+
+  const headers = {
+    'X-RateLimit-Limit': String(decision.limit),
+    'X-RateLimit-Remaining': String(decision.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(decision.resetAt / 1000)),
+  };
+
+  if (!decision.allowed) {
+    return NextResponse.json<ApiResponse>({
+      status: 'error',
+      error: `Too many requests. Please try again in ${decision.retryAfterSeconds} seconds.`,
+      data: {
+        routeClass: decision.routeClass,
+        retryAfterSeconds: decision.retryAfterSeconds,
+      },
+    }, {
+      status: 429,
+      headers: { ...headers, 'Retry-After': String(decision.retryAfterSeconds) },
+    });
+  }
+
+  const response = NextResponse.next();
+  Object.entries(headers).forEach(([key, value]) => response.headers.set(key, value));
+
+  if (!request.cookies.get(SESSION_COOKIE)) {
+    response.cookies.set(SESSION_COOKIE, crypto.randomUUID(), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 30,
+    });
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,42 @@
+// Service worker for commute disruption alerts: shows each push as a notification and opens the alert history
+// (or the page the alert names) when it is tapped.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch (error) {
+    message = { body: event.data ? event.data.text() : '' };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Disruption on your commute', {
+      body: message.body || '',
+      // A newer status for the same line replaces the older notification
+      tag: message.tag,
+      renotify: !!message.tag,
+      data: { url: message.url || '/alerts/history' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/alerts/history', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url === url);
+      if (open) return open.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -27,6 +27,50 @@ export interface JourneySearchParams {
   departureTime?: Date;
   arrivalTime?: Date;
   preferences?: JourneyPreferences;
+  // Places the traveller picked from the resolution trace, used instead of the planner's own best match
+  pinnedPlaces?: PinnedPlace[];
+  // Plan the way back as well, from `to` to `from` through the vias in reverse
+  returnJourney?: ReturnJourneyParams;
+  // The traveller's labelled places ("home", "work"), resolved before any station search
+  namedPlaces?: NamedPlace[];
+}
+
+// Without a time the way back leaves once the first outbound option arrives
+export interface ReturnJourneyParams {
+  departureTime?: Date;
+  arrivalTime?: Date;
+}
+
+export type PlaceRole = 'from' | 'to' | 'via';
+
+export interface PinnedPlace {
+  role: PlaceRole;
+  index?: number; // position among the vias
+  location: string; // lat,lon
+  name: string;
+  stopPointId?: string;
+}
+
+export interface JourneyLine {
+  id: string; // TfL line id, e.g. "central"
+  name: string;
+}
+
+// A place the traveller refers to by their own label. Without `location` the planner searches for `name` instead.
+export interface NamedPlace {
+  label: string;
+  name: string; // station or address
+  location?: string; // lat,lon
+  stopPointId?: string;
+}
+
+// Marks where one chained sub-journey ends and the next begins in a multi-via journey
+export interface JourneyWaypoint {
+  name: string;
+  location: string; // lat,lon
+  legIndex: number; // index of the first leg after the waypoint
+  arrivalTime?: string;
+  departureTime?: string;
 }
 
 export interface JourneyPreferences {
@@ -46,12 +90,24 @@ export type AccessibilityOption = 'step-free-platform' | 'step-free-vehicle' | '
 
 export interface SavedJourney {
   id: string;
-  from: string;
-  to: string;
+  from: string; // lat,lon
+  to: string; // lat,lon
   fromName: string;
   toName: string;
+  via?: string[]; // lat,lon, in travel order
+  viaNames?: string[];
+  // What the traveller called it, e.g. "Home → Office"
+  name?: string;
+  // Lines the chosen option rode when it was saved, watched by commute alerts
+  lines?: JourneyLine[];
   timestamp: number;
   isFavorite?: boolean;
+  // Favourites are listed by position, lowest first
+  position?: number;
+  // Last change, for merging copies from other devices
+  updatedAt?: number;
+  // Kept as a tombstone so a removal reaches the other devices
+  deletedAt?: number;
 }
 
 export interface RecentSearch {
@@ -82,7 +138,7 @@ export interface StationInfo {
 }
 
 export interface StationFacility {
-  type: 'toilet' | 'baby-changing' | 'waiting-room' | 'atm' | 'payphone' | 'car-park' | 'bicycle-park';
+  type: 'toilet' | 'baby-changing' | 'waiting-room' | 'atm' | 'payphone' | 'car-park' | 'bicycle-park' | 'lift' | 'wifi';
   available: boolean;
   paymentRequired?: boolean;
   note?: string;
@@ -100,6 +156,22 @@ export interface StationAccessibility {
     available: boolean;
     hours?: string;
   };
+  note?: string; // e.g. which entrance or platforms are step-free
+}
+
+// A line calling at a station, with its current service status
+export interface StationLine {
+  id: string;
+  name: string;
+  modeName?: string;
+  statusSeverity?: number;
+  statusDescription?: string;
+  reason?: string;
+}
+
+export interface StationDetail {
+  station: StationInfo;
+  lines: StationLine[];
 }
 
 export interface AppError {
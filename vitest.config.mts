@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Run away from London so anything reading the host's zone instead of Europe/London shows up
+process.env.TZ = 'America/New_York';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules', '.next'],
+  },
+});